@@ -2,7 +2,7 @@
 'use client';
 
 import React from 'react';
-import { LayoutDashboard, Home, MessageSquare, Settings, LogOut, User } from 'lucide-react';
+import { LayoutDashboard, Home, MessageSquare, ShieldAlert, KeyRound, Users, Settings, LogOut, User } from 'lucide-react';
 import { useParams, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import styles from './layout.module.css';
@@ -16,6 +16,9 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
         { label: lang === 'ar' ? 'لوحة التحكم' : 'Dashboard', icon: LayoutDashboard, href: `/${lang}/admin` },
         { label: lang === 'ar' ? 'العقارات' : 'Properties', icon: Home, href: `/${lang}/admin/properties` },
         { label: lang === 'ar' ? 'الرسائل' : 'Leads', icon: MessageSquare, href: `/${lang}/admin/leads` },
+        { label: lang === 'ar' ? 'الأمان' : 'Security', icon: ShieldAlert, href: `/${lang}/admin/security` },
+        { label: lang === 'ar' ? 'المستخدمون' : 'Users', icon: Users, href: `/${lang}/admin/users` },
+        { label: lang === 'ar' ? 'الصلاحيات' : 'Permissions', icon: KeyRound, href: `/${lang}/admin/permissions` },
         { label: lang === 'ar' ? 'الإعدادات' : 'Settings', icon: Settings, href: `/${lang}/admin/settings` },
     ];
 
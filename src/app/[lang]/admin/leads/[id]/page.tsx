@@ -0,0 +1,484 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import {
+    AlertCircle,
+    ArrowLeft,
+    ArrowRightLeft,
+    CalendarCheck,
+    GitMerge,
+    Inbox,
+    Loader2,
+    Mail,
+    Phone,
+    StickyNote,
+    UserCheck
+} from 'lucide-react';
+import { LeadActivityType, LeadStatus, MANUAL_LEAD_ACTIVITY_TYPES, ManualLeadActivityType } from '@/core/entities/Lead';
+import styles from '../../admin.module.css';
+
+interface LeadDetail {
+    id: string;
+    name: string;
+    email: string;
+    phone: string | null;
+    subject: string | null;
+    message: string;
+    type: string;
+    status: LeadStatus;
+    priority: string;
+    score: number | null;
+    preferredContact: string;
+    property: { title: string | null; slug: string | null } | null;
+    assignedTo: string | null;
+    assigneeName: string | null;
+    lostReason: string | null;
+    source: string;
+    createdAt: string;
+    contactedAt: string | null;
+    qualifiedAt: string | null;
+    proposalAt: string | null;
+    wonAt: string | null;
+    lostAt: string | null;
+    nextStatuses: LeadStatus[];
+}
+
+interface Activity {
+    id: string;
+    type: LeadActivityType;
+    authorId: string | null;
+    authorName: string | null;
+    body: string | null;
+    details: {
+        from?: string | null;
+        to?: string | null;
+        lostReason?: string;
+        occurredAt?: string;
+        name?: string;
+        email?: string;
+        type?: string;
+        createdAt?: string;
+    };
+    createdAt: string;
+}
+
+interface Duplicate {
+    id: string;
+    name: string;
+    email: string;
+    phone: string | null;
+    type: string;
+    status: LeadStatus;
+    createdAt: string;
+    matchedOn: Array<'email' | 'phone' | 'name'>;
+}
+
+const ACTIVITY_ICONS = {
+    status_change: ArrowRightLeft,
+    assignment: UserCheck,
+    note: StickyNote,
+    call: Phone,
+    email: Mail,
+    viewing: CalendarCheck,
+    submission: Inbox,
+    merge: GitMerge,
+};
+
+export default function LeadDetailPage() {
+    const params = useParams();
+    const router = useRouter();
+    const lang = (params?.lang as string) || 'en';
+    const id = params?.id as string;
+    const isAr = lang === 'ar';
+    const locale = isAr ? 'ar-EG' : 'en-US';
+
+    const t = {
+        back: isAr ? 'العودة إلى الطلبات' : 'Back to leads',
+        details: isAr ? 'تفاصيل الطلب' : 'Lead Details',
+        stages: isAr ? 'مراحل المبيعات' : 'Pipeline Stages',
+        timeline: isAr ? 'سجل النشاط' : 'Activity',
+        email: isAr ? 'البريد الإلكتروني' : 'Email',
+        phone: isAr ? 'الهاتف' : 'Phone',
+        preferredContact: isAr ? 'وسيلة التواصل المفضلة' : 'Preferred contact',
+        property: isAr ? 'العقار' : 'Property',
+        source: isAr ? 'المصدر' : 'Source',
+        priority: isAr ? 'الأولوية' : 'Priority',
+        score: isAr ? 'النقاط' : 'Score',
+        agent: isAr ? 'الوكيل' : 'Agent',
+        unassigned: isAr ? 'غير مسند' : 'Unassigned',
+        message: isAr ? 'الرسالة' : 'Message',
+        generalInquiry: isAr ? 'استفسار عام' : 'General Inquiry',
+        moveTo: isAr ? 'نقل إلى...' : 'Move to...',
+        lostReason: isAr ? 'سبب الخسارة (اختياري)' : 'Reason the lead was lost (optional)',
+        created: isAr ? 'تم الإنشاء' : 'Created',
+        statuses: {
+            new: isAr ? 'جديد' : 'New',
+            contacted: isAr ? 'تم الاتصال' : 'Contacted',
+            qualified: isAr ? 'مؤهل' : 'Qualified',
+            proposal: isAr ? 'عرض مقدم' : 'Proposal',
+            won: isAr ? 'تم الفوز' : 'Won',
+            lost: isAr ? 'خسارة' : 'Lost',
+        } as Record<LeadStatus, string>,
+        activityTypes: {
+            status_change: isAr ? 'تغيير الحالة' : 'Status changed',
+            assignment: isAr ? 'الإسناد' : 'Assignment',
+            note: isAr ? 'ملاحظة' : 'Note',
+            call: isAr ? 'مكالمة' : 'Call',
+            email: isAr ? 'بريد إلكتروني' : 'Email',
+            viewing: isAr ? 'معاينة' : 'Viewing',
+            submission: isAr ? 'طلب متكرر' : 'Submitted again',
+            merge: isAr ? 'دمج طلب مكرر' : 'Duplicate merged',
+        } as Record<LeadActivityType, string>,
+        assignedTo: isAr ? 'أسند إلى' : 'Assigned to',
+        unassignedFrom: isAr ? 'أزيل الإسناد من' : 'Unassigned from',
+        reason: isAr ? 'السبب' : 'Reason',
+        when: isAr ? 'الموعد' : 'When',
+        system: isAr ? 'النظام' : 'System',
+        add: isAr ? 'إضافة' : 'Add',
+        bodyPlaceholder: isAr ? 'ما الذي حدث؟' : 'What happened?',
+        empty: isAr ? 'لا يوجد نشاط بعد' : 'No activity yet',
+        duplicates: isAr ? 'طلبات مكررة محتملة' : 'Possible duplicates',
+        matchedOn: isAr ? 'تطابق في' : 'Matched on',
+        merge: isAr ? 'دمج في هذا الطلب' : 'Merge into this lead',
+        confirmMerge: isAr
+            ? 'سيتم نقل سجل الطلبات المحددة إلى هذا الطلب ثم حذفها. هل تريد المتابعة؟'
+            : 'The selected leads\' history moves to this lead and they are deleted. Continue?',
+        originally: isAr ? 'في الأصل' : 'originally',
+    };
+
+    const [lead, setLead] = useState<LeadDetail | null>(null);
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [users, setUsers] = useState<Record<string, string>>({});
+    const [duplicates, setDuplicates] = useState<Duplicate[]>([]);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [type, setType] = useState<ManualLeadActivityType>('note');
+    const [body, setBody] = useState('');
+    const [occurredAt, setOccurredAt] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    const load = useCallback(async () => {
+        try {
+            const [leadRes, activitiesRes, duplicatesRes] = await Promise.all([
+                fetch(`/api/leads/${encodeURIComponent(id)}`),
+                fetch(`/api/leads/${encodeURIComponent(id)}/activities`),
+                fetch(`/api/leads/${encodeURIComponent(id)}/duplicates`),
+            ]);
+
+            if (leadRes.status === 401) {
+                router.push(`/${lang}/login`);
+                return;
+            }
+
+            const [leadData, activitiesData] = await Promise.all([leadRes.json(), activitiesRes.json()]);
+            if (!leadRes.ok) throw new Error(leadData.error || 'Failed to load the lead');
+            if (!activitiesRes.ok) throw new Error(activitiesData.error || 'Failed to load the activity');
+
+            setLead(leadData.data);
+            setActivities(activitiesData.data);
+            setUsers(activitiesData.users || {});
+
+            // The duplicate check is a convenience; the page works without it
+            const duplicatesData = duplicatesRes.ok ? await duplicatesRes.json() : null;
+            setDuplicates(duplicatesData?.data || []);
+            setSelected([]);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [id, lang, router]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    async function run(task: () => Promise<void>) {
+        setBusy(true);
+        setError('');
+        try {
+            await task();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    const moveTo = (status: LeadStatus) => {
+        if (!lead) return;
+
+        let lostReason: string | undefined;
+        if (status === 'lost') {
+            const reason = window.prompt(t.lostReason);
+            if (reason === null) return;
+            lostReason = reason || undefined;
+        }
+
+        run(async () => {
+            const res = await fetch('/api/leads', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: lead.id, status, lostReason }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to update the lead');
+
+            await load();
+        });
+    };
+
+    const mergeSelected = () => {
+        if (selected.length === 0 || !window.confirm(t.confirmMerge)) return;
+
+        run(async () => {
+            const res = await fetch(`/api/leads/${encodeURIComponent(id)}/duplicates`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ duplicateIds: selected }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to merge the leads');
+
+            await load();
+        });
+    };
+
+    const submitActivity = (event: FormEvent) => {
+        event.preventDefault();
+
+        run(async () => {
+            const res = await fetch(`/api/leads/${encodeURIComponent(id)}/activities`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    type,
+                    body: body.trim(),
+                    occurredAt: occurredAt ? new Date(occurredAt).toISOString() : undefined,
+                }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to log the activity');
+
+            setActivities(current => [data.data, ...current]);
+            setBody('');
+            setOccurredAt('');
+        });
+    };
+
+    const formatDate = (value: string) => new Date(value).toLocaleString(locale);
+    const userName = (userId?: string | null) => (userId ? users[userId] || userId : t.unassigned);
+
+    const describe = (activity: Activity) => {
+        if (activity.type === 'status_change') {
+            const from = activity.details.from as LeadStatus;
+            const to = activity.details.to as LeadStatus;
+            return `${t.statuses[from] || from} → ${t.statuses[to] || to}`
+                + (activity.details.lostReason ? ` · ${t.reason}: ${activity.details.lostReason}` : '');
+        }
+
+        if (activity.type === 'assignment') {
+            return activity.details.to
+                ? `${t.assignedTo} ${userName(activity.details.to)}`
+                : `${t.unassignedFrom} ${userName(activity.details.from)}`;
+        }
+
+        if (activity.type === 'submission' || activity.type === 'merge') {
+            const { name, email, type: leadType, createdAt } = activity.details;
+            return `${name} <${email}> · ${leadType}`
+                + (createdAt ? ` · ${t.originally} ${formatDate(createdAt)}` : '')
+                + (activity.body ? ` · ${activity.body}` : '');
+        }
+
+        return activity.body
+            + (activity.details.occurredAt ? ` · ${t.when}: ${formatDate(activity.details.occurredAt)}` : '');
+    };
+
+    const stages: Array<[string, string | null]> = lead ? [
+        [t.created, lead.createdAt],
+        [t.statuses.contacted, lead.contactedAt],
+        [t.statuses.qualified, lead.qualifiedAt],
+        [t.statuses.proposal, lead.proposalAt],
+        [t.statuses.won, lead.wonAt],
+        [t.statuses.lost, lead.lostAt],
+    ] : [];
+
+    return (
+        <div className={styles.container}>
+            <Link href={`/${lang}/admin/leads`} className={`${styles.backButton} ${styles.mb05}`}>
+                <ArrowLeft size={16} /> {t.back}
+            </Link>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+
+            {!lead ? (
+                !error && <Loader2 className={styles.spinner} size={40} />
+            ) : (
+                <>
+                    <div className={styles.header}>
+                        <div>
+                            <h1>{lead.name}</h1>
+                            <p className={styles.subtitle}>
+                                {lead.type} · {lead.subject || lead.property?.title || t.generalInquiry}
+                            </p>
+                        </div>
+                        <div className={styles.flexGap1}>
+                            <span className={`${styles.statusBadge} ${styles[lead.status]}`}>
+                                {t.statuses[lead.status]}
+                            </span>
+                            <select
+                                value=""
+                                onChange={event => moveTo(event.target.value as LeadStatus)}
+                                disabled={busy || lead.nextStatuses.length === 0}
+                                aria-label={t.moveTo}
+                            >
+                                <option value="">{t.moveTo}</option>
+                                {lead.nextStatuses.map(status => (
+                                    <option key={status} value={status}>{t.statuses[status]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className={styles.section}>
+                        <div className={styles.sectionHeader}>
+                            <h2>{t.details}</h2>
+                        </div>
+                        <div className={styles.tableWrapper}>
+                            <table className={styles.table}>
+                                <tbody>
+                                    <tr><td className={styles.leadName}>{t.email}</td><td>{lead.email}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.phone}</td><td>{lead.phone || '—'}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.preferredContact}</td><td>{lead.preferredContact}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.property}</td><td>{lead.property?.title || t.generalInquiry}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.source}</td><td>{lead.source}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.priority}</td><td>{lead.priority}{lead.score !== null ? ` · ${t.score} ${lead.score}` : ''}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.agent}</td><td>{lead.assigneeName || lead.assignedTo || t.unassigned}</td></tr>
+                                    <tr><td className={styles.leadName}>{t.message}</td><td className={styles.messageCell}>{lead.message}</td></tr>
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <h3 className={`${styles.securityCardTitle} ${styles.mt2}`}>{t.stages}</h3>
+                        <div className={styles.flexGap1}>
+                            {stages.filter(([, at]) => at).map(([label, at]) => (
+                                <span key={label} className={styles.securityCardDesc}>
+                                    {label}: {formatDate(at!)}
+                                </span>
+                            ))}
+                        </div>
+                        {lead.status === 'lost' && lead.lostReason && (
+                            <p className={styles.securityCardDesc}>{t.reason}: {lead.lostReason}</p>
+                        )}
+                    </div>
+
+                    {duplicates.length > 0 && (
+                        <div className={`${styles.section} ${styles.mt2}`}>
+                            <div className={styles.sectionHeader}>
+                                <h2>{t.duplicates}</h2>
+                                <button
+                                    type="button"
+                                    className={`${styles.btnFilter} ${styles.btnFilterActive}`}
+                                    onClick={mergeSelected}
+                                    disabled={busy || selected.length === 0}
+                                >
+                                    <GitMerge size={14} /> {t.merge}
+                                </button>
+                            </div>
+                            <ul className={styles.sessionList}>
+                                {duplicates.map(duplicate => (
+                                    <li key={duplicate.id} className={styles.sessionItem}>
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.includes(duplicate.id)}
+                                            onChange={event => setSelected(current => event.target.checked
+                                                ? [...current, duplicate.id]
+                                                : current.filter(selectedId => selectedId !== duplicate.id))}
+                                            aria-label={`${t.merge}: ${duplicate.name}`}
+                                        />
+                                        <div className={styles.flex1}>
+                                            <Link href={`/${lang}/admin/leads/${duplicate.id}`} className={styles.leadName}>
+                                                {duplicate.name}
+                                            </Link>
+                                            <p className={styles.securityCardDesc}>
+                                                {duplicate.email}{duplicate.phone ? ` · ${duplicate.phone}` : ''}
+                                                {' · '}{duplicate.type}{' · '}{formatDate(duplicate.createdAt)}
+                                            </p>
+                                            <p className={styles.securityCardDesc}>
+                                                {t.matchedOn}: {duplicate.matchedOn.join(', ')}
+                                            </p>
+                                        </div>
+                                        <span className={`${styles.statusBadge} ${styles[duplicate.status]}`}>
+                                            {t.statuses[duplicate.status]}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className={`${styles.section} ${styles.mt2}`}>
+                        <div className={styles.sectionHeader}>
+                            <h2>{t.timeline}</h2>
+                        </div>
+
+                        <form className={`${styles.securityFilters} ${styles.mb05}`} onSubmit={submitActivity}>
+                            <select value={type} onChange={event => setType(event.target.value as ManualLeadActivityType)} aria-label={t.timeline}>
+                                {MANUAL_LEAD_ACTIVITY_TYPES.map(option => (
+                                    <option key={option} value={option}>{t.activityTypes[option]}</option>
+                                ))}
+                            </select>
+                            <input
+                                className={styles.flex1}
+                                value={body}
+                                onChange={event => setBody(event.target.value)}
+                                placeholder={t.bodyPlaceholder}
+                                required
+                            />
+                            {type !== 'note' && (
+                                <input
+                                    type="datetime-local"
+                                    value={occurredAt}
+                                    onChange={event => setOccurredAt(event.target.value)}
+                                    aria-label={t.when}
+                                />
+                            )}
+                            <button type="submit" className={`${styles.btnFilter} ${styles.btnFilterActive}`} disabled={busy}>
+                                {busy ? <Loader2 className={styles.spinner} size={14} /> : null} {t.add}
+                            </button>
+                        </form>
+
+                        {activities.length === 0 ? (
+                            <p className={styles.securityCardDesc}>{t.empty}</p>
+                        ) : (
+                            <ul className={styles.sessionList}>
+                                {activities.map(activity => {
+                                    const Icon = ACTIVITY_ICONS[activity.type];
+                                    return (
+                                        <li key={activity.id} className={styles.sessionItem}>
+                                            <Icon size={20} />
+                                            <div className={styles.flex1}>
+                                                <strong>{t.activityTypes[activity.type]}</strong>
+                                                <p className={styles.securityCardDesc}>{describe(activity)}</p>
+                                                <p className={styles.securityCardDesc}>
+                                                    {activity.authorName || activity.authorId || t.system}
+                                                    {' · '}
+                                                    {formatDate(activity.createdAt)}
+                                                </p>
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,39 +1,158 @@
-
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { DragEvent, FormEvent, useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import {
     Mail,
     Phone,
     Calendar,
-    User,
-    CheckCircle,
-    XCircle,
-    Clock,
-    MoreVertical,
     Eye,
-    Check,
-    MessageSquare,
     Loader2,
-    AlertCircle
+    AlertCircle,
+    LayoutList,
+    Columns3,
+    SlidersHorizontal,
+    ChevronLeft,
+    ChevronRight,
+    Download,
+    Trash2,
+    X
 } from 'lucide-react';
+import { LEAD_STATUSES, LEAD_TYPES, LeadStatus } from '@/core/entities/Lead';
 import styles from '../admin.module.css';
 
+interface LeadItem {
+    id: string;
+    name: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string | null;
+    type: string;
+    status: LeadStatus;
+    priority: string;
+    score: number | null;
+    property: { id: string | null; title: string | null; slug: string | null } | null;
+    assignedTo: string | null;
+    createdAt: string;
+    nextStatuses: LeadStatus[];
+}
+
+interface Assignee {
+    id: string;
+    name: string;
+    email: string;
+}
+
+type View = 'table' | 'pipeline';
+
+interface Filters {
+    type: string;
+    q: string;
+    source: string;
+    from: string;
+    to: string;
+    property: { id: string; title: string } | null;
+}
+
+const NO_FILTERS: Filters = { type: '', q: '', source: '', from: '', to: '', property: null };
+
+const PAGE_SIZE = 25;
+
 export default function LeadsAdminPage() {
     const params = useParams();
     const router = useRouter();
     const lang = (params?.lang as string) || 'en';
+    const isAr = lang === 'ar';
 
-    const [leads, setLeads] = useState<any[]>([]);
+    const [leads, setLeads] = useState<LeadItem[]>([]);
+    const [counts, setCounts] = useState<Record<LeadStatus, number> | null>(null);
+    const [assignees, setAssignees] = useState<Assignee[] | null>(null);
     const [loading, setLoading] = useState(true);
-    const [statusFilter, setStatusFilter] = useState('all');
+    const [error, setError] = useState('');
+    const [view, setView] = useState<View>('table');
+    const [statusFilter, setStatusFilter] = useState<LeadStatus | 'all'>('all');
+    const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+    const [draft, setDraft] = useState<Filters>(NO_FILTERS);
+    const [page, setPage] = useState(1);
+    const [pagination, setPagination] = useState<{ page: number; totalPages: number; total: number } | null>(null);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [busy, setBusy] = useState(false);
+    const [dragged, setDragged] = useState<LeadItem | null>(null);
+    const [dropTarget, setDropTarget] = useState<LeadStatus | null>(null);
+
+    const t = {
+        title: isAr ? 'إدارة الطلبات' : 'Leads Management',
+        all: isAr ? 'الكل' : 'All',
+        statuses: {
+            new: isAr ? 'جديد' : 'New',
+            contacted: isAr ? 'تم الاتصال' : 'Contacted',
+            qualified: isAr ? 'مؤهل' : 'Qualified',
+            proposal: isAr ? 'عرض مقدم' : 'Proposal',
+            won: isAr ? 'تم الفوز' : 'Won',
+            lost: isAr ? 'خسارة' : 'Lost',
+        } as Record<LeadStatus, string>,
+        table: isAr ? 'جدول' : 'Table',
+        pipeline: isAr ? 'مسار المبيعات' : 'Pipeline',
+        rules: isAr ? 'قواعد التوزيع' : 'Routing rules',
+        score: isAr ? 'النقاط' : 'Score',
+        name: isAr ? 'الاسم' : 'Name',
+        contact: isAr ? 'الاتصال' : 'Contact',
+        property: isAr ? 'العقار' : 'Property',
+        date: isAr ? 'التاريخ' : 'Date',
+        status: isAr ? 'الحالة' : 'Status',
+        agent: isAr ? 'الوكيل' : 'Agent',
+        unassigned: isAr ? 'غير مسند' : 'Unassigned',
+        moveTo: isAr ? 'نقل إلى...' : 'Move to...',
+        actions: isAr ? 'إجراءات' : 'Actions',
+        lostReason: isAr ? 'سبب الخسارة (اختياري)' : 'Reason the lead was lost (optional)',
+        generalInquiry: isAr ? 'استفسار عام' : 'General Inquiry',
+        noLeads: isAr ? 'لا توجد طلبات' : 'No leads found',
+        allTypes: isAr ? 'كل الأنواع' : 'All types',
+        search: isAr ? 'بحث بالاسم أو البريد أو الرسالة' : 'Search name, email or message',
+        source: isAr ? 'المصدر' : 'Source',
+        from: isAr ? 'من' : 'From',
+        to: isAr ? 'إلى' : 'To',
+        apply: isAr ? 'تطبيق' : 'Apply',
+        clear: isAr ? 'مسح' : 'Clear',
+        filterByProperty: isAr ? 'عرض طلبات هذا العقار فقط' : 'Only leads for this property',
+        export: isAr ? 'تصدير CSV' : 'Export CSV',
+        selected: (count: number) => (isAr ? `${count} محدد` : `${count} selected`),
+        selectAll: isAr ? 'تحديد الكل في هذه الصفحة' : 'Select all on this page',
+        select: isAr ? 'تحديد' : 'Select',
+        assignTo: isAr ? 'إسناد إلى...' : 'Assign to...',
+        delete: isAr ? 'حذف' : 'Delete',
+        confirmDelete: (count: number) => (isAr
+            ? `حذف ${count} طلب نهائياً مع سجل نشاطها؟`
+            : `Permanently delete ${count} lead(s) and their activity?`),
+        partialFailure: (count: number, reason: string) => (isAr
+            ? `لم يتم تحديث ${count} طلب: ${reason}`
+            : `${count} lead(s) were not updated: ${reason}`),
+        page: (current: number, total: number) => (isAr ? `صفحة ${current} من ${total}` : `Page ${current} of ${total}`),
+        total: (count: number) => (isAr ? `${count} طلب` : `${count} leads`),
+    };
+
+    const buildQuery = useCallback((includeStatus: boolean) => {
+        const query = new URLSearchParams();
+        if (includeStatus && statusFilter !== 'all') query.set('status', statusFilter);
+        if (filters.type) query.set('type', filters.type);
+        if (filters.q) query.set('q', filters.q);
+        if (filters.source) query.set('source', filters.source);
+        if (filters.from) query.set('from', filters.from);
+        if (filters.to) query.set('to', filters.to);
+        if (filters.property) query.set('property', filters.property.id);
+        return query;
+    }, [statusFilter, filters]);
 
     const fetchLeads = useCallback(async () => {
         setLoading(true);
         try {
-            const url = `/api/leads?limit=50${statusFilter !== 'all' ? `&status=${statusFilter}` : ''}`;
-            const res = await fetch(url);
+            // The board shows every stage, so it ignores the status filter and paging
+            const query = buildQuery(view === 'table');
+            query.set('page', view === 'table' ? String(page) : '1');
+            query.set('limit', view === 'table' ? String(PAGE_SIZE) : '100');
+            const res = await fetch(`/api/leads?${query}`);
 
             if (res.status === 401) {
                 router.push(`/${lang}/login`);
@@ -43,24 +162,38 @@ export default function LeadsAdminPage() {
             const result = await res.json();
             if (result.success) {
                 setLeads(result.data);
+                setCounts(result.summary?.byStatus ?? null);
+                setPagination(result.pagination);
+                setSelected(current => current.filter(id => result.data.some((lead: LeadItem) => lead.id === id)));
+            } else {
+                setError(result.error);
             }
-        } catch (error) {
-            console.error('Failed to fetch leads:', error);
+        } catch (err) {
+            console.error('Failed to fetch leads:', err);
         } finally {
             setLoading(false);
         }
-    }, [statusFilter, lang, router]);
+    }, [view, page, buildQuery, lang, router]);
 
     useEffect(() => {
         fetchLeads();
     }, [fetchLeads]);
 
-    async function updateLeadStatus(id: string, newStatus: string) {
+    // Only users who can assign leads get the agent list
+    useEffect(() => {
+        fetch('/api/leads/agents')
+            .then(res => (res.ok ? res.json() : null))
+            .then(result => setAssignees(result?.success ? result.data : null))
+            .catch(() => setAssignees(null));
+    }, []);
+
+    async function updateLead(id: string, changes: Record<string, unknown>) {
+        setError('');
         try {
             const res = await fetch('/api/leads', {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ id, status: newStatus })
+                body: JSON.stringify({ id, ...changes })
             });
 
             if (res.status === 401) {
@@ -69,28 +202,171 @@ export default function LeadsAdminPage() {
             }
 
             const result = await res.json();
-            if (result.success) {
-                setLeads(prev => prev.map(lead => lead.id === id ? { ...lead, status: newStatus } : lead));
+            if (!result.success) {
+                setError(result.error);
+                return;
+            }
+
+            const previous = leads.find(lead => lead.id === id);
+            setLeads(prev => prev.map(lead => lead.id === id ? result.data : lead));
+            if (previous && counts && previous.status !== result.data.status) {
+                setCounts({
+                    ...counts,
+                    [previous.status]: counts[previous.status] - 1,
+                    [result.data.status]: counts[result.data.status as LeadStatus] + 1,
+                });
             }
-        } catch (error) {
-            console.error('Update status failed:', error);
+        } catch (err) {
+            console.error('Update lead failed:', err);
         }
     }
 
-    const t = {
-        title: lang === 'ar' ? 'إدارة الطلبات' : 'Leads Management',
-        all: lang === 'ar' ? 'الكل' : 'All',
-        new: lang === 'ar' ? 'جديد' : 'New',
-        contacted: lang === 'ar' ? 'تم الاتصال' : 'Contacted',
-        closed: lang === 'ar' ? 'مغلق' : 'Closed',
-        name: lang === 'ar' ? 'الاسم' : 'Name',
-        contact: lang === 'ar' ? 'الاتصال' : 'Contact',
-        property: lang === 'ar' ? 'العقار' : 'Property',
-        date: lang === 'ar' ? 'التاريخ' : 'Date',
-        status: lang === 'ar' ? 'الحالة' : 'Status',
-        actions: lang === 'ar' ? 'إجراءات' : 'Actions',
-        noLeads: lang === 'ar' ? 'لا توجد طلبات' : 'No leads found'
-    };
+    function changeFilters(changes: Partial<Filters>) {
+        setFilters(current => ({ ...current, ...changes }));
+        setPage(1);
+    }
+
+    function applyFilters(event: FormEvent) {
+        event.preventDefault();
+        changeFilters({ ...draft, property: filters.property });
+    }
+
+    function clearFilters() {
+        setDraft(NO_FILTERS);
+        setFilters(NO_FILTERS);
+        setStatusFilter('all');
+        setPage(1);
+    }
+
+    async function runBulk(action: Record<string, unknown>) {
+        if (selected.length === 0) return;
+
+        setBusy(true);
+        setError('');
+        try {
+            const res = await fetch('/api/leads/bulk', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...action, ids: selected })
+            });
+
+            if (res.status === 401) {
+                router.push(`/${lang}/login`);
+                return;
+            }
+
+            const result = await res.json();
+            if (!result.success) {
+                setError(result.error);
+                return;
+            }
+
+            const { failed } = result.data as { failed: { id: string; error: string }[] };
+            if (failed.length > 0) setError(t.partialFailure(failed.length, failed[0].error));
+
+            setSelected(failed.map(failure => failure.id));
+            await fetchLeads();
+        } catch (err) {
+            console.error('Bulk action failed:', err);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    function bulkStatus(status: LeadStatus) {
+        if (status === 'lost') {
+            const lostReason = window.prompt(t.lostReason);
+            if (lostReason === null) return;
+            runBulk({ action: 'status', status, lostReason: lostReason || undefined });
+        } else {
+            runBulk({ action: 'status', status });
+        }
+    }
+
+    function bulkDelete() {
+        if (window.confirm(t.confirmDelete(selected.length))) {
+            runBulk({ action: 'delete' });
+        }
+    }
+
+    async function exportCsv() {
+        setError('');
+        try {
+            const res = await fetch(`/api/leads/export?${buildQuery(true)}`);
+            if (!res.ok) {
+                const result = await res.json().catch(() => null);
+                setError(result?.error || 'Export failed');
+                return;
+            }
+
+            const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '')?.[1] || 'leads.csv';
+            const url = URL.createObjectURL(await res.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Export failed:', err);
+        }
+    }
+
+    const toggleSelected = (id: string, checked: boolean) =>
+        setSelected(current => (checked ? [...current, id] : current.filter(selectedId => selectedId !== id)));
+
+    function moveLead(lead: LeadItem, status: LeadStatus) {
+        if (!lead.nextStatuses.includes(status)) return;
+
+        if (status === 'lost') {
+            const lostReason = window.prompt(t.lostReason);
+            if (lostReason === null) return;
+            updateLead(lead.id, { status, lostReason: lostReason || undefined });
+        } else {
+            updateLead(lead.id, { status });
+        }
+    }
+
+    function onDrop(event: DragEvent, status: LeadStatus) {
+        event.preventDefault();
+        if (dragged) moveLead(dragged, status);
+        setDragged(null);
+        setDropTarget(null);
+    }
+
+    const leadMeta = (lead: LeadItem) =>
+        lead.score === null ? lead.type : `${lead.type} · ${t.score} ${lead.score} · ${lead.priority}`;
+
+    const assigneeName = (id: string | null) =>
+        !id ? t.unassigned : assignees?.find(a => a.id === id)?.name || id;
+
+    const stageSelect = (lead: LeadItem) => (
+        <select
+            value=""
+            onChange={event => moveLead(lead, event.target.value as LeadStatus)}
+            disabled={lead.nextStatuses.length === 0}
+            aria-label={t.moveTo}
+        >
+            <option value="">{t.moveTo}</option>
+            {lead.nextStatuses.map(status => (
+                <option key={status} value={status}>{t.statuses[status]}</option>
+            ))}
+        </select>
+    );
+
+    const assigneeSelect = (lead: LeadItem) => assignees ? (
+        <select
+            value={lead.assignedTo || ''}
+            onChange={event => updateLead(lead.id, { assignedTo: event.target.value || null })}
+            aria-label={t.agent}
+        >
+            <option value="">{t.unassigned}</option>
+            {assignees.map(assignee => (
+                <option key={assignee.id} value={assignee.id}>{assignee.name}</option>
+            ))}
+        </select>
+    ) : (
+        <span className={styles.leadType}>{assigneeName(lead.assignedTo)}</span>
+    );
 
     return (
         <div className={styles.container}>
@@ -98,27 +374,154 @@ export default function LeadsAdminPage() {
                 <div>
                     <h1>{t.title}</h1>
                     <p className={styles.subtitle}>
-                        {lang === 'ar' ? 'تتبع طلبات العملاء والرد عليها' : 'Track and respond to client inquiries'}
+                        {isAr ? 'تتبع طلبات العملاء والرد عليها' : 'Track and respond to client inquiries'}
                     </p>
                 </div>
                 <div className={styles.flexGap1}>
-                    {['all', 'new', 'contacted', 'closed'].map(status => (
+                    <button
+                        onClick={() => setView('table')}
+                        className={`${styles.btnFilter} ${view === 'table' ? styles.btnFilterActive : ''}`}
+                    >
+                        <LayoutList size={16} /> {t.table}
+                    </button>
+                    <button
+                        onClick={() => setView('pipeline')}
+                        className={`${styles.btnFilter} ${view === 'pipeline' ? styles.btnFilterActive : ''}`}
+                    >
+                        <Columns3 size={16} /> {t.pipeline}
+                    </button>
+                    <button onClick={exportCsv} className={styles.btnFilter}>
+                        <Download size={16} /> {t.export}
+                    </button>
+                    {assignees && (
+                        <Link href={`/${lang}/admin/leads/rules`} className={styles.btnFilter}>
+                            <SlidersHorizontal size={16} /> {t.rules}
+                        </Link>
+                    )}
+                </div>
+            </div>
+
+            <form className={`${styles.securityFilters} ${styles.mb05}`} onSubmit={applyFilters}>
+                <input
+                    value={draft.q}
+                    onChange={event => setDraft({ ...draft, q: event.target.value })}
+                    placeholder={t.search}
+                    aria-label={t.search}
+                />
+                <select
+                    value={draft.type}
+                    onChange={event => {
+                        setDraft({ ...draft, type: event.target.value });
+                        changeFilters({ type: event.target.value });
+                    }}
+                    aria-label={t.allTypes}
+                >
+                    <option value="">{t.allTypes}</option>
+                    {LEAD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <input
+                    value={draft.source}
+                    onChange={event => setDraft({ ...draft, source: event.target.value })}
+                    placeholder={t.source}
+                    aria-label={t.source}
+                />
+                <input
+                    type="date"
+                    value={draft.from}
+                    onChange={event => setDraft({ ...draft, from: event.target.value })}
+                    aria-label={t.from}
+                />
+                <input
+                    type="date"
+                    value={draft.to}
+                    onChange={event => setDraft({ ...draft, to: event.target.value })}
+                    aria-label={t.to}
+                />
+                {filters.property && (
+                    <button type="button" className={`${styles.btnFilter} ${styles.btnFilterActive}`} onClick={() => changeFilters({ property: null })}>
+                        {t.property}: {filters.property.title} <X size={14} />
+                    </button>
+                )}
+                <button type="submit" className={`${styles.btnFilter} ${styles.btnFilterActive}`}>{t.apply}</button>
+                <button type="button" className={styles.btnFilter} onClick={clearFilters}>
+                    <X size={14} /> {t.clear}
+                </button>
+            </form>
+
+            {view === 'table' && (
+                <div className={`${styles.flexGap1} ${styles.mb05}`}>
+                    {(['all', ...LEAD_STATUSES] as const).map(status => (
                         <button
                             key={status}
-                            onClick={() => setStatusFilter(status)}
+                            onClick={() => {
+                                setStatusFilter(status);
+                                setPage(1);
+                            }}
                             className={`${styles.btnFilter} ${statusFilter === status ? styles.btnFilterActive : ''}`}
                         >
-                            {status === 'all' ? t.all : status === 'new' ? t.new : status === 'contacted' ? t.contacted : t.closed}
+                            {status === 'all' ? t.all : t.statuses[status]}
+                            {status !== 'all' && counts ? ` (${counts[status]})` : ''}
                         </button>
                     ))}
                 </div>
-            </div>
+            )}
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
 
             <div className={styles.section}>
                 {loading ? (
                     <div className={styles.loading}>
                         <Loader2 className={styles.spinner} size={40} />
-                        <p>{lang === 'ar' ? 'جاري التحميل...' : 'Loading leads...'}</p>
+                        <p>{isAr ? 'جاري التحميل...' : 'Loading leads...'}</p>
+                    </div>
+                ) : view === 'pipeline' ? (
+                    <div className={styles.pipelineBoard}>
+                        {LEAD_STATUSES.map(status => (
+                            <div
+                                key={status}
+                                className={`${styles.pipelineColumn} ${dropTarget === status ? styles.pipelineColumnDrop : ''}`}
+                                onDragOver={event => {
+                                    if (dragged?.nextStatuses.includes(status)) {
+                                        event.preventDefault();
+                                        setDropTarget(status);
+                                    }
+                                }}
+                                onDragLeave={() => setDropTarget(null)}
+                                onDrop={event => onDrop(event, status)}
+                            >
+                                <div className={styles.pipelineColumnHeader}>
+                                    <span>{t.statuses[status]}</span>
+                                    <span className={`${styles.statusBadge} ${styles[status]}`}>
+                                        {counts?.[status] ?? leads.filter(lead => lead.status === status).length}
+                                    </span>
+                                </div>
+                                {leads.filter(lead => lead.status === status).map(lead => (
+                                    <div
+                                        key={lead.id}
+                                        className={styles.pipelineCard}
+                                        draggable={lead.nextStatuses.length > 0}
+                                        onDragStart={() => setDragged(lead)}
+                                        onDragEnd={() => {
+                                            setDragged(null);
+                                            setDropTarget(null);
+                                        }}
+                                    >
+                                        <Link href={`/${lang}/admin/leads/${lead.id}`} className={styles.leadName}>
+                                            {lead.name || `${lead.firstName} ${lead.lastName}`}
+                                        </Link>
+                                        <div className={styles.leadType}>{leadMeta(lead)}</div>
+                                        <div>{lead.property?.title || t.generalInquiry}</div>
+                                        {assigneeSelect(lead)}
+                                        {stageSelect(lead)}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
                     </div>
                 ) : leads.length === 0 ? (
                     <div className={styles.emptyState}>
@@ -126,21 +529,73 @@ export default function LeadsAdminPage() {
                         <h3>{t.noLeads}</h3>
                     </div>
                 ) : (
+                    <>
+                    {selected.length > 0 && (
+                        <div className={`${styles.securityFilters} ${styles.mb05}`}>
+                            <span className={styles.leadName}>{t.selected(selected.length)}</span>
+                            {assignees && (
+                                <select
+                                    value=""
+                                    onChange={event => runBulk({ action: 'assign', assignedTo: event.target.value === 'none' ? null : event.target.value })}
+                                    disabled={busy}
+                                    aria-label={t.assignTo}
+                                >
+                                    <option value="">{t.assignTo}</option>
+                                    <option value="none">{t.unassigned}</option>
+                                    {assignees.map(assignee => (
+                                        <option key={assignee.id} value={assignee.id}>{assignee.name}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <select
+                                value=""
+                                onChange={event => bulkStatus(event.target.value as LeadStatus)}
+                                disabled={busy}
+                                aria-label={t.moveTo}
+                            >
+                                <option value="">{t.moveTo}</option>
+                                {LEAD_STATUSES.map(status => (
+                                    <option key={status} value={status}>{t.statuses[status]}</option>
+                                ))}
+                            </select>
+                            <button type="button" className={`${styles.btnTextLink} ${styles.btnDelete}`} onClick={bulkDelete} disabled={busy}>
+                                <Trash2 size={16} /> {t.delete}
+                            </button>
+                            {busy && <Loader2 className={styles.spinner} size={16} />}
+                        </div>
+                    )}
                     <div className={styles.tableWrapper}>
                         <table className={styles.table}>
                             <thead>
                                 <tr>
+                                    <th>
+                                        <input
+                                            type="checkbox"
+                                            checked={leads.length > 0 && leads.every(lead => selected.includes(lead.id))}
+                                            onChange={event => setSelected(event.target.checked ? leads.map(lead => lead.id) : [])}
+                                            aria-label={t.selectAll}
+                                        />
+                                    </th>
                                     <th>{t.name}</th>
                                     <th>{t.contact}</th>
                                     <th>{t.property}</th>
                                     <th>{t.date}</th>
                                     <th>{t.status}</th>
+                                    <th>{t.agent}</th>
                                     <th>{t.actions}</th>
                                 </tr>
                             </thead>
                             <tbody>
                                 {leads.map((lead) => (
                                     <tr key={lead.id}>
+                                        <td>
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.includes(lead.id)}
+                                                onChange={event => toggleSelected(lead.id, event.target.checked)}
+                                                aria-label={`${t.select}: ${lead.name}`}
+                                            />
+                                        </td>
                                         <td>
                                             <div className={styles.nameCell}>
                                                 <div className={styles.nameAvatar}>
@@ -148,7 +603,7 @@ export default function LeadsAdminPage() {
                                                 </div>
                                                 <div>
                                                     <div className={styles.leadName}>{lead.name || `${lead.firstName} ${lead.lastName}`}</div>
-                                                    <div className={styles.leadType}>{lead.type}</div>
+                                                    <div className={styles.leadType}>{leadMeta(lead)}</div>
                                                 </div>
                                             </div>
                                         </td>
@@ -161,46 +616,47 @@ export default function LeadsAdminPage() {
                                         <td>
                                             {lead.property ? (
                                                 <div className={styles.propertyCell}>
-                                                    <div className={styles.propertyTitleLink}>{lead.property.title}</div>
+                                                    {lead.property.id ? (
+                                                        <button
+                                                            type="button"
+                                                            className={`${styles.btnTextLink} ${styles.propertyTitleLink}`}
+                                                            onClick={() => changeFilters({
+                                                                property: { id: lead.property!.id!, title: lead.property!.title || lead.property!.id! },
+                                                            })}
+                                                            title={t.filterByProperty}
+                                                        >
+                                                            {lead.property.title}
+                                                        </button>
+                                                    ) : (
+                                                        <div className={styles.propertyTitleLink}>{lead.property.title}</div>
+                                                    )}
                                                 </div>
                                             ) : (
-                                                <div className={styles.generalInquiry}>General Inquiry</div>
+                                                <div className={styles.generalInquiry}>{t.generalInquiry}</div>
                                             )}
                                         </td>
                                         <td>
                                             <div className={styles.dateWrapper}>
                                                 <Calendar size={14} />
-                                                {new Date(lead.createdAt).toLocaleDateString(lang === 'ar' ? 'ar-EG' : 'en-US')}
+                                                {new Date(lead.createdAt).toLocaleDateString(isAr ? 'ar-EG' : 'en-US')}
                                             </div>
                                         </td>
                                         <td>
-                                            <span className={`${styles.statusBadge} ${lead.status === 'new' ? styles.new : lead.status === 'contacted' ? styles.contacted : styles.closed}`}>
-                                                {lead.status === 'new' ? t.new : lead.status === 'contacted' ? t.contacted : t.closed}
+                                            <span className={`${styles.statusBadge} ${styles[lead.status]}`}>
+                                                {t.statuses[lead.status]}
                                             </span>
                                         </td>
+                                        <td>{assigneeSelect(lead)}</td>
                                         <td>
                                             <div className={styles.flexGap1}>
-                                                {lead.status === 'new' && (
-                                                    <button
-                                                        onClick={() => updateLeadStatus(lead.id, 'contacted')}
-                                                        className={styles.viewAllLink}
-                                                        title={lang === 'ar' ? 'تحديد كمتواصل معه' : 'Mark as Contacted'}
-                                                    >
-                                                        <Check size={18} />
-                                                    </button>
-                                                )}
-                                                {lead.status !== 'closed' && (
-                                                    <button
-                                                        onClick={() => updateLeadStatus(lead.id, 'closed')}
-                                                        className={`${styles.viewAllLink} ${styles.buttonDangerText}`}
-                                                        title={lang === 'ar' ? 'إغلاق الطلب' : 'Close Lead'}
-                                                    >
-                                                        <XCircle size={18} />
-                                                    </button>
-                                                )}
-                                                <button className={styles.viewAllLink} title={lang === 'ar' ? 'عرض التفاصيل' : 'View Details'}>
+                                                {stageSelect(lead)}
+                                                <Link
+                                                    href={`/${lang}/admin/leads/${lead.id}`}
+                                                    className={styles.viewAllLink}
+                                                    title={isAr ? 'عرض التفاصيل' : 'View Details'}
+                                                >
                                                     <Eye size={18} />
-                                                </button>
+                                                </Link>
                                             </div>
                                         </td>
                                     </tr>
@@ -208,6 +664,33 @@ export default function LeadsAdminPage() {
                             </tbody>
                         </table>
                     </div>
+                    {pagination && (
+                        <div className={`${styles.flexGap1} ${styles.mt2}`}>
+                            <span className={styles.leadType}>{t.total(pagination.total)}</span>
+                            {pagination.totalPages > 1 && (
+                                <>
+                                    <button
+                                        className={styles.btnFilter}
+                                        disabled={page <= 1}
+                                        onClick={() => setPage(page - 1)}
+                                        aria-label="Previous page"
+                                    >
+                                        {isAr ? <ChevronRight size={16} /> : <ChevronLeft size={16} />}
+                                    </button>
+                                    <span className={styles.leadType}>{t.page(pagination.page, pagination.totalPages)}</span>
+                                    <button
+                                        className={styles.btnFilter}
+                                        disabled={page >= pagination.totalPages}
+                                        onClick={() => setPage(page + 1)}
+                                        aria-label="Next page"
+                                    >
+                                        {isAr ? <ChevronLeft size={16} /> : <ChevronRight size={16} />}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                    </>
                 )}
             </div>
         </div>
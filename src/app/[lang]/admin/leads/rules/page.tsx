@@ -0,0 +1,489 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { AlertCircle, ArrowDown, ArrowLeft, ArrowUp, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { LEAD_TYPES, LeadType } from '@/core/entities/Lead';
+import { LEAD_ROUTING_STRATEGIES, LeadRoutingRule, LeadRules } from '@/core/entities/LeadRules';
+import { currencies } from '@/lib/currency';
+import styles from '../../admin.module.css';
+
+/** Comma-separated text is split as typed and cleaned up on save */
+const splitList = (value: string) => value.split(',');
+const cleanList = (values?: string[]) => values?.map(v => v.trim()).filter(Boolean);
+
+export default function LeadRulesPage() {
+    const params = useParams();
+    const router = useRouter();
+    const lang = (params?.lang as string) || 'en';
+    const isAr = lang === 'ar';
+
+    const t = {
+        back: isAr ? 'العودة إلى الطلبات' : 'Back to leads',
+        title: isAr ? 'قواعد التقييم والتوزيع' : 'Lead Scoring & Routing',
+        subtitle: isAr
+            ? 'كيف يتم تقييم الطلبات الجديدة وإسنادها إلى الوكلاء'
+            : 'How new leads are scored and handed to agents',
+        defaults: isAr ? 'يتم استخدام القواعد الافتراضية حتى تحفظ تغييراتك' : 'The default rules apply until you save',
+        lastSaved: isAr ? 'آخر حفظ' : 'Last saved',
+        save: isAr ? 'حفظ القواعد' : 'Save rules',
+        saved: isAr ? 'تم حفظ القواعد' : 'Rules saved',
+        scoring: isAr ? 'التقييم' : 'Scoring',
+        typePoints: isAr ? 'نقاط نوع الطلب' : 'Points by lead type',
+        priceBands: isAr ? 'نقاط سعر العقار' : 'Points by property price',
+        priceFrom: isAr ? 'من' : 'From',
+        contact: isAr ? 'نقاط بيانات الاتصال' : 'Points for contact details',
+        phone: isAr ? 'رقم الهاتف' : 'Phone number',
+        fullName: isAr ? 'الاسم الكامل' : 'Full name',
+        detailedMessage: isAr ? 'رسالة مفصلة' : 'Detailed message',
+        minLength: isAr ? 'الحد الأدنى لعدد الأحرف' : 'Minimum characters',
+        sources: isAr ? 'نقاط المصدر' : 'Points by source',
+        source: isAr ? 'المصدر' : 'Source',
+        points: isAr ? 'النقاط' : 'Points',
+        thresholds: isAr ? 'حدود الأولوية' : 'Priority thresholds',
+        routing: isAr ? 'التوزيع' : 'Routing',
+        enabled: isAr ? 'إسناد الطلبات الجديدة تلقائياً' : 'Assign new leads automatically',
+        fallback: isAr ? 'عند عدم تطابق أي قاعدة' : 'When no rule matches',
+        leaveUnassigned: isAr ? 'اتركه غير مسند' : 'Leave unassigned',
+        excludeTypes: isAr ? 'أنواع لا يتم إسنادها' : 'Never assign these types',
+        rules: isAr ? 'القواعد (بالترتيب)' : 'Rules (in order)',
+        name: isAr ? 'الاسم' : 'Name',
+        types: isAr ? 'الأنواع' : 'Lead types',
+        anyType: isAr ? 'أي نوع' : 'Any type',
+        cities: isAr ? 'المدن' : 'Cities',
+        minScore: isAr ? 'أقل نقاط' : 'Min score',
+        sameCity: isAr ? 'وكلاء من نفس المدينة' : 'Agents in the lead\'s city',
+        specializations: isAr ? 'التخصصات' : 'Specializations',
+        strategy: isAr ? 'الطريقة' : 'Strategy',
+        strategies: {
+            round_robin: isAr ? 'بالتناوب' : 'Round robin',
+            least_loaded: isAr ? 'الأقل انشغالاً' : 'Least loaded',
+        },
+        commaSeparated: isAr ? 'مفصولة بفواصل' : 'comma-separated',
+        addRule: isAr ? 'إضافة قاعدة' : 'Add rule',
+        add: isAr ? 'إضافة' : 'Add',
+    };
+
+    const [rules, setRules] = useState<LeadRules | null>(null);
+    const [isDefault, setIsDefault] = useState(false);
+    const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch('/api/leads/rules');
+            if (res.status === 401) {
+                router.push(`/${lang}/login`);
+                return;
+            }
+
+            const result = await res.json();
+            if (!res.ok) throw new Error(result.error || 'Failed to load the rules');
+
+            setRules(result.data.rules);
+            setIsDefault(result.data.isDefault);
+            setUpdatedAt(result.data.updatedAt);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [lang, router]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    async function save() {
+        if (!rules) return;
+
+        setSaving(true);
+        setError('');
+        setNotice('');
+        try {
+            const payload: LeadRules = {
+                ...rules,
+                routing: {
+                    ...rules.routing,
+                    rules: rules.routing.rules.map(rule => ({
+                        ...rule,
+                        when: { ...rule.when, cities: cleanList(rule.when.cities) },
+                        agents: { ...rule.agents, specializations: cleanList(rule.agents.specializations) },
+                    })),
+                },
+            };
+
+            const res = await fetch('/api/leads/rules', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                const detail = result.details?.[0];
+                throw new Error(detail ? `${detail.field}: ${detail.message}` : result.error || 'Failed to save the rules');
+            }
+
+            setRules(result.data.rules);
+            setIsDefault(false);
+            setUpdatedAt(result.data.updatedAt);
+            setNotice(t.saved);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    if (!rules) {
+        return (
+            <div className={styles.container}>
+                {error ? (
+                    <div className={styles.errorBanner}>
+                        <AlertCircle size={18} />
+                        {error}
+                    </div>
+                ) : (
+                    <Loader2 className={styles.spinner} size={40} />
+                )}
+            </div>
+        );
+    }
+
+    const { scoring, routing } = rules;
+    const setScoring = (changes: Partial<LeadRules['scoring']>) =>
+        setRules({ ...rules, scoring: { ...scoring, ...changes } });
+    const setRouting = (changes: Partial<LeadRules['routing']>) =>
+        setRules({ ...rules, routing: { ...routing, ...changes } });
+    const setRule = (index: number, changes: Partial<LeadRoutingRule>) =>
+        setRouting({ rules: routing.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+    const moveRule = (index: number, offset: number) => {
+        const next = [...routing.rules];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setRouting({ rules: next });
+    };
+
+    const numberInput = (value: number, onChange: (value: number) => void, label: string) => (
+        <input
+            type="number"
+            value={value}
+            onChange={event => onChange(Number(event.target.value) || 0)}
+            aria-label={label}
+        />
+    );
+
+    const typesSelect = (value: LeadType[], onChange: (value: LeadType[]) => void, label: string) => (
+        <select
+            multiple
+            value={value}
+            onChange={event => onChange(Array.from(event.target.selectedOptions, option => option.value as LeadType))}
+            aria-label={label}
+        >
+            {LEAD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+    );
+
+    const sources = Object.entries(scoring.sourcePoints);
+
+    return (
+        <div className={styles.container}>
+            <Link href={`/${lang}/admin/leads`} className={`${styles.backButton} ${styles.mb05}`}>
+                <ArrowLeft size={16} /> {t.back}
+            </Link>
+
+            <div className={styles.header}>
+                <div>
+                    <h1>{t.title}</h1>
+                    <p className={styles.subtitle}>
+                        {t.subtitle}
+                        {' · '}
+                        {isDefault || !updatedAt
+                            ? t.defaults
+                            : `${t.lastSaved}: ${new Date(updatedAt).toLocaleString(isAr ? 'ar-EG' : 'en-US')}`}
+                    </p>
+                </div>
+                <button type="button" onClick={save} disabled={saving} className={styles.buttonPrimary}>
+                    {saving ? <Loader2 className={styles.spinner} size={18} /> : <Save size={18} />}
+                    {t.save}
+                </button>
+            </div>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+            {notice && <p className={styles.securityCardDesc}>{notice}</p>}
+
+            <div className={styles.section}>
+                <div className={styles.sectionHeader}>
+                    <h2>{t.scoring}</h2>
+                </div>
+
+                <h3 className={styles.securityCardTitle}>{t.typePoints}</h3>
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <tbody>
+                            {LEAD_TYPES.map(type => (
+                                <tr key={type}>
+                                    <td className={styles.leadName}>{type}</td>
+                                    <td>
+                                        {numberInput(
+                                            scoring.typePoints[type] ?? 0,
+                                            value => setScoring({ typePoints: { ...scoring.typePoints, [type]: value } }),
+                                            `${t.points}: ${type}`
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <h3 className={`${styles.securityCardTitle} ${styles.mt2}`}>{t.priceBands}</h3>
+                <div className={`${styles.securityFilters} ${styles.mb05}`}>
+                    <select
+                        value={scoring.priceCurrency}
+                        onChange={event => setScoring({ priceCurrency: event.target.value })}
+                        aria-label={t.priceBands}
+                    >
+                        {Object.keys(currencies).map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                </div>
+                {scoring.priceBands.map((band, index) => (
+                    <div key={index} className={`${styles.securityFilters} ${styles.mb05}`}>
+                        <span>{t.priceFrom}</span>
+                        {numberInput(band.min, min => setScoring({
+                            priceBands: scoring.priceBands.map((b, i) => (i === index ? { ...b, min } : b)),
+                        }), t.priceFrom)}
+                        <span>{t.points}</span>
+                        {numberInput(band.points, points => setScoring({
+                            priceBands: scoring.priceBands.map((b, i) => (i === index ? { ...b, points } : b)),
+                        }), t.points)}
+                        <button
+                            type="button"
+                            className={`${styles.btnTextLink} ${styles.btnDelete}`}
+                            onClick={() => setScoring({ priceBands: scoring.priceBands.filter((_, i) => i !== index) })}
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className={styles.btnFilter}
+                    onClick={() => setScoring({ priceBands: [...scoring.priceBands, { min: 0, points: 0 }] })}
+                >
+                    <Plus size={16} /> {t.add}
+                </button>
+
+                <h3 className={`${styles.securityCardTitle} ${styles.mt2}`}>{t.contact}</h3>
+                <div className={styles.securityFilters}>
+                    <span>{t.phone}</span>
+                    {numberInput(scoring.contactPoints.phone, phone =>
+                        setScoring({ contactPoints: { ...scoring.contactPoints, phone } }), t.phone)}
+                    <span>{t.fullName}</span>
+                    {numberInput(scoring.contactPoints.fullName, fullName =>
+                        setScoring({ contactPoints: { ...scoring.contactPoints, fullName } }), t.fullName)}
+                    <span>{t.detailedMessage}</span>
+                    {numberInput(scoring.contactPoints.detailedMessage, detailedMessage =>
+                        setScoring({ contactPoints: { ...scoring.contactPoints, detailedMessage } }), t.detailedMessage)}
+                    <span>{t.minLength}</span>
+                    {numberInput(scoring.detailedMessageLength, detailedMessageLength =>
+                        setScoring({ detailedMessageLength }), t.minLength)}
+                </div>
+
+                <h3 className={`${styles.securityCardTitle} ${styles.mt2}`}>{t.sources}</h3>
+                {sources.map(([source, points], index) => (
+                    <div key={index} className={`${styles.securityFilters} ${styles.mb05}`}>
+                        <input
+                            value={source}
+                            onChange={event => setScoring({
+                                sourcePoints: Object.fromEntries(sources.map(([s, p], i) => [i === index ? event.target.value : s, p])),
+                            })}
+                            aria-label={t.source}
+                        />
+                        {numberInput(points, value => setScoring({
+                            sourcePoints: { ...scoring.sourcePoints, [source]: value },
+                        }), t.points)}
+                        <button
+                            type="button"
+                            className={`${styles.btnTextLink} ${styles.btnDelete}`}
+                            onClick={() => setScoring({ sourcePoints: Object.fromEntries(sources.filter((_, i) => i !== index)) })}
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    className={styles.btnFilter}
+                    onClick={() => setScoring({ sourcePoints: { ...scoring.sourcePoints, [`source-${sources.length + 1}`]: 0 } })}
+                >
+                    <Plus size={16} /> {t.add}
+                </button>
+
+                <h3 className={`${styles.securityCardTitle} ${styles.mt2}`}>{t.thresholds}</h3>
+                <div className={styles.securityFilters}>
+                    {(['normal', 'high', 'urgent'] as const).map(priority => (
+                        <label key={priority} className={styles.flexGap1}>
+                            {priority}
+                            {numberInput(scoring.priorityThresholds[priority], value => setScoring({
+                                priorityThresholds: { ...scoring.priorityThresholds, [priority]: value },
+                            }), priority)}
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div className={`${styles.section} ${styles.mt2}`}>
+                <div className={styles.sectionHeader}>
+                    <h2>{t.routing}</h2>
+                </div>
+
+                <div className={`${styles.securityFilters} ${styles.mb05}`}>
+                    <label className={styles.flexGap1}>
+                        <input
+                            type="checkbox"
+                            checked={routing.enabled}
+                            onChange={event => setRouting({ enabled: event.target.checked })}
+                        />
+                        {t.enabled}
+                    </label>
+                    <label className={styles.flexGap1}>
+                        {t.fallback}
+                        <select
+                            value={routing.fallback}
+                            onChange={event => setRouting({ fallback: event.target.value as LeadRules['routing']['fallback'] })}
+                        >
+                            {LEAD_ROUTING_STRATEGIES.map(strategy => (
+                                <option key={strategy} value={strategy}>{t.strategies[strategy]}</option>
+                            ))}
+                            <option value="none">{t.leaveUnassigned}</option>
+                        </select>
+                    </label>
+                    <label className={styles.flexGap1}>
+                        {t.excludeTypes}
+                        {typesSelect(routing.excludeTypes, excludeTypes => setRouting({ excludeTypes }), t.excludeTypes)}
+                    </label>
+                </div>
+
+                <h3 className={styles.securityCardTitle}>{t.rules}</h3>
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>{t.name}</th>
+                                <th>{t.types}</th>
+                                <th>{t.cities}</th>
+                                <th>{t.minScore}</th>
+                                <th>{t.sameCity}</th>
+                                <th>{t.specializations}</th>
+                                <th>{t.strategy}</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {routing.rules.map((rule, index) => (
+                                <tr key={index}>
+                                    <td>
+                                        <input value={rule.name} onChange={event => setRule(index, { name: event.target.value })} aria-label={t.name} />
+                                    </td>
+                                    <td>
+                                        {typesSelect(rule.when.types ?? [], types => setRule(index, {
+                                            when: { ...rule.when, types: types.length ? types : undefined },
+                                        }), t.types)}
+                                        {!rule.when.types?.length && <div className={styles.leadType}>{t.anyType}</div>}
+                                    </td>
+                                    <td>
+                                        <input
+                                            value={rule.when.cities?.join(',') ?? ''}
+                                            onChange={event => setRule(index, {
+                                                when: { ...rule.when, cities: event.target.value ? splitList(event.target.value) : undefined },
+                                            })}
+                                            placeholder={t.commaSeparated}
+                                            aria-label={t.cities}
+                                        />
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            value={rule.when.minScore ?? ''}
+                                            onChange={event => setRule(index, {
+                                                when: { ...rule.when, minScore: event.target.value === '' ? undefined : Number(event.target.value) },
+                                            })}
+                                            aria-label={t.minScore}
+                                        />
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            checked={!!rule.agents.sameCity}
+                                            onChange={event => setRule(index, { agents: { ...rule.agents, sameCity: event.target.checked } })}
+                                            aria-label={t.sameCity}
+                                        />
+                                    </td>
+                                    <td>
+                                        <input
+                                            value={rule.agents.specializations?.join(',') ?? ''}
+                                            onChange={event => setRule(index, {
+                                                agents: { ...rule.agents, specializations: event.target.value ? splitList(event.target.value) : undefined },
+                                            })}
+                                            placeholder={t.commaSeparated}
+                                            aria-label={t.specializations}
+                                        />
+                                    </td>
+                                    <td>
+                                        <select
+                                            value={rule.strategy}
+                                            onChange={event => setRule(index, { strategy: event.target.value as LeadRoutingRule['strategy'] })}
+                                            aria-label={t.strategy}
+                                        >
+                                            {LEAD_ROUTING_STRATEGIES.map(strategy => (
+                                                <option key={strategy} value={strategy}>{t.strategies[strategy]}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td>
+                                        <div className={styles.flexGap1}>
+                                            <button type="button" className={styles.btnTextLink} disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                                                <ArrowUp size={16} />
+                                            </button>
+                                            <button type="button" className={styles.btnTextLink} disabled={index === routing.rules.length - 1} onClick={() => moveRule(index, 1)}>
+                                                <ArrowDown size={16} />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className={`${styles.btnTextLink} ${styles.btnDelete}`}
+                                                onClick={() => setRouting({ rules: routing.rules.filter((_, i) => i !== index) })}
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <button
+                    type="button"
+                    className={`${styles.btnFilter} ${styles.mt2}`}
+                    onClick={() => setRouting({
+                        rules: [...routing.rules, {
+                            id: crypto.randomUUID().slice(0, 8),
+                            name: `${t.addRule} ${routing.rules.length + 1}`,
+                            when: {},
+                            agents: {},
+                            strategy: 'round_robin',
+                        }],
+                    })}
+                >
+                    <Plus size={16} /> {t.addRule}
+                </button>
+            </div>
+        </div>
+    );
+}
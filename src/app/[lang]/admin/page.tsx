@@ -21,7 +21,8 @@ import {
     AlertCircle,
     Mail,
     Phone,
-    Calendar
+    Calendar,
+    Search
 } from 'lucide-react';
 import styles from './admin.module.css';
 
@@ -49,6 +50,11 @@ interface Lead {
     status: string;
 }
 
+interface PopularSearch {
+    query: string;
+    count: number;
+}
+
 // ============================================
 // MAIN COMPONENT
 // ============================================
@@ -62,6 +68,7 @@ export default function AdminDashboard() {
         activeProperties: 0,
     });
     const [recentLeads, setRecentLeads] = useState<Lead[]>([]);
+    const [popularSearches, setPopularSearches] = useState<PopularSearch[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -119,6 +126,15 @@ export default function AdminDashboard() {
                     // Get 5 most recent leads
                     setRecentLeads(leads.slice(0, 5));
                 }
+
+                // Popular searches are optional (requires analytics:view)
+                const searchesRes = await fetch('/api/searches/popular?limit=10', {
+                    credentials: 'same-origin',
+                });
+                if (searchesRes.ok) {
+                    const searchesData = await searchesRes.json();
+                    setPopularSearches(searchesData.data || []);
+                }
             } catch (_err) {
                 setError('Failed to load dashboard data');
             } finally {
@@ -310,6 +326,40 @@ export default function AdminDashboard() {
                     </div>
                 )}
             </div>
+
+            {/* Popular Searches */}
+            <div className={styles.section}>
+                <div className={styles.sectionHeader}>
+                    <h2>{lang === 'ar' ? 'عمليات البحث الأكثر شيوعاً' : 'Popular Searches'}</h2>
+                </div>
+
+                {popularSearches.length === 0 ? (
+                    <div className={styles.emptyState}>
+                        <Search size={48} />
+                        <h3>{lang === 'ar' ? 'لا توجد عمليات بحث بعد' : 'No searches yet'}</h3>
+                        <p>{lang === 'ar' ? 'ستظهر هنا عبارات البحث الأكثر استخداماً' : 'The most used search terms will appear here'}</p>
+                    </div>
+                ) : (
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{lang === 'ar' ? 'عبارة البحث' : 'Search Term'}</th>
+                                    <th>{lang === 'ar' ? 'عدد المرات' : 'Searches'}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {popularSearches.map((search) => (
+                                    <tr key={search.query}>
+                                        <td>{search.query}</td>
+                                        <td>{search.count}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
         </div>
     );
 }
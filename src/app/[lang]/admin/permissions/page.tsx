@@ -0,0 +1,280 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import styles from '../admin.module.css';
+
+interface RolePermissions {
+    role: string;
+    permissions: string[];
+    editable: boolean;
+    isDefault: boolean;
+    updatedBy?: string;
+    updatedAt?: string;
+}
+
+type Effect = 'grant' | 'revoke';
+
+interface UserPermissions {
+    userId: string;
+    email: string;
+    role: string;
+    overrides: Array<{ permission: string; effect: Effect; createdBy?: string; createdAt: string }>;
+    permissions: string[];
+}
+
+async function request<T>(url: string, method: string = 'GET', body?: unknown): Promise<T> {
+    const res = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data.data as T;
+}
+
+export default function PermissionsAdminPage() {
+    const params = useParams();
+    const lang = (params?.lang as string) || 'en';
+    const isAr = lang === 'ar';
+    const locale = isAr ? 'ar-EG' : 'en-US';
+
+    const t = {
+        title: isAr ? 'الصلاحيات' : 'Permissions',
+        subtitle: isAr
+            ? 'حدد ما يمكن لكل دور فعله. تسري التغييرات عند تجديد جلسة المستخدم (خلال 15 دقيقة).'
+            : 'Choose what each role can do. Changes apply when a user\'s session refreshes (within 15 minutes).',
+        roles: isAr ? 'صلاحيات الأدوار' : 'Role Permissions',
+        permission: isAr ? 'الصلاحية' : 'Permission',
+        locked: isAr ? 'كل الصلاحيات دائماً' : 'always every permission',
+        defaults: isAr ? 'افتراضي' : 'default',
+        updated: isAr ? 'آخر تعديل' : 'Last updated',
+        users: isAr ? 'صلاحيات مستخدم' : 'User Overrides',
+        usersDesc: isAr
+            ? 'امنح مستخدماً صلاحية إضافية أو اسحب صلاحية من دوره.'
+            : 'Grant a user an extra permission, or revoke one their role gives them.',
+        userId: isAr ? 'معرف المستخدم' : 'User ID',
+        load: isAr ? 'عرض' : 'Load',
+        save: isAr ? 'حفظ' : 'Save',
+        inherit: isAr ? 'حسب الدور' : 'From role',
+        grant: isAr ? 'منح' : 'Grant',
+        revoke: isAr ? 'سحب' : 'Revoke',
+        fromRole: isAr ? 'من الدور' : 'Role',
+        effective: isAr ? 'النتيجة' : 'Effective',
+        yes: isAr ? 'نعم' : 'Yes',
+        no: isAr ? 'لا' : 'No',
+        saved: isAr ? 'تم الحفظ' : 'Saved',
+    };
+
+    const [roles, setRoles] = useState<RolePermissions[] | null>(null);
+    const [catalog, setCatalog] = useState<string[]>([]);
+    const [userIdInput, setUserIdInput] = useState('');
+    const [user, setUser] = useState<UserPermissions | null>(null);
+    const [draft, setDraft] = useState<Record<string, Effect>>({});
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const load = useCallback(async () => {
+        try {
+            const data = await request<{ roles: RolePermissions[]; permissions: string[] }>('/api/permissions/roles');
+            setRoles(data.roles);
+            setCatalog(data.permissions);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (task: () => Promise<void>) => {
+        setBusy(true);
+        setError('');
+        setNotice('');
+        try {
+            await task();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const toggle = (role: RolePermissions, permission: string) => run(async () => {
+        const permissions = role.permissions.includes(permission)
+            ? role.permissions.filter(p => p !== permission)
+            : [...role.permissions, permission];
+
+        const updated = await request<RolePermissions>(
+            `/api/permissions/roles/${encodeURIComponent(role.role)}`, 'PUT', { permissions }
+        );
+        setRoles(current => current?.map(r => (r.role === updated.role ? updated : r)) ?? null);
+    });
+
+    const showUser = (data: UserPermissions) => {
+        setUser(data);
+        setDraft(Object.fromEntries(data.overrides.map(o => [o.permission, o.effect])));
+    };
+
+    const loadUser = (event: FormEvent) => {
+        event.preventDefault();
+        run(async () => {
+            showUser(await request<UserPermissions>(`/api/permissions/users/${encodeURIComponent(userIdInput.trim())}`));
+        });
+    };
+
+    const saveUser = () => run(async () => {
+        if (!user) return;
+
+        const overrides = Object.entries(draft).map(([permission, effect]) => ({ permission, effect }));
+        showUser(await request<UserPermissions>(
+            `/api/permissions/users/${encodeURIComponent(user.userId)}`, 'PUT', { overrides }
+        ));
+        setNotice(t.saved);
+    });
+
+    const setOverride = (permission: string, value: string) => {
+        setDraft(current => {
+            const next = { ...current };
+            if (value === 'grant' || value === 'revoke') next[permission] = value;
+            else delete next[permission];
+            return next;
+        });
+    };
+
+    const userRole = user && roles?.find(r => r.role === user.role);
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.header}>
+                <div>
+                    <h1>{t.title}</h1>
+                    <p className={styles.subtitle}>{t.subtitle}</p>
+                </div>
+            </div>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+
+            <div className={styles.section}>
+                <div className={styles.sectionHeader}>
+                    <h2>{t.roles}</h2>
+                </div>
+
+                {roles === null ? (
+                    !error && <Loader2 className={styles.spinner} size={20} />
+                ) : (
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{t.permission}</th>
+                                    {roles.map(role => (
+                                        <th key={role.role} title={role.updatedAt
+                                            ? `${t.updated}: ${new Date(role.updatedAt).toLocaleString(locale)}`
+                                            : undefined}>
+                                            {role.role}
+                                            <div className={styles.leadType}>
+                                                {!role.editable ? t.locked : role.isDefault ? t.defaults : null}
+                                            </div>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {catalog.map(permission => (
+                                    <tr key={permission}>
+                                        <td className={styles.leadName}>{permission}</td>
+                                        {roles.map(role => (
+                                            <td key={role.role}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={role.permissions.includes(permission)}
+                                                    disabled={busy || !role.editable}
+                                                    onChange={() => toggle(role, permission)}
+                                                    aria-label={`${role.role} ${permission}`}
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className={`${styles.section} ${styles.mt2}`}>
+                <div className={styles.sectionHeader}>
+                    <h2>{t.users}</h2>
+                </div>
+                <p className={`${styles.securityCardDesc} ${styles.mb05}`}>{t.usersDesc}</p>
+
+                <form className={`${styles.securityFilters} ${styles.mb05}`} onSubmit={loadUser}>
+                    <input value={userIdInput} onChange={event => setUserIdInput(event.target.value)} placeholder={t.userId} required />
+                    <button type="submit" className={`${styles.btnFilter} ${styles.btnFilterActive}`} disabled={busy}>
+                        {busy ? <Loader2 className={styles.spinner} size={14} /> : null} {t.load}
+                    </button>
+                </form>
+
+                {user && (
+                    <>
+                        <h3 className={styles.securityCardTitle}>{user.email} · {user.role}</h3>
+                        <div className={styles.tableWrapper}>
+                            <table className={styles.table}>
+                                <thead>
+                                    <tr>
+                                        <th>{t.permission}</th>
+                                        <th>{t.fromRole}</th>
+                                        <th></th>
+                                        <th>{t.effective}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {catalog.map(permission => (
+                                        <tr key={permission}>
+                                            <td className={styles.leadName}>{permission}</td>
+                                            <td>{userRole?.permissions.includes(permission) ? t.yes : t.no}</td>
+                                            <td>
+                                                <select
+                                                    value={draft[permission] || ''}
+                                                    onChange={event => setOverride(permission, event.target.value)}
+                                                    disabled={busy}
+                                                    aria-label={permission}
+                                                >
+                                                    <option value="">{t.inherit}</option>
+                                                    <option value="grant">{t.grant}</option>
+                                                    <option value="revoke">{t.revoke}</option>
+                                                </select>
+                                            </td>
+                                            <td>
+                                                <span className={`${styles.statusBadge} ${user.permissions.includes(permission) ? styles.severity_low : styles.severity_critical}`}>
+                                                    {user.permissions.includes(permission) ? t.yes : t.no}
+                                                </span>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className={`${styles.securityFilters} ${styles.mt2}`}>
+                            <button type="button" className={`${styles.btnFilter} ${styles.btnFilterActive}`} onClick={saveUser} disabled={busy}>
+                                {t.save}
+                            </button>
+                            {notice && <span className={styles.securityCardDesc}>{notice}</span>}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -32,7 +32,7 @@ export default function NewPropertyPage() {
         titleAr: '',
         slug: '',
         referenceCode: `MODON-${Math.floor(Math.random() * 10000)}`,
-        type: 'Villa',
+        type: 'villa',
         listingType: 'sale',
         price: 0,
         currency: 'EGP',
@@ -43,8 +43,11 @@ export default function NewPropertyPage() {
         area: 250,
         plotArea: 400,
         city: 'New Cairo',
+        region: 'Cairo',
         country: 'Egypt',
         location: '',
+        latitude: 30.0074,
+        longitude: 31.4913,
         status: 'draft',
         imageUrl: '',
         images: [] as { url: string; alt: string }[],
@@ -61,7 +64,7 @@ export default function NewPropertyPage() {
     const handleTextChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setFormData(prev => {
-            const updated = { ...prev, [name]: ['price', 'bedrooms', 'bathrooms', 'area', 'plotArea'].includes(name) ? Number(value) : value };
+            const updated = { ...prev, [name]: ['price', 'bedrooms', 'bathrooms', 'area', 'plotArea', 'latitude', 'longitude'].includes(name) ? Number(value) : value };
 
             // Auto-generate slug from English title
             if (name === 'title') {
@@ -105,43 +108,69 @@ export default function NewPropertyPage() {
         e.preventDefault();
 
         // Client-side validation
-        if (!formData.title || formData.title.length < 3) {
-            alert(lang === 'ar' ? 'يرجى إدخال عنوان العقار بالإنجليزية (3 أحرف على الأقل)' : 'Please enter a property title (at least 3 characters)');
+        if (!formData.title || formData.title.length < 10) {
+            alert(lang === 'ar' ? 'يرجى إدخال عنوان العقار بالإنجليزية (10 أحرف على الأقل)' : 'Please enter a property title (at least 10 characters)');
             setActiveTab('basic');
             return;
         }
-        if (!formData.description || formData.description.length < 10) {
-            alert(lang === 'ar' ? 'يرجى إدخال وصف العقار (10 أحرف على الأقل)' : 'Please enter a description (at least 10 characters)');
+        if (!formData.description || formData.description.length < 100) {
+            alert(lang === 'ar' ? 'يرجى إدخال وصف العقار (100 حرف على الأقل)' : 'Please enter a description (at least 100 characters)');
             setActiveTab('basic');
             return;
         }
-        if (!formData.location || formData.location.length < 2) {
+        if (!formData.location || formData.location.length < 5) {
             alert(lang === 'ar' ? 'يرجى إدخال عنوان/موقع العقار' : 'Please enter the property location/address');
             setActiveTab('location');
             return;
         }
-        if (!formData.city || formData.city.length < 2) {
-            alert(lang === 'ar' ? 'يرجى إدخال المدينة' : 'Please enter the city');
+        if (!formData.city || formData.city.length < 2 || !formData.region || formData.region.length < 2) {
+            alert(lang === 'ar' ? 'يرجى إدخال المدينة والمنطقة' : 'Please enter the city and region');
             setActiveTab('location');
             return;
         }
+        const images = formData.images.filter(img => img.url);
+        if (images.length < 3) {
+            alert(lang === 'ar' ? 'يرجى إضافة 3 صور على الأقل' : 'Please add at least 3 images');
+            setActiveTab('media');
+            return;
+        }
 
         setLoading(true);
         try {
-            // Clean up data before sending
-            const payload: Record<string, unknown> = {
-                ...formData,
-                // Remove empty imageUrl so it doesn't fail URL validation
-                imageUrl: formData.imageUrl || undefined,
-                // Filter out images with empty URLs (e.g. from base64 upload issues)
-                images: formData.images.length > 0 ? formData.images.filter(img => img.url) : undefined,
+            // The shared property contract (see CreatePropertySchema)
+            const payload = {
+                title: formData.title,
+                titleAr: formData.titleAr || undefined,
+                description: formData.description,
+                descriptionAr: formData.descriptionAr || undefined,
+                type: formData.type,
+                listingType: formData.listingType,
+                status: formData.status,
+                location: {
+                    address: formData.location,
+                    city: formData.city,
+                    region: formData.region,
+                    country: formData.country,
+                    latitude: formData.latitude,
+                    longitude: formData.longitude,
+                },
+                specs: {
+                    bedrooms: formData.bedrooms,
+                    bathrooms: formData.bathrooms,
+                    area: formData.area,
+                    plot: formData.plotArea || undefined,
+                },
+                price: { amount: formData.price, currency: formData.currency },
+                images: images.map((img, index) => ({
+                    id: `img-${index + 1}`,
+                    url: img.url,
+                    alt: img.alt || formData.title,
+                    order: index,
+                    isPrimary: index === 0,
+                })),
+                features: formData.features.map(name => ({ name, category: 'general' })),
             };
 
-            // Remove empty optional strings
-            if (!payload.imageUrl) delete payload.imageUrl;
-            if (!payload.titleAr) delete payload.titleAr;
-            if (!payload.descriptionAr) delete payload.descriptionAr;
-
             const res = await fetch('/api/properties', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -292,10 +321,12 @@ export default function NewPropertyPage() {
                             <div className={styles.formGroup}>
                                 <label htmlFor="type">Type</label>
                                 <select name="type" id="type" value={formData.type} onChange={handleTextChange} title="Property Type">
-                                    <option value="Villa">Villa</option>
-                                    <option value="Apartment">Apartment</option>
-                                    <option value="Penthouse">Penthouse</option>
-                                    <option value="Townhouse">Townhouse</option>
+                                    <option value="villa">Villa</option>
+                                    <option value="apartment">Apartment</option>
+                                    <option value="penthouse">Penthouse</option>
+                                    <option value="house">House / Townhouse</option>
+                                    <option value="land">Land</option>
+                                    <option value="commercial">Commercial</option>
                                 </select>
                             </div>
                             <div className={styles.formGroup}>
@@ -394,6 +425,17 @@ export default function NewPropertyPage() {
                                     required
                                 />
                             </div>
+                            <div className={styles.formGroup}>
+                                <label htmlFor="region">{lang === 'ar' ? 'المنطقة' : 'Region'}</label>
+                                <input
+                                    id="region"
+                                    name="region"
+                                    value={formData.region}
+                                    onChange={handleTextChange}
+                                    title="Region"
+                                    placeholder="Cairo"
+                                />
+                            </div>
                             <div className={styles.formGroup}>
                                 <label htmlFor="country">Country</label>
                                 <input
@@ -405,6 +447,30 @@ export default function NewPropertyPage() {
                                     placeholder="Egypt"
                                 />
                             </div>
+                            <div className={styles.formGroup}>
+                                <label htmlFor="latitude">{lang === 'ar' ? 'خط العرض' : 'Latitude'}</label>
+                                <input
+                                    id="latitude"
+                                    name="latitude"
+                                    type="number"
+                                    step="any"
+                                    value={formData.latitude}
+                                    onChange={handleTextChange}
+                                    title="Latitude"
+                                />
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label htmlFor="longitude">{lang === 'ar' ? 'خط الطول' : 'Longitude'}</label>
+                                <input
+                                    id="longitude"
+                                    name="longitude"
+                                    type="number"
+                                    step="any"
+                                    value={formData.longitude}
+                                    onChange={handleTextChange}
+                                    title="Longitude"
+                                />
+                            </div>
                             <div className={styles.formGroup}>
                                 <label htmlFor="referenceCode">Reference Code</label>
                                 <input
@@ -0,0 +1,247 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Ban, Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import styles from '../admin.module.css';
+
+interface IpBlockEntry {
+    ip: string;
+    action: 'deny' | 'allow';
+    reason: string;
+    source: 'auto' | 'manual';
+    createdBy?: string;
+    createdAt: string;
+    expiresAt?: string;
+}
+
+interface AuditEvent {
+    id: string;
+    type: 'ip_blocked' | 'ip_allowed' | 'ip_unblocked';
+    userId?: string;
+    ip: string;
+    details: { reason?: string; source?: string; removed?: string; expiresAt?: string | null };
+    createdAt: string;
+}
+
+const DURATIONS = [
+    { minutes: 60, en: '1 hour', ar: 'ساعة' },
+    { minutes: 24 * 60, en: '24 hours', ar: '24 ساعة' },
+    { minutes: 7 * 24 * 60, en: '7 days', ar: '7 أيام' },
+    { minutes: 30 * 24 * 60, en: '30 days', ar: '30 يومًا' },
+    { minutes: 0, en: 'Permanent', ar: 'دائم' },
+];
+
+export default function IpBlocklistPanel({ lang }: { lang: string }) {
+    const isAr = lang === 'ar';
+    const locale = isAr ? 'ar-EG' : 'en-US';
+
+    const [entries, setEntries] = useState<IpBlockEntry[] | null>(null);
+    const [audit, setAudit] = useState<AuditEvent[]>([]);
+    const [ip, setIp] = useState('');
+    const [action, setAction] = useState<'deny' | 'allow'>('deny');
+    const [duration, setDuration] = useState(60);
+    const [reason, setReason] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    const load = useCallback(async () => {
+        try {
+            const [entriesRes, auditRes] = await Promise.all([
+                fetch('/api/security/blocklist'),
+                fetch('/api/security/events?type=ip_blocked,ip_allowed,ip_unblocked&limit=20'),
+            ]);
+            const [entriesData, auditData] = await Promise.all([entriesRes.json(), auditRes.json()]);
+            if (!entriesRes.ok) throw new Error(entriesData.error || 'Failed to load the IP blocklist');
+            if (!auditRes.ok) throw new Error(auditData.error || 'Failed to load the audit trail');
+
+            setEntries(entriesData.data);
+            setAudit(auditData.data);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    async function submit(event: FormEvent) {
+        event.preventDefault();
+        setBusy(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/security/blocklist', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ip: ip.trim(),
+                    action,
+                    reason: reason.trim(),
+                    durationMinutes: duration || undefined,
+                }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                const details = data.details ? Object.values(data.details).flat().join(' ') : '';
+                throw new Error(details || data.error || 'Request failed');
+            }
+
+            setIp('');
+            setReason('');
+            await load();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function remove(entryIp: string) {
+        setBusy(true);
+        setError('');
+
+        try {
+            const res = await fetch(`/api/security/blocklist/${encodeURIComponent(entryIp)}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Request failed');
+
+            await load();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    const t = {
+        title: isAr ? 'قائمة حظر عناوين IP' : 'IP blocklist',
+        ip: isAr ? 'عنوان IP' : 'IP address',
+        deny: isAr ? 'حظر' : 'Block',
+        allow: isAr ? 'سماح' : 'Allow',
+        reason: isAr ? 'السبب' : 'Reason',
+        source: isAr ? 'المصدر' : 'Source',
+        auto: isAr ? 'تلقائي' : 'Automatic',
+        manual: isAr ? 'يدوي' : 'Manual',
+        expires: isAr ? 'ينتهي' : 'Expires',
+        never: isAr ? 'أبدًا' : 'Never',
+        add: isAr ? 'إضافة' : 'Add entry',
+        remove: isAr ? 'إزالة' : 'Remove',
+        empty: isAr ? 'لا توجد عناوين محظورة أو مسموح بها' : 'No blocked or allowed IPs',
+        auditTitle: isAr ? 'سجل التغييرات' : 'Audit trail',
+        auditEmpty: isAr ? 'لا توجد تغييرات بعد' : 'No changes yet',
+        by: isAr ? 'بواسطة' : 'By',
+        system: isAr ? 'النظام' : 'System',
+        events: {
+            ip_blocked: isAr ? 'حُظر' : 'Blocked',
+            ip_allowed: isAr ? 'سُمح' : 'Allowed',
+            ip_unblocked: isAr ? 'أُزيل' : 'Removed',
+        },
+    };
+
+    return (
+        <div className={`${styles.section} ${styles.mt2}`}>
+            <div className={styles.sectionHeader}>
+                <h2>{t.title}</h2>
+            </div>
+
+            <form className={`${styles.securityFilters} ${styles.mb05}`} onSubmit={submit}>
+                <input value={ip} onChange={event => setIp(event.target.value)} placeholder={t.ip} required />
+                <select value={action} onChange={event => setAction(event.target.value as 'deny' | 'allow')} aria-label={t.deny}>
+                    <option value="deny">{t.deny}</option>
+                    <option value="allow">{t.allow}</option>
+                </select>
+                <select value={duration} onChange={event => setDuration(Number(event.target.value))} aria-label={t.expires}>
+                    {DURATIONS.map(option => (
+                        <option key={option.minutes} value={option.minutes}>{isAr ? option.ar : option.en}</option>
+                    ))}
+                </select>
+                <input value={reason} onChange={event => setReason(event.target.value)} placeholder={t.reason} required />
+                <button type="submit" className={`${styles.btnFilter} ${styles.btnFilterActive}`} disabled={busy}>
+                    {busy ? <Loader2 className={styles.spinner} size={14} /> : null} {t.add}
+                </button>
+            </form>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+
+            {entries === null ? (
+                !error && <Loader2 className={styles.spinner} size={20} />
+            ) : entries.length === 0 ? (
+                <p className={styles.securityCardDesc}>{t.empty}</p>
+            ) : (
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>{t.ip}</th>
+                                <th>{t.deny} / {t.allow}</th>
+                                <th>{t.reason}</th>
+                                <th>{t.source}</th>
+                                <th>{t.expires}</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map(entry => (
+                                <tr key={entry.ip}>
+                                    <td className={styles.leadName}>{entry.ip}</td>
+                                    <td>
+                                        <span className={`${styles.statusBadge} ${entry.action === 'deny' ? styles.severity_critical : styles.severity_low}`}>
+                                            {entry.action === 'deny' ? <Ban size={12} /> : <ShieldCheck size={12} />}{' '}
+                                            {entry.action === 'deny' ? t.deny : t.allow}
+                                        </span>
+                                    </td>
+                                    <td className={styles.messageCell}>{entry.reason}</td>
+                                    <td className={styles.leadType}>{entry.source === 'auto' ? t.auto : t.manual}</td>
+                                    <td className={styles.dateCell}>
+                                        {entry.expiresAt ? new Date(entry.expiresAt).toLocaleString(locale) : t.never}
+                                    </td>
+                                    <td>
+                                        <button
+                                            type="button"
+                                            className={`${styles.btnTextLink} ${styles.btnDelete}`}
+                                            onClick={() => remove(entry.ip)}
+                                            disabled={busy}
+                                            title={t.remove}
+                                        >
+                                            <Trash2 size={16} />
+                                            {t.remove}
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <h3 className={`${styles.securityCardTitle} ${styles.mt2}`}>{t.auditTitle}</h3>
+            {audit.length === 0 ? (
+                <p className={styles.securityCardDesc}>{t.auditEmpty}</p>
+            ) : (
+                <ul className={styles.sessionList}>
+                    {audit.map(event => (
+                        <li key={event.id} className={styles.sessionItem}>
+                            {event.type === 'ip_blocked' ? <Ban size={20} /> : <ShieldCheck size={20} />}
+                            <div className={styles.flex1}>
+                                <strong>{t.events[event.type] || event.type} {event.ip}</strong>
+                                <p className={styles.securityCardDesc}>
+                                    {event.details.reason}
+                                    {' · '}
+                                    {t.by} {event.userId || t.system}
+                                    {' · '}
+                                    {new Date(event.createdAt).toLocaleString(locale)}
+                                </p>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
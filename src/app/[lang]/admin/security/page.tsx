@@ -0,0 +1,453 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import {
+    AlertCircle,
+    Bug,
+    ChevronLeft,
+    ChevronRight,
+    Gauge,
+    KeyRound,
+    Loader2,
+    ShieldAlert,
+    X
+} from 'lucide-react';
+import styles from '../admin.module.css';
+import IpBlocklistPanel from './IpBlocklistPanel';
+
+interface SecurityEventItem {
+    id: string;
+    type: string;
+    severity: 'low' | 'medium' | 'high' | 'critical';
+    userId?: string;
+    ip: string;
+    userAgent: string;
+    path: string;
+    method?: string;
+    details: Record<string, unknown>;
+    createdAt: string;
+}
+
+interface Timeline {
+    interval: 'hour' | 'day';
+    from: string;
+    to: string;
+    buckets: Array<{ start: string; counts: Record<string, number>; total: number }>;
+}
+
+type EventGroup = 'authFailures' | 'rateLimits' | 'attacks';
+
+// Event types charted under each heading
+const EVENT_GROUPS: Record<EventGroup, string[]> = {
+    authFailures: ['auth_failure', 'brute_force'],
+    rateLimits: ['rate_limit'],
+    attacks: [
+        'ddos_attempt',
+        'injection_attempt',
+        'xss_attempt',
+        'csrf_attempt',
+        'ssrf_attempt',
+        'session_hijack',
+        'privilege_escalation',
+        'malicious_upload',
+        'data_breach',
+    ],
+};
+
+const GROUP_ORDER: EventGroup[] = ['authFailures', 'rateLimits', 'attacks'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RANGES = {
+    '24h': { interval: 'hour', ms: DAY_MS, labelEvery: 4 },
+    '7d': { interval: 'day', ms: 7 * DAY_MS, labelEvery: 1 },
+    '30d': { interval: 'day', ms: 30 * DAY_MS, labelEvery: 5 },
+} as const;
+
+type RangeKey = keyof typeof RANGES;
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export default function SecurityAdminPage() {
+    const params = useParams();
+    const router = useRouter();
+    const lang = (params?.lang as string) || 'en';
+    const isAr = lang === 'ar';
+    const locale = isAr ? 'ar-EG' : 'en-US';
+
+    const [range, setRange] = useState<RangeKey>('24h');
+    const [group, setGroup] = useState<EventGroup | 'all'>('all');
+    const [severity, setSeverity] = useState('');
+    const [ipFilter, setIpFilter] = useState('');
+    const [userFilter, setUserFilter] = useState('');
+    const [ipInput, setIpInput] = useState('');
+    const [userInput, setUserInput] = useState('');
+    const [page, setPage] = useState(1);
+
+    const [events, setEvents] = useState<SecurityEventItem[]>([]);
+    const [pagination, setPagination] = useState<{ page: number; totalPages: number; total: number } | null>(null);
+    const [timeline, setTimeline] = useState<Timeline | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const fetchData = useCallback(async () => {
+        setLoading(true);
+        setError('');
+
+        const to = new Date();
+        const filters = new URLSearchParams({
+            from: new Date(to.getTime() - RANGES[range].ms).toISOString(),
+            to: to.toISOString(),
+        });
+        if (group !== 'all') filters.set('type', EVENT_GROUPS[group].join(','));
+        if (severity) filters.set('severity', severity);
+        if (ipFilter) filters.set('ip', ipFilter);
+        if (userFilter) filters.set('userId', userFilter);
+
+        const timelineQuery = new URLSearchParams(filters);
+        timelineQuery.set('interval', RANGES[range].interval);
+        filters.set('page', String(page));
+        filters.set('limit', '50');
+
+        try {
+            const [eventsRes, timelineRes] = await Promise.all([
+                fetch(`/api/security/events?${filters}`),
+                fetch(`/api/security/events/timeline?${timelineQuery}`),
+            ]);
+
+            if (eventsRes.status === 401 || timelineRes.status === 401) {
+                router.push(`/${lang}/login`);
+                return;
+            }
+
+            const [eventsData, timelineData] = await Promise.all([eventsRes.json(), timelineRes.json()]);
+            if (!eventsRes.ok) throw new Error(eventsData.error || 'Failed to load security events');
+            if (!timelineRes.ok) throw new Error(timelineData.error || 'Failed to load security timeline');
+
+            setEvents(eventsData.data);
+            setPagination(eventsData.pagination);
+            setTimeline(timelineData.data);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    }, [range, group, severity, ipFilter, userFilter, page, lang, router]);
+
+    useEffect(() => {
+        fetchData();
+    }, [fetchData]);
+
+    // One slot per hour/day in the range, empty ones included, counted per group
+    const slots = useMemo(() => {
+        if (!timeline) return [];
+
+        const size = timeline.interval === 'hour' ? HOUR_MS : DAY_MS;
+        const byStart = new Map(timeline.buckets.map(bucket => [new Date(bucket.start).getTime(), bucket]));
+        const result: Array<{ start: number; counts: Record<EventGroup, number> }> = [];
+
+        for (
+            let start = Math.floor(new Date(timeline.from).getTime() / size) * size;
+            start <= new Date(timeline.to).getTime();
+            start += size
+        ) {
+            const bucketCounts = byStart.get(start)?.counts || {};
+            const counts = {} as Record<EventGroup, number>;
+            for (const key of GROUP_ORDER) {
+                counts[key] = EVENT_GROUPS[key].reduce((sum, type) => sum + (bucketCounts[type] || 0), 0);
+            }
+            result.push({ start, counts });
+        }
+
+        return result;
+    }, [timeline]);
+
+    const totals = useMemo(() => {
+        const sums: Record<EventGroup, number> = { authFailures: 0, rateLimits: 0, attacks: 0 };
+        for (const slot of slots) {
+            for (const key of GROUP_ORDER) sums[key] += slot.counts[key];
+        }
+        return sums;
+    }, [slots]);
+
+    const maxSlot = Math.max(1, ...slots.map(slot => GROUP_ORDER.reduce((sum, key) => sum + slot.counts[key], 0)));
+
+    function applyFilters(event: FormEvent) {
+        event.preventDefault();
+        setIpFilter(ipInput.trim());
+        setUserFilter(userInput.trim());
+        setPage(1);
+    }
+
+    function filterByIp(ip: string) {
+        setIpInput(ip);
+        setIpFilter(ip);
+        setPage(1);
+    }
+
+    function clearFilters() {
+        setGroup('all');
+        setSeverity('');
+        setIpInput('');
+        setUserInput('');
+        setIpFilter('');
+        setUserFilter('');
+        setPage(1);
+    }
+
+    function formatSlot(start: number): string {
+        return timeline?.interval === 'hour'
+            ? new Date(start).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })
+            : new Date(start).toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+    }
+
+    const t = {
+        title: isAr ? 'سجل الأمان' : 'Security Events',
+        subtitle: isAr ? 'محاولات الدخول الفاشلة وتجاوز حدود الطلبات ومحاولات الهجوم' : 'Failed sign-ins, rate-limit hits and attack attempts',
+        ranges: { '24h': isAr ? '24 ساعة' : '24 hours', '7d': isAr ? '7 أيام' : '7 days', '30d': isAr ? '30 يومًا' : '30 days' },
+        groups: {
+            authFailures: isAr ? 'فشل تسجيل الدخول' : 'Auth failures',
+            rateLimits: isAr ? 'تجاوز حد الطلبات' : 'Rate-limit hits',
+            attacks: isAr ? 'محاولات الهجوم' : 'Attack attempts',
+        },
+        allTypes: isAr ? 'كل الأنواع' : 'All types',
+        allSeverities: isAr ? 'كل المستويات' : 'All severities',
+        severities: {
+            low: isAr ? 'منخفض' : 'Low',
+            medium: isAr ? 'متوسط' : 'Medium',
+            high: isAr ? 'مرتفع' : 'High',
+            critical: isAr ? 'حرج' : 'Critical',
+        },
+        ipPlaceholder: isAr ? 'عنوان IP' : 'IP address',
+        userPlaceholder: isAr ? 'معرّف المستخدم' : 'User ID',
+        apply: isAr ? 'تطبيق' : 'Apply',
+        clear: isAr ? 'مسح الفلاتر' : 'Clear filters',
+        timeline: isAr ? 'الأحداث عبر الوقت' : 'Events over time',
+        events: isAr ? 'الأحداث' : 'Events',
+        time: isAr ? 'الوقت' : 'Time',
+        type: isAr ? 'النوع' : 'Type',
+        severity: isAr ? 'المستوى' : 'Severity',
+        ip: 'IP',
+        user: isAr ? 'المستخدم' : 'User',
+        request: isAr ? 'الطلب' : 'Request',
+        details: isAr ? 'التفاصيل' : 'Details',
+        filterByIp: isAr ? 'عرض أحداث هذا العنوان' : 'Show events from this IP',
+        noEvents: isAr ? 'لا توجد أحداث أمنية' : 'No security events found',
+        loading: isAr ? 'جاري التحميل...' : 'Loading security events...',
+        page: (current: number, total: number) => isAr ? `صفحة ${current} من ${total}` : `Page ${current} of ${total}`,
+    };
+
+    const groupIcons: Record<EventGroup, { icon: typeof KeyRound; className: string }> = {
+        authFailures: { icon: KeyRound, className: styles.statIconProfile },
+        rateLimits: { icon: Gauge, className: styles.statIconSystem },
+        attacks: { icon: Bug, className: styles.statIconSecurity },
+    };
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.header}>
+                <div>
+                    <h1>{t.title}</h1>
+                    <p className={styles.subtitle}>{t.subtitle}</p>
+                </div>
+                <div className={styles.flexGap1}>
+                    {(Object.keys(RANGES) as RangeKey[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => {
+                                setRange(key);
+                                setPage(1);
+                            }}
+                            className={`${styles.btnFilter} ${range === key ? styles.btnFilterActive : ''}`}
+                        >
+                            {t.ranges[key]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={styles.statsGrid}>
+                {GROUP_ORDER.map(key => {
+                    const { icon: Icon, className } = groupIcons[key];
+                    return (
+                        <div key={key} className={styles.statCard}>
+                            <div className={`${styles.statIcon} ${className}`}>
+                                <Icon size={24} />
+                            </div>
+                            <div className={styles.statContent}>
+                                <p className={styles.statLabel}>{t.groups[key]}</p>
+                                <p className={styles.statValue}>{totals[key].toLocaleString(locale)}</p>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <form className={`${styles.securityFilters} ${styles.mb05}`} onSubmit={applyFilters}>
+                <select
+                    value={group}
+                    onChange={event => {
+                        setGroup(event.target.value as EventGroup | 'all');
+                        setPage(1);
+                    }}
+                    aria-label={t.type}
+                >
+                    <option value="all">{t.allTypes}</option>
+                    {GROUP_ORDER.map(key => <option key={key} value={key}>{t.groups[key]}</option>)}
+                </select>
+                <select
+                    value={severity}
+                    onChange={event => {
+                        setSeverity(event.target.value);
+                        setPage(1);
+                    }}
+                    aria-label={t.severity}
+                >
+                    <option value="">{t.allSeverities}</option>
+                    {SEVERITIES.map(level => <option key={level} value={level}>{t.severities[level]}</option>)}
+                </select>
+                <input value={ipInput} onChange={event => setIpInput(event.target.value)} placeholder={t.ipPlaceholder} />
+                <input value={userInput} onChange={event => setUserInput(event.target.value)} placeholder={t.userPlaceholder} />
+                <button type="submit" className={`${styles.btnFilter} ${styles.btnFilterActive}`}>{t.apply}</button>
+                <button type="button" className={styles.btnFilter} onClick={clearFilters}>
+                    <X size={14} /> {t.clear}
+                </button>
+            </form>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+
+            <div className={`${styles.section} ${styles.mt2}`}>
+                <div className={styles.sectionHeader}>
+                    <h2>{t.timeline}</h2>
+                    <div className={styles.timelineLegend}>
+                        {GROUP_ORDER.map(key => (
+                            <span key={key}>
+                                <i className={styles[`timeline_${key}`]} /> {t.groups[key]}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                <div className={styles.timelineChart}>
+                    {slots.map((slot, index) => (
+                        <div
+                            key={slot.start}
+                            className={styles.timelineColumn}
+                            title={`${formatSlot(slot.start)} · ${GROUP_ORDER.map(key => `${t.groups[key]}: ${slot.counts[key]}`).join(', ')}`}
+                        >
+                            <div className={styles.timelineStack}>
+                                {GROUP_ORDER.filter(key => slot.counts[key] > 0).map(key => (
+                                    <div
+                                        key={key}
+                                        className={styles[`timeline_${key}`]}
+                                        style={{ height: `${(slot.counts[key] / maxSlot) * 100}%` }}
+                                    />
+                                ))}
+                            </div>
+                            <span className={styles.timelineLabel}>
+                                {index % RANGES[range].labelEvery === 0 ? formatSlot(slot.start) : ''}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className={`${styles.section} ${styles.mt2}`}>
+                <div className={styles.sectionHeader}>
+                    <h2>{t.events}</h2>
+                    {pagination && pagination.totalPages > 1 && (
+                        <div className={styles.flexGap1}>
+                            <button
+                                className={styles.btnFilter}
+                                disabled={page <= 1}
+                                onClick={() => setPage(page - 1)}
+                                aria-label="Previous page"
+                            >
+                                {isAr ? <ChevronRight size={16} /> : <ChevronLeft size={16} />}
+                            </button>
+                            <span className={styles.leadType}>{t.page(pagination.page, pagination.totalPages)}</span>
+                            <button
+                                className={styles.btnFilter}
+                                disabled={page >= pagination.totalPages}
+                                onClick={() => setPage(page + 1)}
+                                aria-label="Next page"
+                            >
+                                {isAr ? <ChevronLeft size={16} /> : <ChevronRight size={16} />}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {loading ? (
+                    <div className={styles.loading}>
+                        <Loader2 className={styles.spinner} size={40} />
+                        <p>{t.loading}</p>
+                    </div>
+                ) : events.length === 0 ? (
+                    <div className={styles.emptyState}>
+                        <ShieldAlert size={48} />
+                        <h3>{t.noEvents}</h3>
+                    </div>
+                ) : (
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{t.time}</th>
+                                    <th>{t.type}</th>
+                                    <th>{t.severity}</th>
+                                    <th>{t.ip}</th>
+                                    <th>{t.user}</th>
+                                    <th>{t.request}</th>
+                                    <th>{t.details}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {events.map(event => (
+                                    <tr key={event.id}>
+                                        <td className={styles.dateCell}>
+                                            {new Date(event.createdAt).toLocaleString(locale)}
+                                        </td>
+                                        <td className={styles.leadName}>{event.type}</td>
+                                        <td>
+                                            <span className={`${styles.statusBadge} ${styles[`severity_${event.severity}`]}`}>
+                                                {t.severities[event.severity]}
+                                            </span>
+                                        </td>
+                                        <td>
+                                            <button
+                                                className={`${styles.viewAllLink} ${styles.linkButton}`}
+                                                onClick={() => filterByIp(event.ip)}
+                                                title={t.filterByIp}
+                                            >
+                                                {event.ip}
+                                            </button>
+                                        </td>
+                                        <td className={styles.leadType}>{event.userId || '—'}</td>
+                                        <td className={styles.leadType}>
+                                            {event.method ? `${event.method} ` : ''}{event.path}
+                                        </td>
+                                        <td className={styles.messageCell}>
+                                            <div className={styles.messageTruncate} title={JSON.stringify(event.details, null, 2)}>
+                                                {JSON.stringify(event.details)}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <IpBlocklistPanel lang={lang} />
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, Laptop, Loader2, LogOut, Smartphone } from 'lucide-react';
+import styles from '../admin.module.css';
+
+interface ActiveSession {
+    id: string;
+    ip?: string;
+    userAgent?: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    current: boolean;
+}
+
+/**
+ * "Chrome on macOS" from a user agent string; good enough to recognise a device
+ */
+function describeDevice(userAgent?: string): { label: string; mobile: boolean } {
+    if (!userAgent || userAgent === 'unknown') return { label: 'Unknown device', mobile: false };
+
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /OPR\//.test(userAgent) ? 'Opera'
+            : /Firefox\//.test(userAgent) ? 'Firefox'
+                : /Chrome\//.test(userAgent) ? 'Chrome'
+                    : /Safari\//.test(userAgent) ? 'Safari'
+                        : 'Browser';
+    const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+        : /Android/.test(userAgent) ? 'Android'
+            : /Mac OS X/.test(userAgent) ? 'macOS'
+                : /Windows/.test(userAgent) ? 'Windows'
+                    : /Linux/.test(userAgent) ? 'Linux'
+                        : 'Unknown OS';
+
+    return { label: `${browser} on ${os}`, mobile: os === 'iOS' || os === 'Android' };
+}
+
+export default function SessionsSettings({ lang }: { lang: string }) {
+    const router = useRouter();
+    const isAr = lang === 'ar';
+
+    const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch('/api/auth/sessions');
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to load sessions');
+
+            setSessions(data.data);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const end = async (url: string, busyKey: string) => {
+        setBusyId(busyKey);
+        setError('');
+
+        try {
+            const res = await fetch(url, { method: 'DELETE' });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Request failed');
+
+            // Ended our own session: we are signed out
+            if (data.data?.current) {
+                router.push(`/${lang}/login`);
+                return;
+            }
+            await load();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const formatDate = (value: string) =>
+        new Date(value).toLocaleString(isAr ? 'ar-EG' : 'en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+    return (
+        <div className={styles.securityCard}>
+            <h4 className={styles.securityCardTitle}>
+                {isAr ? 'الأجهزة المتصلة' : 'Active Sessions'}
+            </h4>
+            <p className={styles.securityCardDesc}>
+                {isAr
+                    ? 'الأجهزة التي سجلت الدخول إلى حسابك. قد يستغرق إنهاء الجلسة حتى 15 دقيقة.'
+                    : 'Devices signed in to your account. Ending a session can take up to 15 minutes to apply.'}
+            </p>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+
+            {!sessions ? (
+                !error && <Loader2 className={styles.spinner} size={20} />
+            ) : (
+                <ul className={styles.sessionList}>
+                    {sessions.map((session) => {
+                        const device = describeDevice(session.userAgent);
+                        const Icon = device.mobile ? Smartphone : Laptop;
+
+                        return (
+                            <li key={session.id} className={styles.sessionItem}>
+                                <Icon size={20} />
+                                <div className={styles.flex1}>
+                                    <strong>{device.label}</strong>
+                                    {session.current && (
+                                        <span className={styles.sessionCurrent}>
+                                            {isAr ? 'هذا الجهاز' : 'This device'}
+                                        </span>
+                                    )}
+                                    <p className={styles.securityCardDesc}>
+                                        {session.ip || (isAr ? 'عنوان غير معروف' : 'Unknown IP')}
+                                        {' · '}
+                                        {isAr ? 'آخر نشاط' : 'Last seen'} {formatDate(session.lastSeenAt)}
+                                    </p>
+                                </div>
+                                <button
+                                    type="button"
+                                    className={`${styles.btnTextLink} ${styles.btnDelete}`}
+                                    onClick={() => end(`/api/auth/sessions/${session.id}`, session.id)}
+                                    disabled={busyId !== null}
+                                    title={isAr ? 'تسجيل الخروج' : 'Sign out'}
+                                >
+                                    {busyId === session.id ? <Loader2 className={styles.spinner} size={16} /> : <LogOut size={16} />}
+                                    {isAr ? 'تسجيل الخروج' : 'Sign out'}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {sessions && sessions.some((session) => !session.current) && (
+                <button
+                    type="button"
+                    className={`${styles.viewAllLink} ${styles.noPadding}`}
+                    onClick={() => end('/api/auth/sessions', 'others')}
+                    disabled={busyId !== null}
+                >
+                    {isAr ? 'تسجيل الخروج من جميع الأجهزة الأخرى' : 'Sign out of all other devices'}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useCallback, useEffect, useState, FormEvent } from 'react';
+import { AlertCircle, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import styles from '../admin.module.css';
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt?: string;
+    pendingEnrollment: boolean;
+    recoveryCodesRemaining: number;
+    required: boolean;
+}
+
+interface Enrollment {
+    secret: string;
+    provisioningUri: string;
+    qrPayload: string;
+}
+
+interface Policy {
+    roles: string[];
+    requiredRoles: string[];
+}
+
+type PendingAction = 'enable' | 'disable' | 'regenerate';
+
+async function request<T>(url: string, method: string = 'GET', body?: unknown): Promise<T> {
+    const res = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data.data as T;
+}
+
+export default function TwoFactorSettings({ lang }: { lang: string }) {
+    const isAr = lang === 'ar';
+
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [policy, setPolicy] = useState<Policy | null>(null);
+    const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [action, setAction] = useState<PendingAction | null>(null);
+    const [code, setCode] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const load = useCallback(async () => {
+        try {
+            setStatus(await request<TwoFactorStatus>('/api/auth/2fa'));
+        } catch (err: any) {
+            setError(err.message);
+        }
+
+        // Only admins can read the policy; others simply don't see it
+        try {
+            setPolicy(await request<Policy>('/api/auth/2fa/policy'));
+        } catch {
+            setPolicy(null);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (task: () => Promise<void>) => {
+        setLoading(true);
+        setError('');
+        try {
+            await task();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const startSetup = () => run(async () => {
+        setRecoveryCodes(null);
+        setEnrollment(await request<Enrollment>('/api/auth/2fa', 'POST'));
+        setAction('enable');
+        setCode('');
+    });
+
+    const submitCode = (e: FormEvent) => {
+        e.preventDefault();
+
+        run(async () => {
+            if (action === 'enable') {
+                const result = await request<{ recoveryCodes: string[] }>('/api/auth/2fa', 'PUT', { code });
+                setRecoveryCodes(result.recoveryCodes);
+                setEnrollment(null);
+            } else if (action === 'regenerate') {
+                const result = await request<{ recoveryCodes: string[] }>(
+                    '/api/auth/2fa/recovery-codes', 'POST', { code }
+                );
+                setRecoveryCodes(result.recoveryCodes);
+            } else if (action === 'disable') {
+                await request('/api/auth/2fa', 'DELETE', { code });
+            }
+
+            setAction(null);
+            setCode('');
+            await load();
+        });
+    };
+
+    const toggleRole = (role: string, required: boolean) => run(async () => {
+        setPolicy(await request<Policy>('/api/auth/2fa/policy', 'PUT', { role, required }));
+        await load();
+    });
+
+    if (!status) {
+        return (
+            <div className={styles.securityCard}>
+                {error ? <p className={styles.securityCardDesc}>{error}</p> : <Loader2 className={styles.spinner} size={20} />}
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className={styles.securityCard}>
+                <h4 className={styles.securityCardTitle}>
+                    {isAr ? 'المصادقة الثنائية' : 'Two-Factor Authentication'}
+                </h4>
+                <p className={styles.securityCardDesc}>
+                    {status.enabled
+                        ? (isAr
+                            ? `مفعّلة. رموز الاسترداد المتبقية: ${status.recoveryCodesRemaining}`
+                            : `Enabled. Recovery codes remaining: ${status.recoveryCodesRemaining}`)
+                        : (isAr
+                            ? 'أضف رمزاً من تطبيق المصادقة عند تسجيل الدخول.'
+                            : 'Require a code from an authenticator app when signing in.')}
+                </p>
+
+                {status.required && !status.enabled && (
+                    <div className={styles.errorBanner}>
+                        <AlertCircle size={18} />
+                        {isAr
+                            ? 'المصادقة الثنائية مطلوبة لدورك. يرجى تفعيلها الآن.'
+                            : 'Two-factor authentication is required for your role. Please set it up now.'}
+                    </div>
+                )}
+
+                {error && (
+                    <div className={styles.errorBanner}>
+                        <AlertCircle size={18} />
+                        {error}
+                    </div>
+                )}
+
+                {enrollment && (
+                    <div className={styles.formGroup}>
+                        <label>{isAr ? 'المفتاح السري' : 'Secret key'}</label>
+                        <code className={styles.secretCode}>{enrollment.secret}</code>
+                        <p className={styles.securityCardDesc}>
+                            {isAr
+                                ? 'امسح الرابط أو أدخل المفتاح في تطبيق المصادقة، ثم أدخل الرمز المكون من 6 أرقام.'
+                                : 'Scan the link or enter the key in your authenticator app, then enter the 6-digit code.'}
+                        </p>
+                        <a href={enrollment.provisioningUri} className={`${styles.viewAllLink} ${styles.noPadding}`}>
+                            {isAr ? 'فتح في تطبيق المصادقة' : 'Open in authenticator app'}
+                        </a>
+                    </div>
+                )}
+
+                {recoveryCodes && (
+                    <div className={styles.formGroup}>
+                        <label>{isAr ? 'رموز الاسترداد' : 'Recovery codes'}</label>
+                        <p className={styles.securityCardDesc}>
+                            {isAr
+                                ? 'احفظ هذه الرموز في مكان آمن. كل رمز يُستخدم مرة واحدة ولن تظهر مجدداً.'
+                                : 'Store these somewhere safe. Each code works once and they will not be shown again.'}
+                        </p>
+                        <div className={styles.recoveryCodes}>
+                            {recoveryCodes.map((recoveryCode) => (
+                                <code key={recoveryCode}>{recoveryCode}</code>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {action ? (
+                    <form onSubmit={submitCode} className={`${styles.formGroup} ${styles.mt2}`}>
+                        <label htmlFor="two-factor-code">
+                            {action === 'enable'
+                                ? (isAr ? 'رمز التحقق' : 'Authentication code')
+                                : (isAr ? 'رمز التحقق أو رمز الاسترداد' : 'Authentication or recovery code')}
+                        </label>
+                        <input
+                            id="two-factor-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            autoComplete="one-time-code"
+                            required
+                        />
+                        <div className={styles.flexGap1}>
+                            <button type="submit" className={styles.buttonPrimary} disabled={loading}>
+                                {loading ? <Loader2 className={styles.spinner} size={18} /> : <ShieldCheck size={18} />}
+                                {isAr ? 'تأكيد' : 'Confirm'}
+                            </button>
+                            <button
+                                type="button"
+                                className={styles.btnTextLink}
+                                onClick={() => { setAction(null); setEnrollment(null); setCode(''); }}
+                            >
+                                {isAr ? 'إلغاء' : 'Cancel'}
+                            </button>
+                        </div>
+                    </form>
+                ) : status.enabled ? (
+                    <div className={styles.flexGap1}>
+                        <button
+                            type="button"
+                            className={styles.btnTextLink}
+                            onClick={() => { setAction('regenerate'); setRecoveryCodes(null); }}
+                        >
+                            <KeyRound size={16} />
+                            {isAr ? 'رموز استرداد جديدة' : 'New recovery codes'}
+                        </button>
+                        {!status.required && (
+                            <button
+                                type="button"
+                                className={`${styles.btnTextLink} ${styles.btnDelete}`}
+                                onClick={() => setAction('disable')}
+                            >
+                                <ShieldOff size={16} />
+                                {isAr ? 'إيقاف' : 'Turn off'}
+                            </button>
+                        )}
+                    </div>
+                ) : (
+                    <button type="button" className={styles.buttonPrimary} onClick={startSetup} disabled={loading}>
+                        <ShieldCheck size={18} />
+                        {isAr ? 'تفعيل المصادقة الثنائية' : 'Set up two-factor authentication'}
+                    </button>
+                )}
+            </div>
+
+            {policy && (
+                <div className={styles.securityCard}>
+                    <h4 className={styles.securityCardTitle}>
+                        {isAr ? 'سياسة المصادقة الثنائية' : 'Two-Factor Policy'}
+                    </h4>
+                    <p className={styles.securityCardDesc}>
+                        {isAr
+                            ? 'الأدوار المحددة يجب أن تستخدم المصادقة الثنائية لتسجيل الدخول.'
+                            : 'Selected roles must use two-factor authentication to sign in.'}
+                    </p>
+                    <div className={styles.featuresGrid}>
+                        {policy.roles.map((role) => {
+                            const required = policy.requiredRoles.includes(role);
+                            return (
+                                <label key={role} className={styles.featureItem}>
+                                    <input
+                                        type="checkbox"
+                                        checked={required}
+                                        disabled={loading}
+                                        onChange={() => toggleRole(role, !required)}
+                                    />
+                                    {role}
+                                </label>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -14,6 +14,8 @@ import {
     ExternalLink
 } from 'lucide-react';
 import styles from '../admin.module.css';
+import TwoFactorSettings from './TwoFactorSettings';
+import SessionsSettings from './SessionsSettings';
 
 export default function AdminSettingsPage() {
     const params = useParams();
@@ -92,6 +94,10 @@ export default function AdminSettingsPage() {
                 </h2>
 
                 <div className={styles.securityGrid}>
+                    <TwoFactorSettings lang={lang} />
+
+                    <SessionsSettings lang={lang} />
+
                     <div className={styles.securityCard}>
                         <h4 className={styles.securityCardTitle}>Admin Access Logs</h4>
                         <p className={styles.securityCardDesc}>Review recent login activity and security events.</p>
@@ -0,0 +1,277 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { UserRoleSchema } from '@/contracts/schemas';
+import styles from '../admin.module.css';
+
+interface UserItem {
+    id: string;
+    email: string;
+    role: string;
+    status: string;
+    profile: { firstName: string; lastName: string };
+    lastLoginAt?: string;
+    locked: boolean;
+    lockedUntil?: string;
+}
+
+const PAGE_SIZE = 20;
+
+async function request<T>(url: string, method: string = 'GET', body?: unknown): Promise<T> {
+    const res = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data.data as T;
+}
+
+export default function UsersAdminPage() {
+    const params = useParams();
+    const router = useRouter();
+    const lang = (params?.lang as string) || 'en';
+    const isAr = lang === 'ar';
+    const locale = isAr ? 'ar-EG' : 'en-US';
+
+    const t = {
+        title: isAr ? 'المستخدمون' : 'Users',
+        subtitle: isAr
+            ? 'ابحث عن الحسابات، وأنهِ جلساتها أو ألغِ قفلها عند الحاجة.'
+            : 'Find accounts, end their sessions or unlock them when needed.',
+        search: isAr ? 'بحث بالاسم أو البريد' : 'Search name or email',
+        allRoles: isAr ? 'كل الأدوار' : 'All roles',
+        apply: isAr ? 'بحث' : 'Search',
+        lockedOnly: isAr ? 'المقفلة فقط' : 'Locked only',
+        locked: isAr ? 'مقفل' : 'Locked',
+        lockedUntil: (date: string) => (isAr ? `حتى ${date}` : `until ${date}`),
+        unlock: isAr ? 'إلغاء القفل' : 'Unlock',
+        unlocked: (email: string) => (isAr ? `تم إلغاء قفل ${email}` : `${email} unlocked`),
+        name: isAr ? 'الاسم' : 'Name',
+        email: isAr ? 'البريد' : 'Email',
+        role: isAr ? 'الدور' : 'Role',
+        status: isAr ? 'الحالة' : 'Status',
+        lastLogin: isAr ? 'آخر دخول' : 'Last login',
+        never: isAr ? 'لم يسجل الدخول' : 'Never',
+        noUsers: isAr ? 'لا يوجد مستخدمون' : 'No users found',
+        signOut: isAr ? 'تسجيل الخروج من كل الأجهزة' : 'Sign out everywhere',
+        confirmSignOut: (email: string) => (isAr
+            ? `إنهاء كل جلسات ${email}؟ سيحتاج لتسجيل الدخول مجدداً خلال 15 دقيقة.`
+            : `End every session of ${email}? They will have to sign in again within 15 minutes.`),
+        signedOut: (email: string) => (isAr ? `تم إنهاء جلسات ${email}` : `Sessions of ${email} ended`),
+        page: (current: number, total: number) => (isAr ? `صفحة ${current} من ${total}` : `Page ${current} of ${total}`),
+        total: (count: number) => (isAr ? `${count} مستخدم` : `${count} users`),
+    };
+
+    const [users, setUsers] = useState<UserItem[] | null>(null);
+    const [queryInput, setQueryInput] = useState('');
+    const [query, setQuery] = useState('');
+    const [role, setRole] = useState('');
+    const [lockedOnly, setLockedOnly] = useState(false);
+    const [page, setPage] = useState(1);
+    const [pagination, setPagination] = useState<{ page: number; totalPages: number; total: number } | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const load = useCallback(async () => {
+        const filters = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+        if (query) filters.set('q', query);
+        if (role) filters.set('role', role);
+        if (lockedOnly) filters.set('locked', 'true');
+
+        try {
+            const res = await fetch(`/api/users?${filters}`);
+            if (res.status === 401) {
+                router.push(`/${lang}/login`);
+                return;
+            }
+
+            const result = await res.json();
+            if (!result.success) throw new Error(result.error);
+
+            setUsers(result.data);
+            setPagination(result.pagination);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [query, role, lockedOnly, page, lang, router]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (task: () => Promise<void>) => {
+        setBusy(true);
+        setError('');
+        setNotice('');
+        try {
+            await task();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const search = (event: FormEvent) => {
+        event.preventDefault();
+        setQuery(queryInput.trim());
+        setPage(1);
+    };
+
+    const signOut = (user: UserItem) => {
+        if (!window.confirm(t.confirmSignOut(user.email))) return;
+
+        run(async () => {
+            await request(`/api/users/${encodeURIComponent(user.id)}/sessions`, 'DELETE');
+            setNotice(t.signedOut(user.email));
+        });
+    };
+
+    const unlock = (user: UserItem) => run(async () => {
+        await request(`/api/users/${encodeURIComponent(user.id)}/lock`, 'DELETE');
+        await load();
+        setNotice(t.unlocked(user.email));
+    });
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.header}>
+                <div>
+                    <h1>{t.title}</h1>
+                    <p className={styles.subtitle}>{t.subtitle}</p>
+                </div>
+            </div>
+
+            {error && (
+                <div className={styles.errorBanner}>
+                    <AlertCircle size={18} />
+                    {error}
+                </div>
+            )}
+
+            <div className={styles.section}>
+                <form className={`${styles.securityFilters} ${styles.mb05}`} onSubmit={search}>
+                    <input value={queryInput} onChange={event => setQueryInput(event.target.value)} placeholder={t.search} />
+                    <select
+                        value={role}
+                        onChange={event => {
+                            setRole(event.target.value);
+                            setPage(1);
+                        }}
+                        aria-label={t.role}
+                    >
+                        <option value="">{t.allRoles}</option>
+                        {UserRoleSchema.options.map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                    <button type="submit" className={`${styles.btnFilter} ${styles.btnFilterActive}`}>
+                        {t.apply}
+                    </button>
+                    <button
+                        type="button"
+                        className={`${styles.btnFilter} ${lockedOnly ? styles.btnFilterActive : ''}`}
+                        onClick={() => {
+                            setLockedOnly(!lockedOnly);
+                            setPage(1);
+                        }}
+                        aria-pressed={lockedOnly}
+                    >
+                        {t.lockedOnly}
+                    </button>
+                    {notice && <span className={styles.securityCardDesc}>{notice}</span>}
+                </form>
+
+                {users === null ? (
+                    !error && <Loader2 className={styles.spinner} size={20} />
+                ) : (
+                    <>
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{t.name}</th>
+                                    <th>{t.email}</th>
+                                    <th>{t.role}</th>
+                                    <th>{t.status}</th>
+                                    <th>{t.lastLogin}</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {users.length === 0 ? (
+                                    <tr>
+                                        <td colSpan={6} className={styles.leadType}>{t.noUsers}</td>
+                                    </tr>
+                                ) : users.map(user => (
+                                    <tr key={user.id}>
+                                        <td className={styles.leadName}>{user.profile.firstName} {user.profile.lastName}</td>
+                                        <td>{user.email}</td>
+                                        <td>{user.role}</td>
+                                        <td>
+                                            <span className={`${styles.statusBadge} ${user.status === 'active' ? styles.severity_low : styles.severity_medium}`}>
+                                                {user.status}
+                                            </span>
+                                            {user.locked && (
+                                                <span
+                                                    className={`${styles.statusBadge} ${styles.severity_critical}`}
+                                                    title={user.lockedUntil ? t.lockedUntil(new Date(user.lockedUntil).toLocaleString(locale)) : undefined}
+                                                >
+                                                    {t.locked}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className={styles.leadType}>
+                                            {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString(locale) : t.never}
+                                        </td>
+                                        <td className={styles.flexGap1}>
+                                            {user.locked && (
+                                                <button type="button" className={styles.btnTextLink} onClick={() => unlock(user)} disabled={busy}>
+                                                    {t.unlock}
+                                                </button>
+                                            )}
+                                            <button type="button" className={`${styles.btnTextLink} ${styles.btnDelete}`} onClick={() => signOut(user)} disabled={busy}>
+                                                {t.signOut}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {pagination && (
+                        <div className={`${styles.flexGap1} ${styles.mt2}`}>
+                            <span className={styles.leadType}>{t.total(pagination.total)}</span>
+                            {pagination.totalPages > 1 && (
+                                <>
+                                    <button
+                                        className={styles.btnFilter}
+                                        disabled={page <= 1}
+                                        onClick={() => setPage(page - 1)}
+                                        aria-label="Previous page"
+                                    >
+                                        {isAr ? <ChevronRight size={16} /> : <ChevronLeft size={16} />}
+                                    </button>
+                                    <span className={styles.leadType}>{t.page(pagination.page, pagination.totalPages)}</span>
+                                    <button
+                                        className={styles.btnFilter}
+                                        disabled={page >= pagination.totalPages}
+                                        onClick={() => setPage(page + 1)}
+                                        aria-label="Next page"
+                                    >
+                                        {isAr ? <ChevronLeft size={16} /> : <ChevronRight size={16} />}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -5,6 +5,7 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { ChevronDown, Grid, List, MapPin, Search, Loader2, AlertCircle, X } from 'lucide-react';
 import PageLayout from '@/app/components/PageLayout';
 import PropertyCard from '@/app/components/property/PropertyCard';
+import SaveSearchButton from '@/app/components/property/SaveSearchButton';
 import { SearchService } from '@/discover/services/SearchService';
 import styles from './buy.module.css';
 import { Dictionary } from '@/types';
@@ -68,7 +69,8 @@ interface PaginationInfo {
     hasPrevious: boolean;
 }
 
-// Price range options
+// Price range options (bounds are in PRICE_RANGE_CURRENCY; the API converts listing prices)
+const PRICE_RANGE_CURRENCY = 'EUR';
 const priceRanges = [
     { label: 'All Prices', min: undefined, max: undefined },
     { label: '€0 - €1M', min: 0, max: 1000000 },
@@ -212,6 +214,9 @@ function BuyPageContent({ lang, dict, listingType = 'sale' }: BuyClientProps) {
         if (priceRange.max !== undefined) {
             params.set('maxPrice', priceRange.max.toString());
         }
+        if (priceRange.min !== undefined || priceRange.max !== undefined) {
+            params.set('currency', PRICE_RANGE_CURRENCY);
+        }
 
         // Property type filter
         if (selectedType !== t.filters.all_types) {
@@ -324,6 +329,24 @@ function BuyPageContent({ lang, dict, listingType = 'sale' }: BuyClientProps) {
         selectedType !== t.filters.all_types ||
         searchQuery.trim() !== '';
 
+    // Current filters as PropertySearchCriteria (for saved searches)
+    const currentCriteria = {
+        query: debouncedSearch.trim() || undefined,
+        country: selectedLocation !== t.filters.all_locations ? selectedLocation : undefined,
+        type: selectedType !== t.filters.all_types ? selectedType.toLowerCase() : undefined,
+        minPrice: priceRanges[selectedPriceIndex].min,
+        maxPrice: priceRanges[selectedPriceIndex].max,
+        currency: selectedPriceIndex !== 0 ? PRICE_RANGE_CURRENCY : undefined,
+        listingType,
+    };
+
+    const suggestedSearchName = [
+        currentCriteria.query,
+        selectedType !== t.filters.all_types ? selectedType : undefined,
+        currentCriteria.country,
+        selectedPriceIndex !== 0 ? priceRanges[selectedPriceIndex].label : undefined,
+    ].filter(Boolean).join(' · ');
+
     return (
         <PageLayout lang={lang} dict={dict}>
             {/* Page Hero */}
@@ -420,6 +443,15 @@ function BuyPageContent({ lang, dict, listingType = 'sale' }: BuyClientProps) {
                                 {t.filters.clear}
                             </button>
                         )}
+
+                        {/* Save Search (logged-in buyers) */}
+                        {hasActiveFilters && (
+                            <SaveSearchButton
+                                criteria={currentCriteria}
+                                defaultName={suggestedSearchName}
+                                lang={lang}
+                            />
+                        )}
                     </div>
 
                     {/* View Toggle */}
@@ -32,6 +32,7 @@ export default function ContactClientPage({ lang, dict }: ClientPageProps) {
             message: formData.get('message'),
             type: 'contact',
             source: 'website_contact_page',
+            locale: lang,
             // Honeypot field (should be empty)
             website: formData.get('website_hp'),
             _formStartTime: Date.now(),
@@ -2,10 +2,11 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { Heart, Trash2, Loader2 } from 'lucide-react';
+import { Heart, Trash2, Loader2, Search } from 'lucide-react';
 import PageLayout from '@/app/components/PageLayout';
 import PropertyCard from '@/app/components/property/PropertyCard';
 import { useFavorites } from '@/hooks/useFavorites';
+import { SearchService, SavedSearchItem } from '@/discover/services/SearchService';
 import { PropertyListItem } from '@/types';
 import styles from './favorites.module.css';
 
@@ -28,6 +29,8 @@ export default function FavoritesPage({ lang, dict }: ClientPageProps) {
     const [properties, setProperties] = useState<PropertyListItem[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    // null = not logged in (saved searches are account-bound, favorites are local)
+    const [savedSearches, setSavedSearches] = useState<SavedSearchItem[] | null>(null);
 
     // Fetch property details for each favorite
     const fetchFavoriteProperties = useCallback(async () => {
@@ -98,6 +101,17 @@ export default function FavoritesPage({ lang, dict }: ClientPageProps) {
         fetchFavoriteProperties();
     }, [fetchFavoriteProperties]);
 
+    // Load saved searches for logged-in users
+    useEffect(() => {
+        SearchService.getSavedSearches().then(setSavedSearches);
+    }, []);
+
+    const removeSavedSearch = async (id: string) => {
+        if (await SearchService.deleteSavedSearch(id)) {
+            setSavedSearches(prev => prev?.filter(s => s.id !== id) ?? null);
+        }
+    };
+
     // Listen for favorites updates from other pages
     useEffect(() => {
         const handleFavoritesUpdate = () => {
@@ -128,6 +142,37 @@ export default function FavoritesPage({ lang, dict }: ClientPageProps) {
 
             {/* Content */}
             <section className={styles.content}>
+                {/* Saved Searches */}
+                {savedSearches && savedSearches.length > 0 && (
+                    <div className={styles.savedSearches}>
+                        <div className={styles.toolbar}>
+                            <span className={styles.count}>
+                                {lang === 'ar' ? 'عمليات البحث المحفوظة' : 'Saved Searches'} ({savedSearches.length})
+                            </span>
+                        </div>
+                        <ul className={styles.savedSearchList}>
+                            {savedSearches.map(search => (
+                                <li key={search.id} className={styles.savedSearchItem}>
+                                    <Link href={SearchService.buildSearchUrl(lang, search.filters)} className={styles.savedSearchLink}>
+                                        <Search size={16} />
+                                        <span className={styles.savedSearchName}>{search.name}</span>
+                                        <span className={styles.savedSearchMeta}>
+                                            {search.resultCount} {lang === 'ar' ? 'عقار عند الحفظ' : 'matches when saved'}
+                                        </span>
+                                    </Link>
+                                    <button
+                                        className={styles.savedSearchRemove}
+                                        onClick={() => removeSavedSearch(search.id)}
+                                        aria-label={lang === 'ar' ? 'حذف البحث' : 'Remove saved search'}
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                 {/* Loading State */}
                 {isLoading && (
                     <div className={styles.loadingState}>
@@ -3,7 +3,7 @@
 import { useState, FormEvent } from 'react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
-import { Lock, Mail, ArrowRight, AlertCircle, Loader2 } from 'lucide-react';
+import { Lock, Mail, ArrowRight, AlertCircle, Loader2, ShieldCheck } from 'lucide-react';
 import Link from 'next/link';
 import styles from './login.module.css';
 
@@ -18,6 +18,25 @@ export default function LoginClient({ lang }: LoginClientProps) {
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
     const [rememberMe, setRememberMe] = useState(false);
+    // Set after the password step when the account uses two-factor authentication
+    const [challengeToken, setChallengeToken] = useState('');
+    const [code, setCode] = useState('');
+    // Set instead when the role requires 2FA and the account has not enrolled yet
+    const [setupToken, setSetupToken] = useState('');
+    const [enrollment, setEnrollment] = useState<{ secret: string; provisioningUri: string } | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+    const completeSignIn = () => {
+        router.push(`/${lang}/admin`);
+        router.refresh();
+    };
+
+    const restartSignIn = () => {
+        setChallengeToken('');
+        setSetupToken('');
+        setEnrollment(null);
+        setCode('');
+    };
 
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
@@ -34,12 +53,94 @@ export default function LoginClient({ lang }: LoginClientProps) {
             const data = await res.json();
 
             if (!res.ok) {
+                if (data.code === 'ACCOUNT_LOCKED' && data.lockedUntil) {
+                    const until = new Date(data.lockedUntil).toLocaleTimeString(lang === 'ar' ? 'ar-EG' : 'en-US', {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                    });
+                    throw new Error(lang === 'ar'
+                        ? `تم قفل الحساب مؤقتًا بعد عدة محاولات فاشلة. حاول مرة أخرى بعد ${until}.`
+                        : `Account temporarily locked after too many failed attempts. Try again after ${until}.`);
+                }
                 throw new Error(data.error || 'Login failed');
             }
 
-            // Redirect to admin dashboard
-            router.push(`/${lang}/admin`);
-            router.refresh();
+            if (data.data?.twoFactorRequired) {
+                setChallengeToken(data.data.challengeToken);
+                return;
+            }
+
+            if (data.data?.twoFactorSetupRequired) {
+                const setupRes = await fetch('/api/auth/2fa/setup', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ setupToken: data.data.setupToken }),
+                });
+                const setup = await setupRes.json();
+                if (!setupRes.ok) throw new Error(setup.error || 'Two-factor setup failed');
+
+                setSetupToken(data.data.setupToken);
+                setEnrollment(setup.data);
+                return;
+            }
+
+            completeSignIn();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleVerify = async (e: FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/auth/2fa/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ challengeToken, code }),
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                // The challenge is only valid for a few minutes; start over with the password
+                if (data.code === 'CHALLENGE_EXPIRED') restartSignIn();
+                throw new Error(data.error || 'Verification failed');
+            }
+
+            completeSignIn();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSetup = async (e: FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/auth/2fa/setup', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ setupToken, code }),
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                if (data.code === 'SETUP_EXPIRED') restartSignIn();
+                throw new Error(data.error || 'Verification failed');
+            }
+
+            // Signed in now; the codes are only shown this once
+            setRecoveryCodes(data.data.recoveryCodes);
         } catch (err: any) {
             setError(err.message);
         } finally {
@@ -93,86 +194,225 @@ export default function LoginClient({ lang }: LoginClientProps) {
                     </p>
 
                     {/* Form */}
-                    <form onSubmit={handleSubmit} className={styles.loginForm} dir={isRtl ? 'rtl' : 'ltr'}>
-                        {error && (
-                            <div className={styles.errorBox}>
-                                <AlertCircle className={styles.errorIcon} size={18} />
-                                <span className={styles.errorText}>{error}</span>
-                            </div>
-                        )}
-
-                        {/* Email Field */}
-                        <div className={styles.inputGroup}>
-                            <label className={styles.inputLabel}>
-                                {lang === 'ar' ? 'البريد الإلكتروني' : 'Email Address'}
-                            </label>
-                            <div className={styles.inputWrapper}>
-                                <Mail className={styles.inputIcon} size={20} />
-                                <input
-                                    type="email"
-                                    name="email"
-                                    value={email}
-                                    onChange={(e) => setEmail(e.target.value)}
-                                    className={styles.formInput}
-                                    placeholder="admin@modon.com"
-                                    required
-                                />
+                    {recoveryCodes ? (
+                        <div className={styles.loginForm}>
+                            <div className={styles.inputGroup}>
+                                <label className={styles.inputLabel}>
+                                    {lang === 'ar' ? 'رموز الاسترداد' : 'Recovery Codes'}
+                                </label>
+                                <p className={styles.formSubtitle}>
+                                    {lang === 'ar'
+                                        ? 'احفظ هذه الرموز في مكان آمن. كل رمز يُستخدم مرة واحدة ولن تظهر مجدداً.'
+                                        : 'Store these somewhere safe. Each code works once and they will not be shown again.'}
+                                </p>
+                                <div className={styles.recoveryCodes}>
+                                    {recoveryCodes.map((recoveryCode) => (
+                                        <code key={recoveryCode}>{recoveryCode}</code>
+                                    ))}
+                                </div>
                             </div>
+
+                            <button type="button" onClick={completeSignIn} className={styles.submitBtn}>
+                                {lang === 'ar' ? 'متابعة' : 'Continue'}
+                                <ArrowRight size={22} className={styles.submitBtnArrow} />
+                            </button>
                         </div>
+                    ) : enrollment ? (
+                        <form onSubmit={handleSetup} className={styles.loginForm} dir={isRtl ? 'rtl' : 'ltr'}>
+                            {error && (
+                                <div className={styles.errorBox}>
+                                    <AlertCircle className={styles.errorIcon} size={18} />
+                                    <span className={styles.errorText}>{error}</span>
+                                </div>
+                            )}
+
+                            <p className={styles.formSubtitle}>
+                                {lang === 'ar'
+                                    ? 'المصادقة الثنائية مطلوبة لدورك. أدخل المفتاح في تطبيق المصادقة، ثم أدخل الرمز المكون من 6 أرقام.'
+                                    : 'Two-factor authentication is required for your role. Add this key to your authenticator app, then enter the 6-digit code.'}
+                            </p>
 
-                        {/* Password Field */}
-                        <div className={styles.inputGroup}>
-                            <label className={styles.inputLabel}>
-                                {lang === 'ar' ? 'كلمة المرور' : 'Password'}
-                            </label>
-                            <div className={styles.inputWrapper}>
-                                <Lock className={styles.inputIcon} size={20} />
-                                <input
-                                    type="password"
-                                    name="password"
-                                    value={password}
-                                    onChange={(e) => setPassword(e.target.value)}
-                                    className={styles.formInput}
-                                    placeholder="••••••••"
-                                    required
-                                />
+                            {/* Secret Key */}
+                            <div className={styles.inputGroup}>
+                                <label className={styles.inputLabel}>
+                                    {lang === 'ar' ? 'المفتاح السري' : 'Secret Key'}
+                                </label>
+                                <code className={styles.secretCode}>{enrollment.secret}</code>
+                                <a href={enrollment.provisioningUri} className={styles.forgotLink}>
+                                    {lang === 'ar' ? 'فتح في تطبيق المصادقة' : 'Open in authenticator app'}
+                                </a>
                             </div>
-                        </div>
 
-                        {/* Remember + Forgot */}
-                        <div className={styles.rememberRow}>
-                            <label className={styles.checkboxLabel}>
-                                <input
-                                    type="checkbox"
-                                    checked={rememberMe}
-                                    onChange={(e) => setRememberMe(e.target.checked)}
-                                    className={styles.checkbox}
-                                />
-                                <span className={styles.checkboxText}>
-                                    {lang === 'ar' ? 'تذكرني' : 'Remember me'}
-                                </span>
-                            </label>
-                            <Link href="#" className={styles.forgotLink}>
-                                {lang === 'ar' ? 'نسيت كلمة المرور؟' : 'Forgot password?'}
-                            </Link>
-                        </div>
+                            {/* Authentication Code Field */}
+                            <div className={styles.inputGroup}>
+                                <label className={styles.inputLabel}>
+                                    {lang === 'ar' ? 'رمز التحقق' : 'Authentication Code'}
+                                </label>
+                                <div className={styles.inputWrapper}>
+                                    <ShieldCheck className={styles.inputIcon} size={20} />
+                                    <input
+                                        type="text"
+                                        name="code"
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                        className={styles.formInput}
+                                        placeholder="123456"
+                                        autoComplete="one-time-code"
+                                        autoFocus
+                                        required
+                                    />
+                                </div>
+                            </div>
 
-                        {/* Submit */}
-                        <button
-                            type="submit"
-                            disabled={loading}
-                            className={styles.submitBtn}
-                        >
-                            {loading ? (
-                                <Loader2 className={styles.spinner} size={24} />
-                            ) : (
-                                <>
-                                    {lang === 'ar' ? 'تسجيل الدخول' : 'Sign In'}
-                                    <ArrowRight size={22} className={styles.submitBtnArrow} />
-                                </>
+                            {/* Submit */}
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className={styles.submitBtn}
+                            >
+                                {loading ? (
+                                    <Loader2 className={styles.spinner} size={24} />
+                                ) : (
+                                    <>
+                                        {lang === 'ar' ? 'تفعيل' : 'Enable'}
+                                        <ArrowRight size={22} className={styles.submitBtnArrow} />
+                                    </>
+                                )}
+                            </button>
+                        </form>
+                    ) : challengeToken ? (
+                        <form onSubmit={handleVerify} className={styles.loginForm} dir={isRtl ? 'rtl' : 'ltr'}>
+                            {error && (
+                                <div className={styles.errorBox}>
+                                    <AlertCircle className={styles.errorIcon} size={18} />
+                                    <span className={styles.errorText}>{error}</span>
+                                </div>
                             )}
-                        </button>
-                    </form>
+
+                            {/* Authentication Code Field */}
+                            <div className={styles.inputGroup}>
+                                <label className={styles.inputLabel}>
+                                    {lang === 'ar' ? 'رمز التحقق' : 'Authentication Code'}
+                                </label>
+                                <div className={styles.inputWrapper}>
+                                    <ShieldCheck className={styles.inputIcon} size={20} />
+                                    <input
+                                        type="text"
+                                        name="code"
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                        className={styles.formInput}
+                                        placeholder="123456"
+                                        autoComplete="one-time-code"
+                                        autoFocus
+                                        required
+                                    />
+                                </div>
+                            </div>
+                            <p className={styles.formSubtitle}>
+                                {lang === 'ar'
+                                    ? 'أدخل الرمز من تطبيق المصادقة، أو أحد رموز الاسترداد.'
+                                    : 'Enter the code from your authenticator app, or one of your recovery codes.'}
+                            </p>
+
+                            {/* Submit */}
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className={styles.submitBtn}
+                            >
+                                {loading ? (
+                                    <Loader2 className={styles.spinner} size={24} />
+                                ) : (
+                                    <>
+                                        {lang === 'ar' ? 'تحقق' : 'Verify'}
+                                        <ArrowRight size={22} className={styles.submitBtnArrow} />
+                                    </>
+                                )}
+                            </button>
+                        </form>
+                    ) : (
+                        <form onSubmit={handleSubmit} className={styles.loginForm} dir={isRtl ? 'rtl' : 'ltr'}>
+                            {error && (
+                                <div className={styles.errorBox}>
+                                    <AlertCircle className={styles.errorIcon} size={18} />
+                                    <span className={styles.errorText}>{error}</span>
+                                </div>
+                            )}
+
+                            {/* Email Field */}
+                            <div className={styles.inputGroup}>
+                                <label className={styles.inputLabel}>
+                                    {lang === 'ar' ? 'البريد الإلكتروني' : 'Email Address'}
+                                </label>
+                                <div className={styles.inputWrapper}>
+                                    <Mail className={styles.inputIcon} size={20} />
+                                    <input
+                                        type="email"
+                                        name="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        className={styles.formInput}
+                                        placeholder="admin@modon.com"
+                                        required
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Password Field */}
+                            <div className={styles.inputGroup}>
+                                <label className={styles.inputLabel}>
+                                    {lang === 'ar' ? 'كلمة المرور' : 'Password'}
+                                </label>
+                                <div className={styles.inputWrapper}>
+                                    <Lock className={styles.inputIcon} size={20} />
+                                    <input
+                                        type="password"
+                                        name="password"
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                        className={styles.formInput}
+                                        placeholder="••••••••"
+                                        required
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Remember + Forgot */}
+                            <div className={styles.rememberRow}>
+                                <label className={styles.checkboxLabel}>
+                                    <input
+                                        type="checkbox"
+                                        checked={rememberMe}
+                                        onChange={(e) => setRememberMe(e.target.checked)}
+                                        className={styles.checkbox}
+                                    />
+                                    <span className={styles.checkboxText}>
+                                        {lang === 'ar' ? 'تذكرني' : 'Remember me'}
+                                    </span>
+                                </label>
+                                <Link href={`/${lang}/reset-password`} className={styles.forgotLink}>
+                                    {lang === 'ar' ? 'نسيت كلمة المرور؟' : 'Forgot password?'}
+                                </Link>
+                            </div>
+
+                            {/* Submit */}
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className={styles.submitBtn}
+                            >
+                                {loading ? (
+                                    <Loader2 className={styles.spinner} size={24} />
+                                ) : (
+                                    <>
+                                        {lang === 'ar' ? 'تسجيل الدخول' : 'Sign In'}
+                                        <ArrowRight size={22} className={styles.submitBtnArrow} />
+                                    </>
+                                )}
+                            </button>
+                        </form>
+                    )}
                 </div>
             </div>
         </div>
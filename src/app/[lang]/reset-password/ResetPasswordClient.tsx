@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Lock, Mail, ArrowRight, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import styles from '../login/login.module.css';
+
+interface ResetPasswordClientProps {
+    lang: 'en' | 'ar';
+    /** From the emailed link; without it the page asks for the email address */
+    token?: string;
+}
+
+export default function ResetPasswordClient({ lang, token }: ResetPasswordClientProps) {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    const isAr = lang === 'ar';
+
+    const submit = async (url: string, body: Record<string, string>) => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                throw new Error(data.details?.[0]?.message || data.error || 'Request failed');
+            }
+
+            setMessage(data.message);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRequest = (e: FormEvent) => {
+        e.preventDefault();
+        submit('/api/auth/forgot-password', { email, locale: lang });
+    };
+
+    const handleReset = (e: FormEvent) => {
+        e.preventDefault();
+        submit('/api/auth/reset-password', { token: token!, password, confirmPassword });
+    };
+
+    return (
+        <div className={styles.loginPage} dir={isAr ? 'rtl' : 'ltr'}>
+            {/* Image Section (Left) */}
+            <div className={styles.imageSection}>
+                <div className={styles.imagePlaceholder} />
+                <Image
+                    src="https://images.unsplash.com/photo-1512917774080-9991f1c4c750?q=80&w=2000&auto=format&fit=crop"
+                    alt="Luxury Real Estate"
+                    fill
+                    className={styles.heroImage}
+                    priority
+                />
+                <div className={styles.imageOverlay} />
+            </div>
+
+            {/* Form Section (Right) */}
+            <div className={styles.formSection}>
+                <div className={styles.formContainer}>
+                    {/* Brand */}
+                    <Link href={`/${lang}`} className={styles.brandLink}>
+                        <span className={styles.brandText}>MODON</span>
+                    </Link>
+
+                    <h1 className={styles.formTitle}>
+                        {isAr ? 'إعادة تعيين كلمة المرور' : 'Reset Password'}
+                    </h1>
+                    <p className={styles.formSubtitle}>
+                        {token
+                            ? (isAr ? 'اختر كلمة مرور جديدة لحسابك.' : 'Choose a new password for your account.')
+                            : (isAr
+                                ? 'أدخل بريدك الإلكتروني وسنرسل لك رابطاً لإعادة تعيين كلمة المرور.'
+                                : 'Enter your email and we will send you a link to reset your password.')}
+                    </p>
+
+                    <form onSubmit={token ? handleReset : handleRequest} className={styles.loginForm} dir={isAr ? 'rtl' : 'ltr'}>
+                        {error && (
+                            <div className={styles.errorBox}>
+                                <AlertCircle className={styles.errorIcon} size={18} />
+                                <span className={styles.errorText}>{error}</span>
+                            </div>
+                        )}
+
+                        {message ? (
+                            <>
+                                <div className={styles.successBox}>
+                                    <CheckCircle className={styles.errorIcon} size={18} />
+                                    <span className={styles.errorText}>{message}</span>
+                                </div>
+                                <Link href={`/${lang}/login`} className={styles.forgotLink}>
+                                    {isAr ? 'العودة إلى تسجيل الدخول' : 'Back to sign in'}
+                                </Link>
+                            </>
+                        ) : (
+                            <>
+                                {token ? (
+                                    <>
+                                        <div className={styles.inputGroup}>
+                                            <label className={styles.inputLabel}>
+                                                {isAr ? 'كلمة المرور الجديدة' : 'New Password'}
+                                            </label>
+                                            <div className={styles.inputWrapper}>
+                                                <Lock className={styles.inputIcon} size={20} />
+                                                <input
+                                                    type="password"
+                                                    name="password"
+                                                    value={password}
+                                                    onChange={(e) => setPassword(e.target.value)}
+                                                    className={styles.formInput}
+                                                    autoComplete="new-password"
+                                                    minLength={8}
+                                                    required
+                                                />
+                                            </div>
+                                        </div>
+                                        <div className={styles.inputGroup}>
+                                            <label className={styles.inputLabel}>
+                                                {isAr ? 'تأكيد كلمة المرور' : 'Confirm Password'}
+                                            </label>
+                                            <div className={styles.inputWrapper}>
+                                                <Lock className={styles.inputIcon} size={20} />
+                                                <input
+                                                    type="password"
+                                                    name="confirmPassword"
+                                                    value={confirmPassword}
+                                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                                    className={styles.formInput}
+                                                    autoComplete="new-password"
+                                                    required
+                                                />
+                                            </div>
+                                        </div>
+                                    </>
+                                ) : (
+                                    <div className={styles.inputGroup}>
+                                        <label className={styles.inputLabel}>
+                                            {isAr ? 'البريد الإلكتروني' : 'Email Address'}
+                                        </label>
+                                        <div className={styles.inputWrapper}>
+                                            <Mail className={styles.inputIcon} size={20} />
+                                            <input
+                                                type="email"
+                                                name="email"
+                                                value={email}
+                                                onChange={(e) => setEmail(e.target.value)}
+                                                className={styles.formInput}
+                                                required
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
+                                <button type="submit" disabled={loading} className={styles.submitBtn}>
+                                    {loading ? (
+                                        <Loader2 className={styles.spinner} size={24} />
+                                    ) : (
+                                        <>
+                                            {token
+                                                ? (isAr ? 'حفظ كلمة المرور' : 'Save Password')
+                                                : (isAr ? 'إرسال الرابط' : 'Send Reset Link')}
+                                            <ArrowRight size={22} className={styles.submitBtnArrow} />
+                                        </>
+                                    )}
+                                </button>
+                            </>
+                        )}
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,22 @@
+import { Metadata } from 'next';
+import ResetPasswordClient from './ResetPasswordClient';
+
+export async function generateMetadata({ params }: { params: Promise<{ lang: string }> }): Promise<Metadata> {
+    const { lang } = await params;
+    return {
+        title: lang === 'ar' ? 'إعادة تعيين كلمة المرور | مدن إيفولوشيو' : 'Reset Password | MODON Evolutio',
+        robots: { index: false },
+    };
+}
+
+export default async function ResetPasswordPage({
+    params,
+    searchParams,
+}: {
+    params: Promise<{ lang: string }>;
+    searchParams: Promise<{ token?: string }>;
+}) {
+    const { lang } = await params;
+    const { token } = await searchParams;
+    return <ResetPasswordClient lang={lang as 'en' | 'ar'} token={token} />;
+}
@@ -74,6 +74,7 @@ export default function SellDeveloperPage({ lang, dict }: ClientPageProps) {
                 units: formData.units,
                 launchDate: formData.launchDate,
             },
+            locale: lang,
             // Honeypot field
             website: formValues.get('website_hp'),
             _formStartTime: Date.now(),
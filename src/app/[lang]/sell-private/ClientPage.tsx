@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { ArrowRight, Check, Loader2, AlertCircle } from 'lucide-react';
+import { ArrowRight, Check, Loader2, AlertCircle, TrendingUp } from 'lucide-react';
 import PageLayout from '@/app/components/PageLayout';
 import styles from './sell.module.css';
 
@@ -10,7 +10,8 @@ import styles from './sell.module.css';
  * MODON EVOLUTIO - Sell Private Page
  * ===============================
  * Lead generation page for private sellers
- * Connected to /api/leads endpoint
+ * Connected to /api/leads endpoint, with an instant indicative
+ * estimate from /api/v1/valuation
  */
 
 const benefits = [
@@ -29,11 +30,43 @@ interface FormState {
     phone: string;
     propertyType: string;
     location: string;
+    livingArea: string;
+    bedrooms: string;
+    pool: boolean;
+    seaview: boolean;
+    garden: boolean;
     askingPrice: string;
     message: string;
     privacyConsent: boolean;
 }
 
+interface Valuation {
+    currency: string;
+    estimate: { low: number; mid: number; high: number };
+    pricePerSqm: number;
+    confidence: 'high' | 'medium' | 'low';
+    sampleSize: number;
+}
+
+interface ValuationState {
+    status: 'idle' | 'loading' | 'success' | 'error';
+    result?: Valuation;
+    message?: string;
+}
+
+/** Form options that are not a core property type map onto the nearest one */
+const VALUATION_TYPES: Record<string, string | undefined> = {
+    villa: 'villa',
+    apartment: 'apartment',
+    penthouse: 'penthouse',
+    estate: 'villa',
+    townhouse: 'house',
+    other: undefined,
+};
+
+const formatAmount = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+
 interface SubmissionState {
     status: 'idle' | 'loading' | 'success' | 'error';
     message: string;
@@ -46,6 +79,11 @@ const initialFormState: FormState = {
     phone: '',
     propertyType: '',
     location: '',
+    livingArea: '',
+    bedrooms: '',
+    pool: false,
+    seaview: false,
+    garden: false,
     askingPrice: '',
     message: '',
     privacyConsent: false,
@@ -65,6 +103,7 @@ export default function SellPrivatePage({ lang, dict }: ClientPageProps) {
         message: '',
     });
     const [validationErrors, setValidationErrors] = useState<Partial<Record<keyof FormState, string>>>({});
+    const [valuation, setValuation] = useState<ValuationState>({ status: 'idle' });
 
     // Handle input changes
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -80,6 +119,63 @@ export default function SellPrivatePage({ lang, dict }: ClientPageProps) {
         if (validationErrors[name as keyof FormState]) {
             setValidationErrors(prev => ({ ...prev, [name]: undefined }));
         }
+
+        // Any change to the property invalidates a previous estimate
+        if (valuation.status !== 'idle') {
+            setValuation({ status: 'idle' });
+        }
+    };
+
+    const canEstimate = Boolean(formData.propertyType && formData.location.trim() && Number(formData.livingArea) > 0);
+
+    // Instant indicative value from comparable listings
+    const handleEstimate = async () => {
+        if (!canEstimate) return;
+
+        setValuation({ status: 'loading' });
+
+        // "City, Country" - the first part is the city, the last the country
+        const [city, ...rest] = formData.location.split(',').map(part => part.trim()).filter(Boolean);
+
+        try {
+            const response = await fetch('/api/v1/valuation', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    type: VALUATION_TYPES[formData.propertyType],
+                    city,
+                    country: rest.length > 0 ? rest[rest.length - 1] : undefined,
+                    specs: {
+                        area: Number(formData.livingArea),
+                        bedrooms: formData.bedrooms ? Number(formData.bedrooms) : undefined,
+                        pool: formData.pool,
+                        seaview: formData.seaview,
+                        garden: formData.garden,
+                    },
+                }),
+            });
+
+            const result = await response.json();
+
+            if (response.ok && result.success) {
+                setValuation({ status: 'success', result: result.data });
+            } else {
+                setValuation({
+                    status: 'error',
+                    message: response.status === 422
+                        ? 'We do not have enough comparable listings for an instant estimate. An advisor will value your property personally.'
+                        : 'The instant estimate is unavailable right now. An advisor will value your property personally.',
+                });
+            }
+        } catch (error) {
+            console.error('Valuation error:', error);
+            setValuation({
+                status: 'error',
+                message: 'The instant estimate is unavailable right now. An advisor will value your property personally.',
+            });
+        }
     };
 
     // Validate form
@@ -138,13 +234,18 @@ export default function SellPrivatePage({ lang, dict }: ClientPageProps) {
                     email: formData.email,
                     phone: formData.phone || undefined,
                     subject: 'Property Valuation Request',
-                    message: `Property Type: ${formData.propertyType}\nLocation: ${formData.location}\nAsking Price: ${formData.askingPrice || 'Not specified'}\n\n${formData.message || 'No additional information provided.'}`,
+                    message: `Property Type: ${formData.propertyType}\nLocation: ${formData.location}\nLiving Area: ${formData.livingArea ? `${formData.livingArea} m²` : 'Not specified'}\nAsking Price: ${formData.askingPrice || 'Not specified'}${valuation.result ? `\nInstant Estimate: ${formatAmount(valuation.result.estimate.low, valuation.result.currency)} - ${formatAmount(valuation.result.estimate.high, valuation.result.currency)}` : ''}\n\n${formData.message || 'No additional information provided.'}`,
                     type: 'sell_private',
                     source: 'sell_private_page',
+                    locale: lang,
                     metadata: {
                         propertyType: formData.propertyType,
                         location: formData.location,
+                        livingArea: formData.livingArea,
+                        bedrooms: formData.bedrooms,
                         askingPrice: formData.askingPrice,
+                        estimate: valuation.result?.estimate,
+                        estimateCurrency: valuation.result?.currency,
                     },
                     // Honeypot field
                     website: (e.target as HTMLFormElement).website_hp?.value,
@@ -160,6 +261,7 @@ export default function SellPrivatePage({ lang, dict }: ClientPageProps) {
                     message: result.message || 'Thank you! A property advisor will contact you shortly.',
                 });
                 setFormData(initialFormState);
+                setValuation({ status: 'idle' });
             } else {
                 throw new Error(result.error || 'Something went wrong');
             }
@@ -377,6 +479,102 @@ export default function SellPrivatePage({ lang, dict }: ClientPageProps) {
                                     </div>
                                 </div>
 
+                                <div className={styles.formRow}>
+                                    <div className={styles.formGroup}>
+                                        <label htmlFor="livingArea">Living Area (m²)</label>
+                                        <input
+                                            type="number"
+                                            id="livingArea"
+                                            name="livingArea"
+                                            min={1}
+                                            placeholder="e.g. 350"
+                                            value={formData.livingArea}
+                                            onChange={handleInputChange}
+                                            disabled={submission.status === 'loading'}
+                                        />
+                                    </div>
+                                    <div className={styles.formGroup}>
+                                        <label htmlFor="bedrooms">Bedrooms</label>
+                                        <input
+                                            type="number"
+                                            id="bedrooms"
+                                            name="bedrooms"
+                                            min={0}
+                                            placeholder="e.g. 4"
+                                            value={formData.bedrooms}
+                                            onChange={handleInputChange}
+                                            disabled={submission.status === 'loading'}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className={styles.amenities}>
+                                    {([
+                                        ['pool', 'Swimming pool'],
+                                        ['seaview', 'Sea view'],
+                                        ['garden', 'Garden'],
+                                    ] as const).map(([name, label]) => (
+                                        <label key={name} className={styles.amenity}>
+                                            <input
+                                                type="checkbox"
+                                                name={name}
+                                                checked={formData[name]}
+                                                onChange={handleInputChange}
+                                                disabled={submission.status === 'loading'}
+                                            />
+                                            {label}
+                                        </label>
+                                    ))}
+                                </div>
+
+                                <div className={styles.valuation}>
+                                    <button
+                                        type="button"
+                                        className={styles.estimateBtn}
+                                        onClick={handleEstimate}
+                                        disabled={!canEstimate || valuation.status === 'loading' || submission.status === 'loading'}
+                                    >
+                                        {valuation.status === 'loading' ? (
+                                            <Loader2 className={styles.spinner} size={16} />
+                                        ) : (
+                                            <TrendingUp size={16} />
+                                        )}
+                                        Get Instant Estimate
+                                    </button>
+
+                                    {!canEstimate && valuation.status === 'idle' && (
+                                        <p className={styles.valuationHint}>
+                                            Enter the property type, location and living area to see an indicative value.
+                                        </p>
+                                    )}
+
+                                    {valuation.status === 'success' && valuation.result && (
+                                        <div className={styles.valuationResult}>
+                                            <span className={styles.valuationLabel}>Indicative value</span>
+                                            <strong className={styles.valuationRange}>
+                                                {formatAmount(valuation.result.estimate.low, valuation.result.currency)}
+                                                {' – '}
+                                                {formatAmount(valuation.result.estimate.high, valuation.result.currency)}
+                                            </strong>
+                                            <span className={styles.valuationMeta}>
+                                                ≈ {formatAmount(valuation.result.pricePerSqm, valuation.result.currency)}/m²
+                                                {' · '}
+                                                Based on {valuation.result.sampleSize} comparable listing{valuation.result.sampleSize === 1 ? '' : 's'}
+                                                {' · '}
+                                                {valuation.result.confidence} confidence
+                                            </span>
+                                            <p className={styles.valuationHint}>
+                                                An automated estimate from current listings, not a formal appraisal.
+                                                Your advisor will confirm the value after a viewing.
+                                            </p>
+                                        </div>
+                                    )}
+
+                                    {valuation.status === 'error' && (
+                                        <p className={styles.valuationHint}>{valuation.message}</p>
+                                    )}
+                                </div>
+
                                 <div className={styles.formRow}>
                                     <div className={styles.formGroup}>
                                         <label htmlFor="askingPrice">Asking Price (indicative)</label>
@@ -71,6 +71,7 @@ export default function SellProfessionalPage({ lang, dict }: ClientPageProps) {
                 region: formData.region,
                 company: formData.company
             },
+            locale: lang,
             // Honeypot field
             website: formValues.get('website_hp'),
             _formStartTime: Date.now(),
@@ -0,0 +1,80 @@
+/**
+ * Two-Factor Policy API Route
+ * ============================
+ * GET /api/auth/2fa/policy - roles that must use 2FA (security:manage)
+ * PUT /api/auth/2fa/policy - require or stop requiring 2FA for a role (security:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/server/auth/permissions';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { TWO_FACTOR_ROLES, TwoFactorAuthService } from '@/application/auth/TwoFactorAuthService';
+import { checkCSRF } from '@/lib/security/csrf';
+import { applySecurityHeaders } from '@/server/security/headers';
+
+const PolicySchema = z.object({
+    role: z.enum(TWO_FACTOR_ROLES),
+    required: z.boolean(),
+});
+
+// ============================================
+// GET /api/auth/2fa/policy
+// ============================================
+export async function GET(request: NextRequest) {
+    const admin = await requirePermission(request, 'security:manage');
+    if (admin instanceof NextResponse) return admin;
+
+    try {
+        const requiredRoles = await new TwoFactorAuthService(userRepository).getRequiredRoles();
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: { roles: TWO_FACTOR_ROLES, requiredRoles },
+        }));
+    } catch (error) {
+        console.error('2FA policy error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// PUT /api/auth/2fa/policy
+// ============================================
+export async function PUT(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const admin = await requirePermission(request, 'security:manage');
+    if (admin instanceof NextResponse) return admin;
+
+    try {
+        const validation = PolicySchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid policy', details: validation.error.flatten().fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const { role, required } = validation.data;
+        const requiredRoles = await new TwoFactorAuthService(userRepository)
+            .setRequired(role, required, admin.userId);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: { roles: TWO_FACTOR_ROLES, requiredRoles },
+        }));
+    } catch (error) {
+        console.error('2FA policy error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
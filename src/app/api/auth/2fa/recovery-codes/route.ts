@@ -0,0 +1,80 @@
+/**
+ * Two-Factor Recovery Codes API Route
+ * ====================================
+ * POST /api/auth/2fa/recovery-codes - replace all recovery codes (needs a current code)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyToken } from '@/server/auth/jwt';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { TwoFactorAuthService, TwoFactorError } from '@/application/auth/TwoFactorAuthService';
+import { checkCSRF } from '@/lib/security/csrf';
+import { checkRateLimit } from '@/lib/security/rate-limit';
+import { applySecurityHeaders } from '@/server/security/headers';
+
+const RegenerateSchema = z.object({
+    code: z.string().trim().min(6).max(20),
+});
+
+export async function POST(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const token = request.cookies.get('modon_auth_token')?.value;
+    const auth = token ? await verifyToken(token) : null;
+    if (!auth) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    let body: unknown = {};
+    try {
+        body = await request.json();
+    } catch {
+        // Validated below
+    }
+
+    const validation = RegenerateSchema.safeParse(body);
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication code required' },
+            { status: 400 }
+        );
+    }
+
+    const rateLimitResult = await checkRateLimit(auth.userId, 'twoFactor');
+    if (!rateLimitResult.allowed) {
+        return NextResponse.json(
+            { success: false, error: rateLimitResult.message },
+            { status: 429 }
+        );
+    }
+
+    try {
+        const recoveryCodes = await new TwoFactorAuthService(userRepository)
+            .regenerateRecoveryCodes(auth.userId, validation.data.code);
+
+        const response = NextResponse.json({ success: true, data: { recoveryCodes } });
+        response.headers.set('Cache-Control', 'no-store');
+
+        return applySecurityHeaders(response);
+    } catch (error) {
+        if (error instanceof TwoFactorError) {
+            return NextResponse.json(
+                { success: false, error: error.message, code: error.code },
+                { status: error.code === 'INVALID_CODE' ? 400 : 409 }
+            );
+        }
+
+        console.error('Recovery code regeneration error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
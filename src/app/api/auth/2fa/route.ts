@@ -0,0 +1,207 @@
+/**
+ * Two-Factor Authentication API Route
+ * ====================================
+ * GET    /api/auth/2fa - 2FA status for the current user
+ * POST   /api/auth/2fa - start enrollment (new secret + provisioning URI)
+ * PUT    /api/auth/2fa - confirm enrollment with a code, returns recovery codes
+ * DELETE /api/auth/2fa - turn 2FA off (needs a current code)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyToken } from '@/server/auth/jwt';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import {
+    TwoFactorAuthService,
+    TwoFactorError,
+    TwoFactorErrorCode,
+} from '@/application/auth/TwoFactorAuthService';
+import { checkCSRF } from '@/lib/security/csrf';
+import { checkRateLimit } from '@/lib/security/rate-limit';
+import { applySecurityHeaders } from '@/server/security/headers';
+
+const CodeSchema = z.object({
+    code: z.string().trim().min(6).max(20),
+});
+
+const ERROR_STATUS: Record<TwoFactorErrorCode, number> = {
+    ALREADY_ENABLED: 409,
+    NOT_ENABLED: 409,
+    NO_PENDING_ENROLLMENT: 409,
+    INVALID_CODE: 400,
+    REQUIRED_BY_POLICY: 403,
+};
+
+// ============================================
+// Helpers
+// ============================================
+async function authenticateRequest(request: NextRequest) {
+    const token = request.cookies.get('modon_auth_token')?.value;
+    if (!token) return null;
+
+    try {
+        return await verifyToken(token);
+    } catch {
+        return null;
+    }
+}
+
+function unauthorized() {
+    return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+    );
+}
+
+function errorResponse(error: unknown) {
+    if (error instanceof TwoFactorError) {
+        return NextResponse.json(
+            { success: false, error: error.message, code: error.code },
+            { status: ERROR_STATUS[error.code] }
+        );
+    }
+
+    console.error('2FA error:', error);
+    return NextResponse.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+    );
+}
+
+/**
+ * Code guesses per user, shared by confirm and disable
+ */
+async function checkCodeAttempts(userId: string) {
+    const result = await checkRateLimit(userId, 'twoFactor');
+
+    if (result.allowed) return null;
+
+    return NextResponse.json(
+        { success: false, error: result.message },
+        {
+            status: 429,
+            headers: { 'Retry-After': Math.ceil((result.resetAt - Date.now()) / 1000).toString() },
+        }
+    );
+}
+
+async function parseCode(request: NextRequest) {
+    try {
+        return CodeSchema.safeParse(await request.json());
+    } catch {
+        return CodeSchema.safeParse({});
+    }
+}
+
+// ============================================
+// GET /api/auth/2fa
+// ============================================
+export async function GET(request: NextRequest) {
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+
+    try {
+        const status = await new TwoFactorAuthService(userRepository).getStatus({
+            id: auth.userId,
+            role: auth.role,
+        });
+
+        return applySecurityHeaders(NextResponse.json({ success: true, data: status }));
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+// ============================================
+// POST /api/auth/2fa
+// ============================================
+export async function POST(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+
+    try {
+        const enrollment = await new TwoFactorAuthService(userRepository).beginEnrollment({
+            id: auth.userId,
+            email: auth.email,
+        });
+
+        const response = NextResponse.json({ success: true, data: enrollment });
+        response.headers.set('Cache-Control', 'no-store');
+
+        return applySecurityHeaders(response);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+// ============================================
+// PUT /api/auth/2fa
+// ============================================
+export async function PUT(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+
+    const validation = await parseCode(request);
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication code required' },
+            { status: 400 }
+        );
+    }
+
+    const limited = await checkCodeAttempts(auth.userId);
+    if (limited) return limited;
+
+    try {
+        const recoveryCodes = await new TwoFactorAuthService(userRepository)
+            .confirmEnrollment(auth.userId, validation.data.code);
+
+        const response = NextResponse.json({ success: true, data: { enabled: true, recoveryCodes } });
+        response.headers.set('Cache-Control', 'no-store');
+
+        return applySecurityHeaders(response);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+// ============================================
+// DELETE /api/auth/2fa
+// ============================================
+export async function DELETE(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const auth = await authenticateRequest(request);
+    if (!auth) return unauthorized();
+
+    const validation = await parseCode(request);
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication code required' },
+            { status: 400 }
+        );
+    }
+
+    const limited = await checkCodeAttempts(auth.userId);
+    if (limited) return limited;
+
+    try {
+        await new TwoFactorAuthService(userRepository).disable(
+            { id: auth.userId, role: auth.role },
+            validation.data.code
+        );
+
+        return applySecurityHeaders(NextResponse.json({ success: true, data: { enabled: false } }));
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export const dynamic = 'force-dynamic';
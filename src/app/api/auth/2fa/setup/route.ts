@@ -0,0 +1,176 @@
+/**
+ * Required Two-Factor Setup API Route
+ * ====================================
+ * Users whose role requires 2FA get a setup token from login instead of a
+ * session until they enroll. The token is only accepted here.
+ *
+ * POST /api/auth/2fa/setup - start enrollment (new secret + provisioning URI)
+ * PUT  /api/auth/2fa/setup - confirm with a code; returns the recovery codes
+ *                            and starts the session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyTwoFactorChallengeToken } from '@/server/auth/jwt';
+import { setSessionCookies, startUserSession } from '@/server/auth/session';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { TwoFactorAuthService, TwoFactorError } from '@/application/auth/TwoFactorAuthService';
+import { checkRateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { applySecurityHeaders } from '@/server/security/headers';
+
+const SetupSchema = z.object({
+    setupToken: z.string().min(1),
+});
+
+const ConfirmSchema = SetupSchema.extend({
+    code: z.string().trim().min(6).max(20),
+});
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * The active user the setup token was issued to
+ */
+async function authenticateSetup(setupToken: string) {
+    const setup = await verifyTwoFactorChallengeToken(setupToken, 'setup');
+    if (!setup) {
+        return NextResponse.json(
+            { success: false, error: 'Sign-in expired. Please log in again.', code: 'SETUP_EXPIRED' },
+            { status: 401 }
+        );
+    }
+
+    const user = await userRepository.findById(setup.userId);
+    if (!user || user.status !== 'active') {
+        return NextResponse.json(
+            { success: false, error: 'Account is not active' },
+            { status: 403 }
+        );
+    }
+
+    return { user, rememberMe: setup.rememberMe };
+}
+
+function errorResponse(error: unknown) {
+    if (error instanceof TwoFactorError) {
+        return NextResponse.json(
+            { success: false, error: error.message, code: error.code },
+            { status: error.code === 'INVALID_CODE' ? 400 : 409 }
+        );
+    }
+
+    console.error('2FA setup error:', error);
+    return NextResponse.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+    );
+}
+
+async function readJson(request: NextRequest): Promise<unknown> {
+    try {
+        return await request.json();
+    } catch {
+        return {};
+    }
+}
+
+// ============================================
+// POST /api/auth/2fa/setup
+// ============================================
+export async function POST(request: NextRequest) {
+    const validation = SetupSchema.safeParse(await readJson(request));
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Setup token required' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const setup = await authenticateSetup(validation.data.setupToken);
+        if (setup instanceof NextResponse) return setup;
+
+        const enrollment = await new TwoFactorAuthService(userRepository).beginEnrollment(setup.user);
+
+        const response = NextResponse.json({ success: true, data: enrollment });
+        response.headers.set('Cache-Control', 'no-store');
+
+        return applySecurityHeaders(response);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+// ============================================
+// PUT /api/auth/2fa/setup
+// ============================================
+export async function PUT(request: NextRequest) {
+    const ip = getClientIp(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    const validation = ConfirmSchema.safeParse(await readJson(request));
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Setup token and code are required' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const setup = await authenticateSetup(validation.data.setupToken);
+        if (setup instanceof NextResponse) return setup;
+
+        const { user } = setup;
+
+        const rateLimitResult = await checkRateLimit(user.id, 'twoFactor');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json(
+                { success: false, error: rateLimitResult.message },
+                {
+                    status: 429,
+                    headers: {
+                        'Retry-After': Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000).toString(),
+                    },
+                }
+            );
+        }
+
+        const recoveryCodes = await new TwoFactorAuthService(userRepository)
+            .confirmEnrollment(user.id, validation.data.code);
+
+        const { accessToken, refreshToken, expiresIn } = await startUserSession(
+            { id: user.id, email: user.email, role: user.role, permissions: user.permissions },
+            { ip, userAgent },
+            setup.rememberMe
+        );
+
+        const response = NextResponse.json({
+            success: true,
+            data: {
+                user: {
+                    id: user.id,
+                    email: user.email,
+                    firstName: user.profile.firstName,
+                    lastName: user.profile.lastName,
+                    role: user.role,
+                    avatarUrl: user.profile.avatar,
+                },
+                accessToken,
+                refreshToken,
+                expiresIn,
+                recoveryCodes,
+            },
+        });
+        response.headers.set('Cache-Control', 'no-store');
+
+        setSessionCookies(response, { accessToken, refreshToken }, setup.rememberMe);
+
+        return applySecurityHeaders(response);
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export const dynamic = 'force-dynamic';
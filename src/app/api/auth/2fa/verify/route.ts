@@ -0,0 +1,120 @@
+/**
+ * Two-Factor Login Verification API Route
+ * ========================================
+ * POST /api/auth/2fa/verify - second login step: exchange the challenge token
+ *                             from /api/auth/login plus a TOTP or recovery code
+ *                             for a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyTwoFactorChallengeToken } from '@/server/auth/jwt';
+import { setSessionCookies, startUserSession } from '@/server/auth/session';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { TwoFactorAuthService, TwoFactorError } from '@/application/auth/TwoFactorAuthService';
+import { checkRateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAuthFailure } from '@/discoverx/monitoring/logging';
+import { applySecurityHeaders } from '@/server/security/headers';
+
+const VerifySchema = z.object({
+    challengeToken: z.string().min(1),
+    code: z.string().trim().min(6).max(20),
+});
+
+export async function POST(request: NextRequest) {
+    const ip = getClientIp(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    try {
+        const validation = VerifySchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Challenge token and code are required' },
+                { status: 400 }
+            );
+        }
+
+        const challenge = await verifyTwoFactorChallengeToken(validation.data.challengeToken);
+        if (!challenge) {
+            return NextResponse.json(
+                { success: false, error: 'Sign-in expired. Please log in again.', code: 'CHALLENGE_EXPIRED' },
+                { status: 401 }
+            );
+        }
+
+        // Per account, so guesses cannot be spread over several challenges
+        const rateLimitResult = await checkRateLimit(challenge.userId, 'twoFactor');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json(
+                { success: false, error: rateLimitResult.message },
+                {
+                    status: 429,
+                    headers: {
+                        'Retry-After': Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000).toString(),
+                    },
+                }
+            );
+        }
+
+        const user = await userRepository.findById(challenge.userId);
+        if (!user || user.status !== 'active') {
+            return NextResponse.json(
+                { success: false, error: 'Account is not active' },
+                { status: 403 }
+            );
+        }
+
+        let method: 'totp' | 'recovery_code';
+        try {
+            method = await new TwoFactorAuthService(userRepository).verify(user.id, validation.data.code);
+        } catch (error) {
+            if (error instanceof TwoFactorError && error.code === 'INVALID_CODE') {
+                logAuthFailure(user.email, ip, userAgent, 'Invalid two-factor code');
+
+                return NextResponse.json(
+                    { success: false, error: error.message, code: error.code },
+                    { status: 401 }
+                );
+            }
+            throw error;
+        }
+
+        const { accessToken, refreshToken, expiresIn } = await startUserSession(
+            { id: user.id, email: user.email, role: user.role, permissions: user.permissions },
+            { ip, userAgent },
+            challenge.rememberMe
+        );
+
+        const response = NextResponse.json({
+            success: true,
+            data: {
+                user: {
+                    id: user.id,
+                    email: user.email,
+                    firstName: user.profile.firstName,
+                    lastName: user.profile.lastName,
+                    role: user.role,
+                    avatarUrl: user.profile.avatar,
+                },
+                accessToken,
+                refreshToken,
+                expiresIn,
+                ...(method === 'recovery_code' && { usedRecoveryCode: true }),
+            },
+        });
+
+        setSessionCookies(response, { accessToken, refreshToken }, challenge.rememberMe);
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('2FA verification error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'An error occurred during login' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -2,7 +2,7 @@
  * Forgot Password API Route
  * ==========================
  * POST /api/auth/forgot-password
- * Sends a password reset token (simulated in mock mode)
+ * Emails a single-use password reset link
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,18 +11,19 @@ import { applySecurityHeaders } from '@/server/security/headers';
 import { checkCSRF } from '@/lib/security/csrf';
 import { rateLimit } from '@/lib/security/rate-limit';
 import { sanitizeEmail } from '@/lib/sanitize';
+import { getEmailOutbox, scheduleEmailDelivery } from '@/server/email/outbox';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { getSiteUrl } from '@/lib/config/site';
+import { PasswordResetService } from '@/application/auth/PasswordResetService';
 
 const ForgotPasswordSchema = z.object({
     email: z.string().email('Invalid email address'),
+    locale: z.enum(['en', 'ar']).optional(),
 });
 
 export async function POST(request: NextRequest) {
     // Rate limiting (prevents email enumeration)
-    const rateLimitResult = await rateLimit(request, {
-        maxRequests: 3,
-        windowMs: 900000, // 15 minutes
-        message: 'Too many password reset requests. Please try again later.',
-    });
+    const rateLimitResult = await rateLimit(request, 'passwordResetRequest');
 
     if (!rateLimitResult.allowed) {
         const response = NextResponse.json(
@@ -67,21 +68,25 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Generate a secure reset token
-        const resetToken = crypto.randomUUID();
-        const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 min
+        const service = new PasswordResetService(
+            userRepository,
+            getEmailOutbox(),
+            // Never the request's Host header: links in emails must point at our own site
+            getSiteUrl()
+        );
 
-        // In production: store token in DB and send email
-        // For now, return success regardless to prevent email enumeration
-        // TODO: Integrate with Supabase auth.resetPasswordForEmail() or custom email service
+        try {
+            await service.requestReset(email, validation.data.locale);
+            // Sent after the response so timing does not reveal whether the account exists
+            scheduleEmailDelivery();
+        } catch (resetError) {
+            // Same response either way, so failures cannot be used to probe for accounts
+            console.error('Password reset request failed:', resetError);
+        }
 
         const response = NextResponse.json({
             success: true,
             message: 'If an account with this email exists, a password reset link has been sent.',
-            // DEV ONLY: expose token for testing (remove in production)
-            ...(process.env.NODE_ENV === 'development' && {
-                _dev: { resetToken, expiresAt: expiresAt.toISOString() }
-            }),
         });
 
         return applySecurityHeaders(response);
@@ -1,20 +1,26 @@
 /**
  * Authentication API Routes
  * ==========================
- * Login endpoint
+ * Login endpoint. Users with two-factor authentication get a challenge
+ * token here and their session from POST /api/auth/2fa/verify. Users whose
+ * role requires 2FA but who have not enrolled get a setup token instead and
+ * their session from PUT /api/auth/2fa/setup.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
 import { LoginSchema } from '@/contracts/schemas';
 import {
-    generateAccessToken,
-    generateRefreshToken,
-    getPermissionsForRole,
+    TWO_FACTOR_CHALLENGE_EXPIRY,
+    TWO_FACTOR_SETUP_EXPIRY,
+    generateTwoFactorChallengeToken,
 } from '@/server/auth/jwt';
-import { logAuthSuccess, logAuthFailure } from '@/discoverx/monitoring/logging';
+import { setSessionCookies, startUserSession } from '@/server/auth/session';
+import { TwoFactorAuthService } from '@/application/auth/TwoFactorAuthService';
+import { AccountLockedError } from '@/core/entities/User';
+import { logAuthFailure } from '@/discoverx/monitoring/logging';
+import { accountLockedResponse } from '@/server/auth/lockout';
 import { applySecurityHeaders } from '@/server/security/headers';
-import * as crypto from 'crypto';
 
 function getClientIp(request: NextRequest): string {
     return request.headers.get('x-forwarded-for')?.split(',')[0] ||
@@ -52,6 +58,10 @@ export async function POST(request: NextRequest) {
         try {
             user = await userRepository.verifyPassword(email, password);
         } catch (dbError) {
+            if (dbError instanceof AccountLockedError) {
+                logAuthFailure(email, ip, userAgent, 'Account locked');
+                return applySecurityHeaders(await accountLockedResponse(dbError, ip));
+            }
             console.warn('Database verification failed, checking for mock admin...', dbError);
         }
 
@@ -114,47 +124,49 @@ export async function POST(request: NextRequest) {
             }
         }
 
-        // Generate tokens - use type assertion or get permissions from user
-        let permissions = (user as { permissions?: string[] }).permissions || [];
-
-        if (permissions.length === 0 && user.role) {
-            permissions = getPermissionsForRole(user.role);
-        }
-
-        const accessToken = await generateAccessToken({
-            userId: user.id,
-            email: user.email,
-            role: user.role,
-            permissions,
-        });
+        // Second factor: no session until POST /api/auth/2fa/verify succeeds
+        if (user.twoFactorEnabled) {
+            const challengeToken = await generateTwoFactorChallengeToken(user.id, { rememberMe });
 
-        const refreshToken = await generateRefreshToken(user.id);
+            const response = NextResponse.json({
+                success: true,
+                data: {
+                    twoFactorRequired: true,
+                    challengeToken,
+                    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+                },
+            });
 
-        // Create session & Update last login (SKIP FOR MOCK USERS)
-        if (user.id !== 'mock-admin-id') {
-            try {
-                const refreshTokenHash = crypto
-                    .createHash('sha256')
-                    .update(refreshToken)
-                    .digest('hex');
+            return applySecurityHeaders(response);
+        }
 
-                await userRepository.createSession(user.id, refreshTokenHash, {
-                    ip,
-                    userAgent,
-                });
+        // Role must use 2FA but the user has not enrolled yet: no session until they do
+        if (user.id !== 'mock-admin-id' && await new TwoFactorAuthService(userRepository).isRequiredFor(user.role)) {
+            const setupToken = await generateTwoFactorChallengeToken(user.id, { rememberMe, purpose: 'setup' });
 
-                await userRepository.updateLastLogin(user.id, ip);
+            const response = NextResponse.json({
+                success: true,
+                data: {
+                    twoFactorSetupRequired: true,
+                    setupToken,
+                    expiresIn: TWO_FACTOR_SETUP_EXPIRY,
+                },
+            });
 
-                // Log successful login
-                logAuthSuccess(user.id, ip, userAgent);
-            } catch (sessionError) {
-                console.error('Session creation failed (non-fatal):', sessionError);
-                // Continue login even if session/logging fails
-            }
-        } else {
-            console.log('⚡ [MOCK MODE] Skipping DB session creation for mock admin');
+            return applySecurityHeaders(response);
         }
 
+        const { accessToken, refreshToken, expiresIn } = await startUserSession(
+            {
+                id: user.id,
+                email: user.email,
+                role: user.role,
+                permissions: (user as { permissions?: string[] }).permissions,
+            },
+            { ip, userAgent },
+            rememberMe
+        );
+
         // User from repository has firstName/lastName at top level
         const userData = user as {
             id: string;
@@ -178,29 +190,11 @@ export async function POST(request: NextRequest) {
                 },
                 accessToken,
                 refreshToken,
-                expiresIn: 900, // 15 minutes
+                expiresIn,
             },
         });
 
-        // Set secure cookies
-        const cookieOptions = {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax' as const,
-            path: '/',
-        };
-
-        // CRITICAL: Set access token as cookie for middleware/API auth
-        response.cookies.set('modon_auth_token', accessToken, {
-            ...cookieOptions,
-            maxAge: 900, // 15 minutes (matches JWT expiry)
-        });
-
-        // VULN-014 FIX: Cookie name standardized to 'modon_refresh_token' (matches logout endpoint)
-        response.cookies.set('modon_refresh_token', refreshToken, {
-            ...cookieOptions,
-            maxAge: rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60, // 30 days or 7 days
-        });
+        setSessionCookies(response, { accessToken, refreshToken }, rememberMe);
 
         return applySecurityHeaders(response);
 
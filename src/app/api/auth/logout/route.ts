@@ -6,6 +6,25 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { checkCSRF } from '@/lib/security/csrf';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { hashRefreshToken } from '@/application/auth/RefreshSessionUseCase';
+
+/**
+ * End the server-side session too, so the refresh token cannot be replayed
+ */
+async function revokeCurrentSession(request: NextRequest): Promise<void> {
+    const refreshToken = request.cookies.get('modon_refresh_token')?.value;
+    if (!refreshToken) return;
+
+    try {
+        const session = await userRepository.findSession(hashRefreshToken(refreshToken));
+        if (session && !session.revokedAt) {
+            await userRepository.revokeSession(session.id);
+        }
+    } catch (error) {
+        console.warn('Session revocation failed (non-fatal):', error);
+    }
+}
 
 export async function POST(request: NextRequest) {
     // ============================================
@@ -15,6 +34,8 @@ export async function POST(request: NextRequest) {
     if (csrfError) return csrfError;
 
     try {
+        await revokeCurrentSession(request);
+
         const response = NextResponse.json(
             {
                 success: true,
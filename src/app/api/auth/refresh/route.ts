@@ -0,0 +1,152 @@
+/**
+ * Refresh Token API Route
+ * ========================
+ * POST /api/auth/refresh - rotate the refresh token (cookie or JSON body) and
+ *                          issue a new access token
+ * GET  /api/auth/refresh?returnTo=/en/admin - same via redirect; middleware sends
+ *                          admins here when their access token has expired
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import {
+    RefreshSessionResult,
+    RefreshSessionUseCase,
+    RefreshTokenError,
+} from '@/application/auth/RefreshSessionUseCase';
+import { checkCSRF } from '@/lib/security/csrf';
+import { getClientIp } from '@/lib/security/rate-limit';
+import { logSecurityEvent } from '@/discoverx/monitoring/logging';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { clearSessionCookies, setSessionCookies } from '@/server/auth/session';
+import { getPermissionService } from '@/server/auth/permissions';
+
+async function refresh(request: NextRequest, refreshToken: string): Promise<RefreshSessionResult> {
+    const ip = getClientIp(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    try {
+        return await new RefreshSessionUseCase(userRepository, getPermissionService()).execute(refreshToken, { ip, userAgent });
+    } catch (error) {
+        if (error instanceof RefreshTokenError && error.reason === 'reused') {
+            logSecurityEvent({
+                // Not session_hijack: that auto-blocks the IP, and the one presenting
+                // the rotated token is often the legitimate user
+                type: 'suspicious_activity',
+                severity: 'high',
+                ip,
+                userAgent,
+                path: request.nextUrl.pathname,
+                details: { reason: 'refresh_token_reuse', familyId: error.revokedFamilyId },
+            });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Only same-site paths, so the redirect cannot be pointed at another host
+ */
+function safeReturnTo(value: string | null): string {
+    return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\')
+        ? value
+        : '/';
+}
+
+// ============================================
+// POST /api/auth/refresh
+// ============================================
+
+export async function POST(request: NextRequest) {
+    let bodyToken: string | undefined;
+    try {
+        const body = await request.json();
+        if (typeof body?.refreshToken === 'string') bodyToken = body.refreshToken;
+    } catch {
+        // Cookie-based refresh sends no body
+    }
+
+    // The cookie is ambient authority; a token in the body is not
+    if (!bodyToken) {
+        const csrfError = checkCSRF(request);
+        if (csrfError) return csrfError;
+    }
+
+    const refreshToken = bodyToken || request.cookies.get('modon_refresh_token')?.value;
+    if (!refreshToken) {
+        return NextResponse.json(
+            { success: false, error: 'Refresh token required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const result = await refresh(request, refreshToken);
+
+        const response = NextResponse.json({
+            success: true,
+            data: {
+                accessToken: result.accessToken,
+                refreshToken: result.refreshToken,
+                expiresIn: result.expiresIn,
+            },
+        });
+        setSessionCookies(response, result, result.rememberMe);
+        response.headers.set('Cache-Control', 'no-store');
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        if (!(error instanceof RefreshTokenError)) {
+            console.error('Refresh error:', error);
+        }
+
+        const response = NextResponse.json(
+            {
+                success: false,
+                error: error instanceof RefreshTokenError ? error.message : 'Session could not be refreshed',
+                code: error instanceof RefreshTokenError && error.reason === 'reused'
+                    ? 'REFRESH_TOKEN_REUSED'
+                    : 'INVALID_REFRESH_TOKEN',
+            },
+            { status: 401 }
+        );
+        clearSessionCookies(response);
+
+        return response;
+    }
+}
+
+// ============================================
+// GET /api/auth/refresh?returnTo=
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const returnTo = safeReturnTo(request.nextUrl.searchParams.get('returnTo'));
+    const refreshToken = request.cookies.get('modon_refresh_token')?.value;
+
+    if (refreshToken) {
+        try {
+            const result = await refresh(request, refreshToken);
+
+            const response = NextResponse.redirect(new URL(returnTo, request.url));
+            setSessionCookies(response, result, result.rememberMe);
+            response.headers.set('Cache-Control', 'no-store');
+
+            return response;
+        } catch (error) {
+            if (!(error instanceof RefreshTokenError)) {
+                console.error('Refresh error:', error);
+            }
+        }
+    }
+
+    const locale = returnTo.split('/')[1] === 'ar' ? 'ar' : 'en';
+    const response = NextResponse.redirect(new URL(`/${locale}/login`, request.url));
+    clearSessionCookies(response);
+
+    return response;
+}
+
+// Prevent caching of this endpoint
+export const dynamic = 'force-dynamic';
@@ -27,11 +27,7 @@ export async function POST(request: NextRequest) {
     // ============================================
     // RATE LIMITING (prevents enumeration attacks)
     // ============================================
-    const rateLimitResult = await rateLimit(request, {
-        maxRequests: 5,       // Max 5 registration attempts
-        windowMs: 3600000,    // Per 1 hour
-        message: 'Too many registration attempts. Please try again later.',
-    });
+    const rateLimitResult = await rateLimit(request, 'register');
 
     if (!rateLimitResult.allowed) {
         const response = NextResponse.json(
@@ -2,7 +2,8 @@
  * Reset Password API Route
  * =========================
  * POST /api/auth/reset-password
- * Accepts a reset token and new password
+ * Accepts a reset token and new password; the token works once and the
+ * reset signs the account out everywhere
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,6 +11,11 @@ import { z } from 'zod';
 import { applySecurityHeaders } from '@/server/security/headers';
 import { checkCSRF } from '@/lib/security/csrf';
 import { rateLimit } from '@/lib/security/rate-limit';
+import { getEmailOutbox } from '@/server/email/outbox';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { getSiteUrl } from '@/lib/config/site';
+import { PasswordResetError, PasswordResetService } from '@/application/auth/PasswordResetService';
+import { clearSessionCookies } from '@/server/auth/session';
 
 const ResetPasswordSchema = z.object({
     token: z.string().uuid('Invalid reset token'),
@@ -28,11 +34,7 @@ const ResetPasswordSchema = z.object({
 
 export async function POST(request: NextRequest) {
     // Rate limiting
-    const rateLimitResult = await rateLimit(request, {
-        maxRequests: 5,
-        windowMs: 900000, // 15 minutes
-        message: 'Too many password reset attempts. Please try again later.',
-    });
+    const rateLimitResult = await rateLimit(request, 'passwordReset');
 
     if (!rateLimitResult.allowed) {
         const response = NextResponse.json(
@@ -71,18 +73,30 @@ export async function POST(request: NextRequest) {
 
         const { token, password } = validation.data;
 
-        // In production: Verify token from DB, check expiration, update password
-        // TODO: Integrate with Supabase auth or user repository
-        // For now, return a structured response
+        await new PasswordResetService(
+            userRepository,
+            getEmailOutbox(),
+            getSiteUrl()
+        ).resetPassword(token, password);
 
         const response = NextResponse.json({
             success: true,
             message: 'Password has been reset successfully. You can now log in with your new password.',
         });
+        // Every session was revoked, including this browser's
+        clearSessionCookies(response);
 
         return applySecurityHeaders(response);
 
     } catch (error) {
+        if (error instanceof PasswordResetError) {
+            return NextResponse.json(
+                { success: false, error: error.message, code: 'INVALID_RESET_TOKEN' },
+                { status: 400 }
+            );
+        }
+
+        console.error('Password reset failed:', error);
         return NextResponse.json(
             { success: false, error: 'An error occurred while resetting your password.' },
             { status: 500 }
@@ -0,0 +1,74 @@
+/**
+ * Single Session API Route
+ * =========================
+ * DELETE /api/auth/sessions/[id] - sign out one of the caller's devices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/server/auth/jwt';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { SessionNotFoundError, UserSessionService } from '@/application/auth/UserSessionService';
+import { clearSessionCookies } from '@/server/auth/session';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// DELETE /api/auth/sessions/[id]
+// ============================================
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const accessToken = request.cookies.get('modon_auth_token')?.value;
+    const user = accessToken ? await verifyToken(accessToken) : null;
+
+    if (!user) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const { id } = await params;
+        const wasCurrent = await new UserSessionService(userRepository).revoke(
+            user.userId,
+            id,
+            request.cookies.get('modon_refresh_token')?.value
+        );
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Session ended',
+            data: { current: wasCurrent },
+        });
+
+        // Ending this device's own session is a logout
+        if (wasCurrent) clearSessionCookies(response);
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        // Other users' sessions are reported as missing, not forbidden
+        if (error instanceof SessionNotFoundError) {
+            return NextResponse.json(
+                { success: false, error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        console.error('[API] Session DELETE error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to end session' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,99 @@
+/**
+ * Sessions API Route
+ * ===================
+ * GET    /api/auth/sessions - the caller's signed-in devices, current one marked
+ * DELETE /api/auth/sessions - sign out all other devices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/server/auth/jwt';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { SessionNotFoundError, UserSessionService } from '@/application/auth/UserSessionService';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+
+// ============================================
+// GET /api/auth/sessions
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const accessToken = request.cookies.get('modon_auth_token')?.value;
+    const user = accessToken ? await verifyToken(accessToken) : null;
+
+    if (!user) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const sessions = await new UserSessionService(userRepository).list(
+            user.userId,
+            request.cookies.get('modon_refresh_token')?.value
+        );
+
+        const response = NextResponse.json({ success: true, data: sessions });
+        response.headers.set('Cache-Control', 'no-store');
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Sessions GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to load sessions' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// DELETE /api/auth/sessions
+// ============================================
+
+export async function DELETE(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const accessToken = request.cookies.get('modon_auth_token')?.value;
+    const user = accessToken ? await verifyToken(accessToken) : null;
+
+    if (!user) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        await new UserSessionService(userRepository).revokeOthers(
+            user.userId,
+            request.cookies.get('modon_refresh_token')?.value
+        );
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Signed out of all other devices',
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        if (error instanceof SessionNotFoundError) {
+            return NextResponse.json(
+                { success: false, error: 'Current session not found. Please sign in again.' },
+                { status: 409 }
+            );
+        }
+
+        console.error('[API] Sessions DELETE error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to sign out other devices' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,44 @@
+/**
+ * Exchange Rates API Route
+ * ========================
+ * GET /api/exchange-rates - Current rate table with its date and source
+ *
+ * Query params:
+ *   base - Express rates per 1 unit of this currency (default: table base)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applySecurityHeaders, cacheHeaders } from '@/server/security/headers';
+import { describeExchangeRates, getExchangeRate, getSupportedCurrencies, isValidCurrency } from '@/lib/currency';
+import { getExchangeRateService } from '@/lib/currency/providers';
+
+export async function GET(request: NextRequest) {
+    try {
+        const rates = await getExchangeRateService().getRates();
+        const requestedBase = request.nextUrl.searchParams.get('base')?.toUpperCase();
+        const base = requestedBase && isValidCurrency(requestedBase) ? requestedBase : rates.base;
+
+        const response = NextResponse.json({
+            success: true,
+            data: {
+                base,
+                rates: Object.fromEntries(
+                    getSupportedCurrencies().map(({ code }) => [code, getExchangeRate(base, code)])
+                ),
+            },
+            meta: {
+                exchangeRates: describeExchangeRates(rates),
+            },
+        }, { headers: cacheHeaders('dynamic') });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Exchange rates error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to load exchange rates' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,50 +1,862 @@
 /**
  * API Handlers - Local fallback handlers for gateway
  * ===================================================
- * These handlers are used when microservices are not available
+ * These handlers are used when microservices are not available.
+ * APIGateway has already applied DDoS protection, rate limiting,
+ * authentication and route permissions before dispatching here.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { z, ZodError } from 'zod';
+import {
+    TWO_FACTOR_SETUP_EXPIRY,
+    extractToken,
+    generateTwoFactorChallengeToken,
+    hasPermission,
+    verifyToken,
+    TokenPayload,
+} from '@/server/auth/jwt';
+import { startUserSession } from '@/server/auth/session';
+import { getPermissionService } from '@/server/auth/permissions';
+import { sanitizeEmail, sanitizeInput, sanitizeObject } from '@/lib/sanitize';
+import { getClientIp, rateLimit } from '@/lib/security/rate-limit';
+import { logAuthFailure, logSecurityEvent } from '@/discoverx/monitoring/logging';
+import {
+    CreatePropertySchema,
+    InquirySchema,
+    LoginSchema,
+    PropertySearchSchema,
+    UpdatePropertySchema,
+    UserProfileSchema,
+    UserRoleSchema,
+} from '@/contracts/schemas';
+import {
+    GetPropertiesInput,
+    GetPropertiesUseCase,
+    toGetPropertiesInput,
+} from '@/application/properties/GetPropertiesUseCase';
+import { RefreshSessionUseCase, RefreshTokenError } from '@/application/auth/RefreshSessionUseCase';
+import { TwoFactorAuthService, TwoFactorError } from '@/application/auth/TwoFactorAuthService';
+import { AccountLockoutService } from '@/application/auth/AccountLockoutService';
+import { UserSessionService } from '@/application/auth/UserSessionService';
+import { EstimatePropertyValueUseCase } from '@/application/valuation/EstimatePropertyValueUseCase';
+import { isLiveStatus } from '@/application/alerts/NewListingAlertMatcher';
+import { getEmailOutbox, scheduleEmailDelivery } from '@/server/email/outbox';
+import { accountLockedResponse } from '@/server/auth/lockout';
+import {
+    getPublishPropertyUseCase,
+    toEntityFeatures,
+    toEntityImages,
+    toEntityLocation,
+    toEntityPrice,
+    toEntitySpecs,
+    toNewProperty,
+} from '@/server/properties/listings';
+import {
+    getInquiryRepository,
+    getPropertyRepository,
+} from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { getExchangeRateService } from '@/lib/currency/providers';
+import type { InquirySearchCriteria, UserSearchCriteria } from '@/dal/interfaces';
+import { Property } from '@/core/entities/Property';
+import { AccountLockedError, type User } from '@/core/entities/User';
+import { toUserView } from '@/server/users/views';
+import { forceLogout } from '@/server/users/sessions';
 
 // Type for handler function
 type Handler = (request: NextRequest) => Promise<NextResponse>;
 
+// ============================================
+// REQUEST HELPERS
+// ============================================
+
+/**
+ * Path segments after /api/v1, e.g. ['properties', 'villa-123']
+ */
+function getSegments(request: NextRequest): string[] {
+    return request.nextUrl.pathname
+        .replace(/^\/api\/v1\/?/, '')
+        .split('/')
+        .filter(Boolean)
+        .map(decodeURIComponent);
+}
+
+/**
+ * The gateway authenticates with a Bearer token; handlers re-read it for identity
+ */
+async function getGatewayUser(request: NextRequest): Promise<TokenPayload | null> {
+    const token = extractToken(request.headers.get('authorization'));
+    if (!token) return null;
+
+    try {
+        return await verifyToken(token);
+    } catch {
+        return null;
+    }
+}
+
+/** May edit or reassign any agent's listings */
+function canManageAllProperties(user: TokenPayload): boolean {
+    return hasPermission(user.permissions, 'properties:manage_all');
+}
+
+/** May see inquiries addressed to other agents */
+function canReadAllInquiries(user: TokenPayload): boolean {
+    return hasPermission(user.permissions, 'inquiries:read_all');
+}
+
+async function readJson(request: NextRequest): Promise<Record<string, unknown> | null> {
+    try {
+        const body = await request.json();
+        return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+    } catch {
+        return null;
+    }
+}
+
+function error(message: string, status: number): NextResponse {
+    return NextResponse.json({ success: false, error: message }, { status });
+}
+
+function validationError(zodError: ZodError): NextResponse {
+    return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: zodError.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message
+        }))
+    }, { status: 400 });
+}
+
+const notFound = () => error('Not found', 404);
+const forbidden = () => error('Forbidden', 403);
+const invalidBody = () => error('Request body must be a JSON object', 400);
+
+// ============================================
+// PROPERTY HELPERS
+// ============================================
+
+async function findProperty(key: string): Promise<Property | null> {
+    const repository = getPropertyRepository();
+    return (await repository.findById(key)) ?? (await repository.findBySlug(key));
+}
+
+/**
+ * Prices are filtered, sorted and converted in the requested currency,
+ * else the caller's preferred one
+ */
+async function searchListings(request: NextRequest, input: GetPropertiesInput) {
+    const user = await getGatewayUser(request);
+    return new GetPropertiesUseCase(getPropertyRepository(), getExchangeRateService(), userRepository)
+        .execute(input, user?.userId);
+}
+
+function canModifyProperty(user: TokenPayload, property: Property): boolean {
+    return canManageAllProperties(user) || property.agentId === user.userId;
+}
+
+// ============================================
+// PROPERTY SERVICE - /api/v1/properties
+// ============================================
+
+async function listProperties(request: NextRequest): Promise<NextResponse> {
+    const input = toGetPropertiesInput(request.nextUrl.searchParams);
+    // The partner API only exposes live, public listings
+    delete input.status;
+    input.isOffMarket = false;
+
+    try {
+        const result = await searchListings(request, input);
+
+        return NextResponse.json({
+            success: true,
+            data: result.properties,
+            pagination: result.pagination,
+            filters: result.filters,
+            meta: {
+                currency: result.currency,
+                exchangeRates: result.exchangeRates,
+            },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) return validationError(err);
+        throw err;
+    }
+}
+
+async function getProperty(request: NextRequest, key: string): Promise<NextResponse> {
+    const property = await findProperty(key);
+    const user = await getGatewayUser(request);
+
+    // Drafts and withdrawn listings are only visible to their agent and admins
+    if (!property || (!isLiveStatus(property.status) && !(user && canModifyProperty(user, property)))) {
+        return error('Property not found', 404);
+    }
+
+    return NextResponse.json({ success: true, data: property });
+}
+
+async function createPropertyListing(request: NextRequest, user: TokenPayload): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'properties:create')) return forbidden();
+
+    const body = await readJson(request);
+    if (!body) return invalidBody();
+
+    const validation = CreatePropertySchema.safeParse({
+        ...body,
+        // Agents list under their own account; properties:manage_all may assign an agent
+        agentId: canManageAllProperties(user) && typeof body.agentId === 'string' ? body.agentId : user.userId,
+    });
+    if (!validation.success) return validationError(validation.error);
+
+    const created = await getPropertyRepository().create(toNewProperty(validation.data));
+
+    console.info(`[API v1] Property created: ${created.slug} by ${user.email}`);
+
+    return NextResponse.json({ success: true, data: created }, { status: 201 });
+}
+
+async function updatePropertyListing(
+    request: NextRequest,
+    user: TokenPayload,
+    key: string
+): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'properties:update')) return forbidden();
+
+    const body = await readJson(request);
+    if (!body) return invalidBody();
+
+    const validation = UpdatePropertySchema.safeParse(body);
+    if (!validation.success) return validationError(validation.error);
+
+    const existing = await findProperty(key);
+    if (!existing || !canModifyProperty(user, existing)) {
+        return error('Property not found', 404);
+    }
+
+    // Only fields the caller actually sent (the contract schema fills in defaults)
+    const data = validation.data;
+    const sent = (field: string) => field in body;
+    const changes: Partial<Property> = {};
+
+    if (sent('title') && data.title) changes.title = sanitizeInput(data.title);
+    if (sent('description') && data.description) changes.description = sanitizeInput(data.description, { maxLength: 5000 });
+    if (sent('shortDescription')) changes.shortDescription = data.shortDescription ? sanitizeInput(data.shortDescription) : undefined;
+    if (sent('type')) changes.type = data.type;
+    if (sent('listingType')) changes.listingType = data.listingType;
+    if (sent('isFeatured')) changes.isFeatured = data.isFeatured;
+    if (sent('isOffMarket')) changes.isOffMarket = data.isOffMarket;
+    if (sent('isExclusive')) changes.isExclusive = data.isExclusive;
+    if (sent('location') && data.location) changes.location = { ...existing.location, ...toEntityLocation(data.location) };
+    if (sent('specs') && data.specs) changes.specs = { ...existing.specs, ...toEntitySpecs(data.specs) };
+    if (sent('price') && data.price) changes.price = { ...existing.price, ...toEntityPrice(data.price) };
+    if (sent('images') && data.images) changes.images = toEntityImages(data.images);
+    if (sent('features') && data.features) changes.features = toEntityFeatures(data.features);
+    if (sent('lifestyle')) changes.lifestyle = data.lifestyle;
+    if (sent('videoUrl')) changes.videoUrl = data.videoUrl;
+    if (sent('virtualTourUrl')) changes.virtualTourUrl = data.virtualTourUrl;
+    if (sent('floorPlanUrl')) changes.floorPlanUrl = data.floorPlanUrl;
+    if (sent('agentId') && data.agentId && canManageAllProperties(user)) changes.agentId = data.agentId;
+
+    const repository = getPropertyRepository();
+    const publisher = getPublishPropertyUseCase();
+    let updated = Object.keys(changes).length > 0
+        ? await repository.update(existing.id, changes)
+        : existing;
+
+    if (sent('status') && data.status && data.status !== existing.status) {
+        updated = isLiveStatus(data.status)
+            ? await publisher.execute(existing.id)
+            : await repository.update(existing.id, { status: data.status });
+        scheduleEmailDelivery();
+    }
+
+    console.info(`[API v1] Property updated: ${updated.slug} by ${user.email}`);
+
+    return NextResponse.json({ success: true, data: updated });
+}
+
+async function deletePropertyListing(user: TokenPayload, key: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'properties:delete')) return forbidden();
+
+    const existing = await findProperty(key);
+    if (!existing) return error('Property not found', 404);
+    if (!canModifyProperty(user, existing)) return forbidden();
+
+    await getPropertyRepository().delete(existing.id);
+
+    console.info(`[API v1] Property deleted: ${existing.slug} by ${user.email}`);
+
+    return NextResponse.json({ success: true, message: 'Property deleted successfully' });
+}
+
+async function handleProperties(request: NextRequest, key?: string): Promise<NextResponse> {
+    if (request.method === 'GET') {
+        return key ? getProperty(request, key) : listProperties(request);
+    }
+
+    const user = await getGatewayUser(request);
+    if (!user) return error('Unauthorized', 401);
+
+    if (request.method === 'POST' && !key) return createPropertyListing(request, user);
+    if ((request.method === 'PUT' || request.method === 'PATCH') && key) return updatePropertyListing(request, user, key);
+    if (request.method === 'DELETE' && key) return deletePropertyListing(user, key);
+
+    return notFound();
+}
+
+// ============================================
+// PROPERTY SERVICE - /api/v1/inquiries
+// ============================================
+
+const InquiryStatusUpdateSchema = z.object({
+    status: z.enum(['read', 'replied', 'closed']),
+});
+
+async function submitInquiry(request: NextRequest): Promise<NextResponse> {
+    // Shares the website form's budget: inquiries land in a person's inbox
+    const rateLimitResult = await rateLimit(request, 'inquiries');
+    if (!rateLimitResult.allowed) {
+        return error(rateLimitResult.message || 'Too many requests', 429);
+    }
+
+    const rawBody = await readJson(request);
+    if (!rawBody) return invalidBody();
+
+    const body = sanitizeObject(rawBody, { maxStringLength: 2000 });
+    if (typeof body.phone === 'string') {
+        body.phone = body.phone.replace(/[\s\-().]/g, '') || undefined;
+    }
+
+    const validation = InquirySchema.safeParse(body);
+    if (!validation.success) return validationError(validation.error);
+
+    const data = validation.data;
+    const cleanEmail = sanitizeEmail(data.email);
+    if (!cleanEmail) return error('Invalid email format', 400);
+
+    const propertyRepository = getPropertyRepository();
+    const property = await propertyRepository.findById(data.propertyId);
+    if (!property) return error('Property not found', 404);
+    if (!property.agentId) return error('This listing is not accepting inquiries', 422);
+
+    const user = await getGatewayUser(request);
+    const inquiry = await getInquiryRepository().create({
+        propertyId: property.id,
+        agentId: property.agentId,
+        userId: user?.userId,
+        name: sanitizeInput(data.name, { maxLength: 200 }),
+        email: cleanEmail,
+        phone: data.phone,
+        message: sanitizeInput(data.message, { maxLength: 2000 }),
+        preferredContact: data.preferredContact,
+        requestViewing: data.requestViewing ?? false,
+        viewingDate: data.viewingDate ? new Date(data.viewingDate) : undefined,
+        status: 'new',
+    });
+
+    await propertyRepository.incrementInquiryCount?.(property.id);
+
+    return NextResponse.json({
+        success: true,
+        data: { id: inquiry.id, createdAt: inquiry.createdAt }
+    }, { status: 201 });
+}
+
+async function listInquiries(request: NextRequest, user: TokenPayload): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'inquiries:read')) return forbidden();
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    const criteria: InquirySearchCriteria = {
+        page: Math.max(1, parseInt(searchParams.get('page') || '1') || 1),
+        limit: Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20)),
+        propertyId: searchParams.get('propertyId') || undefined,
+        // Agents only ever see their own inquiries
+        agentId: canReadAllInquiries(user) ? searchParams.get('agentId') || undefined : user.userId,
+        status: (['new', 'read', 'replied', 'closed'] as const).find(s => s === status),
+    };
+
+    const result = await getInquiryRepository().findAll(criteria);
+
+    return NextResponse.json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+    });
+}
+
+async function updateInquiry(request: NextRequest, user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'inquiries:manage')) return forbidden();
+
+    const body = await readJson(request);
+    if (!body) return invalidBody();
+
+    const validation = InquiryStatusUpdateSchema.safeParse(body);
+    if (!validation.success) return validationError(validation.error);
+
+    const repository = getInquiryRepository();
+    const inquiry = await repository.findById(id);
+    if (!inquiry || (!canReadAllInquiries(user) && inquiry.agentId !== user.userId)) {
+        return error('Inquiry not found', 404);
+    }
+
+    const { status } = validation.data;
+    const updated = status === 'read'
+        ? await repository.markAsRead(id)
+        : status === 'replied'
+            ? await repository.markAsReplied(id)
+            : await repository.close(id);
+
+    return NextResponse.json({ success: true, data: updated });
+}
+
+async function deleteInquiry(user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'inquiries:manage')) return forbidden();
+
+    const repository = getInquiryRepository();
+    const inquiry = await repository.findById(id);
+    if (!inquiry || (!canReadAllInquiries(user) && inquiry.agentId !== user.userId)) {
+        return error('Inquiry not found', 404);
+    }
+
+    await repository.delete(id);
+
+    return NextResponse.json({ success: true, message: 'Inquiry deleted successfully' });
+}
+
+async function handleInquiries(request: NextRequest, id?: string): Promise<NextResponse> {
+    if (request.method === 'POST' && !id) return submitInquiry(request);
+
+    const user = await getGatewayUser(request);
+    if (!user) return error('Unauthorized', 401);
+
+    if (request.method === 'GET' && !id) return listInquiries(request, user);
+    if (request.method === 'PUT' && id) return updateInquiry(request, user, id);
+    if (request.method === 'DELETE' && id) return deleteInquiry(user, id);
+
+    return notFound();
+}
+
+// ============================================
+// SEARCH SERVICE - /api/v1/search
+// ============================================
+
+async function searchProperties(request: NextRequest): Promise<NextResponse> {
+    let input: GetPropertiesInput;
+
+    if (request.method === 'POST') {
+        const body = await readJson(request);
+        if (!body) return invalidBody();
+
+        const validation = PropertySearchSchema.safeParse(body);
+        if (!validation.success) return validationError(validation.error);
+
+        input = validation.data;
+        if (input.query) input.query = sanitizeInput(input.query, { maxLength: 200 });
+    } else {
+        input = toGetPropertiesInput(request.nextUrl.searchParams);
+    }
+
+    // Search is public: it never reaches drafts, withdrawn or off-market listings
+    const { status: _status, ...criteria } = input;
+    criteria.isOffMarket = false;
+
+    try {
+        const result = await searchListings(request, criteria);
+
+        return NextResponse.json({
+            success: true,
+            data: result.properties,
+            pagination: result.pagination,
+            filters: result.filters,
+            meta: {
+                currency: result.currency,
+                exchangeRates: result.exchangeRates,
+            },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) return validationError(err);
+        throw err;
+    }
+}
+
+// ============================================
+// USER SERVICE - /api/v1/auth, /api/v1/users
+// ============================================
+
+const UserUpdateSchema = z.object({
+    status: z.enum(['active', 'inactive', 'suspended']).optional(),
+    role: UserRoleSchema.optional(),
+    profile: UserProfileSchema.partial().optional(),
+});
+
+/**
+ * Token exchange for API clients: no cookies, the caller keeps the Bearer token.
+ * Accounts with 2FA also send `twoFactorCode` (TOTP or recovery code).
+ * Roles that require 2FA get no tokens until the account has enrolled.
+ */
+async function login(request: NextRequest): Promise<NextResponse> {
+    const ip = getClientIp(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    const body = await readJson(request);
+    const validation = LoginSchema.safeParse(body);
+    if (!validation.success) return error('Invalid credentials format', 400);
+
+    const { email, password } = validation.data;
+
+    let user: User | null;
+    try {
+        user = await userRepository.verifyPassword(email, password);
+    } catch (err) {
+        if (!(err instanceof AccountLockedError)) throw err;
+
+        logAuthFailure(email, ip, userAgent, 'Account locked');
+        return accountLockedResponse(err, ip);
+    }
+
+    if (!user) {
+        logAuthFailure(email, ip, userAgent, 'Invalid credentials');
+        return error('Invalid email or password', 401);
+    }
+
+    if (user.status !== 'active') {
+        logAuthFailure(email, ip, userAgent, `Account ${user.status}`);
+        return error('Account is not active', 403);
+    }
+
+    // 2FA accounts send the current code (or a recovery code) with the credentials
+    if (user.twoFactorEnabled) {
+        const code = typeof body?.twoFactorCode === 'string' ? body.twoFactorCode : '';
+        if (!code) {
+            return NextResponse.json(
+                { success: false, error: 'Two-factor code required', code: 'TWO_FACTOR_REQUIRED' },
+                { status: 401 }
+            );
+        }
+
+        try {
+            await new TwoFactorAuthService(userRepository).verify(user.id, code);
+        } catch (err) {
+            if (!(err instanceof TwoFactorError)) throw err;
+
+            logAuthFailure(email, ip, userAgent, 'Invalid two-factor code');
+            return error('Invalid two-factor code', 401);
+        }
+    } else if (await new TwoFactorAuthService(userRepository).isRequiredFor(user.role)) {
+        // No session until the user enrolls through /api/auth/2fa/setup
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Two-factor authentication must be set up first',
+                code: 'TWO_FACTOR_SETUP_REQUIRED',
+                setupToken: await generateTwoFactorChallengeToken(user.id, { purpose: 'setup' }),
+                expiresIn: TWO_FACTOR_SETUP_EXPIRY,
+            },
+            { status: 403 }
+        );
+    }
+
+    const { accessToken, refreshToken } = await startUserSession(user, { ip, userAgent });
+
+    return NextResponse.json({
+        success: true,
+        data: {
+            tokenType: 'Bearer',
+            accessToken,
+            refreshToken,
+            expiresIn: 900, // 15 minutes
+            user: toUserView(user),
+        },
+    });
+}
+
+/**
+ * Rotates the refresh token from the body; a replayed token revokes its session family
+ */
+async function refreshTokens(request: NextRequest): Promise<NextResponse> {
+    const ip = getClientIp(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    const body = await readJson(request);
+    if (typeof body?.refreshToken !== 'string') return error('Refresh token required', 400);
+
+    try {
+        const result = await new RefreshSessionUseCase(userRepository, getPermissionService())
+            .execute(body.refreshToken, { ip, userAgent });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                tokenType: 'Bearer',
+                accessToken: result.accessToken,
+                refreshToken: result.refreshToken,
+                expiresIn: result.expiresIn,
+            },
+        });
+    } catch (err) {
+        if (!(err instanceof RefreshTokenError)) throw err;
+
+        if (err.reason === 'reused') {
+            logSecurityEvent({
+                // Reuse must not auto-block the IP (see /api/auth/refresh)
+                type: 'suspicious_activity',
+                severity: 'high',
+                ip,
+                userAgent,
+                path: request.nextUrl.pathname,
+                details: { reason: 'refresh_token_reuse', familyId: err.revokedFamilyId },
+            });
+        }
+        return error(err.message, 401);
+    }
+}
+
+async function listUsers(request: NextRequest, user: TokenPayload): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'users:read')) return forbidden();
+
+    const searchParams = request.nextUrl.searchParams;
+    const role = UserRoleSchema.safeParse(searchParams.get('role'));
+    const status = UserUpdateSchema.shape.status.safeParse(searchParams.get('status') ?? undefined);
+    const criteria: UserSearchCriteria = {
+        query: searchParams.get('q') ? sanitizeInput(searchParams.get('q')!, { maxLength: 200 }) : undefined,
+        role: role.success ? role.data : undefined,
+        status: status.success ? status.data : undefined,
+        locked: searchParams.has('locked') ? searchParams.get('locked') === 'true' : undefined,
+        page: Math.max(1, parseInt(searchParams.get('page') || '1') || 1),
+        limit: Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20)),
+    };
+
+    const result = await userRepository.findAll(criteria);
+
+    return NextResponse.json({
+        success: true,
+        data: result.data.map(toUserView),
+        pagination: result.pagination,
+    });
+}
+
+async function getUser(user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'users:read')) return forbidden();
+
+    const found = await userRepository.findById(id);
+    if (!found) return error('User not found', 404);
+
+    return NextResponse.json({ success: true, data: toUserView(found) });
+}
+
+async function updateUser(request: NextRequest, user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'users:manage')) return forbidden();
+
+    const body = await readJson(request);
+    if (!body) return invalidBody();
+
+    const validation = UserUpdateSchema.safeParse(body);
+    if (!validation.success) return validationError(validation.error);
+
+    const existing = await userRepository.findById(id);
+    if (!existing) return error('User not found', 404);
+
+    const { status, role, profile } = validation.data;
+
+    // Only a super admin changes a super admin or makes one
+    if ((existing.role === 'super_admin' || role === 'super_admin') && user.role !== 'super_admin') {
+        return forbidden();
+    }
+
+    // Role changes need permissions:manage, and nobody changes their own role
+    if (role && role !== existing.role && (!hasPermission(user.permissions, 'permissions:manage') || id === user.userId)) {
+        return forbidden();
+    }
+
+    const updated = await userRepository.update(id, {
+        ...(status && { status }),
+        ...(role && { role }),
+        ...(profile && { profile: { ...existing.profile, ...sanitizeObject(profile) } }),
+    });
+
+    console.info(`[API v1] User ${id} updated by ${user.email}`);
+
+    return NextResponse.json({ success: true, data: toUserView(updated) });
+}
+
+async function listUserSessions(user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'users:manage')) return forbidden();
+
+    const found = await userRepository.findById(id);
+    if (!found) return error('User not found', 404);
+
+    return NextResponse.json({ success: true, data: await new UserSessionService(userRepository).list(id) });
+}
+
+/**
+ * Force logout: ends every session; issued access tokens expire within 15 minutes
+ */
+async function revokeUserSessions(request: NextRequest, user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'users:manage')) return forbidden();
+
+    if (!await forceLogout(request, user, id)) return error('User not found', 404);
+
+    return NextResponse.json({ success: true, message: 'All sessions revoked' });
+}
+
+/**
+ * Lift a failed-login lock before it expires
+ */
+async function unlockUser(user: TokenPayload, id: string): Promise<NextResponse> {
+    if (!hasPermission(user.permissions, 'users:manage')) return forbidden();
+
+    const unlocked = await new AccountLockoutService(userRepository, getEmailOutbox()).unlock(id);
+    if (!unlocked) return error('User not found', 404);
+
+    console.info(`[API v1] User ${id} unlocked by ${user.email}`);
+
+    return NextResponse.json({ success: true, message: 'Account unlocked' });
+}
+
+async function handleUsers(request: NextRequest, id?: string, sub?: string): Promise<NextResponse> {
+    const user = await getGatewayUser(request);
+    if (!user) return error('Unauthorized', 401);
+
+    if (sub === 'sessions' && id) {
+        if (request.method === 'GET') return listUserSessions(user, id);
+        if (request.method === 'DELETE') return revokeUserSessions(request, user, id);
+        return notFound();
+    }
+    if (sub === 'lock' && id) {
+        return request.method === 'DELETE' ? unlockUser(user, id) : notFound();
+    }
+    if (sub) return notFound();
+
+    if (request.method === 'GET') return id ? getUser(user, id) : listUsers(request, user);
+    if ((request.method === 'PUT' || request.method === 'PATCH') && id) return updateUser(request, user, id);
+
+    return notFound();
+}
+
+// ============================================
+// VALUATION SERVICE - /api/v1/valuation
+// ============================================
+
+const notEnoughMarketData = () => error('Not enough comparable listings to estimate this property', 422);
+
+/**
+ * Indicative estimate for a property description (public, sell-private flow)
+ */
+async function estimateValue(request: NextRequest): Promise<NextResponse> {
+    const body = await readJson(request);
+    if (!body) return invalidBody();
+
+    try {
+        const valuation = await new EstimatePropertyValueUseCase(getPropertyRepository()).execute(
+            sanitizeObject(body) as Parameters<EstimatePropertyValueUseCase['execute']>[0]
+        );
+        if (!valuation) return notEnoughMarketData();
+
+        return NextResponse.json({ success: true, data: valuation });
+    } catch (err) {
+        if (err instanceof ZodError) return validationError(err);
+        throw err;
+    }
+}
+
+/**
+ * Estimate for an existing listing against the rest of the inventory
+ */
+async function valueListing(request: NextRequest, key: string): Promise<NextResponse> {
+    const user = await getGatewayUser(request);
+    if (!user) return error('Unauthorized', 401);
+
+    const property = await findProperty(key);
+    if (!property || (!isLiveStatus(property.status) && !canModifyProperty(user, property))) {
+        return error('Property not found', 404);
+    }
+
+    if (!property.specs.livingAreaSqm) return error('Listing has no living area to value', 422);
+
+    const valuation = await new EstimatePropertyValueUseCase(getPropertyRepository()).execute({
+        type: property.type,
+        listingType: property.listingType,
+        city: property.location.city,
+        country: property.location.country,
+        specs: {
+            bedrooms: property.specs.bedrooms,
+            bathrooms: property.specs.bathrooms,
+            area: property.specs.livingAreaSqm,
+            pool: property.specs.pool,
+            garden: property.specs.garden,
+            seaview: property.specs.seaview,
+        },
+        features: property.features.map(f => f.name),
+        currency: property.price.currency,
+    }, property.id);
+    if (!valuation) return notEnoughMarketData();
+
+    return NextResponse.json({
+        success: true,
+        data: {
+            ...valuation,
+            listing: {
+                id: property.id,
+                price: property.price.amount,
+                currency: property.price.currency,
+            },
+        },
+    });
+}
+
+// ============================================
+// SERVICE HANDLERS
+// ============================================
+
 // Service handlers map
 const handlers: Record<string, Handler> = {
-    // Property service handler
+    // Property service handler (properties + inquiries)
     property_service: async (request: NextRequest) => {
-        // Redirect to the actual API routes
-        const url = new URL(request.url);
-        const path = url.pathname.replace('/api/v1', '/api');
+        const [resource, key, ...rest] = getSegments(request);
+        if (rest.length > 0) return notFound();
 
-        return NextResponse.json(
-            { success: false, error: 'Service handler not implemented' },
-            { status: 503 }
-        );
+        if (resource === 'properties') return handleProperties(request, key);
+        if (resource === 'inquiries') return handleInquiries(request, key);
+
+        return notFound();
     },
 
-    // User service handler
+    // User service handler (token exchange + user administration)
     user_service: async (request: NextRequest) => {
-        return NextResponse.json(
-            { success: false, error: 'Service handler not implemented' },
-            { status: 503 }
-        );
+        const [resource, key, sub, ...rest] = getSegments(request);
+        if (rest.length > 0) return notFound();
+
+        // Only /users/:id/sessions and /users/:id/lock have a third segment
+        if (resource === 'users') return handleUsers(request, key, sub);
+        if (sub) return notFound();
+
+        if (resource === 'auth' && key === 'login' && request.method === 'POST') return login(request);
+        if (resource === 'auth' && key === 'refresh' && request.method === 'POST') return refreshTokens(request);
+
+        return notFound();
     },
 
     // Search service handler
     search_service: async (request: NextRequest) => {
-        return NextResponse.json(
-            { success: false, error: 'Service handler not implemented' },
-            { status: 503 }
-        );
+        const segments = getSegments(request);
+        if (segments.length !== 1) return notFound();
+
+        return searchProperties(request);
     },
 
     // Valuation service handler
     valuation_service: async (request: NextRequest) => {
-        return NextResponse.json(
-            { success: false, error: 'Service handler not implemented' },
-            { status: 503 }
-        );
+        const [, key, ...rest] = getSegments(request);
+        if (rest.length > 0) return notFound();
+
+        if (request.method === 'POST' && !key) return estimateValue(request);
+        if (request.method === 'GET' && key) return valueListing(request, key);
+
+        return notFound();
     },
 };
 
@@ -0,0 +1,390 @@
+/**
+ * Inquiries API Route Handler
+ * ============================
+ * Per-property inquiries routed to the listing agent
+ *
+ * Endpoints:
+ *   POST  /api/inquiries - Submit inquiry about a property (public, rate-limited)
+ *   GET   /api/inquiries - List inquiries with unread counts (inquiries:read)
+ *   PATCH /api/inquiries - Mark inquiry read / replied / closed (inquiries:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyToken, hasPermission, TokenPayload } from '@/server/auth/jwt';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { sanitizeInput, sanitizeEmail, sanitizeObject } from '@/lib/sanitize';
+import { checkCSRF } from '@/lib/security/csrf';
+import { rateLimit } from '@/lib/security/rate-limit';
+import { InquirySchema } from '@/contracts/schemas';
+import { getInquiryRepository, getPropertyRepository } from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import type { IInquiryRepository, Inquiry, InquirySearchCriteria } from '@/dal/interfaces';
+import type { Property } from '@/core/entities/Property';
+import { queueEmail } from '@/server/email/outbox';
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+const INQUIRY_STATUSES = ['new', 'read', 'replied', 'closed'] as const;
+
+const InquiryUpdateSchema = z.object({
+    id: z.string().min(1),
+    status: z.enum(['read', 'replied', 'closed']),
+});
+
+// ============================================
+// AUTHENTICATION HELPER
+// ============================================
+
+async function getAuthenticatedUser(request: NextRequest): Promise<TokenPayload | null> {
+    const accessToken = request.cookies.get('modon_auth_token')?.value;
+    if (!accessToken) return null;
+
+    try {
+        return await verifyToken(accessToken);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Agents only ever see their own inquiries; inquiries:read_all may look at anyone's
+ */
+function isScopedToOwnInquiries(user: TokenPayload): boolean {
+    return !hasPermission(user.permissions, 'inquiries:read_all');
+}
+
+// ============================================
+// SUMMARY HELPERS
+// ============================================
+
+interface InquirySummary {
+    unread: number;
+    byStatus: Record<Inquiry['status'], number>;
+    byProperty?: Record<string, { total: number; unread: number }>;
+}
+
+async function summarizeInquiries(
+    repository: IInquiryRepository,
+    agentId?: string
+): Promise<InquirySummary> {
+    if (agentId) {
+        const inquiries = await repository.findByAgent(agentId);
+        const byStatus: Record<Inquiry['status'], number> = { new: 0, read: 0, replied: 0, closed: 0 };
+        const byProperty: Record<string, { total: number; unread: number }> = {};
+
+        inquiries.forEach(inquiry => {
+            byStatus[inquiry.status]++;
+            const entry = byProperty[inquiry.propertyId] ??= { total: 0, unread: 0 };
+            entry.total++;
+            if (inquiry.status === 'new') entry.unread++;
+        });
+
+        return { unread: byStatus.new, byStatus, byProperty };
+    }
+
+    // Platform-wide totals (admin view without an agent filter)
+    const totals = await Promise.all(
+        INQUIRY_STATUSES.map(status => repository.findAll({ status, limit: 1 }))
+    );
+    const byStatus = Object.fromEntries(
+        INQUIRY_STATUSES.map((status, i) => [status, totals[i].pagination.total])
+    ) as Record<Inquiry['status'], number>;
+
+    return { unread: byStatus.new, byStatus };
+}
+
+// ============================================
+// EMAIL NOTIFICATIONS
+// ============================================
+
+/**
+ * Tell the listing agent about the inquiry and confirm receipt to the sender.
+ * Best effort: the inquiry is already stored and visible in the dashboard.
+ */
+async function notifyInquiry(property: Property, inquiry: Inquiry, locale: 'en' | 'ar'): Promise<void> {
+    try {
+        const agent = await userRepository.findById(inquiry.agentId);
+        if (agent) {
+            const agentLocale = agent.preferences?.language === 'ar' ? 'ar' : 'en';
+            await queueEmail({
+                type: 'inquiry_received',
+                to: agent.email,
+                locale: agentLocale,
+                userId: agent.id,
+                payload: {
+                    agentName: agent.profile?.firstName,
+                    name: inquiry.name,
+                    email: inquiry.email,
+                    phone: inquiry.phone,
+                    message: inquiry.message,
+                    property: (agentLocale === 'ar' && property.titleAr) || property.title,
+                },
+                dedupeKey: `inquiry_received:${inquiry.id}`,
+            });
+        }
+    } catch (error) {
+        console.error(`[INQUIRY] Could not look up agent ${inquiry.agentId} for notification:`, error);
+    }
+
+    await queueEmail({
+        type: 'inquiry_acknowledgement',
+        to: inquiry.email,
+        locale,
+        userId: inquiry.userId,
+        payload: {
+            name: inquiry.name.split(' ')[0],
+            message: inquiry.message,
+            property: (locale === 'ar' && property.titleAr) || property.title,
+            slug: property.slug,
+        },
+        dedupeKey: `inquiry_acknowledgement:${inquiry.id}`,
+    });
+}
+
+// ============================================
+// POST /api/inquiries - Submit Inquiry (RATE LIMITED)
+// ============================================
+
+export async function POST(request: NextRequest) {
+    const startTime = Date.now();
+
+    const rateLimitResult = await rateLimit(request, 'inquiries');
+
+    if (!rateLimitResult.allowed) {
+        const response = NextResponse.json(
+            { success: false, error: rateLimitResult.message },
+            {
+                status: 429,
+                headers: {
+                    'Retry-After': Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000).toString(),
+                },
+            }
+        );
+        return applySecurityHeaders(response);
+    }
+
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    try {
+        const rawBody = await request.json();
+
+        // Honeypot - return fake success so bots learn nothing
+        if (rawBody.website || rawBody.url || rawBody.fax) {
+            console.warn('[SECURITY] Honeypot triggered on inquiry form');
+            return NextResponse.json({
+                success: true,
+                message: 'Thank you! The agent will contact you shortly.'
+            }, { status: 201 });
+        }
+
+        const body = sanitizeObject(rawBody, { maxStringLength: 2000 });
+        if (typeof body.phone === 'string') {
+            // Accept formatted numbers ("+20 100 123-4567"); the schema expects E.164
+            body.phone = body.phone.replace(/[\s\-().]/g, '') || undefined;
+        }
+
+        const validation = InquirySchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                error: 'Validation failed',
+                details: validation.error.issues.map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message
+                }))
+            }, { status: 400 });
+        }
+
+        const data = validation.data;
+
+        const cleanEmail = sanitizeEmail(data.email);
+        if (!cleanEmail) {
+            return NextResponse.json({
+                success: false,
+                error: 'Invalid email format'
+            }, { status: 400 });
+        }
+
+        // Inquiries are routed to the agent who owns the listing
+        const propertyRepository = getPropertyRepository();
+        const property = await propertyRepository.findById(data.propertyId);
+
+        if (!property) {
+            return NextResponse.json({
+                success: false,
+                error: 'Property not found',
+                code: 'PROPERTY_NOT_FOUND'
+            }, { status: 404 });
+        }
+
+        if (!property.agentId) {
+            // Unassigned listings have no inbox - the form sends these as leads instead
+            return NextResponse.json({
+                success: false,
+                error: 'This listing is not accepting inquiries. Please use the contact page.',
+                code: 'NO_LISTING_AGENT'
+            }, { status: 422 });
+        }
+
+        const user = await getAuthenticatedUser(request);
+
+        const inquiry = await getInquiryRepository().create({
+            propertyId: property.id,
+            agentId: property.agentId,
+            userId: user?.userId,
+            name: sanitizeInput(data.name, { maxLength: 200 }),
+            email: cleanEmail,
+            phone: data.phone,
+            message: sanitizeInput(data.message, { maxLength: 2000 }),
+            preferredContact: data.preferredContact,
+            requestViewing: data.requestViewing ?? false,
+            viewingDate: data.viewingDate ? new Date(data.viewingDate) : undefined,
+            status: 'new',
+        });
+
+        await propertyRepository.incrementInquiryCount?.(property.id);
+
+        console.log(`[INQUIRY] New inquiry on ${property.referenceCode} for agent ${property.agentId}`);
+
+        await notifyInquiry(property, inquiry, data.locale ?? 'en');
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Thank you! The agent will contact you shortly.',
+            data: {
+                id: inquiry.id,
+                createdAt: inquiry.createdAt
+            },
+            meta: {
+                duration: Date.now() - startTime
+            }
+        }, { status: 201 });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Inquiry submission error:', error);
+
+        return NextResponse.json({
+            success: false,
+            error: 'Failed to send your inquiry. Please try again.'
+        }, { status: 500 });
+    }
+}
+
+// ============================================
+// GET /api/inquiries - List Inquiries
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'inquiries:read');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get('status');
+
+        const criteria: InquirySearchCriteria = {
+            page: Math.max(1, parseInt(searchParams.get('page') || '1') || 1),
+            limit: Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20)),
+            propertyId: searchParams.get('propertyId') || undefined,
+            agentId: isScopedToOwnInquiries(user)
+                ? user.userId
+                : searchParams.get('agentId') || undefined,
+            status: INQUIRY_STATUSES.find(s => s === status),
+        };
+
+        const repository = getInquiryRepository();
+        const [result, summary] = await Promise.all([
+            repository.findAll(criteria),
+            summarizeInquiries(repository, criteria.agentId),
+        ]);
+
+        const response = NextResponse.json({
+            success: true,
+            data: result.data,
+            pagination: result.pagination,
+            summary,
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Inquiries GET error:', error);
+
+        return NextResponse.json({
+            success: false,
+            error: 'Failed to fetch inquiries'
+        }, { status: 500 });
+    }
+}
+
+// ============================================
+// PATCH /api/inquiries - Update Inquiry Status
+// ============================================
+
+export async function PATCH(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'inquiries:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const validation = InquiryUpdateSchema.safeParse(await request.json());
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                error: 'Validation failed',
+                details: validation.error.issues.map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message
+                }))
+            }, { status: 400 });
+        }
+
+        const { id, status } = validation.data;
+        const repository = getInquiryRepository();
+        const inquiry = await repository.findById(id);
+
+        // Agents get a 404 for other agents' inquiries rather than leaking their existence
+        if (!inquiry || (isScopedToOwnInquiries(user) && inquiry.agentId !== user.userId)) {
+            return NextResponse.json(
+                { success: false, error: 'Inquiry not found' },
+                { status: 404 }
+            );
+        }
+
+        const updated = status === 'read'
+            ? await repository.markAsRead(id)
+            : status === 'replied'
+                ? await repository.markAsReplied(id)
+                : await repository.close(id);
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Inquiry updated successfully',
+            data: updated,
+            meta: {
+                unread: await repository.countUnread(updated.agentId)
+            }
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Inquiry update error:', error);
+
+        return NextResponse.json({
+            success: false,
+            error: 'Failed to update inquiry'
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Lead Activities API Route
+ * =========================
+ * GET  /api/leads/[id]/activities - the lead's timeline, newest first (leads:read)
+ * POST /api/leads/[id]/activities - log a note, call, email or viewing (leads:manage)
+ *
+ * Status and assignment changes are added to the timeline by PATCH /api/leads.
+ * Without leads:read_all only leads assigned to the caller are available.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+import { sanitizeInput } from '@/lib/sanitize';
+import { getLeadPipelineService } from '@/server/leads/pipeline';
+import { findVisibleLead, leadNotFound, resolveUserNames, toLeadActivityView } from '@/server/leads/views';
+import { MANUAL_LEAD_ACTIVITY_TYPES } from '@/core/entities/Lead';
+
+const ActivitySchema = z.object({
+    type: z.enum(MANUAL_LEAD_ACTIVITY_TYPES),
+    body: z.string().trim().min(1).max(5000),
+    // When the call, email or viewing took place (or a viewing is booked for)
+    occurredAt: z.string().datetime().optional(),
+});
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET /api/leads/[id]/activities
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const user = await requirePermission(request, 'leads:read');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const lead = await findVisibleLead(user, (await params).id);
+        if (!lead) return leadNotFound();
+
+        const limit = Math.min(200, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '100') || 100));
+        const activities = await getLeadPipelineService().getActivities(lead.id, limit);
+        const authors = await resolveUserNames(activities.flatMap(activity => [
+            activity.authorId,
+            // Assignment entries name the agents on either side
+            activity.type === 'assignment' ? activity.details.from as string | undefined : undefined,
+            activity.type === 'assignment' ? activity.details.to as string | undefined : undefined,
+        ]));
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: activities.map(activity => toLeadActivityView(activity, authors)),
+            users: Object.fromEntries(authors),
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead activities GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch lead activities' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST /api/leads/[id]/activities
+// ============================================
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'leads:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const lead = await findVisibleLead(user, (await params).id);
+        if (!lead) return leadNotFound();
+
+        const validation = ActivitySchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid activity', details: validation.error.flatten().fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const { type, body, occurredAt } = validation.data;
+        const activity = await getLeadPipelineService().logActivity(lead.id, {
+            type,
+            body: sanitizeInput(body, { maxLength: 5000 }),
+            details: occurredAt ? { occurredAt } : {},
+        }, user.userId);
+
+        const authors = await resolveUserNames([user.userId]);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            message: 'Activity logged',
+            data: toLeadActivityView(activity, authors),
+        }, { status: 201 }));
+
+    } catch (error) {
+        console.error('[API] Lead activities POST error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to log activity' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
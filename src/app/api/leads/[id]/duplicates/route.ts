@@ -0,0 +1,112 @@
+/**
+ * Lead Duplicates API Route
+ * =========================
+ * GET  /api/leads/[id]/duplicates - other leads from the same email or phone (leads:read)
+ * POST /api/leads/[id]/duplicates - merge duplicates into this lead and delete them (leads:manage)
+ *
+ * Without leads:read_all only leads assigned to the caller are listed or merged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+import { getLeadDeduplicationService } from '@/server/leads/deduplication';
+import { canSeeLead, findVisibleLead, leadNotFound, toLeadView } from '@/server/leads/views';
+import { LeadMergeError } from '@/application/leads/LeadDeduplicationService';
+
+const MergeSchema = z.object({
+    duplicateIds: z.array(z.string().min(1).max(100)).min(1).max(20),
+});
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET /api/leads/[id]/duplicates
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const user = await requirePermission(request, 'leads:read');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const lead = await findVisibleLead(user, (await params).id);
+        if (!lead) return leadNotFound();
+
+        const duplicates = await getLeadDeduplicationService().findDuplicates(lead);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: duplicates
+                .filter(duplicate => canSeeLead(user, duplicate.lead))
+                .map(duplicate => ({ ...toLeadView(duplicate.lead), matchedOn: duplicate.matchedOn })),
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead duplicates GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to find duplicates' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST /api/leads/[id]/duplicates - merge
+// ============================================
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'leads:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const lead = await findVisibleLead(user, (await params).id);
+        if (!lead) return leadNotFound();
+
+        const validation = MergeSchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid merge', details: validation.error.flatten().fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const { duplicateIds } = validation.data;
+        const duplicates = await Promise.all(duplicateIds.map(id => findVisibleLead(user, id)));
+        if (duplicates.some(duplicate => !duplicate)) return leadNotFound();
+
+        const merged = await getLeadDeduplicationService().merge(lead.id, duplicateIds, user.userId);
+
+        console.log(`[LEADS] ${duplicateIds.length} lead(s) merged into ${lead.id} by ${user.userId}`);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            message: 'Leads merged',
+            data: toLeadView(merged),
+        }));
+
+    } catch (error) {
+        if (error instanceof LeadMergeError) {
+            return NextResponse.json(
+                { success: false, error: error.message, code: error.code },
+                { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+            );
+        }
+
+        console.error('[API] Lead merge error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to merge leads' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
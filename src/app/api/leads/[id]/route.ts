@@ -0,0 +1,55 @@
+/**
+ * Lead Detail API Route
+ * =====================
+ * GET /api/leads/[id] - one lead with its assignee (leads:read; own assigned leads without leads:read_all)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { canSeeLead, resolveUserNames, toLeadView } from '@/server/leads/views';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// GET /api/leads/[id]
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const user = await requirePermission(request, 'leads:read');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const lead = await getLeadRepository().findById((await params).id);
+
+        if (!lead || !canSeeLead(user, lead)) {
+            return NextResponse.json(
+                { success: false, error: 'Lead not found' },
+                { status: 404 }
+            );
+        }
+
+        const names = await resolveUserNames([lead.assignedTo]);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: {
+                ...toLeadView(lead),
+                assigneeName: lead.assignedTo ? names.get(lead.assignedTo) ?? null : null,
+            },
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch lead' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
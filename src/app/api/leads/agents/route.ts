@@ -0,0 +1,43 @@
+/**
+ * Lead Assignees API Route
+ * ========================
+ * GET /api/leads/agents - active agents leads can be assigned to (leads:assign)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getLeadPipelineService } from '@/server/leads/pipeline';
+
+// ============================================
+// GET /api/leads/agents
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'leads:assign');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const assignees = await getLeadPipelineService().listAssignees();
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: assignees.map(assignee => ({
+                id: assignee.id,
+                name: `${assignee.profile.firstName} ${assignee.profile.lastName}`.trim() || assignee.email,
+                email: assignee.email,
+                role: assignee.role,
+            })),
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead assignees GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to load agents' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,135 @@
+/**
+ * Lead Bulk Actions API Route
+ * ===========================
+ * POST /api/leads/bulk - assign (leads:assign), move (leads:manage) or delete
+ * (leads:delete) up to 100 leads at once
+ *
+ * Each lead is handled on its own: the response lists the leads that were
+ * changed and, for the rest, why not (a stage they cannot move to, not found).
+ * Without leads:read_all only leads assigned to the caller can be changed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/server/auth/permissions';
+import { hasPermission, Permission } from '@/server/auth/jwt';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+import { getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { getLeadPipelineService } from '@/server/leads/pipeline';
+import { canSeeLead } from '@/server/leads/views';
+import { LeadPipelineError } from '@/application/leads/LeadPipelineService';
+import { LEAD_STATUSES, LeadTransitionError } from '@/core/entities/Lead';
+
+const Ids = z.array(z.string().min(1).max(100)).min(1).max(100);
+
+const BulkSchema = z.discriminatedUnion('action', [
+    z.object({
+        action: z.literal('assign'),
+        ids: Ids,
+        assignedTo: z.string().min(1).max(100).nullable(),
+    }),
+    z.object({
+        action: z.literal('status'),
+        ids: Ids,
+        status: z.enum(LEAD_STATUSES),
+        lostReason: z.string().max(500).optional(),
+    }),
+    z.object({
+        action: z.literal('delete'),
+        ids: Ids,
+    }),
+]);
+
+const ACTION_PERMISSIONS: Record<z.infer<typeof BulkSchema>['action'], Permission> = {
+    assign: 'leads:assign',
+    status: 'leads:manage',
+    delete: 'leads:delete',
+};
+
+// ============================================
+// POST /api/leads/bulk
+// ============================================
+
+export async function POST(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, Object.values(ACTION_PERMISSIONS));
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const validation = BulkSchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                error: 'Validation failed',
+                details: validation.error.issues.map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message
+                }))
+            }, { status: 400 });
+        }
+
+        const action = validation.data;
+        if (!hasPermission(user.permissions, ACTION_PERMISSIONS[action.action])) {
+            return NextResponse.json(
+                { success: false, error: 'Insufficient permissions' },
+                { status: 403 }
+            );
+        }
+
+        const repository = getLeadRepository();
+        const pipeline = getLeadPipelineService();
+        const succeeded: string[] = [];
+        const failed: { id: string; code: string; error: string }[] = [];
+
+        for (const id of new Set(action.ids)) {
+            try {
+                const lead = await repository.findById(id);
+                if (!lead || !canSeeLead(user, lead)) {
+                    failed.push({ id, code: 'NOT_FOUND', error: 'Lead not found' });
+                    continue;
+                }
+
+                if (action.action === 'assign') {
+                    await pipeline.update(id, { assignedTo: action.assignedTo }, user.userId);
+                } else if (action.action === 'status') {
+                    if (lead.status !== action.status) {
+                        await pipeline.update(id, { status: action.status, lostReason: action.lostReason }, user.userId);
+                    }
+                } else {
+                    await repository.delete(id);
+                }
+                succeeded.push(id);
+
+            } catch (error) {
+                if (error instanceof LeadTransitionError) {
+                    failed.push({ id, code: 'INVALID_TRANSITION', error: error.message });
+                } else if (error instanceof LeadPipelineError) {
+                    failed.push({ id, code: error.code, error: error.message });
+                } else {
+                    console.error(`[API] Lead bulk ${action.action} failed for ${id}:`, error);
+                    failed.push({ id, code: 'FAILED', error: 'Failed to update lead' });
+                }
+            }
+        }
+
+        console.log(`[LEADS] Bulk ${action.action} by ${user.userId}: ${succeeded.length} done, ${failed.length} failed`);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: { action: action.action, succeeded, failed },
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead bulk action error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to update leads' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,108 @@
+/**
+ * Lead Export API Route
+ * =====================
+ * GET /api/leads/export - the filtered lead list as CSV (analytics:export)
+ *
+ * Takes the same filters as GET /api/leads (see server/leads/filters) and
+ * streams the file one page of leads at a time, with the UTM fields forms
+ * record for campaign attribution.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { leadFiltersFromQuery } from '@/server/leads/filters';
+import { resolveUserNames } from '@/server/leads/views';
+import { Lead } from '@/core/entities/Lead';
+
+const PAGE_SIZE = 100;
+
+const UTM_FIELDS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+const COLUMNS = [
+    'id', 'created_at', 'name', 'email', 'phone', 'type', 'status', 'priority', 'score',
+    'source', ...UTM_FIELDS, 'property_id', 'property_title', 'assigned_to', 'assignee',
+    'contacted_at', 'won_at', 'lost_at', 'lost_reason', 'subject', 'message',
+];
+
+/**
+ * Quote when needed, and defuse values a spreadsheet would run as a formula
+ */
+function csvCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvRow = (values: unknown[]) => values.map(csvCell).join(',') + '\r\n';
+
+function toCsvRow(lead: Lead, assignees: Map<string, string>): string {
+    // Forms send UTM fields as utm_source or utmSource
+    const utm = UTM_FIELDS.map(field =>
+        lead.metadata[field] ?? lead.metadata[field.replace(/_(\w)/, (_, c: string) => c.toUpperCase())]
+    );
+
+    return csvRow([
+        lead.id, lead.createdAt, lead.name, lead.email, lead.phone, lead.type, lead.status, lead.priority, lead.score,
+        lead.source, ...utm, lead.propertyId, lead.propertyTitle, lead.assignedTo,
+        lead.assignedTo ? assignees.get(lead.assignedTo) : undefined,
+        lead.contactedAt, lead.wonAt, lead.lostAt, lead.lostReason, lead.subject, lead.message,
+    ]);
+}
+
+// ============================================
+// GET /api/leads/export
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'analytics:export');
+    if (user instanceof NextResponse) return user;
+
+    const filters = leadFiltersFromQuery(new URL(request.url).searchParams, user);
+    const repository = getLeadRepository();
+    const encoder = new TextEncoder();
+    let page = 1;
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            // The byte order mark makes Excel read the file as UTF-8 (Arabic names)
+            controller.enqueue(encoder.encode('\uFEFF' + csvRow(COLUMNS)));
+        },
+
+        async pull(controller) {
+            try {
+                const result = await repository.findAll({ ...filters, page, limit: PAGE_SIZE });
+                const assignees = await resolveUserNames(result.data.map(lead => lead.assignedTo));
+
+                controller.enqueue(encoder.encode(result.data.map(lead => toCsvRow(lead, assignees)).join('')));
+
+                if (result.pagination.hasNext) {
+                    page++;
+                } else {
+                    controller.close();
+                }
+            } catch (error) {
+                console.error('[API] Lead export error:', error);
+                controller.error(error);
+            }
+        },
+    });
+
+    console.log(`[LEADS] Export by ${user.userId}`);
+
+    const filename = `leads-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return applySecurityHeaders(new NextResponse(stream, {
+        headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Cache-Control': 'no-store',
+        },
+    }));
+}
+
+export const dynamic = 'force-dynamic';
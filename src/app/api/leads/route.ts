@@ -5,88 +5,36 @@
  * CRITICAL SECURITY: Rate limiting, CSRF protection, bot detection
  * 
  * Endpoints:
- *   POST /api/leads - Submit new lead (public, rate-limited)
- *   GET  /api/leads - List leads (admin only)
+ *   POST  /api/leads - Submit new lead (public, rate-limited), scored and routed to an agent;
+ *                      a repeat submission joins the person's open lead instead
+ *   GET   /api/leads - List leads, paginated and filtered (leads:read; own assigned leads without leads:read_all)
+ *   PATCH /api/leads - Move a lead through the pipeline, assign it (leads:assign) or annotate it (leads:manage)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 import { applySecurityHeaders } from '@/server/security/headers';
 import { sanitizeInput, sanitizeEmail, sanitizePhone, sanitizeObject } from '@/lib/sanitize';
 import { checkCSRF } from '@/lib/security/csrf'; // CSRF Protection
 import { rateLimit } from '@/lib/security/rate-limit'; // RATE LIMITING
-
-// ============================================
-// TYPE DEFINITIONS
-// ============================================
-
-interface LeadRow {
-    id: string;
-    name: string;
-    first_name: string;
-    last_name: string;
-    email: string;
-    phone: string | null;
-    subject: string | null;
-    message: string;
-    type: string;
-    status: string;
-    priority: string;
-    preferred_contact: string;
-    property_id: string | null;
-    property_title: string | null;
-    property_slug: string | null;
-    source: string;
-    ip_address: string;
-    user_agent: string;
-    metadata: Record<string, unknown>;
-    notes: string | null;
-    created_at: string;
-    contacted_at: string | null;
-    properties?: {
-        title: string;
-        slug: string;
-    };
-}
-
-// ============================================
-// SUPABASE CLIENT (With Fallback)
-// ============================================
-
-import { mockStore } from '@/lib/mock-store';
-
-let supabaseInstance: ReturnType<typeof createClient> | null = null;
-let isMockMode = false;
-
-function getSupabase() {
-    if (!supabaseInstance) {
-        const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-        // VULN-010 FIX: Do NOT fallback to anon key — leads API needs service role for write operations
-        const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-        // Check for placeholder credentials
-        const isPlaceholder = !url || !key || url.includes('your-project-id');
-
-        if (isPlaceholder) {
-            // Only mock if explicit credentials are bad, otherwise we risk partial failures
-            console.warn('⚠️ [API/Leads] Supabase credentials missing/invalid. Activating MOCK SIMULATION MODE.');
-            isMockMode = true;
-            return null;
-        }
-
-        try {
-            supabaseInstance = createClient(url!, key!, {
-                auth: { persistSession: false }
-            });
-        } catch (e) {
-            console.warn('⚠️ [API/Leads] Client init failed. Fallback active.');
-            isMockMode = true;
-            return null;
-        }
-    }
-    return supabaseInstance;
-}
+import { requirePermission } from '@/server/auth/permissions';
+import { hasPermission } from '@/server/auth/jwt';
+import { getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { getLeadPipelineService } from '@/server/leads/pipeline';
+import { getLeadRoutingService } from '@/server/leads/routing';
+import { getLeadDeduplicationService } from '@/server/leads/deduplication';
+import { canSeeLead, toLeadView } from '@/server/leads/views';
+import { leadFiltersFromQuery } from '@/server/leads/filters';
+import { LeadPipelineError } from '@/application/leads/LeadPipelineService';
+import {
+    LEAD_PRIORITIES,
+    LEAD_STATUSES,
+    LEAD_TRANSITIONS,
+    LEAD_TYPES,
+    Lead,
+    LeadTransitionError,
+} from '@/core/entities/Lead';
+import { queueEmail } from '@/server/email/outbox';
 
 // ============================================
 // VALIDATION SCHEMA
@@ -105,18 +53,7 @@ const LeadSchema = z.object({
     message: z.string().min(5).max(5000),
 
     // Lead type
-    type: z.enum([
-        'contact',
-        'property_inquiry',
-        'sell_private',
-        'sell_professional',
-        'sell_developer',
-        'off_market',
-        'auction',
-        'newsletter',
-        'viewing_request',
-        'other'
-    ]).default('contact'),
+    type: z.enum(LEAD_TYPES).default('contact'),
 
     // Property reference
     propertyId: z.string().uuid().optional(),
@@ -131,6 +68,18 @@ const LeadSchema = z.object({
 
     // Additional data
     metadata: z.record(z.string(), z.unknown()).optional(),
+
+    // Language of the acknowledgement email
+    locale: z.enum(['en', 'ar']).default('en'),
+});
+
+const LeadUpdateSchema = z.object({
+    id: z.string().min(1).max(100),
+    status: z.enum(LEAD_STATUSES).optional(),
+    lostReason: z.string().max(500).optional(),
+    priority: z.enum(LEAD_PRIORITIES).optional(),
+    notes: z.string().max(2000).optional(),
+    assignedTo: z.string().min(1).max(100).nullable().optional(),
 });
 
 // ============================================
@@ -170,11 +119,7 @@ export async function POST(request: NextRequest) {
     // ============================================
     // CRITICAL SECURITY: RATE LIMITING (NEW)
     // ============================================
-    const rateLimitResult = await rateLimit(request, {
-        maxRequests: 5,        // Max 5 submissions
-        windowMs: 3600000,     // Per 1 hour
-        message: 'Too many form submissions. Please try again later.',
-    });
+    const rateLimitResult = await rateLimit(request, 'leads');
 
     if (!rateLimitResult.allowed) {
         console.warn(`[API] Rate limit exceeded for IP: ${ip}`);
@@ -271,77 +216,99 @@ export async function POST(request: NextRequest) {
             lastName = nameParts.slice(1).join(' ') || '';
         }
 
-        // ============================================
-        // INSERT INTO DATABASE
-        // ============================================
+        const submission = {
+            name: sanitizeInput(fullName, { maxLength: 200 }),
+            email: cleanEmail,
+            phone: cleanPhone || undefined,
+            subject: data.subject ? sanitizeInput(data.subject, { maxLength: 255 }) : undefined,
+            message: sanitizeInput(data.message, { maxLength: 5000 }),
+            type: data.type, // Enum validated above
+            propertyId: data.propertyId,
+            propertyTitle: data.propertyTitle ? sanitizeInput(data.propertyTitle, { maxLength: 255 }) : undefined,
+            propertySlug: data.propertySlug ? sanitizeInput(data.propertySlug, { maxLength: 255 }) : undefined,
+            source: data.source ? sanitizeInput(data.source, { maxLength: 100 }) : 'website',
+        };
 
         // ============================================
-        // INSERT INTO DATABASE (OR MOCK STORE)
+        // DUPLICATES: JOIN THE PERSON'S OPEN LEAD
         // ============================================
 
-        const supabase = getSupabase();
-        let createdLead: { id: string; created_at: string } | null = null;
-
-        if (supabase) {
-            const leadRow = {
-                name: sanitizeInput(fullName, { maxLength: 200 }),
-                first_name: sanitizeInput(firstName, { maxLength: 100 }),
-                last_name: sanitizeInput(lastName, { maxLength: 100 }),
-                email: cleanEmail,
-                phone: cleanPhone,
-                subject: data.subject ? sanitizeInput(data.subject, { maxLength: 255 }) : null,
-                message: sanitizeInput(data.message, { maxLength: 5000 }),
-                type: data.type, // Enum validated above
-                property_id: data.propertyId || null,
-                property_title: data.propertyTitle ? sanitizeInput(data.propertyTitle, { maxLength: 255 }) : null,
-                property_slug: data.propertySlug ? sanitizeInput(data.propertySlug, { maxLength: 255 }) : null,
-                preferred_contact: data.preferredContact,
-                source: data.source ? sanitizeInput(data.source, { maxLength: 100 }) : 'website',
-                ip_address: ip,
-                user_agent: userAgent.substring(0, 500),
+        const deduplication = getLeadDeduplicationService();
+        const existingLead = await deduplication.findExisting(submission);
+
+        let lead: Lead;
+        if (existingLead) {
+            lead = await deduplication.attachSubmission(
+                existingLead,
+                submission,
+                data.metadata ? sanitizeObject(data.metadata as Record<string, unknown>) : {}
+            );
+
+            // A new request can make the lead more valuable, e.g. a viewing request after a question
+            try {
+                lead = await getLeadRoutingService().rescore({
+                    ...lead,
+                    type: submission.type,
+                    source: submission.source,
+                    message: submission.message,
+                });
+            } catch (error) {
+                console.error(`[LEADS] Failed to rescore lead ${lead.id}:`, error);
+            }
+
+            console.log(`[LEAD] Repeat ${data.type} submission from ${cleanEmail} added to lead ${lead.id}`);
+        } else {
+            // ============================================
+            // INSERT INTO DATABASE (OR IN-MEMORY STORE)
+            // ============================================
+
+            lead = await getLeadRepository().create({
+                ...submission,
+                firstName: sanitizeInput(firstName, { maxLength: 100 }),
+                lastName: sanitizeInput(lastName, { maxLength: 100 }),
+                preferredContact: data.preferredContact,
+                ipAddress: ip,
+                userAgent: userAgent.substring(0, 500),
                 metadata: data.metadata ? sanitizeObject(data.metadata as Record<string, unknown>) : {},
                 status: 'new',
                 priority: 'normal'
-            };
+            });
 
-            const { data: lead, error } = await supabase
-                .from('leads')
-                .insert(leadRow as never) // Type assertion for ungenerated schema
-                .select('id, created_at')
-                .single();
+            // ============================================
+            // SCORE AND ROUTE
+            // ============================================
 
-            if (error) {
-                console.error('[API] Lead insertion error:', error);
-                throw new Error(error.message);
+            // The lead is saved; if routing fails it waits unassigned in the admin
+            try {
+                await getLeadRoutingService().process(lead);
+            } catch (error) {
+                console.error(`[LEADS] Failed to score and route lead ${lead.id}:`, error);
             }
 
-            // Cast the result
-            createdLead = lead as { id: string; created_at: string } | null;
-        } else {
-            // MOCK FALLBACK
-            const newLead = mockStore.addLead({
-                name: fullName,
-                email: cleanEmail,
-                phone: cleanPhone || undefined,
-                message: data.message,
-                type: data.type,
-                property_slug: data.propertySlug
-            });
-            createdLead = { id: newLead.id, created_at: newLead.created_at };
+            console.log(`[LEAD] New ${data.type} lead from ${cleanEmail}`);
         }
 
         // ============================================
         // SUCCESS RESPONSE
         // ============================================
 
-        console.log(`[LEAD] New ${data.type} lead from ${cleanEmail}`);
+        // Newsletter sign-ups are not requests we reply to
+        if (data.type !== 'newsletter') {
+            await queueEmail({
+                type: 'lead_acknowledgement',
+                to: cleanEmail,
+                locale: data.locale,
+                payload: { name: firstName },
+                dedupeKey: `lead_acknowledgement:${lead.id}:${lead.metadata.submissionCount ?? 1}`,
+            });
+        }
 
         const response = NextResponse.json({
             success: true,
             message: 'Thank you! We will contact you shortly.',
             data: {
-                id: createdLead?.id,
-                createdAt: createdLead?.created_at
+                id: lead.id,
+                createdAt: existingLead ? new Date() : lead.createdAt
             },
             meta: {
                 duration: Date.now() - startTime
@@ -361,148 +328,40 @@ export async function POST(request: NextRequest) {
 }
 
 // ============================================
-// GET /api/leads - List Leads (Admin Only)
+// GET /api/leads - List Leads (leads:read)
 // ============================================
 
 export async function GET(request: NextRequest) {
-    // ============================================
-    // AUTHENTICATION CHECK
-    // ============================================
-
-    // SECURITY: Use the standard auth cookie (matches login endpoint)
-    const adminToken = request.cookies.get('modon_auth_token');
-    if (!adminToken?.value) {
-        return NextResponse.json({
-            success: false,
-            error: 'Admin authentication required'
-        }, { status: 401 });
-    }
-
-    // SECURITY (VULN-003 FIX): Actually verify the JWT signature and check admin role
-    try {
-        const { verifyToken } = await import('@/server/auth/jwt');
-        const tokenPayload = await verifyToken(adminToken.value);
-        if (!tokenPayload || tokenPayload.role !== 'admin') {
-            return NextResponse.json({
-                success: false,
-                error: 'Insufficient permissions. Admin role required.'
-            }, { status: 403 });
-        }
-    } catch (_verifyError) {
-        return NextResponse.json({
-            success: false,
-            error: 'Invalid or expired authentication token'
-        }, { status: 401 });
-    }
+    // SECURITY (VULN-003 FIX): verified token with the leads:read permission
+    const auth = await requirePermission(request, 'leads:read');
+    if (auth instanceof NextResponse) return auth;
 
     try {
         const { searchParams } = new URL(request.url);
 
         // Parse query parameters
-        const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
-        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
-        const status = searchParams.get('status');
-        const type = searchParams.get('type');
-        const search = searchParams.get('q');
-
-        const offset = (page - 1) * limit;
-        const supabase = getSupabase();
-
-        // ============================================
-        // BUILD QUERY
-        // ============================================
-
-        // ============================================
-        // EXECUTE QUERY (WITH MOCK FALLBACK)
-        // ============================================
-
-        let leads: LeadRow[] = [];
-        let count = 0;
-
-        if (supabase) {
-            let query = supabase
-                .from('leads')
-                .select('*, properties(title, slug)', { count: 'exact' })
-                .order('created_at', { ascending: false })
-                .range(offset, offset + limit - 1);
-
-            if (status) query = query.eq('status', sanitizeInput(status, { maxLength: 50 }));
-            if (type) query = query.eq('type', sanitizeInput(type, { maxLength: 50 }));
-            if (search) {
-                const searchTerm = sanitizeInput(search, { maxLength: 100 });
-                query = query.or(`name.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%,message.ilike.%${searchTerm}%`);
-            }
-
-            const { data, error, count: total } = await query;
-
-            if (error) {
-                console.error('[API] Leads query error:', error);
-                throw new Error(error.message);
-            }
-            leads = (data || []) as LeadRow[];
-            count = total || 0;
-        } else {
-            // MOCK MODE
-            const allLeads = mockStore.getLeads();
-            let filtered = allLeads;
-
-            if (status) filtered = filtered.filter(l => l.status === status);
-            if (type) filtered = filtered.filter(l => l.type === type);
-            if (search) {
-                const lowSearch = search.toLowerCase();
-                filtered = filtered.filter(l =>
-                    l.name.toLowerCase().includes(lowSearch) ||
-                    l.email.toLowerCase().includes(lowSearch) ||
-                    l.message.toLowerCase().includes(lowSearch)
-                );
-            }
-
-            count = filtered.length;
-            // Manual pagination
-            const start = offset;
-            const end = offset + limit;
-            leads = filtered.slice(start, end) as unknown as LeadRow[];
-        }
-
-        // ============================================
-        // FORMAT RESPONSE
-        // ============================================
-
-        // Cast to LeadRow[] for type safety
-        const formattedLeads = ((leads || []) as LeadRow[]).map(lead => ({
-            id: lead.id,
-            name: lead.name,
-            firstName: lead.first_name,
-            lastName: lead.last_name,
-            email: lead.email,
-            phone: lead.phone,
-            subject: lead.subject,
-            message: lead.message,
-            type: lead.type,
-            status: lead.status,
-            priority: lead.priority,
-            preferredContact: lead.preferred_contact,
-            property: lead.properties ? {
-                title: lead.properties.title,
-                slug: lead.properties.slug
-            } : null,
-            source: lead.source,
-            ipAddress: lead.ip_address,
-            metadata: lead.metadata,
-            createdAt: lead.created_at,
-            contactedAt: lead.contacted_at
-        }));
-
-        return NextResponse.json({
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20));
+        const filters = leadFiltersFromQuery(searchParams, auth);
+
+        const repository = getLeadRepository();
+        const [result, byStatus] = await Promise.all([
+            repository.findAll({ ...filters, page, limit }),
+            // Counts for the status tabs, under every other filter
+            repository.countByStatus(filters),
+        ]);
+
+        return applySecurityHeaders(NextResponse.json({
             success: true,
-            data: formattedLeads,
+            data: result.data.map(toLeadView),
+            summary: { byStatus },
             pagination: {
                 page,
                 limit,
-                total: count || 0,
-                totalPages: Math.ceil((count || 0) / limit)
+                total: result.pagination.total,
+                totalPages: result.pagination.totalPages
             }
-        });
+        }));
 
     } catch (error) {
         console.error('[API] Leads GET error:', error);
@@ -515,101 +374,78 @@ export async function GET(request: NextRequest) {
 }
 
 // ============================================
-// PATCH /api/leads - Update Lead Status
+// PATCH /api/leads - Update Lead (leads:manage)
 // ============================================
 
 export async function PATCH(request: NextRequest) {
-    // Authentication check
-    // SECURITY: Use the standard auth cookie (matches login endpoint)
-    const adminToken = request.cookies.get('modon_auth_token');
-    if (!adminToken?.value) {
-        return NextResponse.json({
-            success: false,
-            error: 'Admin authentication required'
-        }, { status: 401 });
-    }
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
 
-    // SECURITY (VULN-003 FIX): Actually verify the JWT signature and check admin role
-    try {
-        const { verifyToken } = await import('@/server/auth/jwt');
-        const tokenPayload = await verifyToken(adminToken.value);
-        if (!tokenPayload || tokenPayload.role !== 'admin') {
-            return NextResponse.json({
-                success: false,
-                error: 'Insufficient permissions. Admin role required.'
-            }, { status: 403 });
-        }
-    } catch (_verifyError) {
-        return NextResponse.json({
-            success: false,
-            error: 'Invalid or expired authentication token'
-        }, { status: 401 });
-    }
+    // SECURITY (VULN-003 FIX): verified token with the leads:manage permission
+    const auth = await requirePermission(request, 'leads:manage');
+    if (auth instanceof NextResponse) return auth;
 
     try {
-        const body = await request.json();
-        const { id, status, priority, notes } = body;
+        const validation = LeadUpdateSchema.safeParse(await request.json());
 
-        if (!id) {
+        if (!validation.success) {
             return NextResponse.json({
                 success: false,
-                error: 'Lead ID is required'
+                error: 'Validation failed',
+                details: validation.error.issues.map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message
+                }))
             }, { status: 400 });
         }
 
-        const supabase = getSupabase();
-        const updates: Record<string, unknown> = {};
+        const { id, status, lostReason, priority, notes, assignedTo } = validation.data;
 
-        if (status) {
-            updates.status = sanitizeInput(status, { maxLength: 50 });
-            if (status === 'contacted') {
-                updates.contacted_at = new Date().toISOString();
-            }
+        if (assignedTo !== undefined && !hasPermission(auth.permissions, 'leads:assign')) {
+            return NextResponse.json({
+                success: false,
+                error: 'Insufficient permissions to assign leads'
+            }, { status: 403 });
         }
 
-        if (priority) {
-            updates.priority = sanitizeInput(priority, { maxLength: 20 });
-        }
+        const lead = await getLeadRepository().findById(id);
 
-        if (notes !== undefined) {
-            updates.notes = sanitizeInput(notes, { maxLength: 2000 });
+        if (!lead || !canSeeLead(auth, lead)) {
+            return NextResponse.json({ success: false, error: 'Lead not found' }, { status: 404 });
         }
 
-        if (supabase) {
-            const { data, error } = await supabase
-                .from('leads')
-                .update(updates as never)
-                .eq('id', id)
-                .select()
-                .single();
+        const updated = await getLeadPipelineService().update(id, {
+            status,
+            lostReason: lostReason ? sanitizeInput(lostReason, { maxLength: 500 }) : undefined,
+            priority,
+            notes: notes !== undefined ? sanitizeInput(notes, { maxLength: 2000 }) : undefined,
+            assignedTo,
+        }, auth.userId);
 
-            if (error) throw new Error(error.message);
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            message: 'Lead updated successfully',
+            data: toLeadView(updated)
+        }));
 
+    } catch (error) {
+        if (error instanceof LeadTransitionError) {
             return NextResponse.json({
-                success: true,
-                message: 'Lead updated successfully',
-                data
-            });
-        } else {
-            // MOCK MODE
-            const storeLeads = mockStore.getLeads();
-            const leadIndex = storeLeads.findIndex(l => l.id === id);
-
-            if (leadIndex === -1) {
-                return NextResponse.json({ success: false, error: 'Lead not found' }, { status: 404 });
-            }
-
-            const updatedLead = { ...storeLeads[leadIndex], ...updates };
-            storeLeads[leadIndex] = updatedLead as any;
+                success: false,
+                error: error.message,
+                code: 'INVALID_TRANSITION',
+                allowed: LEAD_TRANSITIONS[error.from]
+            }, { status: 409 });
+        }
 
+        if (error instanceof LeadPipelineError) {
             return NextResponse.json({
-                success: true,
-                message: 'Lead updated successfully (Mock)',
-                data: updatedLead
-            });
+                success: false,
+                error: error.message,
+                code: error.code
+            }, { status: error.code === 'NOT_FOUND' ? 404 : 400 });
         }
 
-    } catch (error) {
         console.error('[API] Lead update error:', error);
 
         return NextResponse.json({
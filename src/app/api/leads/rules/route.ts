@@ -0,0 +1,153 @@
+/**
+ * Lead Scoring & Routing Rules API Route
+ * ======================================
+ * GET /api/leads/rules - how new leads are scored and assigned (leads:assign)
+ * PUT /api/leads/rules - replace the rules (leads:assign)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/server/auth/permissions';
+import { checkCSRF } from '@/lib/security/csrf';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getLeadRoutingService } from '@/server/leads/routing';
+import { LEAD_TYPES } from '@/core/entities/Lead';
+import { LEAD_ROUTING_STRATEGIES } from '@/core/entities/LeadRules';
+import { currencies, SupportedCurrency } from '@/lib/currency';
+
+const Points = z.number().int().min(-100).max(100);
+const Label = z.string().trim().min(1).max(100);
+
+const RoutingRuleSchema = z.object({
+    id: z.string().trim().min(1).max(50),
+    name: Label,
+    when: z.object({
+        types: z.array(z.enum(LEAD_TYPES)).max(LEAD_TYPES.length).optional(),
+        cities: z.array(Label).max(50).optional(),
+        minScore: z.number().int().min(0).max(1000).optional(),
+    }),
+    agents: z.object({
+        sameCity: z.boolean().optional(),
+        specializations: z.array(Label).max(50).optional(),
+    }),
+    strategy: z.enum(LEAD_ROUTING_STRATEGIES),
+});
+
+const LeadRulesSchema = z.object({
+    scoring: z.object({
+        typePoints: z.record(z.enum(LEAD_TYPES), Points),
+        priceBands: z.array(z.object({
+            min: z.number().min(0),
+            points: Points,
+        })).max(20),
+        priceCurrency: z.enum(Object.keys(currencies) as [SupportedCurrency, ...SupportedCurrency[]]),
+        contactPoints: z.object({
+            phone: Points,
+            fullName: Points,
+            detailedMessage: Points,
+        }),
+        detailedMessageLength: z.number().int().min(0).max(5000),
+        // Sources are matched in lower case
+        sourcePoints: z.record(z.string().min(1).max(100), Points).transform(points =>
+            Object.fromEntries(Object.entries(points).map(([source, value]) => [source.trim().toLowerCase(), value]))
+        ),
+        priorityThresholds: z.object({
+            normal: z.number().int().min(0),
+            high: z.number().int().min(0),
+            urgent: z.number().int().min(0),
+        }).refine(t => t.normal <= t.high && t.high <= t.urgent, {
+            message: 'Thresholds must rise from normal to urgent',
+        }),
+    }),
+    routing: z.object({
+        enabled: z.boolean(),
+        rules: z.array(RoutingRuleSchema).max(50).refine(
+            rules => new Set(rules.map(r => r.id)).size === rules.length,
+            { message: 'Rule IDs must be unique' }
+        ),
+        fallback: z.union([z.enum(LEAD_ROUTING_STRATEGIES), z.literal('none')]),
+        excludeTypes: z.array(z.enum(LEAD_TYPES)).max(LEAD_TYPES.length),
+    }),
+});
+
+// ============================================
+// GET /api/leads/rules
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'leads:assign');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const stored = await getLeadRoutingService().getRules();
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: {
+                rules: stored.rules,
+                // Defaults apply until an admin saves the rules
+                isDefault: !stored.updatedAt,
+                updatedAt: stored.updatedAt ?? null,
+                updatedBy: stored.updatedBy ?? null,
+            },
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead rules GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to load lead rules' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// PUT /api/leads/rules
+// ============================================
+
+export async function PUT(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'leads:assign');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const validation = LeadRulesSchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                error: 'Validation failed',
+                details: validation.error.issues.map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message
+                }))
+            }, { status: 400 });
+        }
+
+        const stored = await getLeadRoutingService().saveRules(validation.data, user.userId);
+
+        console.log(`[LEADS] Scoring and routing rules updated by ${user.userId}`);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: {
+                rules: stored.rules,
+                isDefault: false,
+                updatedAt: stored.updatedAt,
+                updatedBy: stored.updatedBy ?? null,
+            },
+        }));
+
+    } catch (error) {
+        console.error('[API] Lead rules PUT error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to save lead rules' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,53 @@
+/**
+ * Notification Outbox API Route
+ * ==============================
+ * GET /api/notifications/outbox - Deliver due emails (scheduled job)
+ *
+ * Called by the Vercel cron (see vercel.json), which authenticates with
+ * "Authorization: Bearer <CRON_SECRET>". Picks up emails whose immediate
+ * delivery failed and retries them with backoff.
+ *
+ * Query params:
+ *   limit - Emails to deliver in this run (default 50, max 200)
+ */
+
+import * as crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getEmailOutbox } from '@/server/email/outbox';
+
+function isAuthorizedScheduler(request: NextRequest): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        // Lets the job be triggered by hand while developing
+        return process.env.NODE_ENV === 'development';
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const received = Buffer.from(request.headers.get('authorization') || '');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+export async function GET(request: NextRequest) {
+    if (!isAuthorizedScheduler(request)) {
+        return applySecurityHeaders(
+            NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+        );
+    }
+
+    try {
+        const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1), 200);
+        const result = await getEmailOutbox().deliverDue(limit);
+
+        return applySecurityHeaders(NextResponse.json({ success: true, data: result }));
+
+    } catch (error) {
+        console.error('[API] Outbox delivery error:', error);
+
+        return applySecurityHeaders(
+            NextResponse.json({ success: false, error: 'Failed to deliver notifications' }, { status: 500 })
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,82 @@
+/**
+ * Role Permission Set API Route
+ * =============================
+ * PUT /api/permissions/roles/[role] - replace a role's permission set (permissions:manage)
+ *
+ * super_admin always holds every permission and cannot be edited. Signed-in
+ * users pick up the change with their next token refresh.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { USER_ROLES } from '@/server/auth/jwt';
+import { getPermissionService, requirePermission } from '@/server/auth/permissions';
+import { PermissionError } from '@/application/auth/PermissionService';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+
+const RoleSchema = z.enum(USER_ROLES);
+
+const RolePermissionsSchema = z.object({
+    permissions: z.array(z.string().min(1).max(100)).max(100),
+});
+
+interface RouteParams {
+    params: Promise<{ role: string }>;
+}
+
+// ============================================
+// PUT /api/permissions/roles/[role]
+// ============================================
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'permissions:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const role = RoleSchema.safeParse((await params).role);
+        if (!role.success) {
+            return NextResponse.json(
+                { success: false, error: 'Unknown role' },
+                { status: 404 }
+            );
+        }
+
+        const validation = RolePermissionsSchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid permissions', details: validation.error.flatten().fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const updated = await getPermissionService()
+            .setRolePermissions(role.data, validation.data.permissions, user.userId);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            message: 'Role permissions updated',
+            data: updated,
+        }));
+
+    } catch (error) {
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { success: false, error: error.message, code: error.code },
+                { status: error.code === 'PROTECTED_ROLE' ? 403 : 400 }
+            );
+        }
+
+        console.error('[API] Role permissions PUT error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to update role permissions' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,38 @@
+/**
+ * Role Permissions API Route
+ * ==========================
+ * GET /api/permissions/roles - permission set of every role, and the permission catalog (permissions:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PERMISSIONS } from '@/server/auth/jwt';
+import { getPermissionService, requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+
+// ============================================
+// GET /api/permissions/roles
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'permissions:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const roles = await getPermissionService().listRoles();
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: { roles, permissions: PERMISSIONS },
+        }));
+
+    } catch (error) {
+        console.error('[API] Role permissions GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to load role permissions' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
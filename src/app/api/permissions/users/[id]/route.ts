@@ -0,0 +1,124 @@
+/**
+ * User Permission Overrides API Route
+ * ===================================
+ * GET /api/permissions/users/[id] - a user's grants and revocations, and the effective result (permissions:manage)
+ * PUT /api/permissions/users/[id] - replace a user's grants and revocations (permissions:manage)
+ *
+ * Overrides apply on top of the user's role set. Nobody can change their own.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPermissionService, requirePermission } from '@/server/auth/permissions';
+import { PermissionError } from '@/application/auth/PermissionService';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+
+const OverridesSchema = z.object({
+    overrides: z.array(z.object({
+        permission: z.string().min(1).max(100),
+        effect: z.enum(['grant', 'revoke']),
+    })).max(100),
+});
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const userNotFound = () => NextResponse.json(
+    { success: false, error: 'User not found' },
+    { status: 404 }
+);
+
+// ============================================
+// GET /api/permissions/users/[id]
+// ============================================
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    const user = await requirePermission(request, 'permissions:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const target = await userRepository.findById((await params).id);
+        if (!target) return userNotFound();
+
+        const service = getPermissionService();
+        const [overrides, permissions] = await Promise.all([
+            service.getUserOverrides(target.id),
+            service.resolve(target),
+        ]);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: { userId: target.id, email: target.email, role: target.role, overrides, permissions },
+        }));
+
+    } catch (error) {
+        console.error('[API] User permissions GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to load user permissions' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// PUT /api/permissions/users/[id]
+// ============================================
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'permissions:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const target = await userRepository.findById((await params).id);
+        if (!target) return userNotFound();
+
+        if (target.id === user.userId) {
+            return NextResponse.json(
+                { success: false, error: 'You cannot change your own permissions' },
+                { status: 403 }
+            );
+        }
+
+        const validation = OverridesSchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid overrides', details: validation.error.flatten().fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const service = getPermissionService();
+        const overrides = await service.setUserOverrides(target.id, validation.data.overrides, user.userId);
+        const permissions = await service.resolve(target);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            message: 'User permissions updated',
+            data: { userId: target.id, email: target.email, role: target.role, overrides, permissions },
+        }));
+
+    } catch (error) {
+        if (error instanceof PermissionError) {
+            return NextResponse.json(
+                { success: false, error: error.message, code: error.code },
+                { status: 400 }
+            );
+        }
+
+        console.error('[API] User permissions PUT error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to update user permissions' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -6,9 +6,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { propertyRepository } from '@/dal/repositories/SupabasePropertyRepository';
+import { PublishPropertyUseCase } from '@/application/properties/PublishPropertyUseCase';
+import { NewListingAlertMatcher } from '@/application/alerts/NewListingAlertMatcher';
+import { scheduleEmailDelivery } from '@/server/email/outbox';
+import {
+    getNotificationRepository,
+    getPropertyRepository,
+    getSearchHistoryRepository,
+} from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
 import { applySecurityHeaders } from '@/server/security/headers';
-import { verifyToken, hasPermission } from '@/server/auth/jwt';
+import { hasPermission } from '@/server/auth/jwt';
+import { requirePermission } from '@/server/auth/permissions';
 import { sanitizeInput, sanitizeObject } from '@/lib/sanitize';
 import { checkCSRF } from '@/lib/security/csrf';
 
@@ -23,6 +32,7 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
     try {
         const { slug } = await params;
+        const propertyRepository = getPropertyRepository();
 
         // Detect if the param is a UUID or a slug
         const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug);
@@ -41,7 +51,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         }
 
         // Increment view count (fire and forget)
-        propertyRepository.incrementViews(property.id);
+        propertyRepository.incrementViews?.(property.id);
 
         const response = NextResponse.json({
             success: true,
@@ -73,38 +83,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         const csrfError = checkCSRF(request);
         if (csrfError) return csrfError;
 
-        // CRITICAL: Verify authentication (VULN-009 FIX: corrected cookie name)
-        const accessToken = request.cookies.get('modon_auth_token')?.value;
-
-        if (!accessToken) {
-            return NextResponse.json(
-                { success: false, error: 'Authentication required' },
-                { status: 401 }
-            );
-        }
-
-        // Verify token and extract user info
-        const payload = await verifyToken(accessToken);
-
-        if (!payload) {
-            return NextResponse.json(
-                { success: false, error: 'Invalid or expired token' },
-                { status: 401 }
-            );
-        }
-
-        // Check if user has permission to update properties
-        const canUpdate = hasPermission(payload.permissions, 'properties:update');
-
-        if (!canUpdate) {
-            return NextResponse.json(
-                { success: false, error: 'Insufficient permissions' },
-                { status: 403 }
-            );
-        }
+        // CRITICAL: Verify authentication and the update permission (VULN-009 FIX)
+        const payload = await requirePermission(request, 'properties:update');
+        if (payload instanceof NextResponse) return payload;
 
         const { slug } = await params;
         const rawBody = await request.json();
+        const propertyRepository = getPropertyRepository();
 
         // Detect if the param is a UUID or a slug
         const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug);
@@ -119,11 +104,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
             );
         }
 
-        // CRITICAL: Authorization - check ownership or admin role
-        const isAdmin = payload.role === 'admin' || payload.role === 'super_admin';
+        // CRITICAL: Authorization - the owner, or anyone who manages all listings
+        const canManageAll = hasPermission(payload.permissions, 'properties:manage_all');
         const isOwner = existing.agentId === payload.userId;
 
-        if (!isAdmin && !isOwner) {
+        if (!canManageAll && !isOwner) {
             return NextResponse.json(
                 {
                     success: false,
@@ -148,6 +133,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
         console.info(`[API] Property updated: ${updated.slug} by ${payload.email}`);
 
+        // Alert saved searches when this update takes the listing live
+        const publisher = new PublishPropertyUseCase(
+            propertyRepository,
+            new NewListingAlertMatcher(getSearchHistoryRepository(), userRepository, getNotificationRepository())
+        );
+        await publisher.onStatusChange(updated, existing.status);
+        scheduleEmailDelivery();
+
         const response = NextResponse.json({
             success: true,
             data: updated,
@@ -180,37 +173,12 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         const csrfError = checkCSRF(request);
         if (csrfError) return csrfError;
 
-        // CRITICAL: Verify authentication (VULN-009 FIX: corrected cookie name)
-        const accessToken = request.cookies.get('modon_auth_token')?.value;
-
-        if (!accessToken) {
-            return NextResponse.json(
-                { success: false, error: 'Authentication required' },
-                { status: 401 }
-            );
-        }
-
-        // Verify token and extract user info
-        const payload = await verifyToken(accessToken);
-
-        if (!payload) {
-            return NextResponse.json(
-                { success: false, error: 'Invalid or expired token' },
-                { status: 401 }
-            );
-        }
-
-        // Check if user has permission to delete properties
-        const canDelete = hasPermission(payload.permissions, 'properties:delete');
-
-        if (!canDelete) {
-            return NextResponse.json(
-                { success: false, error: 'Insufficient permissions. Only admins can delete properties.' },
-                { status: 403 }
-            );
-        }
+        // CRITICAL: Verify authentication and the delete permission (VULN-009 FIX)
+        const payload = await requirePermission(request, 'properties:delete');
+        if (payload instanceof NextResponse) return payload;
 
         const { slug } = await params;
+        const propertyRepository = getPropertyRepository();
 
         // Detect if the param is a UUID or a slug
         const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slug);
@@ -225,11 +193,11 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
             );
         }
 
-        // CRITICAL: Authorization - check ownership or admin role (VULN-005 FIX)
-        const isAdmin = payload.role === 'admin' || payload.role === 'super_admin';
+        // CRITICAL: Authorization - the owner, or anyone who manages all listings (VULN-005 FIX)
+        const canManageAll = hasPermission(payload.permissions, 'properties:manage_all');
         const isOwner = existing.agentId === payload.userId;
 
-        if (!isAdmin && !isOwner) {
+        if (!canManageAll && !isOwner) {
             return NextResponse.json(
                 { success: false, error: 'Not authorized to delete this property' },
                 { status: 403 }
@@ -6,96 +6,57 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/server/auth/jwt';
+import { requirePermission } from '@/server/auth/permissions';
 import { applySecurityHeaders } from '@/server/security/headers';
-import { mockStore } from '@/lib/mock-store';
-import type { PropertyListItem } from '@/types';
+import { getLeadRepository, getPropertyRepository } from '@/dal/repositories/RepositoryFactory';
+import type { PropertyType } from '@/core/entities/Property';
+import { defaultCurrency } from '@/lib/currency';
 
-// ============================================
-// Authentication helper
-// ============================================
-async function authenticateAdmin(request: NextRequest) {
-    const token = request.cookies.get('modon_auth_token')?.value;
-    if (!token) return null;
-
-    try {
-        const payload = await verifyToken(token);
-        if (!payload || (payload.role !== 'admin' && payload.role !== 'super_admin')) {
-            return null;
-        }
-        return payload;
-    } catch {
-        return null;
-    }
-}
+const PROPERTY_TYPES: PropertyType[] = ['house', 'villa', 'apartment', 'penthouse', 'land', 'commercial'];
 
 // ============================================
 // GET /api/properties/analytics
 // ============================================
 export async function GET(request: NextRequest) {
-    const user = await authenticateAdmin(request);
-    if (!user) {
-        return NextResponse.json(
-            { success: false, error: 'Admin authentication required' },
-            { status: 401 }
-        );
-    }
+    const auth = await requirePermission(request, 'analytics:view');
+    if (auth instanceof NextResponse) return auth;
 
     try {
-        const properties = mockStore.getProperties() as PropertyListItem[];
-        const leads = mockStore.getLeads();
-
-        // Compute analytics
-        const totalProperties = properties.length;
+        const propertyRepository = getPropertyRepository();
+        const leadRepository = getLeadRepository();
 
-        // Type distribution
-        const typeDistribution: Record<string, number> = {};
-        properties.forEach((p) => {
-            const pType = p.type || 'unknown';
-            typeDistribution[pType] = (typeDistribution[pType] || 0) + 1;
-        });
+        // Compute analytics through the repository aggregations
+        const [statusCounts, cityDistribution, priceRange, avgPrice] = await Promise.all([
+            propertyRepository.countByStatus ? propertyRepository.countByStatus() : {},
+            propertyRepository.countByCity ? propertyRepository.countByCity() : {},
+            propertyRepository.getPriceRange ? propertyRepository.getPriceRange() : { min: 0, max: 0 },
+            propertyRepository.getAveragePrice ? propertyRepository.getAveragePrice() : 0,
+        ]);
 
         // Status distribution
-        const statusDistribution: Record<string, number> = {};
-        properties.forEach((p) => {
-            const pStatus = (p as PropertyListItem & { status?: string }).status || 'active';
-            statusDistribution[pStatus] = (statusDistribution[pStatus] || 0) + 1;
-        });
+        const statusDistribution: Record<string, number> = typeof statusCounts === 'number' ? {} : statusCounts;
+        const totalProperties = Object.values(statusDistribution).reduce((sum, count) => sum + count, 0);
 
-        // Price statistics
-        const prices = properties
-            .map((p) => p.price?.amount || 0)
-            .filter((amount) => amount > 0);
-
-        const avgPrice = prices.length > 0
-            ? Math.round(prices.reduce((a, b) => a + b, 0) / prices.length)
-            : 0;
-        const minPrice = prices.length > 0 ? Math.min(...prices) : 0;
-        const maxPrice = prices.length > 0 ? Math.max(...prices) : 0;
+        // Type distribution
+        const typeDistribution: Record<string, number> = {};
+        if (propertyRepository.countByType) {
+            for (const type of PROPERTY_TYPES) {
+                const count = await propertyRepository.countByType(type);
+                if (count > 0) typeDistribution[type] = count;
+            }
+        }
 
         // Lead statistics
-        const totalLeads = leads.length;
-        const today = new Date().toDateString();
-        const leadsToday = leads.filter(l => new Date(l.created_at).toDateString() === today).length;
-
-        // Lead type distribution
-        const leadTypeDistribution: Record<string, number> = {};
-        leads.forEach(l => {
-            leadTypeDistribution[l.type] = (leadTypeDistribution[l.type] || 0) + 1;
-        });
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
 
-        // Lead status distribution
-        const leadStatusDistribution: Record<string, number> = {};
-        leads.forEach(l => {
-            leadStatusDistribution[l.status] = (leadStatusDistribution[l.status] || 0) + 1;
-        });
-
-        // City distribution
-        const cityDistribution: Record<string, number> = {};
-        properties.forEach((p) => {
-            const city = p.location?.city || 'Unknown';
-            cityDistribution[city] = (cityDistribution[city] || 0) + 1;
-        });
+        const [leadStatusDistribution, leadTypeDistribution, leadsTodayResult] = await Promise.all([
+            leadRepository.countByStatus(),
+            leadRepository.countByType(),
+            leadRepository.findAll({ createdFrom: startOfToday, limit: 1 }),
+        ]);
+        const totalLeads = Object.values(leadStatusDistribution).reduce((sum, count) => sum + count, 0);
+        const leadsToday = leadsTodayResult.pagination.total;
 
         const response = NextResponse.json({
             success: true,
@@ -107,9 +68,9 @@ export async function GET(request: NextRequest) {
                     byCity: cityDistribution,
                     pricing: {
                         average: avgPrice,
-                        min: minPrice,
-                        max: maxPrice,
-                        currency: 'EGP',
+                        min: priceRange.min,
+                        max: priceRange.max,
+                        currency: defaultCurrency,
                     },
                 },
                 leads: {
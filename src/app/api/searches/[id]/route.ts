@@ -0,0 +1,65 @@
+/**
+ * Single Saved Search API Route
+ * =============================
+ * DELETE /api/searches/[id] - Remove one of the caller's searches
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/server/auth/jwt';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+import { getSearchHistoryRepository } from '@/dal/repositories/RepositoryFactory';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// DELETE /api/searches/[id]
+// ============================================
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const accessToken = request.cookies.get('modon_auth_token')?.value;
+    const user = accessToken ? await verifyToken(accessToken) : null;
+
+    if (!user) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const { id } = await params;
+        const repository = getSearchHistoryRepository();
+        const search = await repository.findById(id);
+
+        // Other users' searches are reported as missing, not forbidden
+        if (!search || search.userId !== user.userId) {
+            return NextResponse.json(
+                { success: false, error: 'Saved search not found' },
+                { status: 404 }
+            );
+        }
+
+        await repository.delete(id);
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Search removed',
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Saved search DELETE error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to remove search' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Popular Searches API Route
+ * ==========================
+ * GET /api/searches/popular
+ * Most frequent search terms for the admin dashboard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getSearchHistoryRepository } from '@/dal/repositories/RepositoryFactory';
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'analytics:view');
+    if (auth instanceof NextResponse) return auth;
+
+    try {
+        const limit = Math.min(50, Math.max(1, parseInt(new URL(request.url).searchParams.get('limit') || '10') || 10));
+        const searches = await getSearchHistoryRepository().getPopularSearches(limit);
+
+        const response = NextResponse.json({
+            success: true,
+            data: searches,
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Popular searches error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch popular searches' },
+            { status: 500 }
+        );
+    }
+}
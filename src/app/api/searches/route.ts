@@ -0,0 +1,154 @@
+/**
+ * Saved Searches API Route
+ * ========================
+ * Named PropertySearchCriteria that buyers can re-run from their account
+ *
+ * Endpoints:
+ *   GET  /api/searches              - List saved searches (authenticated)
+ *   GET  /api/searches?history=true - List recent searches (authenticated)
+ *   POST /api/searches              - Save the current search under a name (authenticated)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken, TokenPayload } from '@/server/auth/jwt';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { sanitizeInput } from '@/lib/sanitize';
+import { checkCSRF } from '@/lib/security/csrf';
+import { SavedSearchSchema } from '@/contracts/schemas';
+import { GetPropertiesUseCase } from '@/application/properties/GetPropertiesUseCase';
+import { getPropertyRepository, getSearchHistoryRepository } from '@/dal/repositories/RepositoryFactory';
+
+const MAX_SAVED_SEARCHES = 20;
+
+// ============================================
+// AUTHENTICATION HELPER
+// ============================================
+
+async function getAuthenticatedUser(request: NextRequest): Promise<TokenPayload | null> {
+    const accessToken = request.cookies.get('modon_auth_token')?.value;
+    if (!accessToken) return null;
+
+    try {
+        return await verifyToken(accessToken);
+    } catch {
+        return null;
+    }
+}
+
+// ============================================
+// GET /api/searches - List saved searches
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const repository = getSearchHistoryRepository();
+        const showHistory = new URL(request.url).searchParams.get('history') === 'true';
+
+        const searches = showHistory
+            ? await repository.findByUser(user.userId)
+            : await repository.findSavedByUser(user.userId);
+
+        const response = NextResponse.json({
+            success: true,
+            data: searches,
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Saved searches GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch saved searches' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST /api/searches - Save a search
+// ============================================
+
+export async function POST(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await getAuthenticatedUser(request);
+
+    if (!user) {
+        return NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const validation = SavedSearchSchema.safeParse(await request.json());
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                error: 'Validation failed',
+                details: validation.error.issues.map(issue => ({
+                    field: issue.path.join('.'),
+                    message: issue.message
+                }))
+            }, { status: 400 });
+        }
+
+        const repository = getSearchHistoryRepository();
+        const saved = await repository.findSavedByUser(user.userId);
+
+        if (saved.length >= MAX_SAVED_SEARCHES) {
+            return NextResponse.json({
+                success: false,
+                error: `You can keep up to ${MAX_SAVED_SEARCHES} saved searches. Remove one to save another.`
+            }, { status: 409 });
+        }
+
+        const { name } = validation.data;
+        const criteria = {
+            ...validation.data.criteria,
+            query: validation.data.criteria.query
+                ? sanitizeInput(validation.data.criteria.query, { maxLength: 200 })
+                : undefined,
+        };
+
+        // Snapshot of how many listings matched when the search was saved
+        const { pagination } = await new GetPropertiesUseCase(getPropertyRepository())
+            .execute({ ...criteria, page: 1, limit: 1 });
+
+        const search = await repository.create({
+            userId: user.userId,
+            name: sanitizeInput(name, { maxLength: 100 }),
+            query: criteria.query || '',
+            filters: Object.fromEntries(Object.entries(criteria).filter(([_, value]) => value !== undefined)),
+            resultCount: pagination.total,
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Search saved',
+            data: search,
+        }, { status: 201 });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Saved searches POST error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to save search' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * IP Blocklist Entry API Route
+ * ============================
+ * DELETE /api/security/blocklist/[ip] - remove an IP's deny or allow entry (security:manage)
+ *
+ * The removal is recorded in the security event log (ip_unblocked).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getIpBlocklistService } from '@/server/security/blocklist';
+import { checkCSRF } from '@/lib/security/csrf';
+import { getClientIp } from '@/lib/security/rate-limit';
+
+interface RouteParams {
+    params: Promise<{ ip: string }>;
+}
+
+// ============================================
+// DELETE /api/security/blocklist/[ip]
+// ============================================
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'security:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        // IPv6 addresses arrive percent-encoded
+        const ip = decodeURIComponent((await params).ip);
+
+        const removed = await getIpBlocklistService().remove(ip, {
+            userId: user.userId,
+            ip: getClientIp(request),
+            userAgent: request.headers.get('user-agent') || 'unknown',
+            path: request.nextUrl.pathname,
+        });
+
+        if (!removed) {
+            return NextResponse.json(
+                { success: false, error: 'No blocklist entry for this IP' },
+                { status: 404 }
+            );
+        }
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            message: removed.action === 'deny' ? 'IP unblocked' : 'IP removed from allowlist',
+            data: removed,
+        }));
+
+    } catch (error) {
+        console.error('[API] IP blocklist DELETE error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to update IP blocklist' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,99 @@
+/**
+ * IP Blocklist API Route
+ * ======================
+ * GET  /api/security/blocklist - active deny/allow entries (security:read)
+ * POST /api/security/blocklist - add or replace an entry (security:manage)
+ *
+ * Changes are recorded in the security event log (ip_blocked / ip_allowed).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { getIpBlocklistService } from '@/server/security/blocklist';
+import { IpBlocklistEntrySchema } from '@/contracts/schemas';
+import { checkCSRF } from '@/lib/security/csrf';
+import { getClientIp } from '@/lib/security/rate-limit';
+
+// ============================================
+// GET /api/security/blocklist
+// ============================================
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'security:read');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const entries = await getIpBlocklistService().list();
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: entries,
+        }));
+    } catch (error) {
+        console.error('[API] IP blocklist GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch IP blocklist' },
+            { status: 500 }
+        );
+    }
+}
+
+// ============================================
+// POST /api/security/blocklist
+// ============================================
+export async function POST(request: NextRequest) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'security:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const validation = IpBlocklistEntrySchema.safeParse(await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid entry', details: validation.error.flatten().fieldErrors },
+                { status: 400 }
+            );
+        }
+
+        const { ip, action, reason, durationMinutes } = validation.data;
+        const actorIp = getClientIp(request);
+
+        // Blocking yourself would also lock you out of undoing it
+        if (action === 'deny' && ip === actorIp) {
+            return NextResponse.json(
+                { success: false, error: 'You cannot block your own IP address' },
+                { status: 400 }
+            );
+        }
+
+        const actor = {
+            userId: user.userId,
+            ip: actorIp,
+            userAgent: request.headers.get('user-agent') || 'unknown',
+            path: request.nextUrl.pathname,
+        };
+        const options = { reason, durationMs: durationMinutes ? durationMinutes * 60 * 1000 : undefined };
+
+        const service = getIpBlocklistService();
+        const entry = action === 'deny'
+            ? await service.deny(ip, options, actor)
+            : await service.allow(ip, options, actor);
+
+        return applySecurityHeaders(NextResponse.json(
+            { success: true, data: entry },
+            { status: 201 }
+        ));
+    } catch (error) {
+        console.error('[API] IP blocklist POST error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to update IP blocklist' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
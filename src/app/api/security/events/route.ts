@@ -0,0 +1,52 @@
+/**
+ * Security Events API Route
+ * =========================
+ * GET /api/security/events
+ * Stored security events for incident investigation (security:read)
+ *
+ * Query: type, severity (comma-separated), ip, userId, from, to (ISO dates), page, limit
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { SecurityEventSearchSchema } from '@/contracts/schemas';
+import { searchSecurityEvents } from '@/discoverx/monitoring/logging';
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'security:read');
+    if (auth instanceof NextResponse) return auth;
+
+    const validation = SecurityEventSearchSchema.safeParse(
+        Object.fromEntries(new URL(request.url).searchParams)
+    );
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Invalid filters', details: validation.error.flatten().fieldErrors },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const { type, severity, ...filters } = validation.data;
+        const result = await searchSecurityEvents({ ...filters, types: type, severities: severity });
+
+        const response = NextResponse.json({
+            success: true,
+            data: result.data,
+            pagination: result.pagination,
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Security events error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch security events' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,63 @@
+/**
+ * Security Event Timeline API Route
+ * =================================
+ * GET /api/security/events/timeline
+ * Security events counted per type and hour or day (security:read)
+ *
+ * Query: interval (hour | day), type, severity, ip, userId, from, to.
+ * Without from, covers the last 24 hours (hour) or 30 days (day).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { SecurityEventTimelineSchema } from '@/contracts/schemas';
+import { getSecurityEventTimeline } from '@/discoverx/monitoring/logging';
+
+const DEFAULT_RANGE_MS = {
+    hour: 24 * 60 * 60 * 1000,
+    day: 30 * 24 * 60 * 60 * 1000,
+};
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'security:read');
+    if (auth instanceof NextResponse) return auth;
+
+    const validation = SecurityEventTimelineSchema.safeParse(
+        Object.fromEntries(new URL(request.url).searchParams)
+    );
+    if (!validation.success) {
+        return NextResponse.json(
+            { success: false, error: 'Invalid filters', details: validation.error.flatten().fieldErrors },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const { interval, type, severity, ...filters } = validation.data;
+        const to = filters.to ?? new Date();
+        const from = filters.from ?? new Date(to.getTime() - DEFAULT_RANGE_MS[interval]);
+
+        const buckets = await getSecurityEventTimeline(
+            { ...filters, from, to, types: type, severities: severity },
+            interval
+        );
+
+        const response = NextResponse.json({
+            success: true,
+            data: { interval, from, to, buckets },
+        });
+
+        return applySecurityHeaders(response);
+
+    } catch (error) {
+        console.error('[API] Security event timeline error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch security event timeline' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,55 @@
+/**
+ * User Lock Admin API Route
+ * =========================
+ * DELETE /api/users/[id]/lock - unlock an account locked after failed logins (users:manage)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { AccountLockoutService } from '@/application/auth/AccountLockoutService';
+import { getEmailOutbox } from '@/server/email/outbox';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// DELETE /api/users/[id]/lock
+// ============================================
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'users:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const { id } = await params;
+
+        const unlocked = await new AccountLockoutService(userRepository, getEmailOutbox()).unlock(id);
+        if (!unlocked) {
+            return NextResponse.json(
+                { success: false, error: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        console.info(`[API] User ${id} unlocked by ${user.email}`);
+
+        return applySecurityHeaders(NextResponse.json({ success: true, message: 'Account unlocked' }));
+
+    } catch (error) {
+        console.error('[API] User lock DELETE error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to unlock account' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,51 @@
+/**
+ * User Sessions Admin API Route
+ * =============================
+ * DELETE /api/users/[id]/sessions - force logout: end every session of the user (users:manage)
+ *
+ * Access tokens already issued stay valid until they expire (15 minutes). The
+ * force logout is recorded in the security event log (sessions_revoked).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { checkCSRF } from '@/lib/security/csrf';
+import { forceLogout } from '@/server/users/sessions';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// ============================================
+// DELETE /api/users/[id]/sessions
+// ============================================
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    const csrfError = checkCSRF(request);
+    if (csrfError) return csrfError;
+
+    const user = await requirePermission(request, 'users:manage');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        if (!await forceLogout(request, user, (await params).id)) {
+            return NextResponse.json(
+                { success: false, error: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        return applySecurityHeaders(NextResponse.json({ success: true, message: 'All sessions revoked' }));
+
+    } catch (error) {
+        console.error('[API] User sessions DELETE error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to revoke sessions' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,62 @@
+/**
+ * Users API Route
+ * ===============
+ * GET /api/users - list/search users for the admin (users:read)
+ *
+ * Query: q, role, status, locked, page, limit
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/server/auth/permissions';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { toUserView } from '@/server/users/views';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { UserSearchCriteria } from '@/dal/interfaces';
+import { UserRoleSchema } from '@/contracts/schemas';
+import { sanitizeInput } from '@/lib/sanitize';
+
+const UserStatusSchema = z.enum(['active', 'inactive', 'suspended', 'pending_verification']);
+
+// ============================================
+// GET /api/users
+// ============================================
+
+export async function GET(request: NextRequest) {
+    const user = await requirePermission(request, 'users:read');
+    if (user instanceof NextResponse) return user;
+
+    try {
+        const { searchParams } = request.nextUrl;
+        const query = searchParams.get('q')?.trim();
+        const role = UserRoleSchema.safeParse(searchParams.get('role'));
+        const status = UserStatusSchema.safeParse(searchParams.get('status'));
+
+        const criteria: UserSearchCriteria = {
+            query: query ? sanitizeInput(query, { maxLength: 200 }) : undefined,
+            role: role.success ? role.data : undefined,
+            status: status.success ? status.data : undefined,
+            locked: searchParams.has('locked') ? searchParams.get('locked') === 'true' : undefined,
+            page: Math.max(1, parseInt(searchParams.get('page') || '1') || 1),
+            limit: Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20)),
+        };
+
+        const result = await userRepository.findAll(criteria);
+
+        return applySecurityHeaders(NextResponse.json({
+            success: true,
+            data: result.data.map(toUserView),
+            pagination: result.pagination,
+        }));
+
+    } catch (error) {
+        console.error('[API] Users GET error:', error);
+
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch users' },
+            { status: 500 }
+        );
+    }
+}
+
+export const dynamic = 'force-dynamic';
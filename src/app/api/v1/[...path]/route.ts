@@ -0,0 +1,27 @@
+/**
+ * Versioned Partner API (v1)
+ * ==========================
+ * Catch-all for /api/v1/* - every request goes through the DiscoverX gateway
+ * (rate-limit tiers, Bearer auth, route permissions) before reaching a service.
+ *
+ * Services:
+ *   /api/v1/properties  - Listings (public read, properties:* to write)
+ *   /api/v1/inquiries   - Submit (public) / manage (inquiries:*)
+ *   /api/v1/search      - Property search (GET query or POST JSON criteria)
+ *   /api/v1/auth/login  - Token exchange for API clients
+ *   /api/v1/users       - User administration (users:*)
+ *   /api/v1/valuation   - Indicative estimate (public POST) / listing valuation (GET /:id)
+ */
+
+import { NextRequest } from 'next/server';
+import { apiGateway } from '@/discoverx/gateway/APIGateway';
+
+function handle(request: NextRequest) {
+    return apiGateway.handle(request);
+}
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -12,6 +12,8 @@ import { Send, Check, Loader2 } from 'lucide-react';
 import styles from './contactForm.module.css';
 import { Dictionary } from '@/types';
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 interface ContactFormProps {
     propertyId: string;
     propertyTitle: string;
@@ -67,27 +69,48 @@ export default function ContactForm({ propertyId, propertyTitle, agentName, dict
         setStatus('loading');
 
         try {
-            // Real API call to leads endpoint
-            const response = await fetch('/api/leads', {
+            // Inquiries are routed to the listing agent
+            let response = await fetch('/api/inquiries', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
+                    propertyId: propertyId,
                     name: formData.name,
                     email: formData.email,
                     phone: formData.phone || undefined,
                     message: formData.message,
-                    type: 'property_inquiry',
-                    propertyId: propertyId,
-                    propertyTitle: propertyTitle,
                     preferredContact: formData.preferredContact,
-                    metadata: {
-                        scheduleViewing: formData.schedule,
-                        agentName: agentName
-                    }
+                    requestViewing: formData.schedule,
+                    locale: lang,
                 }),
             });
 
-            const result = await response.json();
+            let result = await response.json();
+
+            // Listings without an agent, or not in the listing store, go to the sales team as a lead
+            if (result.code === 'PROPERTY_NOT_FOUND' || result.code === 'NO_LISTING_AGENT') {
+                response = await fetch('/api/leads', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        name: formData.name,
+                        email: formData.email,
+                        phone: formData.phone || undefined,
+                        message: formData.message,
+                        type: formData.schedule ? 'viewing_request' : 'property_inquiry',
+                        propertyId: UUID_PATTERN.test(propertyId) ? propertyId : undefined,
+                        propertyTitle: propertyTitle,
+                        preferredContact: formData.preferredContact,
+                        metadata: {
+                            listingId: propertyId,
+                            scheduleViewing: formData.schedule,
+                            agentName: agentName,
+                        },
+                        locale: lang,
+                    }),
+                });
+                result = await response.json();
+            }
 
             if (!response.ok || !result.success) {
                 throw new Error(result.error || 'Failed to send inquiry');
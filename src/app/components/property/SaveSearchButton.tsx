@@ -0,0 +1,100 @@
+/**
+ * Save Search Button
+ * ==================
+ * Lets a logged-in buyer store the current filters as a named search
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Bookmark, Check, Loader2 } from 'lucide-react';
+import { SearchService } from '@/discover/services/SearchService';
+import styles from './saveSearch.module.css';
+
+interface SaveSearchButtonProps {
+    criteria: Record<string, unknown>;
+    defaultName: string;
+    lang?: 'en' | 'ar';
+}
+
+export default function SaveSearchButton({ criteria, defaultName, lang = 'en' }: SaveSearchButtonProps) {
+    const isAr = lang === 'ar';
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'login' | 'error'>('idle');
+    const [error, setError] = useState<string | null>(null);
+
+    const open = () => {
+        setName(defaultName);
+        setStatus('idle');
+        setError(null);
+        setIsOpen(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+
+        setStatus('saving');
+        const result = await SearchService.saveSearch(name.trim(), criteria);
+
+        if (result.success) {
+            setStatus('saved');
+            setIsOpen(false);
+        } else if (result.requiresLogin) {
+            setStatus('login');
+        } else {
+            setStatus('error');
+            setError(result.error || null);
+        }
+    };
+
+    if (status === 'saved') {
+        return (
+            <span className={styles.savedBadge}>
+                <Check size={14} />
+                {isAr ? 'تم حفظ البحث' : 'Search saved'}
+            </span>
+        );
+    }
+
+    return (
+        <div className={styles.wrapper}>
+            <button type="button" className={styles.saveBtn} onClick={() => (isOpen ? setIsOpen(false) : open())}>
+                <Bookmark size={14} />
+                {isAr ? 'حفظ البحث' : 'Save Search'}
+            </button>
+
+            {isOpen && (
+                <form className={styles.popover} onSubmit={handleSubmit}>
+                    {status === 'login' ? (
+                        <p className={styles.hint}>
+                            {isAr ? 'سجّل الدخول لحفظ عمليات البحث. ' : 'Log in to save your searches. '}
+                            <Link href={`/${lang}/login`}>{isAr ? 'تسجيل الدخول' : 'Log in'}</Link>
+                        </p>
+                    ) : (
+                        <>
+                            <label htmlFor="saved-search-name">{isAr ? 'اسم البحث' : 'Name this search'}</label>
+                            <input
+                                id="saved-search-name"
+                                type="text"
+                                value={name}
+                                maxLength={100}
+                                onChange={(e) => setName(e.target.value)}
+                                autoFocus
+                            />
+                            {status === 'error' && (
+                                <p className={styles.error}>{error || (isAr ? 'تعذّر حفظ البحث' : 'Could not save search')}</p>
+                            )}
+                            <button type="submit" className={styles.submitBtn} disabled={status === 'saving' || !name.trim()}>
+                                {status === 'saving' ? <Loader2 size={14} className={styles.spinner} /> : null}
+                                {isAr ? 'حفظ' : 'Save'}
+                            </button>
+                        </>
+                    )}
+                </form>
+            )}
+        </div>
+    );
+}
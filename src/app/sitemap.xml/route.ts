@@ -0,0 +1,31 @@
+/**
+ * Sitemap Route Handler
+ * ======================
+ * GET /sitemap.xml - all public URLs with en/ar hreflang alternates,
+ * or a sitemap index over /sitemap/{n}.xml once the site outgrows one file
+ */
+
+import { getPropertyRepository } from '@/dal/repositories/RepositoryFactory';
+import {
+    chunkSitemapUrls,
+    collectSitemapUrls,
+    renderSitemapIndex,
+    renderUrlSet,
+} from '@/lib/seo/sitemap';
+
+export async function GET() {
+    const chunks = chunkSitemapUrls(await collectSitemapUrls(getPropertyRepository()));
+
+    const xml = chunks.length > 1
+        ? renderSitemapIndex(chunks)
+        : renderUrlSet(chunks[0] ?? []);
+
+    return new Response(xml, {
+        headers: {
+            'Content-Type': 'application/xml; charset=utf-8',
+        },
+    });
+}
+
+// Rebuilt hourly so new and withdrawn listings show up without a deploy
+export const revalidate = 3600;
@@ -0,0 +1,33 @@
+/**
+ * Split Sitemap Route Handler
+ * ============================
+ * GET /sitemap/{n}.xml - the n-th part listed in the /sitemap.xml index
+ */
+
+import { getPropertyRepository } from '@/dal/repositories/RepositoryFactory';
+import { chunkSitemapUrls, collectSitemapUrls, renderUrlSet } from '@/lib/seo/sitemap';
+
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ part: string }> }
+) {
+    const { part } = await params;
+    const match = /^(\d+)\.xml$/.exec(part);
+    if (!match) {
+        return new Response('Not found', { status: 404 });
+    }
+
+    const chunks = chunkSitemapUrls(await collectSitemapUrls(getPropertyRepository()));
+    const chunk = chunks[Number(match[1]) - 1];
+    if (!chunk) {
+        return new Response('Not found', { status: 404 });
+    }
+
+    return new Response(renderUrlSet(chunk), {
+        headers: {
+            'Content-Type': 'application/xml; charset=utf-8',
+        },
+    });
+}
+
+export const revalidate = 3600;
@@ -0,0 +1,131 @@
+/**
+ * MODON Platform - New Listing Alert Matcher (Application Layer)
+ * ===============================================================
+ * Evaluates a freshly published property against every saved search
+ * and queues one email notification per matching user
+ */
+
+import { Property } from '@/core/entities/Property';
+import {
+    INotificationRepository,
+    ISearchHistoryRepository,
+    IUserRepository,
+    PropertySearchCriteria,
+    SearchHistory,
+} from '@/dal/interfaces';
+import { isOffMarket, matchesCriteria } from '@/core/entities/PropertySearch';
+
+export const NEW_LISTING_ALERT = 'new_listing_alert';
+
+/** Statuses under which a listing counts as published */
+const LIVE_STATUSES: Property['status'][] = ['active', 'published'];
+
+export interface NewListingAlertResult {
+    matchedSearches: number;
+    queued: number;
+    skipped: number;
+}
+
+export function isLiveStatus(status: Property['status']): boolean {
+    return LIVE_STATUSES.includes(status);
+}
+
+/**
+ * Saved filters are stored as JSON; only the filtering part of the criteria applies
+ */
+function toMatchCriteria(filters: SearchHistory['filters']): PropertySearchCriteria {
+    const {
+        status: _status,
+        page: _page,
+        limit: _limit,
+        sort: _sort,
+        sortBy: _sortBy,
+        sortOrder: _sortOrder,
+        ...criteria
+    } = filters as PropertySearchCriteria;
+
+    return criteria;
+}
+
+export class NewListingAlertMatcher {
+    constructor(
+        private readonly searchHistoryRepository: ISearchHistoryRepository,
+        private readonly userRepository: Pick<IUserRepository, 'findById'>,
+        private readonly notificationRepository: INotificationRepository
+    ) { }
+
+    /**
+     * Saved searches whose criteria the property satisfies
+     * (same semantics as PropertySearchCriteria filtering).
+     * Off-market listings are shared privately and never alerted.
+     */
+    async findMatchingSearches(property: Property): Promise<SearchHistory[]> {
+        if (!isLiveStatus(property.status) || isOffMarket(property)) return [];
+
+        // Legacy 'published' is the same as 'active' for matching purposes
+        const live: Property = { ...property, status: 'active' };
+        const searches = await this.searchHistoryRepository.findAllSaved();
+
+        return searches.filter(search => matchesCriteria(live, toMatchCriteria(search.filters)));
+    }
+
+    async execute(property: Property): Promise<NewListingAlertResult> {
+        const matches = await this.findMatchingSearches(property);
+
+        // One alert per user, however many of their searches matched
+        const searchesByUser = new Map<string, SearchHistory[]>();
+        matches.forEach(search => {
+            const userSearches = searchesByUser.get(search.userId) ?? [];
+            userSearches.push(search);
+            searchesByUser.set(search.userId, userSearches);
+        });
+
+        let queued = 0;
+        let skipped = 0;
+
+        for (const [userId, searches] of searchesByUser) {
+            // Agents don't need alerts about their own listings
+            if (userId === property.agentId) {
+                skipped++;
+                continue;
+            }
+
+            const user = await this.userRepository.findById(userId);
+            if (!user || user.status !== 'active' || !user.preferences.emailNotifications) {
+                skipped++;
+                continue;
+            }
+
+            await this.notificationRepository.enqueue({
+                userId,
+                channel: 'email',
+                type: NEW_LISTING_ALERT,
+                recipient: user.email,
+                locale: user.preferences.language || 'en',
+                dedupeKey: `${NEW_LISTING_ALERT}:${property.id}:${userId}`,
+                payload: {
+                    name: user.profile?.firstName,
+                    propertyId: property.id,
+                    slug: property.slug,
+                    referenceCode: property.referenceCode,
+                    title: property.title,
+                    titleAr: property.titleAr,
+                    price: property.price.amount,
+                    currency: property.price.currency,
+                    city: property.location.city,
+                    country: property.location.country,
+                    bedrooms: property.specs.bedrooms,
+                    image: property.images[0]?.url,
+                    searches: searches.map(s => ({ id: s.id, name: s.name })),
+                },
+            });
+            queued++;
+        }
+
+        if (matches.length > 0) {
+            console.info(`[ALERTS] ${property.referenceCode || property.id}: ${matches.length} saved searches matched, ${queued} alerts queued`);
+        }
+
+        return { matchedSearches: matches.length, queued, skipped };
+    }
+}
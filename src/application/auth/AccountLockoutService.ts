@@ -0,0 +1,60 @@
+/**
+ * MODON Platform - Account Lockout Service (Application Layer)
+ * =============================================================
+ * The user repository locks an account after repeated failed logins. This
+ * service tells the owner when that happens and lets admins lift a lock
+ * before it runs out.
+ */
+
+import { IUserRepository } from '@/dal/interfaces';
+import { AccountLockedError } from '@/core/entities/User';
+import { EmailOutbox } from '@/application/notifications/EmailOutbox';
+
+type AccountLockoutRepository = Pick<IUserRepository, 'findById' | 'unlockAccount'>;
+
+export class AccountLockoutService {
+    constructor(
+        private readonly userRepository: AccountLockoutRepository,
+        private readonly emailOutbox: Pick<EmailOutbox, 'enqueue'>
+    ) { }
+
+    /**
+     * Queue the "account locked" email for the attempt that caused a lock.
+     * Later attempts against the same lock do not send it again.
+     */
+    async notifyLocked(lock: AccountLockedError, context: { ip: string }): Promise<void> {
+        if (!lock.lockedNow) return;
+
+        const user = await this.userRepository.findById(lock.userId);
+        if (!user) return;
+
+        const language = user.preferences?.language === 'ar' ? 'ar' : 'en';
+
+        await this.emailOutbox.enqueue({
+            type: 'account_locked',
+            to: user.email,
+            locale: language,
+            userId: user.id,
+            payload: {
+                name: user.profile?.firstName,
+                minutes: Math.max(1, Math.ceil((lock.lockedUntil.getTime() - Date.now()) / 60000)),
+                ip: context.ip,
+            },
+            dedupeKey: `account_locked:${user.id}:${lock.lockedUntil.toISOString()}`,
+        });
+    }
+
+    /**
+     * Lift a lock early. Returns false when the user does not exist.
+     */
+    async unlock(userId: string): Promise<boolean> {
+        const user = await this.userRepository.findById(userId);
+        if (!user) return false;
+
+        if (!this.userRepository.unlockAccount) {
+            throw new Error('User repository does not support unlocking accounts');
+        }
+        await this.userRepository.unlockAccount(userId);
+        return true;
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * MODON Platform - Password Reset Service (Application Layer)
+ * ============================================================
+ * Issues single-use reset links by email and applies the new password.
+ * Only the SHA-256 of a reset token is stored in the token table; the link
+ * itself only lives in the (service-role only) outbox until it is sent.
+ */
+
+import * as crypto from 'crypto';
+import { IUserRepository } from '@/dal/interfaces';
+import { EmailOutbox } from '@/application/notifications/EmailOutbox';
+
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+export class PasswordResetError extends Error {
+    constructor(message: string = 'This reset link is invalid or has expired') {
+        super(message);
+        this.name = 'PasswordResetError';
+    }
+}
+
+type PasswordResetRepository = Pick<
+    IUserRepository,
+    'findByEmail' | 'updatePassword' | 'createPasswordResetToken' | 'usePasswordResetToken' | 'revokeAllSessions'
+>;
+
+export function hashPasswordResetToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class PasswordResetService {
+    constructor(
+        private readonly userRepository: PasswordResetRepository,
+        private readonly emailOutbox: Pick<EmailOutbox, 'enqueue'>,
+        /** Site origin for the reset link, e.g. https://modon.com */
+        private readonly baseUrl: string
+    ) { }
+
+    /**
+     * Queue a reset link. Unknown and suspended accounts are skipped silently
+     * so the response never reveals whether an email is registered.
+     */
+    async requestReset(email: string, locale: 'en' | 'ar' = 'en'): Promise<void> {
+        const repository = this.repository();
+
+        const user = await repository.findByEmail(email);
+        if (!user || user.status === 'suspended') return;
+
+        const token = crypto.randomUUID();
+        const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+        await repository.createPasswordResetToken!(user.id, hashPasswordResetToken(token), expiresAt);
+
+        // The account's language wins over the page the request came from
+        const preferred = user.preferences?.language;
+        const language = preferred === 'ar' || preferred === 'en' ? preferred : locale;
+        const link = `${this.baseUrl.replace(/\/$/, '')}/${language}/reset-password?token=${encodeURIComponent(token)}`;
+
+        await this.emailOutbox.enqueue({
+            type: 'password_reset',
+            to: user.email,
+            locale: language,
+            userId: user.id,
+            payload: {
+                name: user.profile?.firstName,
+                link,
+                minutes: RESET_TOKEN_TTL_MS / 60000,
+            },
+        });
+    }
+
+    /**
+     * Consume the token, set the new password and sign out every session
+     */
+    async resetPassword(token: string, newPassword: string): Promise<void> {
+        const repository = this.repository();
+
+        const userId = await repository.usePasswordResetToken!(hashPasswordResetToken(token));
+        if (!userId) throw new PasswordResetError();
+
+        await repository.updatePassword(userId, newPassword);
+        await repository.revokeAllSessions!(userId);
+    }
+
+    /**
+     * The reset methods are optional on IUserRepository; every store used here implements them
+     */
+    private repository(): PasswordResetRepository {
+        const repository = this.userRepository;
+        if (!repository.createPasswordResetToken || !repository.usePasswordResetToken || !repository.revokeAllSessions) {
+            throw new Error('User repository does not support password reset');
+        }
+        return repository;
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * MODON Platform - Permission Service (Application Layer)
+ * ========================================================
+ * Effective permissions are the role's set (stored, or the built-in
+ * default) plus the user's grants, minus the user's revocations. They are
+ * resolved when an access token is issued, so changes reach a signed-in user
+ * with their next token refresh (at most 15 minutes).
+ */
+
+import { IPermissionRepository, PermissionEffect, PermissionOverride } from '@/dal/interfaces';
+import {
+    DEFAULT_ROLE_PERMISSIONS,
+    PERMISSIONS,
+    USER_ROLES,
+    UserRole,
+    isPermission,
+} from '@/server/auth/jwt';
+
+export type PermissionErrorCode = 'UNKNOWN_PERMISSION' | 'PROTECTED_ROLE';
+
+export class PermissionError extends Error {
+    constructor(readonly code: PermissionErrorCode, message: string) {
+        super(message);
+        this.name = 'PermissionError';
+    }
+}
+
+export interface RolePermissions {
+    role: UserRole;
+    permissions: string[];
+    /** False for super_admin, which always holds every permission */
+    editable: boolean;
+    /** Still on the built-in default set */
+    isDefault: boolean;
+    updatedBy?: string;
+    updatedAt?: Date;
+}
+
+// Role sets are read on every sign-in and refresh; edits on this instance clear the cache
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+
+export class PermissionService {
+    private roleCache: { roles: RolePermissions[]; loadedAt: number } | null = null;
+
+    constructor(private readonly repository: IPermissionRepository) { }
+
+    async listRoles(): Promise<RolePermissions[]> {
+        if (this.roleCache && Date.now() - this.roleCache.loadedAt < ROLE_CACHE_TTL_MS) {
+            return this.roleCache.roles;
+        }
+
+        const stored = new Map((await this.repository.findRolePermissions()).map(set => [set.role, set]));
+        const roles = USER_ROLES.map((role): RolePermissions => {
+            const set = stored.get(role);
+
+            if (role === 'super_admin' || !set) {
+                return {
+                    role,
+                    permissions: [...DEFAULT_ROLE_PERMISSIONS[role]],
+                    editable: role !== 'super_admin',
+                    isDefault: true,
+                };
+            }
+
+            return {
+                role,
+                // Permissions dropped from the catalog are ignored
+                permissions: set.permissions.filter(isPermission),
+                editable: true,
+                isDefault: false,
+                updatedBy: set.updatedBy,
+                updatedAt: set.updatedAt,
+            };
+        });
+
+        this.roleCache = { roles, loadedAt: Date.now() };
+        return roles;
+    }
+
+    async setRolePermissions(role: UserRole, permissions: string[], actorId: string): Promise<RolePermissions> {
+        if (role === 'super_admin') {
+            throw new PermissionError('PROTECTED_ROLE', 'The super_admin role always holds every permission');
+        }
+
+        await this.repository.saveRolePermissions(role, normalize(permissions), actorId);
+        this.roleCache = null;
+
+        console.info(`[PERMISSIONS] Role ${role} updated by ${actorId}`);
+
+        return (await this.listRoles()).find(r => r.role === role)!;
+    }
+
+    async getUserOverrides(userId: string): Promise<PermissionOverride[]> {
+        return this.repository.findUserOverrides(userId);
+    }
+
+    async setUserOverrides(
+        userId: string,
+        overrides: { permission: string; effect: PermissionEffect }[],
+        actorId: string
+    ): Promise<PermissionOverride[]> {
+        // The last entry for a permission wins
+        const byPermission = new Map<string, PermissionEffect>();
+        for (const { permission, effect } of overrides) {
+            assertKnown(permission);
+            byPermission.set(permission, effect);
+        }
+
+        await this.repository.replaceUserOverrides(
+            userId,
+            [...byPermission].map(([permission, effect]) => ({ permission, effect })),
+            actorId
+        );
+
+        console.info(`[PERMISSIONS] Overrides of user ${userId} updated by ${actorId}`);
+
+        return this.repository.findUserOverrides(userId);
+    }
+
+    /**
+     * Effective permissions for a user. Falls back to the built-in role
+     * defaults when the store cannot be read, so sign-in keeps working.
+     */
+    async resolve(user: { id: string; role: UserRole }): Promise<string[]> {
+        try {
+            const [roles, overrides] = await Promise.all([
+                this.listRoles(),
+                this.repository.findUserOverrides(user.id),
+            ]);
+
+            const permissions = new Set(roles.find(r => r.role === user.role)?.permissions ?? []);
+            for (const { permission, effect } of overrides) {
+                if (!isPermission(permission)) continue;
+
+                if (effect === 'grant') permissions.add(permission);
+                else permissions.delete(permission);
+            }
+
+            return PERMISSIONS.filter(permission => permissions.has(permission));
+        } catch (error) {
+            console.error(`[PERMISSIONS] Failed to resolve permissions of user ${user.id}, using role defaults:`, error);
+            return [...(DEFAULT_ROLE_PERMISSIONS[user.role] || [])];
+        }
+    }
+}
+
+function assertKnown(permission: string): void {
+    if (!isPermission(permission)) {
+        throw new PermissionError('UNKNOWN_PERMISSION', `Unknown permission: ${permission}`);
+    }
+}
+
+/**
+ * Validated, de-duplicated and in catalog order
+ */
+function normalize(permissions: string[]): string[] {
+    permissions.forEach(assertKnown);
+    return PERMISSIONS.filter(permission => permissions.includes(permission));
+}
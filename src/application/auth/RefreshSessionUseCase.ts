@@ -0,0 +1,126 @@
+/**
+ * MODON Platform - Refresh Session Use Case (Application Layer)
+ * ==============================================================
+ * Exchanges a refresh token for a new access token and rotates the refresh
+ * token on every use. Presenting a token that was already rotated revokes
+ * the whole session family (the token has leaked).
+ */
+
+import * as crypto from 'crypto';
+import { User } from '@/core/entities/User';
+import { IUserRepository } from '@/dal/interfaces';
+import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from '@/server/auth/jwt';
+import { PermissionService } from './PermissionService';
+
+/**
+ * Two tabs refreshing at the same moment present the same token; the loser of
+ * that race is rejected but not treated as token theft
+ */
+const CONCURRENT_REFRESH_GRACE_MS = 10_000;
+
+const ACCESS_TOKEN_EXPIRY = 15 * 60; // seconds, matches jwt.ts
+
+export type RefreshFailureReason = 'invalid' | 'reused' | 'inactive';
+
+export class RefreshTokenError extends Error {
+    constructor(
+        readonly reason: RefreshFailureReason,
+        message: string,
+        /** Set when the failure revoked a session family */
+        readonly revokedFamilyId?: string
+    ) {
+        super(message);
+        this.name = 'RefreshTokenError';
+    }
+}
+
+export interface RefreshSessionResult {
+    user: User;
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+    /** Chosen at sign-in; the refresh cookie keeps the matching lifetime */
+    rememberMe: boolean;
+}
+
+/**
+ * Sessions store the SHA-256 of the refresh token, never the token itself
+ */
+export function hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+export class RefreshSessionUseCase {
+    constructor(
+        private readonly userRepository: Pick<
+            IUserRepository,
+            'findById' | 'findSession' | 'rotateSession' | 'revokeSessionFamily'
+        >,
+        /** Re-resolved on every refresh, so permission changes apply within one token lifetime */
+        private readonly permissions: Pick<PermissionService, 'resolve'>
+    ) { }
+
+    async execute(refreshToken: string, device: { ip: string; userAgent: string }): Promise<RefreshSessionResult> {
+        const sessions = this.userRepository;
+        if (!sessions.findSession || !sessions.rotateSession || !sessions.revokeSessionFamily) {
+            throw new Error('User repository does not support session rotation');
+        }
+
+        const claims = await verifyRefreshToken(refreshToken);
+        if (!claims) {
+            throw new RefreshTokenError('invalid', 'Invalid or expired refresh token');
+        }
+
+        const session = await sessions.findSession(hashRefreshToken(refreshToken));
+        if (!session || session.userId !== claims.userId) {
+            throw new RefreshTokenError('invalid', 'Unknown refresh token');
+        }
+
+        if (session.revokedAt) {
+            const rotatedJustNow = !!session.replacedBy &&
+                Date.now() - session.revokedAt.getTime() < CONCURRENT_REFRESH_GRACE_MS;
+
+            if (session.replacedBy && !rotatedJustNow) {
+                await sessions.revokeSessionFamily(session.familyId);
+                throw new RefreshTokenError('reused', 'Refresh token reuse detected', session.familyId);
+            }
+            throw new RefreshTokenError('invalid', 'Refresh token has been revoked');
+        }
+
+        if (!session.isValid) {
+            throw new RefreshTokenError('invalid', 'Session has expired');
+        }
+
+        const user = await sessions.findById(session.userId);
+        if (!user || user.status !== 'active') {
+            await sessions.revokeSessionFamily(session.familyId);
+            throw new RefreshTokenError('inactive', 'Account is not active', session.familyId);
+        }
+
+        const nextRefreshToken = await generateRefreshToken(user.id, { rememberMe: claims.rememberMe });
+        const rotated = await sessions.rotateSession(
+            session.id,
+            hashRefreshToken(nextRefreshToken),
+            device
+        );
+        if (!rotated) {
+            // Lost a concurrent rotation of the same token
+            throw new RefreshTokenError('invalid', 'Refresh token has been revoked');
+        }
+
+        const accessToken = await generateAccessToken({
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+            permissions: await this.permissions.resolve(user),
+        });
+
+        return {
+            user,
+            accessToken,
+            refreshToken: nextRefreshToken,
+            expiresIn: ACCESS_TOKEN_EXPIRY,
+            rememberMe: claims.rememberMe,
+        };
+    }
+}
@@ -0,0 +1,185 @@
+/**
+ * MODON Platform - Two-Factor Authentication Service (Application Layer)
+ * =======================================================================
+ * TOTP enrollment, verification, recovery codes and the per-role
+ * "2FA required" policy set by admins
+ */
+
+import { User, UserRole } from '@/core/entities/User';
+import { USER_ROLES } from '@/server/auth/jwt';
+import { IUserRepository, TwoFactorState } from '@/dal/interfaces';
+import {
+    buildTotpProvisioningUri,
+    decryptTotpSecret,
+    encryptTotpSecret,
+    generateRecoveryCodes,
+    generateTotpSecret,
+    hashRecoveryCode,
+    verifyTotpCode,
+} from '@/server/auth/totp';
+
+export type TwoFactorErrorCode =
+    | 'ALREADY_ENABLED'
+    | 'NOT_ENABLED'
+    | 'NO_PENDING_ENROLLMENT'
+    | 'INVALID_CODE'
+    | 'REQUIRED_BY_POLICY';
+
+export class TwoFactorError extends Error {
+    constructor(readonly code: TwoFactorErrorCode, message: string) {
+        super(message);
+        this.name = 'TwoFactorError';
+    }
+}
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt?: Date;
+    /** Enrollment started but not yet confirmed with a code */
+    pendingEnrollment: boolean;
+    recoveryCodesRemaining: number;
+    /** The user's role must use 2FA */
+    required: boolean;
+}
+
+export interface TwoFactorEnrollment {
+    /** Base32 secret for manual entry */
+    secret: string;
+    provisioningUri: string;
+    /** Payload to render as a QR code (the provisioning URI) */
+    qrPayload: string;
+}
+
+type TwoFactorMethod = 'totp' | 'recovery_code';
+
+/** Every role can be made to require 2FA */
+export const TWO_FACTOR_ROLES = USER_ROLES;
+
+export class TwoFactorAuthService {
+    constructor(private readonly userRepository: IUserRepository) { }
+
+    async getStatus(user: Pick<User, 'id' | 'role'>): Promise<TwoFactorStatus> {
+        const state = await this.getState(user.id);
+
+        return {
+            enabled: state.enabled,
+            enabledAt: state.enabledAt,
+            pendingEnrollment: !state.enabled && !!state.pendingSecret,
+            recoveryCodesRemaining: state.enabled ? state.recoveryCodeHashes.length : 0,
+            required: await this.isRequiredFor(user.role),
+        };
+    }
+
+    /**
+     * Start enrollment: a new secret is stored as pending until confirmEnrollment()
+     */
+    async beginEnrollment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrollment> {
+        const state = await this.getState(user.id);
+        if (state.enabled) {
+            throw new TwoFactorError('ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await this.userRepository.setPendingTwoFactorSecret(user.id, encryptTotpSecret(secret));
+
+        const provisioningUri = buildTotpProvisioningUri(secret, user.email);
+        return { secret, provisioningUri, qrPayload: provisioningUri };
+    }
+
+    /**
+     * Confirm enrollment with a code from the app. Returns the recovery codes,
+     * which are shown once and only stored hashed.
+     */
+    async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+        const state = await this.getState(userId);
+        if (state.enabled) {
+            throw new TwoFactorError('ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+        }
+        if (!state.pendingSecret) {
+            throw new TwoFactorError('NO_PENDING_ENROLLMENT', 'Start two-factor setup first');
+        }
+
+        const secret = decryptTotpSecret(state.pendingSecret);
+        const step = verifyTotpCode(secret, code);
+        if (step === null) {
+            throw new TwoFactorError('INVALID_CODE', 'Invalid authentication code');
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await this.userRepository.enable2FA(userId, state.pendingSecret, recoveryCodes.map(hashRecoveryCode));
+        await this.userRepository.recordTwoFactorStep(userId, step);
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Check a TOTP or recovery code for a user with 2FA enabled.
+     * Each TOTP step and each recovery code is accepted once.
+     */
+    async verify(userId: string, code: string): Promise<TwoFactorMethod> {
+        const state = await this.getState(userId);
+        if (!state.enabled || !state.secret) {
+            throw new TwoFactorError('NOT_ENABLED', 'Two-factor authentication is not enabled');
+        }
+
+        const normalized = code.trim();
+
+        if (/^\d{6}$/.test(normalized.replace(/\s/g, ''))) {
+            const step = verifyTotpCode(decryptTotpSecret(state.secret), normalized, state.lastUsedStep);
+            if (step !== null && await this.userRepository.recordTwoFactorStep(userId, step)) {
+                return 'totp';
+            }
+        } else if (await this.userRepository.consumeRecoveryCode(userId, hashRecoveryCode(normalized))) {
+            return 'recovery_code';
+        }
+
+        throw new TwoFactorError('INVALID_CODE', 'Invalid authentication code');
+    }
+
+    async disable(user: Pick<User, 'id' | 'role'>, code: string): Promise<void> {
+        if (await this.isRequiredFor(user.role)) {
+            throw new TwoFactorError('REQUIRED_BY_POLICY', 'Two-factor authentication is required for your role');
+        }
+
+        await this.verify(user.id, code);
+        await this.userRepository.disable2FA(user.id);
+    }
+
+    /**
+     * Replace all recovery codes (e.g. after using several); requires a current code
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+        await this.verify(userId, code);
+
+        const recoveryCodes = generateRecoveryCodes();
+        await this.userRepository.replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+
+        return recoveryCodes;
+    }
+
+    // ----------------------------------------
+    // Policy
+    // ----------------------------------------
+
+    async getRequiredRoles(): Promise<UserRole[]> {
+        return this.userRepository.getTwoFactorRequiredRoles();
+    }
+
+    async isRequiredFor(role: UserRole): Promise<boolean> {
+        return (await this.getRequiredRoles()).includes(role);
+    }
+
+    async setRequired(role: UserRole, required: boolean, updatedBy: string): Promise<UserRole[]> {
+        await this.userRepository.setTwoFactorRequired(role, required, updatedBy);
+        return this.getRequiredRoles();
+    }
+
+    // ----------------------------------------
+    // Helpers
+    // ----------------------------------------
+
+    private async getState(userId: string): Promise<TwoFactorState> {
+        const state = await this.userRepository.getTwoFactorState(userId);
+        return state ?? { enabled: false, recoveryCodeHashes: [] };
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * MODON Platform - User Session Service (Application Layer)
+ * ==========================================================
+ * Lists a user's signed-in devices and ends them. A device is a session
+ * family: its id stays the same while the refresh token rotates.
+ */
+
+import { IUserRepository, UserSession } from '@/dal/interfaces';
+import { hashRefreshToken } from './RefreshSessionUseCase';
+
+export interface ActiveSession {
+    /** Session family id */
+    id: string;
+    ip?: string;
+    userAgent?: string;
+    /** Last token refresh, i.e. last activity within ~15 minutes */
+    lastSeenAt: Date;
+    expiresAt: Date;
+    /** The session making this request */
+    current: boolean;
+}
+
+export class SessionNotFoundError extends Error {
+    constructor() {
+        super('Session not found');
+        this.name = 'SessionNotFoundError';
+    }
+}
+
+type SessionRepository = Pick<
+    IUserRepository,
+    'findSession' | 'listActiveSessions' | 'revokeSessionFamily' | 'revokeAllSessions' | 'revokeOtherSessions'
+>;
+
+export class UserSessionService {
+    constructor(private readonly userRepository: SessionRepository) { }
+
+    /**
+     * @param currentRefreshToken - refresh cookie of the caller, to mark its session
+     */
+    async list(userId: string, currentRefreshToken?: string): Promise<ActiveSession[]> {
+        const sessions = await this.repository().listActiveSessions(userId);
+        const current = await this.findCurrent(userId, currentRefreshToken);
+
+        return sessions.map(session => ({
+            id: session.familyId,
+            ip: session.ip,
+            userAgent: session.userAgent,
+            lastSeenAt: session.createdAt,
+            expiresAt: session.expiresAt,
+            current: current?.familyId === session.familyId,
+        }));
+    }
+
+    /**
+     * End one device. Returns true when it was the caller's own session.
+     */
+    async revoke(userId: string, sessionId: string, currentRefreshToken?: string): Promise<boolean> {
+        const repository = this.repository();
+
+        const sessions = await repository.listActiveSessions(userId);
+        if (!sessions.some(session => session.familyId === sessionId)) {
+            throw new SessionNotFoundError();
+        }
+
+        const current = await this.findCurrent(userId, currentRefreshToken);
+        await repository.revokeSessionFamily(sessionId);
+
+        return current?.familyId === sessionId;
+    }
+
+    /**
+     * Sign out every device except the caller's
+     */
+    async revokeOthers(userId: string, currentRefreshToken?: string): Promise<void> {
+        const current = await this.findCurrent(userId, currentRefreshToken);
+        if (!current) throw new SessionNotFoundError();
+
+        await this.repository().revokeOtherSessions(userId, current.familyId);
+    }
+
+    /**
+     * Force logout (admin). Access tokens already issued stay valid until they expire.
+     */
+    async revokeAll(userId: string): Promise<void> {
+        await this.repository().revokeAllSessions(userId);
+    }
+
+    private async findCurrent(userId: string, refreshToken?: string): Promise<UserSession | null> {
+        if (!refreshToken) return null;
+
+        const session = await this.repository().findSession(hashRefreshToken(refreshToken));
+        return session && session.userId === userId && session.isValid ? session : null;
+    }
+
+    /**
+     * The session methods are optional on IUserRepository; every store used here implements them
+     */
+    private repository(): Required<SessionRepository> {
+        const repository = this.userRepository;
+        if (!supportsSessions(repository)) {
+            throw new Error('User repository does not support session management');
+        }
+        return repository;
+    }
+}
+
+function supportsSessions(repository: SessionRepository): repository is Required<SessionRepository> {
+    return Boolean(
+        repository.findSession &&
+        repository.listActiveSessions &&
+        repository.revokeSessionFamily &&
+        repository.revokeAllSessions &&
+        repository.revokeOtherSessions
+    );
+}
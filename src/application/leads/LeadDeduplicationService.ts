@@ -0,0 +1,202 @@
+/**
+ * MODON Platform - Lead Deduplication Service (Application Layer)
+ * ================================================================
+ * Every public form posts to the same endpoint, so one person often sends
+ * several requests. A repeat submission joins that person's open lead as a
+ * timeline entry, and admins can merge the duplicates that slipped through.
+ */
+
+import { ILeadActivityRepository, ILeadRepository } from '@/dal/interfaces';
+import {
+    isOpenLead,
+    isSameContact,
+    Lead,
+    LEAD_DUPLICATE_WINDOW_DAYS,
+    LEAD_PRIORITIES,
+    LeadContactMatch,
+    leadPhoneKey,
+    matchLeadContact,
+} from '@/core/entities/Lead';
+
+export type LeadMergeErrorCode = 'NOT_FOUND' | 'INVALID_MERGE';
+
+export class LeadMergeError extends Error {
+    constructor(readonly code: LeadMergeErrorCode, message: string) {
+        super(message);
+        this.name = 'LeadMergeError';
+    }
+}
+
+/** A form submission, as it would be stored on a new lead */
+export type LeadSubmission = Pick<
+    Lead,
+    'name' | 'email' | 'phone' | 'subject' | 'message' | 'type' | 'propertyId' | 'propertyTitle' | 'propertySlug' | 'source'
+>;
+
+export interface LeadDuplicate {
+    lead: Lead;
+    matchedOn: LeadContactMatch[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class LeadDeduplicationService {
+    constructor(
+        private readonly leadRepository: ILeadRepository,
+        private readonly activityRepository: ILeadActivityRepository
+    ) { }
+
+    /**
+     * The open lead a new submission from this person belongs to: the newest
+     * one matching their contact details that was active within the window.
+     * Newsletter sign-ups are kept apart from requests.
+     */
+    async findExisting(
+        contact: Pick<Lead, 'name' | 'email' | 'phone' | 'type'>,
+        now: Date = new Date()
+    ): Promise<Lead | null> {
+        if (contact.type === 'newsletter') return null;
+
+        const candidates = await this.leadRepository.findByContact(
+            { email: contact.email, phoneKey: leadPhoneKey(contact.phone) },
+            { updatedSince: new Date(now.getTime() - LEAD_DUPLICATE_WINDOW_DAYS * DAY_MS) }
+        );
+
+        return candidates.find(lead =>
+            lead.type !== 'newsletter' && isOpenLead(lead) && isSameContact(matchLeadContact(contact, lead))
+        ) ?? null;
+    }
+
+    /**
+     * Add a repeat submission to the lead's timeline and fill in the contact
+     * and property details the lead was missing. The submission's metadata
+     * (campaign parameters and the like) is kept on its timeline entry.
+     */
+    async attachSubmission(
+        lead: Lead,
+        submission: LeadSubmission,
+        metadata: Record<string, unknown> = {}
+    ): Promise<Lead> {
+        const patch: Partial<Lead> = {
+            metadata: { ...lead.metadata, submissionCount: submissionCount(lead) + 1 },
+        };
+
+        if (!lead.phone && submission.phone) patch.phone = submission.phone;
+        if (!lead.propertyId && !lead.propertySlug && (submission.propertyId || submission.propertySlug)) {
+            patch.propertyId = submission.propertyId;
+            patch.propertyTitle = submission.propertyTitle;
+            patch.propertySlug = submission.propertySlug;
+        }
+
+        const updated = await this.leadRepository.update(lead.id, patch);
+
+        await this.activityRepository.create({
+            leadId: lead.id,
+            type: 'submission',
+            body: submission.message,
+            details: {
+                name: submission.name,
+                email: submission.email,
+                phone: submission.phone ?? null,
+                type: submission.type,
+                subject: submission.subject ?? null,
+                propertyTitle: submission.propertyTitle ?? null,
+                source: submission.source,
+                metadata,
+            },
+        });
+
+        return updated;
+    }
+
+    /**
+     * Other leads from the same email or phone, whatever their stage or age,
+     * for an admin to review
+     */
+    async findDuplicates(lead: Lead): Promise<LeadDuplicate[]> {
+        const candidates = await this.leadRepository.findByContact({
+            email: lead.email,
+            phoneKey: leadPhoneKey(lead.phone),
+        });
+
+        return candidates
+            .filter(candidate => candidate.id !== lead.id)
+            .map(candidate => ({ lead: candidate, matchedOn: matchLeadContact(lead, candidate) }));
+    }
+
+    /**
+     * Fold the duplicates into the primary lead: their timelines move over,
+     * each leaves a merge entry with its original request, missing details and
+     * the higher score and priority carry over, and the duplicates are deleted.
+     * The primary keeps its own stage and assignee.
+     *
+     * The primary is updated before anything is moved or deleted, so a failure
+     * partway never loses a deleted duplicate's details.
+     */
+    async merge(primaryId: string, duplicateIds: string[], actorId: string): Promise<Lead> {
+        const ids = [...new Set(duplicateIds)];
+        if (ids.length === 0 || ids.includes(primaryId)) {
+            throw new LeadMergeError('INVALID_MERGE', 'Choose other leads to merge into this one');
+        }
+
+        const primary = await this.leadRepository.findById(primaryId);
+        const duplicates = await Promise.all(ids.map(id => this.leadRepository.findById(id)));
+        if (!primary || duplicates.some(duplicate => !duplicate)) {
+            throw new LeadMergeError('NOT_FOUND', 'Lead not found');
+        }
+
+        const patch: Partial<Lead> = {};
+        let count = submissionCount(primary);
+
+        for (const duplicate of duplicates as Lead[]) {
+            const merged = { ...primary, ...patch };
+
+            if (!merged.phone && duplicate.phone) patch.phone = duplicate.phone;
+            if (!merged.propertyId && !merged.propertySlug && (duplicate.propertyId || duplicate.propertySlug)) {
+                patch.propertyId = duplicate.propertyId;
+                patch.propertyTitle = duplicate.propertyTitle;
+                patch.propertySlug = duplicate.propertySlug;
+            }
+            if (duplicate.notes) {
+                patch.notes = merged.notes ? `${merged.notes}\n\n${duplicate.notes}` : duplicate.notes;
+            }
+            if ((duplicate.score ?? -1) > (merged.score ?? -1)) patch.score = duplicate.score;
+            if (LEAD_PRIORITIES.indexOf(duplicate.priority) > LEAD_PRIORITIES.indexOf(merged.priority)) {
+                patch.priority = duplicate.priority;
+            }
+            count += submissionCount(duplicate);
+        }
+
+        patch.metadata = { ...primary.metadata, submissionCount: count };
+        const updated = await this.leadRepository.update(primary.id, patch);
+
+        for (const duplicate of duplicates as Lead[]) {
+            await this.activityRepository.moveToLead(duplicate.id, primary.id);
+            await this.activityRepository.create({
+                leadId: primary.id,
+                type: 'merge',
+                authorId: actorId,
+                body: duplicate.message,
+                details: {
+                    leadId: duplicate.id,
+                    name: duplicate.name,
+                    email: duplicate.email,
+                    phone: duplicate.phone ?? null,
+                    type: duplicate.type,
+                    status: duplicate.status,
+                    source: duplicate.source,
+                    createdAt: duplicate.createdAt.toISOString(),
+                },
+            });
+            await this.leadRepository.delete(duplicate.id);
+        }
+
+        return updated;
+    }
+}
+
+/** Form submissions the lead stands for, counting the one that created it */
+function submissionCount(lead: Lead): number {
+    const count = lead.metadata.submissionCount;
+    return typeof count === 'number' && count > 0 ? count : 1;
+}
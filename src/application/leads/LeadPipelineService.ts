@@ -0,0 +1,178 @@
+/**
+ * MODON Platform - Lead Pipeline Service (Application Layer)
+ * ===========================================================
+ * Moves leads through the sales pipeline (only along LEAD_TRANSITIONS,
+ * stamping each stage), assigns them to agents and keeps each lead's
+ * activity timeline: every status, assignment and note change, plus the
+ * calls, emails and viewings people log.
+ */
+
+import { ILeadActivityRepository, ILeadRepository, IUserRepository } from '@/dal/interfaces';
+import {
+    Lead,
+    LeadActivity,
+    LeadPriority,
+    LeadStatus,
+    ManualLeadActivityType,
+    transitionLead,
+} from '@/core/entities/Lead';
+import { User, UserRole } from '@/core/entities/User';
+
+/** Roles a lead can be assigned to */
+export const LEAD_ASSIGNEE_ROLES: readonly UserRole[] = ['agent', 'admin'];
+
+export type LeadPipelineErrorCode = 'NOT_FOUND' | 'INVALID_ASSIGNEE';
+
+export class LeadPipelineError extends Error {
+    constructor(readonly code: LeadPipelineErrorCode, message: string) {
+        super(message);
+        this.name = 'LeadPipelineError';
+    }
+}
+
+export interface LeadChanges {
+    status?: LeadStatus;
+    /** Recorded when the lead moves to lost */
+    lostReason?: string;
+    priority?: LeadPriority;
+    notes?: string;
+    /** null unassigns */
+    assignedTo?: string | null;
+}
+
+type LeadUserRepository = Pick<IUserRepository, 'findById' | 'findAll'>;
+
+export class LeadPipelineService {
+    constructor(
+        private readonly leadRepository: ILeadRepository,
+        private readonly userRepository: LeadUserRepository,
+        private readonly activityRepository: ILeadActivityRepository
+    ) { }
+
+    /**
+     * Apply the changes in one update and add them to the lead's timeline.
+     * Throws LeadTransitionError when the status change is not allowed from
+     * the lead's current stage.
+     */
+    async update(id: string, changes: LeadChanges, actorId?: string): Promise<Lead> {
+        const lead = await this.leadRepository.findById(id);
+        if (!lead) {
+            throw new LeadPipelineError('NOT_FOUND', `Lead not found: ${id}`);
+        }
+
+        const now = new Date();
+        let patch: Partial<Lead> = {};
+
+        if (changes.status && changes.status !== lead.status) {
+            patch = transitionLead(lead, changes.status, { at: now, lostReason: changes.lostReason });
+        }
+
+        if (changes.assignedTo !== undefined && (changes.assignedTo ?? undefined) !== lead.assignedTo) {
+            if (changes.assignedTo) {
+                await this.assertAssignable(changes.assignedTo);
+            }
+            patch.assignedTo = changes.assignedTo ?? undefined;
+            patch.assignedAt = changes.assignedTo ? now : undefined;
+        }
+
+        if (changes.priority && changes.priority !== lead.priority) {
+            patch.priority = changes.priority;
+        }
+
+        if (changes.notes !== undefined && changes.notes !== (lead.notes ?? '')) {
+            patch.notes = changes.notes;
+        }
+
+        if (Object.keys(patch).length === 0) return lead;
+
+        const updated = await this.leadRepository.update(id, patch);
+        await this.recordChanges(lead, updated, actorId);
+        return updated;
+    }
+
+    /**
+     * Log a note, call, email or viewing on a lead
+     */
+    async logActivity(
+        leadId: string,
+        activity: { type: ManualLeadActivityType; body: string; details?: Record<string, unknown> },
+        authorId: string
+    ): Promise<LeadActivity> {
+        const lead = await this.leadRepository.findById(leadId);
+        if (!lead) {
+            throw new LeadPipelineError('NOT_FOUND', `Lead not found: ${leadId}`);
+        }
+
+        return this.activityRepository.create({
+            leadId,
+            type: activity.type,
+            authorId,
+            body: activity.body,
+            details: activity.details ?? {},
+        });
+    }
+
+    /**
+     * The lead's timeline, newest first
+     */
+    async getActivities(leadId: string, limit?: number): Promise<LeadActivity[]> {
+        return this.activityRepository.findByLead(leadId, limit);
+    }
+
+    /**
+     * Active users leads can be assigned to
+     */
+    async listAssignees(): Promise<User[]> {
+        const results = await Promise.all(LEAD_ASSIGNEE_ROLES.map(role =>
+            this.userRepository.findAll({ role, status: 'active', limit: 100 })
+        ));
+
+        return results.flatMap(result => result.data);
+    }
+
+    /**
+     * The update itself already succeeded, so a timeline write that fails is
+     * logged rather than reported as a failed update.
+     */
+    private async recordChanges(before: Lead, after: Lead, authorId?: string): Promise<void> {
+        const entries: Omit<LeadActivity, 'id' | 'createdAt'>[] = [];
+
+        if (after.status !== before.status) {
+            entries.push({
+                leadId: after.id,
+                type: 'status_change',
+                authorId,
+                details: { from: before.status, to: after.status, lostReason: after.lostReason },
+            });
+        }
+
+        if (after.assignedTo !== before.assignedTo) {
+            entries.push({
+                leadId: after.id,
+                type: 'assignment',
+                authorId,
+                details: { from: before.assignedTo ?? null, to: after.assignedTo ?? null },
+            });
+        }
+
+        if (after.notes !== before.notes && after.notes) {
+            entries.push({ leadId: after.id, type: 'note', authorId, body: after.notes, details: {} });
+        }
+
+        try {
+            for (const entry of entries) {
+                await this.activityRepository.create(entry);
+            }
+        } catch (error) {
+            console.error(`[LEADS] Failed to record activity for lead ${after.id}:`, error);
+        }
+    }
+
+    private async assertAssignable(userId: string): Promise<void> {
+        const user = await this.userRepository.findById(userId);
+
+        if (!user || user.status !== 'active' || !LEAD_ASSIGNEE_ROLES.includes(user.role)) {
+            throw new LeadPipelineError('INVALID_ASSIGNEE', 'Leads can only be assigned to active agents');
+        }
+    }
+}
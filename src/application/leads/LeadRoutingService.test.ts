@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Lead } from '@/core/entities/Lead';
+import { DEFAULT_LEAD_RULES, LeadRules } from '@/core/entities/LeadRules';
+import { User } from '@/core/entities/User';
+import { PaginatedResult, UserSearchCriteria } from '@/dal/interfaces';
+import { InMemoryLeadActivityRepository } from '@/dal/repositories/InMemoryLeadActivityRepository';
+import { InMemoryLeadRepository } from '@/dal/repositories/InMemoryLeadRepository';
+import { InMemoryLeadRulesRepository } from '@/dal/repositories/InMemoryLeadRulesRepository';
+import { InMemoryPropertyRepository } from '@/dal/repositories/InMemoryPropertyRepository';
+import { LeadPipelineService } from './LeadPipelineService';
+import { LeadRoutingService } from './LeadRoutingService';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+function agent(id: string, city: string, specializations: string[] = []): User {
+    return {
+        id,
+        email: `${id}@modon.test`,
+        emailVerified: true,
+        role: 'agent',
+        status: 'active',
+        profile: { firstName: id, lastName: 'Agent' },
+        address: { city },
+        specializations,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        updatedAt: new Date('2026-01-01T00:00:00Z'),
+        twoFactorEnabled: false,
+    } as User;
+}
+
+const AGENTS = [
+    agent('dubai-1', 'Dubai'),
+    agent('dubai-2', 'Dubai'),
+    agent('luxury-1', 'Cairo', ['luxury']),
+];
+
+function lead(id: string, changes: Partial<Lead> = {}): Lead {
+    return {
+        id,
+        name: 'Mona Adel',
+        firstName: 'Mona',
+        lastName: 'Adel',
+        email: `${id}@example.com`,
+        preferredContact: 'email',
+        message: 'Please call me back',
+        type: 'contact',
+        status: 'new',
+        priority: 'normal',
+        source: 'website',
+        metadata: {},
+        createdAt: new Date('2026-03-01T09:00:00Z'),
+        updatedAt: new Date('2026-03-01T09:00:00Z'),
+        ...changes,
+    };
+}
+
+/** Only the lookups routing and the pipeline make */
+const userRepository = {
+    async findById(id: string) {
+        return AGENTS.find(user => user.id === id) ?? null;
+    },
+    async findAll(criteria: UserSearchCriteria = {}): Promise<PaginatedResult<User>> {
+        const data = AGENTS.filter(user => !criteria.role || user.role === criteria.role);
+        return {
+            data,
+            pagination: { page: 1, limit: 100, total: data.length, totalPages: 1, hasNext: false, hasPrev: false },
+        };
+    },
+};
+
+describe('LeadRoutingService', () => {
+    let leads: InMemoryLeadRepository;
+    let rules: InMemoryLeadRulesRepository;
+    let service: LeadRoutingService;
+
+    beforeEach(() => {
+        leads = new InMemoryLeadRepository([
+            lead('open-1', { assignedTo: 'dubai-1', assignedAt: new Date('2026-03-01T10:00:00Z') }),
+            lead('inquiry', { type: 'property_inquiry', phone: '+971 50 123 4567', propertyId: 'mock-property-001' }),
+            lead('newsletter', { type: 'newsletter' }),
+        ]);
+        rules = new InMemoryLeadRulesRepository();
+
+        const pipeline = new LeadPipelineService(leads, userRepository, new InMemoryLeadActivityRepository());
+        service = new LeadRoutingService(rules, leads, new InMemoryPropertyRepository(), userRepository, pipeline);
+    });
+
+    it('scores a property inquiry from the linked property and routes it by the default rules', async () => {
+        const inquiry = (await leads.findById('inquiry'))!;
+
+        const processed = await service.process(inquiry);
+
+        // 15 for the type, 30 for a 45M AED villa, 15 for phone and full name
+        expect(processed.score).toBe(60);
+        expect(processed.priority).toBe('urgent');
+        // 50 and up goes to a luxury specialist wherever they are based
+        expect(processed.assignedTo).toBe('luxury-1');
+    });
+
+    it('uses the rules an admin saved, here only the same-city round robin', async () => {
+        const saved: LeadRules = {
+            ...DEFAULT_LEAD_RULES,
+            routing: { ...DEFAULT_LEAD_RULES.routing, rules: DEFAULT_LEAD_RULES.routing.rules.slice(1) },
+        };
+        await rules.save(saved, 'admin-1');
+
+        const processed = await service.process((await leads.findById('inquiry'))!);
+
+        expect(processed.assignedTo).toBe('dubai-2');
+    });
+
+    it('stores the score but leaves excluded types unassigned', async () => {
+        const processed = await service.process((await leads.findById('newsletter'))!);
+
+        expect(processed.score).toBe(0);
+        expect(processed.priority).toBe('low');
+        expect(processed.assignedTo).toBeUndefined();
+    });
+
+    it('raises the score of a lead a higher value request joined, keeping its assignee', async () => {
+        const open = await leads.update('open-1', { score: 5, priority: 'low' });
+
+        const rescored = await service.rescore({ ...open, type: 'property_inquiry', propertyId: 'mock-property-001' });
+
+        // 15 for the type, 30 for the villa, 5 for the full name; no phone on this lead
+        expect(rescored.score).toBe(50);
+        expect(rescored.priority).toBe('high');
+        expect(rescored.assignedTo).toBe('dubai-1');
+    });
+
+    it('never lowers the score or priority', async () => {
+        const open = await leads.update('open-1', { score: 90, priority: 'urgent' });
+
+        const rescored = await service.rescore(open);
+
+        expect(rescored.score).toBe(90);
+        expect(rescored.priority).toBe('urgent');
+    });
+});
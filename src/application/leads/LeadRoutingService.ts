@@ -0,0 +1,156 @@
+/**
+ * MODON Platform - Lead Routing Service (Application Layer)
+ * ==========================================================
+ * Scores each new lead from its type, the linked property's price, how
+ * complete the contact details are and where it came from, then hands it to
+ * an agent following the routing rules admins maintain.
+ */
+
+import {
+    ILeadRepository,
+    ILeadRulesRepository,
+    IPropertyRepository,
+    IUserRepository,
+    StoredLeadRules,
+} from '@/dal/interfaces';
+import { Lead, LEAD_PRIORITIES } from '@/core/entities/Lead';
+import {
+    DEFAULT_LEAD_RULES,
+    LeadRoutingCandidate,
+    LeadRoutingDecision,
+    LeadRules,
+    LeadScore,
+    routeLead,
+    scoreLead,
+} from '@/core/entities/LeadRules';
+import { Property } from '@/core/entities/Property';
+import { convertPrice, isSupportedCurrency } from '@/lib/currency';
+import { LeadPipelineService } from './LeadPipelineService';
+
+export interface LeadRoutingResult {
+    score: LeadScore;
+    /** null when the lead stays unassigned */
+    decision: LeadRoutingDecision | null;
+}
+
+type RoutingLeadRepository = Pick<ILeadRepository, 'update' | 'getAssigneeWorkload'>;
+type RoutingPropertyRepository = Pick<IPropertyRepository, 'findById' | 'findBySlug'>;
+type RoutingUserRepository = Pick<IUserRepository, 'findAll'>;
+
+export class LeadRoutingService {
+    constructor(
+        private readonly rulesRepository: ILeadRulesRepository,
+        private readonly leadRepository: RoutingLeadRepository,
+        private readonly propertyRepository: RoutingPropertyRepository,
+        private readonly userRepository: RoutingUserRepository,
+        private readonly pipeline: Pick<LeadPipelineService, 'update'>
+    ) { }
+
+    /**
+     * The saved rules, or the defaults until an admin saves some
+     */
+    async getRules(): Promise<Partial<StoredLeadRules> & Pick<StoredLeadRules, 'rules'>> {
+        return (await this.rulesRepository.get()) ?? { rules: DEFAULT_LEAD_RULES };
+    }
+
+    async saveRules(rules: LeadRules, actorId: string): Promise<StoredLeadRules> {
+        return this.rulesRepository.save(rules, actorId);
+    }
+
+    /**
+     * Score the lead and decide who should own it, without changing anything
+     */
+    async evaluate(lead: Lead, rules?: LeadRules): Promise<LeadRoutingResult> {
+        const { scoring, routing } = rules ?? (await this.getRules()).rules;
+        const property = await this.findProperty(lead);
+
+        const price = property && !property.price.priceOnRequest
+            ? isSupportedCurrency(scoring.priceCurrency)
+                ? convertPrice(property.price, scoring.priceCurrency)
+                : property.price.amount
+            : undefined;
+
+        const score = scoreLead({
+            type: lead.type,
+            source: lead.source,
+            firstName: lead.firstName,
+            lastName: lead.lastName,
+            phone: lead.phone,
+            message: lead.message,
+            propertyPrice: price,
+        }, scoring);
+
+        const city = property?.location.city
+            ?? (typeof lead.metadata.city === 'string' ? lead.metadata.city : undefined);
+
+        const decision = routing.enabled && !lead.assignedTo
+            ? routeLead({ type: lead.type, score: score.score, city }, await this.listCandidates(), routing)
+            : null;
+
+        return { score, decision };
+    }
+
+    /**
+     * Store the lead's score and priority and assign it. The assignment goes
+     * through the pipeline so it lands on the lead's timeline as a system change.
+     */
+    async process(lead: Lead): Promise<Lead> {
+        const { score, decision } = await this.evaluate(lead);
+
+        let updated = await this.leadRepository.update(lead.id, {
+            score: score.score,
+            priority: score.priority,
+        });
+
+        if (decision) {
+            updated = await this.pipeline.update(lead.id, { assignedTo: decision.agentId });
+        }
+
+        return updated;
+    }
+
+    /**
+     * Score a lead again after a repeat submission joined it. The score and
+     * priority only ever go up, and the lead keeps its assignee.
+     */
+    async rescore(lead: Lead): Promise<Lead> {
+        const { rules } = await this.getRules();
+        const { score } = await this.evaluate(lead, { ...rules, routing: { ...rules.routing, enabled: false } });
+
+        const patch: Partial<Lead> = {};
+        if (score.score > (lead.score ?? -1)) patch.score = score.score;
+        if (LEAD_PRIORITIES.indexOf(score.priority) > LEAD_PRIORITIES.indexOf(lead.priority)) {
+            patch.priority = score.priority;
+        }
+
+        return Object.keys(patch).length > 0 ? this.leadRepository.update(lead.id, patch) : lead;
+    }
+
+    private async findProperty(lead: Lead): Promise<Property | null> {
+        try {
+            if (lead.propertyId) return await this.propertyRepository.findById(lead.propertyId);
+            if (lead.propertySlug) return await this.propertyRepository.findBySlug(lead.propertySlug);
+        } catch (error) {
+            console.error(`[LEADS] Failed to load property for lead ${lead.id}:`, error);
+        }
+        return null;
+    }
+
+    /**
+     * Active agents with their current workload
+     */
+    private async listCandidates(): Promise<LeadRoutingCandidate[]> {
+        const [agents, workload] = await Promise.all([
+            this.userRepository.findAll({ role: 'agent', status: 'active', limit: 100 }),
+            this.leadRepository.getAssigneeWorkload(),
+        ]);
+
+        return agents.data.map(agent => ({
+            id: agent.id,
+            city: agent.address?.city,
+            specializations: agent.specializations ?? [],
+            openLeads: workload[agent.id]?.openLeads ?? 0,
+            lastAssignedAt: workload[agent.id]?.lastAssignedAt,
+        }));
+    }
+}
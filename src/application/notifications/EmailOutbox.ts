@@ -0,0 +1,128 @@
+/**
+ * MODON Platform - Email Outbox (Application Layer)
+ * ==================================================
+ * Transactional email is written to the notification outbox first and
+ * delivered afterwards, so a slow or failing mail server never blocks a
+ * request or loses a message. Failed sends are retried with exponential
+ * backoff until maxAttempts, then left as 'failed' for inspection.
+ */
+
+import { INotificationRepository, Notification } from '@/dal/interfaces';
+import { EmailTransport } from '@/lib/email';
+import { hasEmailTemplate, renderEmail } from '@/lib/email/templates';
+
+export interface EmailOutboxOptions {
+    /** Site origin for links in rendered emails */
+    siteUrl: string;
+    maxAttempts?: number;
+    /** Delay before the first retry; doubles with every further attempt */
+    retryDelayMs?: number;
+    /** How long a claimed batch is reserved for this worker */
+    leaseMs?: number;
+}
+
+export interface OutboxEmail {
+    /** Template key, e.g. 'lead_acknowledgement' */
+    type: string;
+    to: string;
+    locale?: string;
+    /** Account the email belongs to, when there is one */
+    userId?: string;
+    payload: Record<string, unknown>;
+    /** Queues the email at most once per key */
+    dedupeKey?: string;
+}
+
+export interface OutboxRunResult {
+    claimed: number;
+    sent: number;
+    retrying: number;
+    failed: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000; // 1, 2, 4, 8 minutes
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+export class EmailOutbox {
+    constructor(
+        private readonly notificationRepository: INotificationRepository,
+        private readonly transport: EmailTransport,
+        private readonly options: EmailOutboxOptions
+    ) { }
+
+    /**
+     * Persist an email for delivery. Does not send; see deliverDue().
+     */
+    async enqueue(email: OutboxEmail): Promise<Notification> {
+        if (!hasEmailTemplate(email.type)) {
+            throw new Error(`No email template for notification type "${email.type}"`);
+        }
+
+        return this.notificationRepository.enqueue({
+            userId: email.userId,
+            channel: 'email',
+            type: email.type,
+            recipient: email.to,
+            locale: email.locale || 'en',
+            payload: email.payload,
+            dedupeKey: email.dedupeKey,
+        });
+    }
+
+    /**
+     * Send the pending emails that are due, recording each attempt
+     */
+    async deliverDue(limit: number = 20): Promise<OutboxRunResult> {
+        const due = await this.notificationRepository.claimDue(limit, this.options.leaseMs ?? DEFAULT_LEASE_MS);
+        const result: OutboxRunResult = { claimed: due.length, sent: 0, retrying: 0, failed: 0 };
+
+        for (const notification of due) {
+            const outcome = await this.deliver(notification);
+            result[outcome]++;
+        }
+
+        if (due.length > 0) {
+            console.info(
+                `[OUTBOX] ${result.claimed} claimed via ${this.transport.name}: ` +
+                `${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`
+            );
+        }
+
+        return result;
+    }
+
+    private async deliver(notification: Notification): Promise<'sent' | 'retrying' | 'failed'> {
+        let message;
+        try {
+            message = renderEmail(notification.type, notification.locale, notification.payload, this.options.siteUrl);
+        } catch (error) {
+            // A notification that cannot be rendered will not render on retry either
+            await this.notificationRepository.markFailed(notification.id, errorMessage(error));
+            return 'failed';
+        }
+
+        try {
+            await this.transport.send({ to: notification.recipient, ...message });
+            await this.notificationRepository.markSent(notification.id);
+            return 'sent';
+        } catch (error) {
+            const attempt = notification.attempts + 1;
+            const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+            if (attempt >= maxAttempts) {
+                console.error(`[OUTBOX] Giving up on ${notification.type} ${notification.id} after ${attempt} attempts:`, error);
+                await this.notificationRepository.markFailed(notification.id, errorMessage(error));
+                return 'failed';
+            }
+
+            const delay = (this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** (attempt - 1);
+            await this.notificationRepository.markFailed(notification.id, errorMessage(error), new Date(Date.now() + delay));
+            return 'retrying';
+        }
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -7,22 +7,39 @@
 import { Property } from '@/core/entities/Property';
 import {
     IPropertyRepository,
+    IUserRepository,
     PropertySearchCriteria,
     PaginatedResult
 } from '@/dal/interfaces';
 import { PropertySearchSchema } from '@/contracts/schemas';
+import { sanitizeInput } from '@/lib/sanitize';
+import {
+    ExchangeRates,
+    ExchangeRatesInfo,
+    SupportedCurrency,
+    convertPrice,
+    defaultCurrency,
+    describeExchangeRates,
+    getExchangeRates,
+    isSupportedCurrency,
+} from '@/lib/currency';
 
 export interface GetPropertiesInput {
     query?: string;
     type?: string;
     listingType?: string;
+    status?: string;
     city?: string;
     region?: string;
     country?: string;
     minPrice?: number;
     maxPrice?: number;
+    /** Currency of the price filters and of convertedPrice (defaults to the viewer's preference) */
+    currency?: string;
     minBedrooms?: number;
     maxBedrooms?: number;
+    minBathrooms?: number;
+    maxBathrooms?: number;
     minArea?: number;
     maxArea?: number;
     features?: string[];
@@ -30,13 +47,22 @@ export interface GetPropertiesInput {
     hasGarden?: boolean;
     hasSeaview?: boolean;
     isFeatured?: boolean;
+    isExclusive?: boolean;
+    isOffMarket?: boolean;
     sortBy?: string;
     page?: number;
     limit?: number;
 }
 
+export type PropertyWithConvertedPrice = Property & {
+    /** The listing price in the search currency; `price` stays as listed */
+    convertedPrice: { amount: number; currency: SupportedCurrency };
+};
+
 export interface GetPropertiesOutput {
-    properties: Property[];
+    properties: PropertyWithConvertedPrice[];
+    currency: SupportedCurrency;
+    exchangeRates: ExchangeRatesInfo;
     pagination: {
         page: number;
         limit: number;
@@ -52,23 +78,90 @@ export interface GetPropertiesOutput {
     };
 }
 
+/**
+ * Maps URL query parameters onto the use case input.
+ * Validation happens in the use case (PropertySearchSchema); this only
+ * converts strings and resolves the legacy parameter aliases.
+ */
+export function toGetPropertiesInput(searchParams: URLSearchParams): GetPropertiesInput {
+    const text = (...keys: string[]): string | undefined => {
+        for (const key of keys) {
+            const value = searchParams.get(key)?.trim();
+            if (value && value.toLowerCase() !== 'all') return value;
+        }
+        return undefined;
+    };
+
+    const number = (...keys: string[]): number | undefined => {
+        const value = text(...keys);
+        return value === undefined ? undefined : Number(value);
+    };
+
+    const flag = (...keys: string[]): boolean | undefined => {
+        const value = text(...keys);
+        return value === undefined ? undefined : value === 'true' || value === '1';
+    };
+
+    const features = text('features');
+
+    return {
+        query: text('q', 'query') ? sanitizeInput(text('q', 'query')!, { maxLength: 200 }) : undefined,
+        type: text('type')?.toLowerCase(),
+        listingType: text('listingType'),
+        status: text('status'),
+        city: text('city'),
+        region: text('region'),
+        country: text('country'),
+        minPrice: number('minPrice'),
+        maxPrice: number('maxPrice'),
+        currency: text('currency')?.toUpperCase(),
+        minBedrooms: number('minBedrooms', 'minBeds'),
+        maxBedrooms: number('maxBedrooms', 'maxBeds'),
+        minBathrooms: number('minBathrooms', 'minBaths'),
+        maxBathrooms: number('maxBathrooms', 'maxBaths'),
+        minArea: number('minArea'),
+        maxArea: number('maxArea'),
+        features: features ? features.split(',').map(f => f.trim()).filter(Boolean) : undefined,
+        hasPool: flag('hasPool'),
+        hasGarden: flag('hasGarden'),
+        hasSeaview: flag('hasSeaview'),
+        isFeatured: flag('isFeatured', 'featured'),
+        isExclusive: flag('isExclusive', 'exclusive'),
+        isOffMarket: flag('isOffMarket'),
+        sortBy: text('sortBy'),
+        page: number('page') ?? 1,
+        limit: number('limit') ?? 12,
+    };
+}
+
 /**
  * Use Case: Get Properties with filters and pagination
  * Follows CoreX Clean Architecture principles
  */
 export class GetPropertiesUseCase {
-    constructor(private readonly propertyRepository: IPropertyRepository) { }
-
-    async execute(input: GetPropertiesInput): Promise<GetPropertiesOutput> {
+    constructor(
+        private readonly propertyRepository: IPropertyRepository,
+        private readonly exchangeRates?: { getRates(): Promise<ExchangeRates> },
+        private readonly userRepository?: Pick<IUserRepository, 'findById'>
+    ) { }
+
+    /**
+     * @param viewerId - Logged-in user whose preferred currency applies when none is requested
+     */
+    async execute(input: GetPropertiesInput, viewerId?: string): Promise<GetPropertiesOutput> {
         // 1. Validate input using Zod schema
         const validatedInput = PropertySearchSchema.parse(input);
+        const currency = validatedInput.currency ?? await this.preferredCurrency(viewerId);
+
+        // Refresh the rates before the repository converts price filters with them
+        const rates = this.exchangeRates ? await this.exchangeRates.getRates() : getExchangeRates();
 
         // 2. Build search criteria
         const criteria: PropertySearchCriteria = {
             query: validatedInput.query,
             type: validatedInput.type,
             listingType: validatedInput.listingType,
-            status: 'published', // Only show published properties
+            status: validatedInput.status ?? 'active', // Live listings unless a status is requested
 
             city: validatedInput.city,
             region: validatedInput.region,
@@ -76,7 +169,7 @@ export class GetPropertiesUseCase {
 
             minPrice: validatedInput.minPrice,
             maxPrice: validatedInput.maxPrice,
-            currency: validatedInput.currency,
+            currency,
 
             minBedrooms: validatedInput.minBedrooms,
             maxBedrooms: validatedInput.maxBedrooms,
@@ -95,6 +188,7 @@ export class GetPropertiesUseCase {
 
             isFeatured: validatedInput.isFeatured,
             isOffMarket: validatedInput.isOffMarket,
+            isExclusive: validatedInput.isExclusive,
 
             page: validatedInput.page,
             limit: validatedInput.limit,
@@ -106,7 +200,7 @@ export class GetPropertiesUseCase {
 
         // 4. Get additional filter data (handle optional methods)
         const priceRangePromise = this.propertyRepository.getPriceRange
-            ? this.propertyRepository.getPriceRange({ status: 'published' })
+            ? this.propertyRepository.getPriceRange({ status: criteria.status, currency })
             : Promise.resolve({ min: 0, max: 10000000 });
 
         const cityCountsPromise = this.propertyRepository.countByCity
@@ -121,19 +215,40 @@ export class GetPropertiesUseCase {
 
         // 5. Return formatted output
         return {
-            properties: result.data,
+            properties: result.data.map(property => ({
+                ...property,
+                convertedPrice: {
+                    amount: Math.round(convertPrice(property.price, currency)),
+                    currency,
+                },
+            })),
+            currency,
+            exchangeRates: describeExchangeRates(rates),
             pagination: {
                 ...result.pagination,
                 hasPrev: result.pagination.hasPrev ?? result.pagination.hasPrevious ?? false,
             },
             filters: {
                 priceRange,
-                availableTypes: Object.keys(typeCounts),
+                availableTypes: this.propertyRepository.countByType
+                    ? Object.keys(typeCounts).filter(type => typeCounts[type] > 0)
+                    : Object.keys(typeCounts),
                 availableCities: Object.keys(cityCounts),
             },
         };
     }
 
+    private async preferredCurrency(viewerId?: string): Promise<SupportedCurrency> {
+        if (!viewerId || !this.userRepository) return defaultCurrency;
+
+        try {
+            const preferred = (await this.userRepository.findById(viewerId))?.preferences.currency;
+            return isSupportedCurrency(preferred) ? preferred : defaultCurrency;
+        } catch {
+            return defaultCurrency;
+        }
+    }
+
     private parseSort(sortBy?: string): { field: string; direction: 'asc' | 'desc' } | undefined {
         if (!sortBy) return undefined;
 
@@ -143,6 +258,8 @@ export class GetPropertiesUseCase {
             newest: { field: 'createdAt', direction: 'desc' },
             oldest: { field: 'createdAt', direction: 'asc' },
             area: { field: 'specs.area', direction: 'desc' },
+            area_asc: { field: 'specs.area', direction: 'asc' },
+            area_desc: { field: 'specs.area', direction: 'desc' },
         };
 
         return sortMap[sortBy];
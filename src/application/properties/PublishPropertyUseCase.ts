@@ -0,0 +1,53 @@
+/**
+ * MODON Platform - Publish Property Use Case (Application Layer)
+ * ===============================================================
+ * Makes a listing live and alerts buyers whose saved searches it matches
+ */
+
+import { Property } from '@/core/entities/Property';
+import { IPropertyRepository } from '@/dal/interfaces';
+import { NewListingAlertMatcher, isLiveStatus } from '@/application/alerts/NewListingAlertMatcher';
+
+export class PublishPropertyUseCase {
+    constructor(
+        private readonly propertyRepository: IPropertyRepository,
+        private readonly alertMatcher: NewListingAlertMatcher
+    ) { }
+
+    /**
+     * Publish a property by ID
+     */
+    async execute(id: string): Promise<Property> {
+        const existing = await this.propertyRepository.findById(id);
+        if (!existing) {
+            throw new Error(`Property not found: ${id}`);
+        }
+
+        const published = this.propertyRepository.publish
+            ? await this.propertyRepository.publish(id)
+            : await this.propertyRepository.update(id, {
+                status: 'active',
+                publishedAt: new Date(),
+                listedAt: existing.listedAt || new Date(),
+            });
+
+        await this.onStatusChange(published, existing.status);
+        return published;
+    }
+
+    /**
+     * Run the saved-search alerts when a property has just gone live,
+     * whether through publish() or a create/update that set a live status.
+     * Alert failures are logged and never fail the publish itself.
+     */
+    async onStatusChange(property: Property, previousStatus?: Property['status']): Promise<void> {
+        if (!isLiveStatus(property.status)) return;
+        if (previousStatus && isLiveStatus(previousStatus)) return;
+
+        try {
+            await this.alertMatcher.execute(property);
+        } catch (error) {
+            console.warn('[ALERTS] New-listing alerts failed:', (error as Error).message);
+        }
+    }
+}
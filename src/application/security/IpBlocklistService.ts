@@ -0,0 +1,142 @@
+/**
+ * MODON Platform - IP Blocklist Service (Application Layer)
+ * ==========================================================
+ * Adds and removes blocklist entries and writes each change to the audit
+ * trail (as ip_blocked / ip_allowed / ip_unblocked security events, keyed by
+ * the affected IP), stored before the change is reported back. Entries that
+ * simply expire are not audited again.
+ */
+
+import type { SecurityEvent } from '@/discoverx/monitoring/logging';
+import {
+    IpAccessAction,
+    IpBlockEntry,
+    IpBlocklistStore,
+    invalidateIpAccess,
+} from '@/lib/security/ip-blocklist';
+
+export interface IpBlocklistActor {
+    /** Admin making the change; absent for automatic blocks */
+    userId?: string;
+    ip?: string;
+    userAgent?: string;
+    path?: string;
+}
+
+export interface IpEntryOptions {
+    reason: string;
+    /** Permanent when omitted */
+    durationMs?: number;
+}
+
+// Resolves once the audit entry is stored
+type AuditLogger = (event: Omit<SecurityEvent, 'timestamp'>) => Promise<void>;
+
+export const AUTO_BLOCK_DURATION_MS = 60 * 60 * 1000; // 1 hour
+
+export class IpBlocklistService {
+    constructor(
+        private readonly store: IpBlocklistStore,
+        private readonly audit: AuditLogger
+    ) { }
+
+    /**
+     * Active entries, newest first
+     */
+    async list(): Promise<IpBlockEntry[]> {
+        const entries = await this.store.list();
+        return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async deny(ip: string, options: IpEntryOptions, actor: IpBlocklistActor): Promise<IpBlockEntry> {
+        return this.put(ip, 'deny', 'manual', options, actor);
+    }
+
+    /**
+     * Exempt an IP from automatic blocks and burst limits (replaces a deny entry)
+     */
+    async allow(ip: string, options: IpEntryOptions, actor: IpBlocklistActor): Promise<IpBlockEntry> {
+        return this.put(ip, 'allow', 'manual', options, actor);
+    }
+
+    /**
+     * Block an IP flagged by the SecurityLogger. Allowed IPs and IPs that are
+     * already blocked are left alone; returns the entry that applies.
+     */
+    async autoBlock(ip: string, reason: string, actor: IpBlocklistActor = {}): Promise<IpBlockEntry | null> {
+        // Without a client address every anonymous visitor would share the block
+        if (!ip || ip === 'unknown-ip') return null;
+
+        const existing = await this.store.get(ip);
+        if (existing) return existing;
+
+        return this.put(ip, 'deny', 'auto', { reason, durationMs: AUTO_BLOCK_DURATION_MS }, actor);
+    }
+
+    /**
+     * Remove an IP's entry. Returns the removed entry, or null when there was none.
+     */
+    async remove(ip: string, actor: IpBlocklistActor): Promise<IpBlockEntry | null> {
+        const existing = await this.store.get(ip);
+        if (!existing) return null;
+
+        await this.store.delete(ip);
+        invalidateIpAccess(ip);
+
+        await this.audit({
+            type: 'ip_unblocked',
+            severity: 'low',
+            userId: actor.userId,
+            ip,
+            userAgent: actor.userAgent || 'system',
+            path: actor.path || 'ip-blocklist',
+            details: {
+                removed: existing.action,
+                reason: existing.reason,
+                source: existing.source,
+                actorIp: actor.ip,
+            },
+        });
+
+        return existing;
+    }
+
+    private async put(
+        ip: string,
+        action: IpAccessAction,
+        source: IpBlockEntry['source'],
+        options: IpEntryOptions,
+        actor: IpBlocklistActor
+    ): Promise<IpBlockEntry> {
+        const now = Date.now();
+        const entry: IpBlockEntry = {
+            ip,
+            action,
+            reason: options.reason,
+            source,
+            createdBy: actor.userId,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: options.durationMs ? new Date(now + options.durationMs).toISOString() : undefined,
+        };
+
+        await this.store.set(entry);
+        invalidateIpAccess(ip);
+
+        await this.audit({
+            type: action === 'deny' ? 'ip_blocked' : 'ip_allowed',
+            severity: action === 'deny' ? 'medium' : 'low',
+            userId: actor.userId,
+            ip,
+            userAgent: actor.userAgent || 'system',
+            path: actor.path || 'ip-blocklist',
+            details: {
+                reason: entry.reason,
+                source,
+                expiresAt: entry.expiresAt ?? null,
+                actorIp: actor.ip,
+            },
+        });
+
+        return entry;
+    }
+}
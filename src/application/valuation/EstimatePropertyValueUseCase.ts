@@ -0,0 +1,245 @@
+/**
+ * MODON Platform - Estimate Property Value Use Case (Application Layer)
+ * ======================================================================
+ * Automated indicative valuation from the live listing inventory:
+ * price per m² of comparable listings (same city and type first),
+ * adjusted for pool / sea view / garden premiums
+ */
+
+import { z } from 'zod';
+import { Property, PropertyType } from '@/core/entities/Property';
+import { IPropertyRepository, PropertySearchCriteria } from '@/dal/interfaces';
+import { ValuationRequest, ValuationRequestSchema } from '@/contracts/schemas';
+
+/** Below this many comparables we widen the search area */
+const MIN_COMPARABLES = 3;
+const MAX_COMPARABLES_RETURNED = 5;
+
+/** Multiplicative premiums over a comparable without the amenity */
+const AMENITY_PREMIUMS = {
+    pool: 0.08,
+    seaview: 0.15,
+    garden: 0.05,
+} as const;
+
+type Amenity = keyof typeof AMENITY_PREMIUMS;
+
+const AMENITY_KEYWORDS: Record<Amenity, RegExp> = {
+    pool: /pool/i,
+    seaview: /sea\s*-?\s*view|ocean\s*view|beachfront|waterfront/i,
+    garden: /garden/i,
+};
+
+export type ValuationBasis = 'city_and_type' | 'city' | 'country_and_type' | 'country' | 'type' | 'market';
+
+export interface ValuationComparable {
+    id: string;
+    slug: string;
+    title: string;
+    type: PropertyType;
+    city: string;
+    price: number;
+    currency: string;
+    areaSqm: number;
+    pricePerSqm: number;
+    bedrooms?: number;
+}
+
+export interface ValuationResult {
+    currency: string;
+    estimate: {
+        low: number;
+        mid: number;
+        high: number;
+    };
+    pricePerSqm: number;
+    adjustments: Array<{ amenity: Amenity; premium: number }>;
+    basis: ValuationBasis;
+    confidence: 'high' | 'medium' | 'low';
+    sampleSize: number;
+    comparables: ValuationComparable[];
+}
+
+interface Comparable {
+    property: Property;
+    areaSqm: number;
+    pricePerSqm: number;
+    /** Price per m² with the comparable's own amenity premiums taken out */
+    basePricePerSqm: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function amenitiesOf(specs: Partial<Record<Amenity, boolean>>, featureNames: string[]): Amenity[] {
+    return (Object.keys(AMENITY_PREMIUMS) as Amenity[]).filter(amenity =>
+        specs[amenity] === true || featureNames.some(name => AMENITY_KEYWORDS[amenity].test(name))
+    );
+}
+
+function premiumFactor(amenities: Amenity[]): number {
+    return amenities.reduce((factor, amenity) => factor * (1 + AMENITY_PREMIUMS[amenity]), 1);
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/** Round to 3 significant figures - estimates should not look more precise than they are */
+function roundEstimate(value: number): number {
+    if (value <= 0) return 0;
+    const magnitude = Math.pow(10, Math.max(0, Math.floor(Math.log10(value)) - 2));
+    return Math.round(value / magnitude) * magnitude;
+}
+
+function toComparable(property: Property): Comparable | null {
+    const areaSqm = property.specs.livingAreaSqm ?? 0;
+    if (areaSqm <= 0 || property.price.amount <= 0 || property.price.priceOnRequest) return null;
+
+    // createProperty derives pricePerSqm; fall back for rows that predate it
+    const pricePerSqm = property.price.pricePerSqm ?? Math.round(property.price.amount / areaSqm);
+    const amenities = amenitiesOf(property.specs, property.features.map(f => f.name));
+
+    return {
+        property,
+        areaSqm,
+        pricePerSqm,
+        basePricePerSqm: pricePerSqm / premiumFactor(amenities),
+    };
+}
+
+// ============================================
+// USE CASE
+// ============================================
+
+export class EstimatePropertyValueUseCase {
+    constructor(private readonly propertyRepository: IPropertyRepository) { }
+
+    /**
+     * Returns null when the inventory has no usable comparables
+     */
+    async execute(input: z.input<typeof ValuationRequestSchema>, excludePropertyId?: string): Promise<ValuationResult | null> {
+        const request = ValuationRequestSchema.parse(input);
+        const { sample, basis, currency } = await this.findComparables(request, excludePropertyId);
+        if (sample.length === 0) return null;
+
+        const basePrices = sample.map(c => c.basePricePerSqm).sort((a, b) => a - b);
+        const amenities = amenitiesOf(request.specs, request.features);
+        const factor = premiumFactor(amenities);
+        const area = request.specs.area;
+
+        const median = percentile(basePrices, 0.5);
+        // Few comparables: a flat ±15% band is more honest than a quartile spread
+        const low = basePrices.length >= 4 ? percentile(basePrices, 0.25) : median * 0.85;
+        const high = basePrices.length >= 4 ? percentile(basePrices, 0.75) : median * 1.15;
+
+        return {
+            currency,
+            estimate: {
+                low: roundEstimate(low * factor * area),
+                mid: roundEstimate(median * factor * area),
+                high: roundEstimate(high * factor * area),
+            },
+            pricePerSqm: Math.round(median * factor),
+            adjustments: amenities.map(amenity => ({ amenity, premium: AMENITY_PREMIUMS[amenity] })),
+            basis,
+            confidence: this.confidence(basis, sample.length),
+            sampleSize: sample.length,
+            comparables: this.closest(sample, request).map(c => ({
+                id: c.property.id,
+                slug: c.property.slug,
+                title: c.property.title,
+                type: c.property.type,
+                city: c.property.location.city,
+                price: c.property.price.amount,
+                currency: c.property.price.currency,
+                areaSqm: c.areaSqm,
+                pricePerSqm: c.pricePerSqm,
+                bedrooms: c.property.specs.bedrooms,
+            })),
+        };
+    }
+
+    /**
+     * Widen from the same city and type outwards until there are enough comparables.
+     * Prices in different currencies are not comparable: the requested currency, or else
+     * the dominant one of the narrowest tier with listings (the local market), is kept
+     * for every wider tier.
+     */
+    private async findComparables(
+        request: ValuationRequest,
+        excludePropertyId?: string
+    ): Promise<{ sample: Comparable[]; basis: ValuationBasis; currency: string }> {
+        const tiers: Array<{ basis: ValuationBasis; criteria: PropertySearchCriteria; applies: boolean }> = [
+            { basis: 'city_and_type', criteria: { city: request.city, type: request.type }, applies: !!request.type },
+            { basis: 'city', criteria: { city: request.city }, applies: true },
+            { basis: 'country_and_type', criteria: { country: request.country, type: request.type }, applies: !!request.country && !!request.type },
+            { basis: 'country', criteria: { country: request.country }, applies: !!request.country },
+            { basis: 'type', criteria: { type: request.type }, applies: !!request.type },
+            { basis: 'market', criteria: {}, applies: true },
+        ];
+
+        let currency = request.currency;
+        let best: { sample: Comparable[]; basis: ValuationBasis; currency: string } = {
+            sample: [],
+            basis: 'market',
+            currency: currency || '',
+        };
+
+        for (const tier of tiers.filter(t => t.applies)) {
+            const result = await this.propertyRepository.findAll({
+                ...tier.criteria,
+                listingType: request.listingType,
+                status: 'active',
+                // Comparables are returned to anonymous callers; off-market stock stays private
+                isOffMarket: false,
+                limit: 100,
+            });
+
+            const comparables = result.data
+                .filter(p => p.id !== excludePropertyId)
+                .map(toComparable)
+                .filter((c): c is Comparable => c !== null);
+            if (comparables.length === 0) continue;
+
+            currency ??= this.dominantCurrency(comparables);
+            const sample = comparables.filter(c => c.property.price.currency === currency);
+
+            if (sample.length >= MIN_COMPARABLES) return { sample, basis: tier.basis, currency };
+            if (best.sample.length === 0 && sample.length > 0) best = { sample, basis: tier.basis, currency };
+        }
+
+        return best;
+    }
+
+    private dominantCurrency(comparables: Comparable[]): string {
+        const counts = new Map<string, number>();
+        comparables.forEach(c => counts.set(c.property.price.currency, (counts.get(c.property.price.currency) ?? 0) + 1));
+        return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    }
+
+    private confidence(basis: ValuationBasis, sampleSize: number): ValuationResult['confidence'] {
+        if (basis === 'city_and_type' && sampleSize >= 5) return 'high';
+        if ((basis === 'city_and_type' || basis === 'city') && sampleSize >= MIN_COMPARABLES) return 'medium';
+        return 'low';
+    }
+
+    /**
+     * Most similar comparables by size and bedroom count
+     */
+    private closest(comparables: Comparable[], request: ValuationRequest): Comparable[] {
+        const distance = (c: Comparable) =>
+            Math.abs(c.areaSqm - request.specs.area) / request.specs.area +
+            (request.specs.bedrooms !== undefined
+                ? Math.abs((c.property.specs.bedrooms ?? 0) - request.specs.bedrooms) * 0.1
+                : 0);
+
+        return [...comparables]
+            .sort((a, b) => distance(a) - distance(b))
+            .slice(0, MAX_COMPARABLES_RETURNED);
+    }
+}
@@ -34,9 +34,11 @@ export const PropertySpecsSchema = z.object({
     yearBuilt: z.number().int().min(1800).max(2100).optional(),
 });
 
+export const CurrencySchema = z.enum(['EGP', 'EUR', 'USD', 'GBP', 'AED', 'SAR']);
+
 export const PropertyPriceSchema = z.object({
     amount: z.number().min(0, 'Price must be positive'),
-    currency: z.enum(['EUR', 'USD', 'GBP', 'AED', 'SAR']),
+    currency: CurrencySchema,
     pricePerMeter: z.number().optional(),
     previousPrice: z.number().optional(),
 });
@@ -58,6 +60,7 @@ export const PropertyFeatureSchema = z.object({
 export const PropertyStatusSchema = z.enum([
     'draft',
     'pending',
+    'active',
     'published',
     'sold',
     'rented',
@@ -79,7 +82,9 @@ export const PropertySchema = z.object({
     id: z.string().optional(),
     slug: z.string().optional(),
     title: z.string().min(10, 'Title must be at least 10 characters'),
+    titleAr: z.string().max(255).optional(),
     description: z.string().min(100, 'Description must be at least 100 characters'),
+    descriptionAr: z.string().max(5000).optional(),
     shortDescription: z.string().max(300).optional(),
 
     type: PropertyTypeSchema,
@@ -125,6 +130,7 @@ export const PropertySearchSchema = z.object({
     query: z.string().optional(),
     type: PropertyTypeSchema.optional(),
     listingType: ListingTypeSchema.optional(),
+    status: PropertyStatusSchema.optional(),
 
     city: z.string().optional(),
     region: z.string().optional(),
@@ -132,7 +138,7 @@ export const PropertySearchSchema = z.object({
 
     minPrice: z.number().min(0).optional(),
     maxPrice: z.number().min(0).optional(),
-    currency: z.enum(['EUR', 'USD', 'GBP', 'AED', 'SAR']).optional(),
+    currency: CurrencySchema.optional(),
 
     minBedrooms: z.number().int().min(0).optional(),
     maxBedrooms: z.number().int().min(0).optional(),
@@ -151,12 +157,33 @@ export const PropertySearchSchema = z.object({
 
     isFeatured: z.boolean().optional(),
     isOffMarket: z.boolean().optional(),
+    isExclusive: z.boolean().optional(),
 
-    sortBy: z.enum(['price_asc', 'price_desc', 'newest', 'oldest', 'area']).optional(),
+    sortBy: z.enum(['price_asc', 'price_desc', 'newest', 'oldest', 'area', 'area_asc', 'area_desc']).optional(),
     page: z.number().int().min(1).default(1),
     limit: z.number().int().min(1).max(100).default(20),
 });
 
+export const SavedSearchSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    criteria: PropertySearchSchema.omit({ status: true, page: true, limit: true }),
+});
+
+// ============================================
+// VALUATION SCHEMAS
+// ============================================
+
+export const ValuationRequestSchema = z.object({
+    type: PropertyTypeSchema.optional(),
+    listingType: ListingTypeSchema.default('sale'),
+    city: z.string().trim().min(2, 'City is required').max(100),
+    country: z.string().trim().max(100).optional(),
+    specs: PropertySpecsSchema.partial().required({ area: true }),
+    features: z.array(z.string().max(100)).max(50).default([]),
+    // Value against listings priced in this currency (defaults to the local market's)
+    currency: z.string().length(3).toUpperCase().optional(),
+});
+
 // ============================================
 // USER SCHEMAS
 // ============================================
@@ -176,7 +203,7 @@ export const UserProfileSchema = z.object({
 
 export const UserPreferencesSchema = z.object({
     language: z.enum(['en', 'ar', 'nl', 'es', 'de']),
-    currency: z.enum(['EUR', 'USD', 'GBP', 'AED', 'SAR']),
+    currency: CurrencySchema,
     emailNotifications: z.boolean(),
     pushNotifications: z.boolean(),
     newsletter: z.boolean(),
@@ -244,6 +271,42 @@ export const InquirySchema = z.object({
     preferredContact: z.enum(['email', 'phone', 'whatsapp']).optional(),
     requestViewing: z.boolean().optional(),
     viewingDate: z.string().datetime().optional(),
+    locale: z.enum(['en', 'ar']).optional(),
+});
+
+// ============================================
+// SECURITY SCHEMAS
+// ============================================
+
+export const SecuritySeveritySchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+// Query-string list, e.g. "auth_failure,rate_limit"
+const commaSeparated = <T extends z.ZodTypeAny>(item: T) =>
+    z.string()
+        .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+        .pipe(z.array(item).max(20));
+
+export const SecurityEventSearchSchema = z.object({
+    type: commaSeparated(z.string().regex(/^[a-z_]+$/, 'Invalid event type')).optional(),
+    severity: commaSeparated(SecuritySeveritySchema).optional(),
+    ip: z.string().trim().max(64).optional(),
+    userId: z.string().trim().uuid('Invalid user ID').optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const SecurityEventTimelineSchema = SecurityEventSearchSchema
+    .omit({ page: true, limit: true })
+    .extend({ interval: z.enum(['hour', 'day']).default('hour') });
+
+export const IpBlocklistEntrySchema = z.object({
+    ip: z.string().trim().ip('Invalid IP address'),
+    action: z.enum(['deny', 'allow']),
+    reason: z.string().trim().min(3, 'Reason is required').max(200),
+    // Permanent when omitted; at most a year
+    durationMinutes: z.number().int().min(1).max(525600).optional(),
 });
 
 // ============================================
@@ -284,6 +347,8 @@ export type Property = z.infer<typeof PropertySchema>;
 export type CreateProperty = z.infer<typeof CreatePropertySchema>;
 export type UpdateProperty = z.infer<typeof UpdatePropertySchema>;
 export type PropertySearch = z.infer<typeof PropertySearchSchema>;
+export type SavedSearch = z.infer<typeof SavedSearchSchema>;
+export type ValuationRequest = z.infer<typeof ValuationRequestSchema>;
 
 export type UserRole = z.infer<typeof UserRoleSchema>;
 export type UserProfile = z.infer<typeof UserProfileSchema>;
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+    LEAD_STATUSES,
+    LEAD_TRANSITIONS,
+    LeadTransitionError,
+    canTransition,
+    isSameContact,
+    leadPhoneKey,
+    matchLeadContact,
+    normalizeLeadName,
+    transitionLead,
+} from './Lead';
+
+const at = new Date('2026-03-01T12:00:00Z');
+
+// ============================================
+// DUPLICATES
+// ============================================
+
+describe('leadPhoneKey', () => {
+    it('compares the last nine digits', () => {
+        expect(leadPhoneKey('+20 100 123 4567')).toBe('001234567');
+        expect(leadPhoneKey('0100-123-4567')).toBe('001234567');
+    });
+
+    it('ignores numbers too short to compare', () => {
+        expect(leadPhoneKey('12345678')).toBeUndefined();
+        expect(leadPhoneKey(undefined)).toBeUndefined();
+    });
+});
+
+describe('normalizeLeadName', () => {
+    it('ignores case, accents and spacing', () => {
+        expect(normalizeLeadName('  Zoë   DUPONT ')).toBe('zoe dupont');
+    });
+});
+
+describe('matchLeadContact', () => {
+    const mona = { name: 'Mona Adel', email: 'Mona@Example.com', phone: '+20 100 123 4567' };
+
+    it('matches email without case or padding', () => {
+        expect(matchLeadContact(mona, { name: 'M. Adel', email: ' mona@example.com ' })).toEqual(['email']);
+    });
+
+    it('matches the same number written differently', () => {
+        expect(matchLeadContact(mona, { name: 'Someone', email: 'office@example.com', phone: '0100 123 4567' }))
+            .toEqual(['phone']);
+    });
+
+    it('reports every detail that matches', () => {
+        expect(matchLeadContact(mona, { name: 'mona  adel', email: 'mona@example.com', phone: '01001234567' }))
+            .toEqual(['email', 'phone', 'name']);
+    });
+
+    it('does not match missing phones or blank names', () => {
+        expect(matchLeadContact(
+            { name: ' ', email: 'a@example.com' },
+            { name: '', email: 'b@example.com' }
+        )).toEqual([]);
+    });
+});
+
+describe('isSameContact', () => {
+    it('accepts the same email', () => {
+        expect(isSameContact(['email'])).toBe(true);
+    });
+
+    it('accepts the same phone under the same name', () => {
+        expect(isSameContact(['phone', 'name'])).toBe(true);
+    });
+
+    it('rejects a shared phone or a shared name alone', () => {
+        expect(isSameContact(['phone'])).toBe(false);
+        expect(isSameContact(['name'])).toBe(false);
+        expect(isSameContact([])).toBe(false);
+    });
+});
+
+// ============================================
+// PIPELINE
+// ============================================
+
+describe('transitionLead', () => {
+    it('moves forward and stamps the stage', () => {
+        expect(transitionLead({ id: 'l1', status: 'new' }, 'contacted', { at })).toEqual({
+            status: 'contacted',
+            contactedAt: at,
+        });
+        expect(transitionLead({ id: 'l1', status: 'proposal' }, 'won', { at })).toEqual({
+            status: 'won',
+            wonAt: at,
+        });
+    });
+
+    it('lets a new lead skip straight to qualified', () => {
+        expect(transitionLead({ id: 'l1', status: 'new' }, 'qualified', { at })).toEqual({
+            status: 'qualified',
+            qualifiedAt: at,
+        });
+    });
+
+    it('records why a lead was lost', () => {
+        expect(transitionLead({ id: 'l1', status: 'qualified' }, 'lost', { at, lostReason: 'Bought elsewhere' })).toEqual({
+            status: 'lost',
+            lostAt: at,
+            lostReason: 'Bought elsewhere',
+        });
+    });
+
+    it('clears the loss when a lost lead is contacted again', () => {
+        const changes = transitionLead({ id: 'l1', status: 'lost' }, 'contacted', { at });
+
+        expect(changes).toEqual({ status: 'contacted', contactedAt: at, lostAt: undefined, lostReason: undefined });
+        expect(changes).toHaveProperty('lostAt');
+        expect(changes).toHaveProperty('lostReason');
+    });
+
+    it('stamps the current time by default', () => {
+        const before = Date.now();
+        const changes = transitionLead({ id: 'l1', status: 'new' }, 'contacted');
+
+        expect(changes.contactedAt!.getTime()).toBeGreaterThanOrEqual(before);
+    });
+
+    it.each([
+        ['new', 'proposal'],
+        ['new', 'won'],
+        ['contacted', 'new'],
+        ['qualified', 'contacted'],
+        ['won', 'lost'],
+        ['lost', 'won'],
+    ] as const)('refuses %s -> %s', (from, to) => {
+        expect(() => transitionLead({ id: 'l1', status: from }, to)).toThrow(LeadTransitionError);
+    });
+
+    it('names the lead and the move in the error', () => {
+        try {
+            transitionLead({ id: 'l1', status: 'won' }, 'contacted');
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toMatchObject({ leadId: 'l1', from: 'won', to: 'contacted' });
+            expect((error as Error).message).toBe('Lead l1 cannot move from won to contacted');
+        }
+    });
+});
+
+describe('LEAD_TRANSITIONS', () => {
+    it('covers every status and only allows known ones', () => {
+        expect(Object.keys(LEAD_TRANSITIONS).sort()).toEqual([...LEAD_STATUSES].sort());
+        Object.values(LEAD_TRANSITIONS).flat().forEach(to => expect(LEAD_STATUSES).toContain(to));
+    });
+
+    it('never allows staying on the same stage', () => {
+        LEAD_STATUSES.forEach(status => expect(canTransition(status, status)).toBe(false));
+    });
+
+    it('makes won final', () => {
+        LEAD_STATUSES.forEach(to => expect(canTransition('won', to)).toBe(false));
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * MODON Platform - Lead Entity (Core Layer)
+ * ==========================================
+ * Pure business logic with no external dependencies
+ */
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export const LEAD_STATUSES = ['new', 'contacted', 'qualified', 'proposal', 'won', 'lost'] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const LEAD_TYPES = [
+    'contact',
+    'property_inquiry',
+    'sell_private',
+    'sell_professional',
+    'sell_developer',
+    'off_market',
+    'auction',
+    'newsletter',
+    'viewing_request',
+    'other',
+] as const;
+export type LeadType = typeof LEAD_TYPES[number];
+
+export const LEAD_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+export type LeadPriority = typeof LEAD_PRIORITIES[number];
+
+export interface Lead {
+    id: string;
+
+    // Contact
+    name: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone?: string;
+    preferredContact: 'email' | 'phone' | 'whatsapp';
+
+    // Request
+    subject?: string;
+    message: string;
+    type: LeadType;
+    propertyId?: string;
+    propertyTitle?: string;
+    propertySlug?: string;
+
+    // Pipeline
+    status: LeadStatus;
+    priority: LeadPriority;
+    /** Set from the scoring rules when the lead comes in */
+    score?: number;
+    assignedTo?: string;
+    assignedAt?: Date;
+    notes?: string;
+    lostReason?: string;
+
+    // Source tracking
+    source: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata: Record<string, unknown>;
+
+    // When the lead last entered each stage
+    contactedAt?: Date;
+    qualifiedAt?: Date;
+    proposalAt?: Date;
+    wonAt?: Date;
+    lostAt?: Date;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ============================================
+// ACTIVITY
+// ============================================
+
+export const LEAD_ACTIVITY_TYPES = [
+    'status_change',
+    'assignment',
+    'note',
+    'call',
+    'email',
+    'viewing',
+    'submission',
+    'merge',
+] as const;
+export type LeadActivityType = typeof LEAD_ACTIVITY_TYPES[number];
+
+/** Activities people log by hand; the others are recorded by the pipeline */
+export const MANUAL_LEAD_ACTIVITY_TYPES = ['note', 'call', 'email', 'viewing'] as const;
+export type ManualLeadActivityType = typeof MANUAL_LEAD_ACTIVITY_TYPES[number];
+
+export interface LeadActivity {
+    id: string;
+    leadId: string;
+    type: LeadActivityType;
+    /** Missing for changes made by the system */
+    authorId?: string;
+    body?: string;
+    /**
+     * status_change: { from, to, lostReason? }; assignment: { from, to };
+     * submission: the repeat form submission; merge: the lead merged in
+     */
+    details: Record<string, unknown>;
+    createdAt: Date;
+}
+
+// ============================================
+// DUPLICATES
+// ============================================
+
+/** A new submission joins an open lead from the same person active within this window */
+export const LEAD_DUPLICATE_WINDOW_DAYS = 30;
+
+export type LeadContactMatch = 'email' | 'phone' | 'name';
+
+/**
+ * The digits phone numbers are compared on. The last nine make +20 100 123 4567
+ * and 0100-123-4567 the same number; shorter numbers are not compared.
+ */
+export function leadPhoneKey(phone?: string): string | undefined {
+    const digits = phone?.replace(/\D/g, '') ?? '';
+    return digits.length >= 9 ? digits.slice(-9) : undefined;
+}
+
+export function normalizeLeadName(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+type LeadContact = Pick<Lead, 'name' | 'email' | 'phone'>;
+
+export function matchLeadContact(a: LeadContact, b: LeadContact): LeadContactMatch[] {
+    const matches: LeadContactMatch[] = [];
+    const phone = leadPhoneKey(a.phone);
+    const name = normalizeLeadName(a.name);
+
+    if (a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) matches.push('email');
+    if (phone && phone === leadPhoneKey(b.phone)) matches.push('phone');
+    if (name && name === normalizeLeadName(b.name)) matches.push('name');
+
+    return matches;
+}
+
+/**
+ * The same email, or the same phone under the same name. A shared phone
+ * alone (an office line, a relative) or a shared name alone is not enough.
+ */
+export function isSameContact(matches: LeadContactMatch[]): boolean {
+    return matches.includes('email') || (matches.includes('phone') && matches.includes('name'));
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+/**
+ * Stages a lead can move to from each stage. Won is final; a lost lead can
+ * be reopened by contacting it again.
+ */
+export const LEAD_TRANSITIONS: Record<LeadStatus, readonly LeadStatus[]> = {
+    new: ['contacted', 'qualified', 'lost'],
+    contacted: ['qualified', 'lost'],
+    qualified: ['proposal', 'lost'],
+    proposal: ['won', 'qualified', 'lost'],
+    won: [],
+    lost: ['contacted'],
+};
+
+const STAGE_TIMESTAMPS: Partial<Record<LeadStatus, 'contactedAt' | 'qualifiedAt' | 'proposalAt' | 'wonAt' | 'lostAt'>> = {
+    contacted: 'contactedAt',
+    qualified: 'qualifiedAt',
+    proposal: 'proposalAt',
+    won: 'wonAt',
+    lost: 'lostAt',
+};
+
+export function isLeadStatus(value: string): value is LeadStatus {
+    return (LEAD_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: LeadStatus, to: LeadStatus): boolean {
+    return LEAD_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Changes that move a lead to `to`, stamping the stage's timestamp.
+ * Throws LeadTransitionError when the pipeline does not allow the move.
+ */
+export function transitionLead(
+    lead: Pick<Lead, 'id' | 'status'>,
+    to: LeadStatus,
+    options: { at?: Date; lostReason?: string } = {}
+): Partial<Lead> {
+    if (!canTransition(lead.status, to)) {
+        throw new LeadTransitionError(lead.id, lead.status, to);
+    }
+
+    const changes: Partial<Lead> = { status: to };
+    const timestamp = STAGE_TIMESTAMPS[to];
+    if (timestamp) changes[timestamp] = options.at ?? new Date();
+
+    if (to === 'lost') {
+        changes.lostReason = options.lostReason;
+    } else if (lead.status === 'lost') {
+        // Reopened
+        changes.lostAt = undefined;
+        changes.lostReason = undefined;
+    }
+
+    return changes;
+}
+
+export function isOpenLead(lead: Pick<Lead, 'status'>): boolean {
+    return lead.status !== 'won' && lead.status !== 'lost';
+}
+
+/**
+ * Raised when a status change skips or reverses the pipeline
+ */
+export class LeadTransitionError extends Error {
+    constructor(
+        public readonly leadId: string,
+        public readonly from: LeadStatus,
+        public readonly to: LeadStatus
+    ) {
+        super(`Lead ${leadId} cannot move from ${from} to ${to}`);
+        this.name = 'LeadTransitionError';
+    }
+}
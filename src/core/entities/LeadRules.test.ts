@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_LEAD_RULES,
+    LeadRoutingCandidate,
+    LeadRoutingRules,
+    LeadScoringInput,
+    pickAgent,
+    priorityForScore,
+    routeLead,
+    scoreLead,
+} from './LeadRules';
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const scoring = DEFAULT_LEAD_RULES.scoring;
+const routing = DEFAULT_LEAD_RULES.routing;
+
+const bareContact: LeadScoringInput = {
+    type: 'contact',
+    source: 'website',
+    firstName: 'Sara',
+    lastName: '',
+    message: 'Hello',
+};
+
+const developerReferral: LeadScoringInput = {
+    type: 'sell_developer',
+    source: 'Referral',
+    firstName: 'Omar',
+    lastName: 'Hassan',
+    phone: '+20 100 123 4567',
+    message: 'We are launching a 40-unit compound in New Cairo and would like MODON to handle the sales of the first phase.',
+    propertyPrice: 12_000_000,
+};
+
+const agents: LeadRoutingCandidate[] = [
+    { id: 'agent-cairo-1', city: 'Cairo', specializations: ['residential'], openLeads: 4, lastAssignedAt: new Date('2026-03-02T10:00:00Z') },
+    { id: 'agent-cairo-2', city: 'cairo ', specializations: [], openLeads: 1, lastAssignedAt: new Date('2026-03-01T10:00:00Z') },
+    { id: 'agent-luxury-1', city: 'Giza', specializations: ['Luxury'], openLeads: 6, lastAssignedAt: new Date('2026-02-01T10:00:00Z') },
+    { id: 'agent-luxury-2', city: 'Alexandria', specializations: ['luxury', 'commercial'], openLeads: 2, lastAssignedAt: new Date('2026-03-03T10:00:00Z') },
+];
+
+// ============================================
+// SCORING
+// ============================================
+
+describe('scoreLead', () => {
+    it('scores only the lead type for a bare contact', () => {
+        const result = scoreLead(bareContact, scoring);
+
+        expect(result.score).toBe(5);
+        expect(result.priority).toBe('low');
+        expect(result.breakdown).toEqual([
+            { factor: 'type', points: 5 },
+            { factor: 'price', points: 0 },
+            { factor: 'contact', points: 0 },
+            { factor: 'source', points: 0 },
+        ]);
+    });
+
+    it('adds the highest price band, complete contact details and the source', () => {
+        const result = scoreLead(developerReferral, scoring);
+
+        expect(result.breakdown).toEqual([
+            { factor: 'type', points: 25 },
+            { factor: 'price', points: 30 },
+            { factor: 'contact', points: 20 },
+            { factor: 'source', points: 15 },
+        ]);
+        expect(result.score).toBe(90);
+        expect(result.priority).toBe('urgent');
+    });
+
+    it('counts a price exactly on a band minimum', () => {
+        const result = scoreLead({ ...bareContact, propertyPrice: 5_000_000 }, scoring);
+        expect(result.breakdown.find(item => item.factor === 'price')?.points).toBe(20);
+    });
+
+    it('does not go below zero', () => {
+        const result = scoreLead({ ...bareContact, type: 'newsletter' }, scoring);
+
+        expect(result.score).toBe(0);
+        expect(result.priority).toBe('low');
+    });
+});
+
+describe('priorityForScore', () => {
+    it('uses the lowest score of each priority', () => {
+        expect(priorityForScore(14, scoring)).toBe('low');
+        expect(priorityForScore(15, scoring)).toBe('normal');
+        expect(priorityForScore(40, scoring)).toBe('high');
+        expect(priorityForScore(60, scoring)).toBe('urgent');
+    });
+});
+
+// ============================================
+// ROUTING
+// ============================================
+
+describe('pickAgent', () => {
+    it('takes the agent who has gone longest without a lead for round robin', () => {
+        expect(pickAgent(agents, 'round_robin')?.id).toBe('agent-luxury-1');
+    });
+
+    it('takes the agent with the fewest open leads for least loaded', () => {
+        expect(pickAgent(agents, 'least_loaded')?.id).toBe('agent-cairo-2');
+    });
+
+    it('treats agents never assigned as first in line, then orders by ID', () => {
+        const fresh = [
+            { id: 'b', specializations: [], openLeads: 0 },
+            { id: 'a', specializations: [], openLeads: 0 },
+        ];
+        expect(pickAgent([...agents, ...fresh], 'round_robin')?.id).toBe('a');
+    });
+});
+
+describe('routeLead', () => {
+    it('sends high scores to the least loaded luxury specialist', () => {
+        expect(routeLead({ type: 'sell_developer', score: 90, city: 'Cairo' }, agents, routing)).toEqual({
+            agentId: 'agent-luxury-2',
+            strategy: 'least_loaded',
+            ruleId: 'luxury',
+        });
+    });
+
+    it('sends other leads round robin to agents in the same city', () => {
+        expect(routeLead({ type: 'contact', score: 20, city: 'CAIRO' }, agents, routing)).toEqual({
+            agentId: 'agent-cairo-2',
+            strategy: 'round_robin',
+            ruleId: 'local',
+        });
+    });
+
+    it('falls back to every agent when no rule has one', () => {
+        expect(routeLead({ type: 'contact', score: 20, city: 'Hurghada' }, agents, routing)).toEqual({
+            agentId: 'agent-luxury-1',
+            strategy: 'round_robin',
+        });
+    });
+
+    it('leaves the lead unassigned without a fallback', () => {
+        const rules: LeadRoutingRules = { ...routing, fallback: 'none' };
+        expect(routeLead({ type: 'contact', score: 20, city: 'Hurghada' }, agents, rules)).toBeNull();
+    });
+
+    it('checks every condition of a rule', () => {
+        const rules: LeadRoutingRules = {
+            ...routing,
+            rules: [{
+                id: 'giza-sellers',
+                name: 'Giza sellers',
+                when: { types: ['sell_private'], cities: ['Giza'], minScore: 30 },
+                agents: {},
+                strategy: 'least_loaded',
+            }],
+            fallback: 'none',
+        };
+
+        expect(routeLead({ type: 'sell_private', score: 30, city: 'giza' }, agents, rules)?.ruleId).toBe('giza-sellers');
+        expect(routeLead({ type: 'sell_private', score: 29, city: 'Giza' }, agents, rules)).toBeNull();
+        expect(routeLead({ type: 'contact', score: 30, city: 'Giza' }, agents, rules)).toBeNull();
+        expect(routeLead({ type: 'sell_private', score: 30, city: 'Cairo' }, agents, rules)).toBeNull();
+    });
+
+    it('never assigns excluded types, disabled rules or an empty team', () => {
+        expect(routeLead({ type: 'newsletter', score: 0 }, agents, routing)).toBeNull();
+        expect(routeLead({ type: 'contact', score: 20 }, agents, { ...routing, enabled: false })).toBeNull();
+        expect(routeLead({ type: 'contact', score: 20 }, [], routing)).toBeNull();
+    });
+});
@@ -0,0 +1,274 @@
+/**
+ * MODON Platform - Lead Scoring & Routing Rules (Core Layer)
+ * ===========================================================
+ * Pure business logic with no external dependencies
+ */
+
+import { LeadPriority, LeadType } from './Lead';
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface LeadScoringRules {
+    /** Points for each lead type; missing types score nothing */
+    typePoints: Partial<Record<LeadType, number>>;
+    /** The highest band the linked property's price reaches counts */
+    priceBands: { min: number; points: number }[];
+    /** Currency the band minimums are in */
+    priceCurrency: string;
+    /** Points for each contact detail the lead gave */
+    contactPoints: {
+        phone: number;
+        fullName: number;
+        /** A message of at least detailedMessageLength characters */
+        detailedMessage: number;
+    };
+    detailedMessageLength: number;
+    /** Points per source, e.g. "referral"; other sources score nothing */
+    sourcePoints: Record<string, number>;
+    /** Lowest score for each priority; anything below `normal` is low */
+    priorityThresholds: { normal: number; high: number; urgent: number };
+}
+
+export const LEAD_ROUTING_STRATEGIES = ['round_robin', 'least_loaded'] as const;
+export type LeadRoutingStrategy = typeof LEAD_ROUTING_STRATEGIES[number];
+
+export interface LeadRoutingRule {
+    id: string;
+    name: string;
+    /** Every condition given must hold for the rule to apply */
+    when: {
+        types?: LeadType[];
+        cities?: string[];
+        minScore?: number;
+    };
+    /** Narrows the agents the rule picks from */
+    agents: {
+        /** Only agents based in the lead's city */
+        sameCity?: boolean;
+        /** Agents with any of these specializations */
+        specializations?: string[];
+    };
+    strategy: LeadRoutingStrategy;
+}
+
+export interface LeadRoutingRules {
+    enabled: boolean;
+    /** Tried in order; the first one that applies and has an agent wins */
+    rules: LeadRoutingRule[];
+    /** How to pick among all agents when no rule matched; none leaves the lead unassigned */
+    fallback: LeadRoutingStrategy | 'none';
+    /** Lead types that are never assigned */
+    excludeTypes: LeadType[];
+}
+
+export interface LeadRules {
+    scoring: LeadScoringRules;
+    routing: LeadRoutingRules;
+}
+
+/** What scoring looks at; the property price is already in priceCurrency */
+export interface LeadScoringInput {
+    type: LeadType;
+    source: string;
+    firstName: string;
+    lastName: string;
+    phone?: string;
+    message: string;
+    propertyPrice?: number;
+}
+
+export interface LeadScore {
+    score: number;
+    priority: LeadPriority;
+    /** Points each factor contributed, for explaining the score */
+    breakdown: { factor: 'type' | 'price' | 'contact' | 'source'; points: number }[];
+}
+
+/** An agent leads can be routed to, with their current workload */
+export interface LeadRoutingCandidate {
+    id: string;
+    city?: string;
+    specializations: string[];
+    openLeads: number;
+    lastAssignedAt?: Date;
+}
+
+export interface LeadRoutingContext {
+    type: LeadType;
+    score: number;
+    city?: string;
+}
+
+export interface LeadRoutingDecision {
+    agentId: string;
+    strategy: LeadRoutingStrategy;
+    /** Missing when the fallback picked the agent */
+    ruleId?: string;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const DEFAULT_LEAD_RULES: LeadRules = {
+    scoring: {
+        typePoints: {
+            off_market: 30,
+            sell_developer: 25,
+            viewing_request: 25,
+            auction: 20,
+            sell_private: 20,
+            sell_professional: 20,
+            property_inquiry: 15,
+            contact: 5,
+            newsletter: -50,
+        },
+        priceBands: [
+            { min: 1_000_000, points: 10 },
+            { min: 5_000_000, points: 20 },
+            { min: 10_000_000, points: 30 },
+        ],
+        priceCurrency: 'EUR',
+        contactPoints: { phone: 10, fullName: 5, detailedMessage: 5 },
+        detailedMessageLength: 100,
+        sourcePoints: { referral: 15 },
+        priorityThresholds: { normal: 15, high: 40, urgent: 60 },
+    },
+    routing: {
+        enabled: true,
+        rules: [
+            {
+                id: 'luxury',
+                name: 'High-value leads to luxury specialists',
+                when: { minScore: 50 },
+                agents: { specializations: ['luxury'] },
+                strategy: 'least_loaded',
+            },
+            {
+                id: 'local',
+                name: 'Agents in the same city',
+                when: {},
+                agents: { sameCity: true },
+                strategy: 'round_robin',
+            },
+        ],
+        fallback: 'round_robin',
+        excludeTypes: ['newsletter'],
+    },
+};
+
+// ============================================
+// SCORING
+// ============================================
+
+export function scoreLead(input: LeadScoringInput, rules: LeadScoringRules): LeadScore {
+    const contact = rules.contactPoints;
+    const price = input.propertyPrice;
+    const band = price === undefined
+        ? undefined
+        : rules.priceBands
+            .filter(b => price >= b.min)
+            .sort((a, b) => b.min - a.min)[0];
+
+    const breakdown: LeadScore['breakdown'] = [
+        { factor: 'type', points: rules.typePoints[input.type] ?? 0 },
+        { factor: 'price', points: band?.points ?? 0 },
+        {
+            factor: 'contact',
+            points: (input.phone ? contact.phone : 0)
+                + (input.firstName && input.lastName ? contact.fullName : 0)
+                + (input.message.trim().length >= rules.detailedMessageLength ? contact.detailedMessage : 0),
+        },
+        { factor: 'source', points: rules.sourcePoints[input.source.toLowerCase()] ?? 0 },
+    ];
+
+    const score = Math.max(0, breakdown.reduce((sum, item) => sum + item.points, 0));
+    return { score, priority: priorityForScore(score, rules), breakdown };
+}
+
+export function priorityForScore(score: number, rules: LeadScoringRules): LeadPriority {
+    const { normal, high, urgent } = rules.priorityThresholds;
+    if (score >= urgent) return 'urgent';
+    if (score >= high) return 'high';
+    if (score >= normal) return 'normal';
+    return 'low';
+}
+
+// ============================================
+// ROUTING
+// ============================================
+
+const sameText = (a?: string, b?: string) =>
+    !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function ruleApplies(rule: LeadRoutingRule, lead: LeadRoutingContext): boolean {
+    const { types, cities, minScore } = rule.when;
+    if (types?.length && !types.includes(lead.type)) return false;
+    if (cities?.length && !cities.some(city => sameText(city, lead.city))) return false;
+    if (minScore !== undefined && lead.score < minScore) return false;
+    return true;
+}
+
+function eligibleAgents(
+    rule: LeadRoutingRule,
+    lead: LeadRoutingContext,
+    agents: LeadRoutingCandidate[]
+): LeadRoutingCandidate[] {
+    const { sameCity, specializations } = rule.agents;
+
+    return agents.filter(agent => {
+        if (sameCity && !sameText(agent.city, lead.city)) return false;
+        if (specializations?.length
+            && !agent.specializations.some(s => specializations.some(wanted => sameText(s, wanted)))) {
+            return false;
+        }
+        return true;
+    });
+}
+
+const lastAssigned = (agent: LeadRoutingCandidate) => agent.lastAssignedAt?.getTime() ?? 0;
+
+/**
+ * Round robin takes the agent who has gone longest without a new lead;
+ * least loaded takes the one with the fewest open leads. Ties fall back to
+ * round robin, then to the agent ID so the choice is stable.
+ */
+export function pickAgent(
+    agents: LeadRoutingCandidate[],
+    strategy: LeadRoutingStrategy
+): LeadRoutingCandidate | undefined {
+    return [...agents].sort((a, b) =>
+        (strategy === 'least_loaded' ? a.openLeads - b.openLeads : 0)
+        || lastAssigned(a) - lastAssigned(b)
+        || a.id.localeCompare(b.id)
+    )[0];
+}
+
+/**
+ * Choose the agent a new lead goes to, or null to leave it unassigned
+ */
+export function routeLead(
+    lead: LeadRoutingContext,
+    agents: LeadRoutingCandidate[],
+    rules: LeadRoutingRules
+): LeadRoutingDecision | null {
+    if (!rules.enabled || agents.length === 0 || rules.excludeTypes.includes(lead.type)) {
+        return null;
+    }
+
+    for (const rule of rules.rules) {
+        if (!ruleApplies(rule, lead)) continue;
+
+        const agent = pickAgent(eligibleAgents(rule, lead, agents), rule.strategy);
+        if (agent) {
+            return { agentId: agent.id, strategy: rule.strategy, ruleId: rule.id };
+        }
+    }
+
+    if (rules.fallback === 'none') return null;
+
+    const agent = pickAgent(agents, rules.fallback);
+    return agent ? { agentId: agent.id, strategy: rules.fallback } : null;
+}
@@ -42,9 +42,11 @@ export interface PropertyLocation {
     address: string;
     addressLine2?: string;
     city: string;
+    cityAr?: string;
     state?: string;
     region?: string;
     country: string;
+    countryAr?: string;
     postalCode?: string;
     coordinates: {
         latitude: number;
@@ -157,6 +159,7 @@ export interface Property {
     referenceCode?: string;
     slug: string;
     title: string;
+    titleAr?: string;
     headline?: string;
     description: string;
     descriptionAr?: string;
@@ -245,6 +248,7 @@ export function createProperty(
         referenceCode: data.referenceCode,
         slug: data.slug || generateSlug(data.title),
         title: data.title,
+        titleAr: data.titleAr,
         headline: data.headline,
         description: data.description || '',
         descriptionAr: data.descriptionAr,
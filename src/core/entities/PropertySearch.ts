@@ -0,0 +1,112 @@
+/**
+ * MODON Platform - Property Search Matching (Core Layer)
+ * =======================================================
+ * Pure business logic with no external dependencies
+ */
+
+import type { PropertySearchCriteria } from '@/dal/interfaces';
+import { convertPrice, defaultCurrency, isSupportedCurrency } from '@/lib/currency';
+import { Property } from './Property';
+
+function includesIgnoreCase(value: string | undefined, search: string): boolean {
+    return !!value && value.toLowerCase().includes(search.toLowerCase());
+}
+
+function equalsIgnoreCase(value: string | undefined, other: string): boolean {
+    return !!value && value.toLowerCase() === other.toLowerCase();
+}
+
+/**
+ * Filter semantics shared by every in-process consumer of PropertySearchCriteria
+ * (the in-memory store and saved-search alerts).
+ * Mirrors the Supabase query: a missing status means "active" listings only.
+ */
+export function matchesCriteria(property: Property, criteria: PropertySearchCriteria): boolean {
+    if (property.status !== (criteria.status || 'active')) return false;
+
+    if (criteria.query) {
+        const matchesQuery = includesIgnoreCase(property.title, criteria.query) ||
+            includesIgnoreCase(property.description, criteria.query) ||
+            includesIgnoreCase(property.location.city, criteria.query) ||
+            includesIgnoreCase(property.location.country, criteria.query);
+        if (!matchesQuery) return false;
+    }
+
+    if (criteria.type) {
+        const types = Array.isArray(criteria.type) ? criteria.type : [criteria.type];
+        if (!types.includes(property.type)) return false;
+    }
+
+    if (criteria.listingType && property.listingType !== criteria.listingType) return false;
+
+    if (criteria.city && !includesIgnoreCase(property.location.city, criteria.city)) return false;
+    if (criteria.region && !includesIgnoreCase(property.location.region || property.location.state, criteria.region)) return false;
+    if (criteria.country && !equalsIgnoreCase(property.location.country, criteria.country)) return false;
+
+    const price = convertPrice(property.price, searchCurrency(criteria));
+    if (criteria.minPrice !== undefined && price < criteria.minPrice) return false;
+    if (criteria.maxPrice !== undefined && price > criteria.maxPrice) return false;
+
+    const bedrooms = property.specs.bedrooms ?? 0;
+    if (criteria.minBedrooms !== undefined && bedrooms < criteria.minBedrooms) return false;
+    if (criteria.maxBedrooms !== undefined && bedrooms > criteria.maxBedrooms) return false;
+
+    const bathrooms = property.specs.bathrooms ?? 0;
+    if (criteria.minBathrooms !== undefined && bathrooms < criteria.minBathrooms) return false;
+    if (criteria.maxBathrooms !== undefined && bathrooms > criteria.maxBathrooms) return false;
+
+    const area = property.specs.livingAreaSqm ?? 0;
+    if (criteria.minArea !== undefined && area < criteria.minArea) return false;
+    if (criteria.maxArea !== undefined && area > criteria.maxArea) return false;
+
+    if (criteria.features && criteria.features.length > 0) {
+        const available = [
+            ...property.features.map(f => f.name),
+            ...(property.amenities || []),
+        ].map(name => name.toLowerCase());
+        if (!criteria.features.every(f => available.includes(f.toLowerCase()))) return false;
+    }
+
+    if (criteria.lifestyle && criteria.lifestyle.length > 0) {
+        const lifestyle = (property.lifestyle || []).map(l => l.toLowerCase());
+        if (!criteria.lifestyle.every(l => lifestyle.includes(l.toLowerCase()))) return false;
+    }
+
+    if (criteria.hasPool !== undefined && !!property.specs.pool !== criteria.hasPool) return false;
+    if (criteria.hasGarden !== undefined && !!property.specs.garden !== criteria.hasGarden) return false;
+    if (criteria.hasSeaview !== undefined && !!property.specs.seaview !== criteria.hasSeaview) return false;
+
+    const featured = criteria.isFeatured ?? criteria.featured;
+    if (featured !== undefined && isFeatured(property) !== featured) return false;
+
+    const exclusive = criteria.isExclusive ?? criteria.exclusive;
+    if (exclusive !== undefined && isExclusive(property) !== exclusive) return false;
+
+    if (criteria.isOffMarket !== undefined && isOffMarket(property) !== criteria.isOffMarket) return false;
+
+    if (criteria.agentId && property.agentId !== criteria.agentId) return false;
+    if (criteria.agencyId && property.agencyId !== criteria.agencyId) return false;
+
+    return true;
+}
+
+/**
+ * Listing prices are compared in the searched currency, so EUR and AED listings
+ * can be filtered and sorted together
+ */
+export function searchCurrency(criteria?: PropertySearchCriteria) {
+    const currency = criteria?.currency?.toUpperCase();
+    return isSupportedCurrency(currency) ? currency : defaultCurrency;
+}
+
+export function isFeatured(property: Property): boolean {
+    return !!(property.flags?.featured ?? property.isFeatured);
+}
+
+export function isExclusive(property: Property): boolean {
+    return !!(property.flags?.exclusive ?? property.isExclusive);
+}
+
+export function isOffMarket(property: Property): boolean {
+    return !!(property.flags?.offMarket ?? property.isOffMarket);
+}
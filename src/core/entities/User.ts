@@ -64,6 +64,8 @@ export interface User {
 
     // Security
     twoFactorEnabled: boolean;
+    /** Set after repeated failed logins; sign-in is refused until then */
+    lockedUntil?: Date;
 
     // Analytics
     propertyCount?: number;
@@ -135,6 +137,10 @@ export function getFullName(user: User): string {
     return `${user.profile.firstName} ${user.profile.lastName}`.trim() || user.email;
 }
 
+export function isLocked(user: User, now: Date = new Date()): boolean {
+    return !!user.lockedUntil && user.lockedUntil > now;
+}
+
 export function isVerified(user: User): boolean {
     return user.emailVerified && user.status === 'active';
 }
@@ -159,3 +165,18 @@ export function hasPermission(user: User, permission: string): boolean {
     if (user.role === 'super_admin') return true;
     return user.permissions?.includes(permission) ?? false;
 }
+
+/**
+ * Raised by IUserRepository.verifyPassword while an account is locked.
+ * `lockedNow` marks the failed attempt that caused the lock.
+ */
+export class AccountLockedError extends Error {
+    constructor(
+        public readonly userId: string,
+        public readonly lockedUntil: Date,
+        public readonly lockedNow: boolean = false
+    ) {
+        super('Account temporarily locked after too many failed login attempts');
+        this.name = 'AccountLockedError';
+    }
+}
@@ -6,6 +6,8 @@
 
 import { Property, PropertyStatus, PropertyType, ListingType } from '@/core/entities/Property';
 import { User, UserRole, UserStatus } from '@/core/entities/User';
+import { Lead, LeadActivity, LeadStatus, LeadType } from '@/core/entities/Lead';
+import { LeadRules } from '@/core/entities/LeadRules';
 
 // ============================================
 // COMMON TYPES
@@ -45,6 +47,7 @@ export interface PropertySearchCriteria {
 
     minPrice?: number;
     maxPrice?: number;
+    /** Currency of minPrice/maxPrice; listing prices are converted into it before comparing */
     currency?: string;
 
     minBedrooms?: number;
@@ -127,6 +130,7 @@ export interface IPropertyRepository {
     countByStatus?: (status?: PropertyStatus) => Promise<number | Record<PropertyStatus, number>>;
     countByType?(type: PropertyType): Promise<number>;
     countByCity?(): Promise<Record<string, number>>;
+    /** Price aggregates are in criteria.currency, else the platform default currency */
     getAveragePrice?(criteria?: PropertySearchCriteria): Promise<number>;
     getPriceRange?(criteria?: PropertySearchCriteria): Promise<{ min: number; max: number }>;
 }
@@ -140,12 +144,46 @@ export interface UserSearchCriteria {
     role?: UserRole;
     status?: UserStatus;
     emailVerified?: boolean;
+    /** Only accounts currently locked after failed logins (or only unlocked ones) */
+    locked?: boolean;
 
     page?: number;
     limit?: number;
     sort?: SortOptions;
 }
 
+/**
+ * One refresh token. Rotation chains sessions into a family that shares familyId.
+ */
+export interface UserSession {
+    id: string;
+    userId: string;
+    familyId: string;
+    refreshTokenHash: string;
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    /** Session that replaced this one when it was rotated */
+    replacedBy?: string;
+    /** Not revoked and not expired */
+    isValid: boolean;
+}
+
+/**
+ * Stored two-factor material. Secrets are encrypted by the application,
+ * recovery codes are SHA-256 hashes.
+ */
+export interface TwoFactorState {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodeHashes: string[];
+    lastUsedStep?: number;
+    enabledAt?: Date;
+}
+
 export interface IUserRepository {
     // CRUD Operations
     findById(id: string): Promise<User | null>;
@@ -163,21 +201,40 @@ export interface IUserRepository {
     exists(email: string): Promise<boolean>;
 
     // Password & Auth
+    /** Null for wrong credentials; throws AccountLockedError while the account is locked */
     verifyPassword(email: string, password: string): Promise<User | null>;
     updatePassword(id: string, passwordHash: string): Promise<void>;
+    /** Clears the failed-login counter and any lock */
+    unlockAccount?(id: string): Promise<void>;
+
+    // Password Reset (tokens are stored as SHA-256 hashes)
+    createPasswordResetToken?(userId: string, tokenHash: string, expiresAt?: Date): Promise<void>;
+    findPasswordResetToken?(tokenHash: string): Promise<{ userId: string; expiresAt: Date } | null>;
+    /** Marks the token used and returns its user; null when unknown, expired or already used */
+    usePasswordResetToken?(tokenHash: string): Promise<string | null>;
 
     // Session Management
     createSession(userId: string, refreshTokenHash: string, metadata: {
         ip: string;
         userAgent: string;
     }): Promise<void>;
-    findSession?(refreshTokenHash: string): Promise<{
-        userId: string;
-        refreshTokenHash: string;
-        isValid: boolean;
-    } | null>;
-    revokeSession?(refreshTokenHash: string): Promise<void>;
+    /** Also returns revoked sessions, so a replayed refresh token can be detected */
+    findSession?(refreshTokenHash: string): Promise<UserSession | null>;
+    /**
+     * Revoke a session and insert its successor in the same family.
+     * Returns false when the session was already revoked (lost a concurrent rotation).
+     */
+    rotateSession?(sessionId: string, refreshTokenHash: string, metadata: {
+        ip: string;
+        userAgent: string;
+    }): Promise<boolean>;
+    /** Unrevoked, unexpired sessions, newest first (one per family) */
+    listActiveSessions?(userId: string): Promise<UserSession[]>;
+    revokeSession?(sessionId: string): Promise<void>;
+    revokeSessionFamily?(familyId: string): Promise<void>;
     revokeAllSessions?(userId: string): Promise<void>;
+    /** Revoke every session of the user except one family ("sign out other devices") */
+    revokeOtherSessions?(userId: string, keepFamilyId: string): Promise<void>;
 
     // Agent-specific
     findAgents?(page?: number, limit?: number): Promise<PaginatedResult<User>>;
@@ -198,8 +255,17 @@ export interface IUserRepository {
     updateProfile?(id: string, profile: Partial<User['profile']>): Promise<User>;
 
     // 2FA
-    enable2FA?(id: string, secret: string): Promise<void>;
-    disable2FA?(id: string): Promise<void>;
+    getTwoFactorState(id: string): Promise<TwoFactorState | null>;
+    setPendingTwoFactorSecret(id: string, encryptedSecret: string | null): Promise<void>;
+    enable2FA(id: string, secret: string, recoveryCodeHashes: string[]): Promise<void>;
+    disable2FA(id: string): Promise<void>;
+    replaceRecoveryCodes(id: string, recoveryCodeHashes: string[]): Promise<void>;
+    /** Removes the code; false when it was not (or no longer) available */
+    consumeRecoveryCode(id: string, codeHash: string): Promise<boolean>;
+    /** Records an accepted TOTP step; false when that step or a later one was already used */
+    recordTwoFactorStep(id: string, step: number): Promise<boolean>;
+    getTwoFactorRequiredRoles(): Promise<UserRole[]>;
+    setTwoFactorRequired(role: UserRole, required: boolean, updatedBy: string): Promise<void>;
 }
 
 // ============================================
@@ -289,6 +355,7 @@ export interface IFavoriteRepository {
 export interface SearchHistory {
     id: string;
     userId: string;
+    name?: string; // Set when the user saved the search; unnamed entries are plain history
     query: string;
     filters: Record<string, unknown>;
     resultCount: number;
@@ -296,10 +363,214 @@ export interface SearchHistory {
 }
 
 export interface ISearchHistoryRepository {
+    findById(id: string): Promise<SearchHistory | null>;
     findByUser(userId: string, limit?: number): Promise<SearchHistory[]>;
+    findSavedByUser(userId: string): Promise<SearchHistory[]>;
+    findAllSaved(): Promise<SearchHistory[]>;
     create(history: Omit<SearchHistory, 'id' | 'createdAt'>): Promise<SearchHistory>;
     delete(id: string): Promise<void>;
     clearByUser(userId: string): Promise<void>;
 
     getPopularSearches(limit?: number): Promise<Array<{ query: string; count: number }>>;
 }
+
+// ============================================
+// NOTIFICATION REPOSITORY (Outbox)
+// ============================================
+
+export interface Notification {
+    id: string;
+    /** Empty for visitors without an account, e.g. lead acknowledgements */
+    userId?: string;
+    channel: 'email';
+    type: string;
+    recipient: string;
+    locale: string;
+    payload: Record<string, unknown>;
+
+    // Prevents the same event from notifying a user twice
+    dedupeKey?: string;
+
+    status: 'pending' | 'sent' | 'failed';
+    attempts: number;
+    lastError?: string;
+    // Earliest time a pending notification is (re)tried
+    nextAttemptAt?: Date;
+
+    createdAt: Date;
+    sentAt?: Date;
+}
+
+export interface INotificationRepository {
+    /** Returns the existing notification when one with the same dedupeKey was already queued */
+    enqueue(notification: Omit<Notification, 'id' | 'status' | 'attempts' | 'createdAt' | 'nextAttemptAt'>): Promise<Notification>;
+
+    findByUser(userId: string, limit?: number): Promise<Notification[]>;
+    findPending(limit?: number): Promise<Notification[]>;
+
+    /**
+     * Pending notifications that are due, leased for leaseMs so a concurrent
+     * worker does not deliver them again
+     */
+    claimDue(limit: number, leaseMs: number): Promise<Notification[]>;
+
+    markSent(id: string): Promise<void>;
+    /** With retryAt the notification stays pending until then; without it, it is failed for good */
+    markFailed(id: string, error: string, retryAt?: Date): Promise<void>;
+}
+
+// ============================================
+// SECURITY EVENT REPOSITORY
+// ============================================
+
+export type SecurityEventSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface SecurityEventRecord {
+    id: string;
+    type: string;
+    severity: SecurityEventSeverity;
+    userId?: string;
+    ip: string;
+    userAgent: string;
+    path: string;
+    method?: string;
+    details: Record<string, unknown>;
+    requestId?: string;
+    sessionId?: string;
+    createdAt: Date;
+}
+
+export interface SecurityEventSearchCriteria {
+    types?: string[];
+    severities?: SecurityEventSeverity[];
+    ip?: string;
+    userId?: string;
+    from?: Date;
+    to?: Date;
+
+    page?: number;
+    limit?: number;
+}
+
+export type SecurityEventInterval = 'hour' | 'day';
+
+export interface SecurityEventBucket {
+    /** Start of the hour or day (UTC) */
+    start: Date;
+    /** Event count per type within the bucket */
+    counts: Record<string, number>;
+    total: number;
+}
+
+export interface ISecurityEventRepository {
+    insertMany(events: Omit<SecurityEventRecord, 'id'>[]): Promise<void>;
+
+    /** Newest first */
+    findAll(criteria?: SecurityEventSearchCriteria): Promise<PaginatedResult<SecurityEventRecord>>;
+
+    /** Matching events counted per type and interval, oldest bucket first; empty buckets are omitted */
+    countByInterval(criteria: SecurityEventSearchCriteria, interval: SecurityEventInterval): Promise<SecurityEventBucket[]>;
+}
+
+// ============================================
+// PERMISSION REPOSITORY
+// ============================================
+
+export interface RolePermissionSet {
+    role: UserRole;
+    permissions: string[];
+    updatedBy?: string;
+    updatedAt?: Date;
+}
+
+/** 'grant' adds a permission to the user's role set, 'revoke' removes one */
+export type PermissionEffect = 'grant' | 'revoke';
+
+export interface PermissionOverride {
+    permission: string;
+    effect: PermissionEffect;
+    createdBy?: string;
+    createdAt: Date;
+}
+
+export interface IPermissionRepository {
+    /** Stored role sets; roles without a row use the built-in defaults */
+    findRolePermissions(): Promise<RolePermissionSet[]>;
+    saveRolePermissions(role: UserRole, permissions: string[], updatedBy: string): Promise<void>;
+
+    findUserOverrides(userId: string): Promise<PermissionOverride[]>;
+    /** Replaces every override of the user */
+    replaceUserOverrides(
+        userId: string,
+        overrides: Pick<PermissionOverride, 'permission' | 'effect'>[],
+        createdBy: string
+    ): Promise<void>;
+}
+
+// ============================================
+// LEAD REPOSITORY
+// ============================================
+
+export interface LeadSearchCriteria {
+    status?: LeadStatus;
+    type?: LeadType;
+    /** Assignee user ID; null for leads nobody owns yet */
+    assignedTo?: string | null;
+    /** Matches name, email or message */
+    query?: string;
+    source?: string;
+    propertyId?: string;
+    createdFrom?: Date;
+    createdTo?: Date;
+
+    page?: number;
+    limit?: number;
+}
+
+export type LeadFilterCriteria = Omit<LeadSearchCriteria, 'page' | 'limit'>;
+
+export interface ILeadRepository {
+    findById(id: string): Promise<Lead | null>;
+    /** Newest first */
+    findAll(criteria?: LeadSearchCriteria): Promise<PaginatedResult<Lead>>;
+    create(lead: Omit<Lead, 'id' | 'createdAt' | 'updatedAt'>): Promise<Lead>;
+    /** Fields present as undefined are cleared */
+    update(id: string, data: Partial<Lead>): Promise<Lead>;
+    delete(id: string): Promise<void>;
+    /** Leads with the email, or a phone with the given leadPhoneKey; newest first */
+    findByContact(
+        contact: { email: string; phoneKey?: string },
+        options?: { updatedSince?: Date }
+    ): Promise<Lead[]>;
+
+    /** Counts across every status, so criteria.status is ignored */
+    countByStatus(criteria?: LeadFilterCriteria): Promise<Record<LeadStatus, number>>;
+    countByType(): Promise<Record<string, number>>;
+    /** Open leads and latest assignment per assignee, for routing */
+    getAssigneeWorkload(): Promise<Record<string, LeadAssigneeWorkload>>;
+}
+
+export interface LeadAssigneeWorkload {
+    openLeads: number;
+    lastAssignedAt?: Date;
+}
+
+export interface ILeadActivityRepository {
+    /** Newest first */
+    findByLead(leadId: string, limit?: number): Promise<LeadActivity[]>;
+    create(activity: Omit<LeadActivity, 'id' | 'createdAt'>): Promise<LeadActivity>;
+    /** Move a lead's whole timeline onto another lead */
+    moveToLead(fromLeadId: string, toLeadId: string): Promise<void>;
+}
+
+export interface StoredLeadRules {
+    rules: LeadRules;
+    updatedBy?: string;
+    updatedAt: Date;
+}
+
+export interface ILeadRulesRepository {
+    /** null until an admin has saved rules */
+    get(): Promise<StoredLeadRules | null>;
+    save(rules: LeadRules, updatedBy: string): Promise<StoredLeadRules>;
+}
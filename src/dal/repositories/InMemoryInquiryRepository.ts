@@ -0,0 +1,183 @@
+/**
+ * In-Memory Inquiry Repository
+ * ============================
+ * Implements IInquiryRepository without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { IInquiryRepository, Inquiry, InquirySearchCriteria, PaginatedResult } from '../interfaces';
+
+// ============================================
+// SORTING
+// ============================================
+
+const SORT_VALUES: Record<string, (inquiry: Inquiry) => number | string> = {
+    createdAt: i => i.createdAt.getTime(),
+    updatedAt: i => i.updatedAt.getTime(),
+    status: i => i.status,
+    readAt: i => i.readAt?.getTime() ?? 0,
+    repliedAt: i => i.repliedAt?.getTime() ?? 0,
+};
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryInquiryRepository implements IInquiryRepository {
+    private inquiries: Inquiry[];
+
+    constructor(seed: Inquiry[] = []) {
+        this.inquiries = seed.map(i => structuredClone(i));
+    }
+
+    private findIndexOrThrow(id: string): number {
+        const index = this.inquiries.findIndex(i => i.id === id);
+        if (index === -1) {
+            throw new Error(`Inquiry not found: ${id}`);
+        }
+        return index;
+    }
+
+    private newestFirst(inquiries: Inquiry[]): Inquiry[] {
+        return [...inquiries]
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .map(i => structuredClone(i));
+    }
+
+    // ----------------------------------------
+    // Basic CRUD
+    // ----------------------------------------
+
+    async findById(id: string): Promise<Inquiry | null> {
+        const inquiry = this.inquiries.find(i => i.id === id);
+        return inquiry ? structuredClone(inquiry) : null;
+    }
+
+    async findAll(criteria: InquirySearchCriteria = {}): Promise<PaginatedResult<Inquiry>> {
+        const page = criteria.page || 1;
+        const limit = Math.min(criteria.limit || 20, 100);
+
+        const filtered = this.inquiries.filter(i =>
+            (!criteria.propertyId || i.propertyId === criteria.propertyId) &&
+            (!criteria.agentId || i.agentId === criteria.agentId) &&
+            (!criteria.userId || i.userId === criteria.userId) &&
+            (!criteria.status || i.status === criteria.status)
+        );
+
+        const valueOf = SORT_VALUES[criteria.sort?.field || 'createdAt'] || SORT_VALUES.createdAt;
+        const direction = criteria.sort?.direction === 'asc' ? 1 : -1;
+        filtered.sort((a, b) => {
+            const left = valueOf(a);
+            const right = valueOf(b);
+            return left < right ? -direction : left > right ? direction : 0;
+        });
+
+        const total = filtered.length;
+        const totalPages = Math.ceil(total / limit);
+        const offset = (page - 1) * limit;
+
+        return {
+            data: filtered.slice(offset, offset + limit).map(i => structuredClone(i)),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrev: page > 1,
+            },
+        };
+    }
+
+    async create(data: Omit<Inquiry, 'id' | 'createdAt' | 'updatedAt'>): Promise<Inquiry> {
+        const now = new Date();
+        const inquiry: Inquiry = {
+            ...data,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.inquiries.push(inquiry);
+        return structuredClone(inquiry);
+    }
+
+    async update(id: string, data: Partial<Inquiry>): Promise<Inquiry> {
+        const index = this.findIndexOrThrow(id);
+        const updated: Inquiry = {
+            ...this.inquiries[index],
+            ...data,
+            id,
+            updatedAt: new Date(),
+        };
+
+        this.inquiries[index] = updated;
+        return structuredClone(updated);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.inquiries.splice(this.findIndexOrThrow(id), 1);
+    }
+
+    // ----------------------------------------
+    // Lookups
+    // ----------------------------------------
+
+    async findByProperty(propertyId: string): Promise<Inquiry[]> {
+        return this.newestFirst(this.inquiries.filter(i => i.propertyId === propertyId));
+    }
+
+    async findByAgent(agentId: string): Promise<Inquiry[]> {
+        return this.newestFirst(this.inquiries.filter(i => i.agentId === agentId));
+    }
+
+    async findByUser(userId: string): Promise<Inquiry[]> {
+        return this.newestFirst(this.inquiries.filter(i => i.userId === userId));
+    }
+
+    // ----------------------------------------
+    // Status Transitions
+    // ----------------------------------------
+
+    async markAsRead(id: string): Promise<Inquiry> {
+        const inquiry = this.inquiries[this.findIndexOrThrow(id)];
+
+        // Reading a replied or closed inquiry must not move it backwards
+        if (inquiry.status !== 'new') return structuredClone(inquiry);
+
+        return this.update(id, { status: 'read', readAt: new Date() });
+    }
+
+    async markAsReplied(id: string): Promise<Inquiry> {
+        const inquiry = this.inquiries[this.findIndexOrThrow(id)];
+        const now = new Date();
+
+        return this.update(id, {
+            status: 'replied',
+            readAt: inquiry.readAt ?? now,
+            repliedAt: now,
+        });
+    }
+
+    async close(id: string): Promise<Inquiry> {
+        return this.update(id, { status: 'closed' });
+    }
+
+    // ----------------------------------------
+    // Counts
+    // ----------------------------------------
+
+    async countByStatus(agentId: string): Promise<Record<Inquiry['status'], number>> {
+        const counts: Record<Inquiry['status'], number> = { new: 0, read: 0, replied: 0, closed: 0 };
+
+        this.inquiries
+            .filter(i => i.agentId === agentId)
+            .forEach(i => { counts[i.status]++; });
+
+        return counts;
+    }
+
+    async countUnread(agentId: string): Promise<number> {
+        return this.inquiries.filter(i => i.agentId === agentId && i.status === 'new').length;
+    }
+}
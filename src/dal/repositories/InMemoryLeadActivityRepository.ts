@@ -0,0 +1,46 @@
+/**
+ * In-Memory Lead Activity Repository
+ * ==================================
+ * Implements ILeadActivityRepository without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { LeadActivity } from '@/core/entities/Lead';
+import { ILeadActivityRepository } from '../interfaces';
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryLeadActivityRepository implements ILeadActivityRepository {
+    private activities: LeadActivity[];
+
+    constructor(seed: LeadActivity[] = []) {
+        this.activities = seed.map(a => structuredClone(a));
+    }
+
+    async findByLead(leadId: string, limit: number = 100): Promise<LeadActivity[]> {
+        return this.activities
+            .filter(a => a.leadId === leadId)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, limit)
+            .map(a => structuredClone(a));
+    }
+
+    async create(data: Omit<LeadActivity, 'id' | 'createdAt'>): Promise<LeadActivity> {
+        const activity: LeadActivity = {
+            ...data,
+            id: crypto.randomUUID(),
+            createdAt: new Date(),
+        };
+
+        this.activities.push(activity);
+        return structuredClone(activity);
+    }
+
+    async moveToLead(fromLeadId: string, toLeadId: string): Promise<void> {
+        this.activities
+            .filter(a => a.leadId === fromLeadId)
+            .forEach(a => { a.leadId = toLeadId; });
+    }
+}
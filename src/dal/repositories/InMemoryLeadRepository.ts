@@ -0,0 +1,156 @@
+/**
+ * In-Memory Lead Repository
+ * =========================
+ * Implements ILeadRepository without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { Lead, LEAD_STATUSES, LeadStatus, isOpenLead, leadPhoneKey } from '@/core/entities/Lead';
+import {
+    ILeadRepository,
+    LeadAssigneeWorkload,
+    LeadFilterCriteria,
+    LeadSearchCriteria,
+    PaginatedResult,
+} from '../interfaces';
+
+function matches(lead: Lead, criteria: LeadSearchCriteria): boolean {
+    if (criteria.status && lead.status !== criteria.status) return false;
+    if (criteria.type && lead.type !== criteria.type) return false;
+    if (criteria.assignedTo !== undefined && (lead.assignedTo ?? null) !== criteria.assignedTo) return false;
+    if (criteria.source && lead.source !== criteria.source) return false;
+    if (criteria.propertyId && lead.propertyId !== criteria.propertyId) return false;
+    if (criteria.createdFrom && lead.createdAt < criteria.createdFrom) return false;
+    if (criteria.createdTo && lead.createdAt > criteria.createdTo) return false;
+
+    if (criteria.query) {
+        const query = criteria.query.toLowerCase();
+        return [lead.name, lead.email, lead.message].some(value => value.toLowerCase().includes(query));
+    }
+
+    return true;
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryLeadRepository implements ILeadRepository {
+    private leads: Lead[];
+
+    constructor(seed: Lead[] = []) {
+        this.leads = seed.map(l => structuredClone(l));
+    }
+
+    private findIndexOrThrow(id: string): number {
+        const index = this.leads.findIndex(l => l.id === id);
+        if (index === -1) {
+            throw new Error(`Lead not found: ${id}`);
+        }
+        return index;
+    }
+
+    async findById(id: string): Promise<Lead | null> {
+        const lead = this.leads.find(l => l.id === id);
+        return lead ? structuredClone(lead) : null;
+    }
+
+    async findAll(criteria: LeadSearchCriteria = {}): Promise<PaginatedResult<Lead>> {
+        const page = criteria.page || 1;
+        const limit = Math.min(criteria.limit || 20, 100);
+
+        const filtered = this.leads
+            .filter(l => matches(l, criteria))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+        const total = filtered.length;
+        const totalPages = Math.ceil(total / limit);
+        const offset = (page - 1) * limit;
+
+        return {
+            data: filtered.slice(offset, offset + limit).map(l => structuredClone(l)),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrev: page > 1,
+            },
+        };
+    }
+
+    async create(data: Omit<Lead, 'id' | 'createdAt' | 'updatedAt'>): Promise<Lead> {
+        const now = new Date();
+        const lead: Lead = {
+            ...data,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        this.leads.push(lead);
+        return structuredClone(lead);
+    }
+
+    async update(id: string, data: Partial<Lead>): Promise<Lead> {
+        const index = this.findIndexOrThrow(id);
+        const updated: Lead = {
+            ...this.leads[index],
+            ...data,
+            id,
+            updatedAt: new Date(),
+        };
+
+        this.leads[index] = updated;
+        return structuredClone(updated);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.leads.splice(this.findIndexOrThrow(id), 1);
+    }
+
+    async findByContact(
+        contact: { email: string; phoneKey?: string },
+        options: { updatedSince?: Date } = {}
+    ): Promise<Lead[]> {
+        return this.leads
+            .filter(l => l.email === contact.email
+                || (!!contact.phoneKey && leadPhoneKey(l.phone) === contact.phoneKey))
+            .filter(l => !options.updatedSince || l.updatedAt >= options.updatedSince)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .map(l => structuredClone(l));
+    }
+
+    async countByStatus(criteria: LeadFilterCriteria = {}): Promise<Record<LeadStatus, number>> {
+        const counts = Object.fromEntries(LEAD_STATUSES.map(status => [status, 0])) as Record<LeadStatus, number>;
+
+        this.leads
+            .filter(l => matches(l, { ...criteria, status: undefined }))
+            .forEach(l => { counts[l.status]++; });
+
+        return counts;
+    }
+
+    async countByType(): Promise<Record<string, number>> {
+        const counts: Record<string, number> = {};
+        this.leads.forEach(l => { counts[l.type] = (counts[l.type] || 0) + 1; });
+        return counts;
+    }
+
+    async getAssigneeWorkload(): Promise<Record<string, LeadAssigneeWorkload>> {
+        const workload: Record<string, LeadAssigneeWorkload> = {};
+
+        this.leads.forEach(l => {
+            if (!l.assignedTo) return;
+
+            const entry = workload[l.assignedTo] ??= { openLeads: 0 };
+            if (isOpenLead(l)) entry.openLeads++;
+            if (l.assignedAt && (!entry.lastAssignedAt || l.assignedAt > entry.lastAssignedAt)) {
+                entry.lastAssignedAt = new Date(l.assignedAt);
+            }
+        });
+
+        return workload;
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * In-Memory Lead Rules Repository
+ * ===============================
+ * Implements ILeadRulesRepository without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { LeadRules } from '@/core/entities/LeadRules';
+import { ILeadRulesRepository, StoredLeadRules } from '../interfaces';
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryLeadRulesRepository implements ILeadRulesRepository {
+    private stored: StoredLeadRules | null;
+
+    constructor(seed: StoredLeadRules | null = null) {
+        this.stored = seed ? structuredClone(seed) : null;
+    }
+
+    async get(): Promise<StoredLeadRules | null> {
+        return this.stored ? structuredClone(this.stored) : null;
+    }
+
+    async save(rules: LeadRules, updatedBy: string): Promise<StoredLeadRules> {
+        this.stored = {
+            rules: structuredClone(rules),
+            updatedBy,
+            updatedAt: new Date(),
+        };
+        return structuredClone(this.stored);
+    }
+}
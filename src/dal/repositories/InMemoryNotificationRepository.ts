@@ -0,0 +1,92 @@
+/**
+ * In-Memory Notification Repository
+ * =================================
+ * Implements INotificationRepository (the notification outbox) without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { INotificationRepository, Notification } from '../interfaces';
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryNotificationRepository implements INotificationRepository {
+    private notifications: Notification[];
+
+    constructor(seed: Notification[] = []) {
+        this.notifications = seed.map(n => structuredClone(n));
+    }
+
+    private findOrThrow(id: string): Notification {
+        const notification = this.notifications.find(n => n.id === id);
+        if (!notification) {
+            throw new Error(`Notification not found: ${id}`);
+        }
+        return notification;
+    }
+
+    async enqueue(data: Omit<Notification, 'id' | 'status' | 'attempts' | 'createdAt' | 'nextAttemptAt'>): Promise<Notification> {
+        if (data.dedupeKey) {
+            const existing = this.notifications.find(n => n.dedupeKey === data.dedupeKey);
+            if (existing) return structuredClone(existing);
+        }
+
+        const notification: Notification = {
+            ...data,
+            id: crypto.randomUUID(),
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: new Date(),
+            createdAt: new Date(),
+        };
+
+        this.notifications.push(notification);
+        return structuredClone(notification);
+    }
+
+    async findByUser(userId: string, limit: number = 50): Promise<Notification[]> {
+        return this.notifications
+            .filter(n => n.userId === userId)
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, limit)
+            .map(n => structuredClone(n));
+    }
+
+    async findPending(limit: number = 50): Promise<Notification[]> {
+        return this.notifications
+            .filter(n => n.status === 'pending')
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+            .slice(0, limit)
+            .map(n => structuredClone(n));
+    }
+
+    async claimDue(limit: number, leaseMs: number): Promise<Notification[]> {
+        const now = Date.now();
+        const due = this.notifications
+            .filter(n => n.status === 'pending' && (n.nextAttemptAt?.getTime() ?? 0) <= now)
+            .sort((a, b) => (a.nextAttemptAt?.getTime() ?? 0) - (b.nextAttemptAt?.getTime() ?? 0))
+            .slice(0, limit);
+
+        for (const notification of due) {
+            notification.nextAttemptAt = new Date(now + leaseMs);
+        }
+        return due.map(n => structuredClone(n));
+    }
+
+    async markSent(id: string): Promise<void> {
+        const notification = this.findOrThrow(id);
+        notification.status = 'sent';
+        notification.attempts++;
+        notification.sentAt = new Date();
+        notification.lastError = undefined;
+    }
+
+    async markFailed(id: string, error: string, retryAt?: Date): Promise<void> {
+        const notification = this.findOrThrow(id);
+        notification.status = retryAt ? 'pending' : 'failed';
+        notification.attempts++;
+        notification.lastError = error;
+        if (retryAt) notification.nextAttemptAt = retryAt;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * In-Memory Permission Repository
+ * ===============================
+ * Implements IPermissionRepository (role permission sets and per-user
+ * overrides) without a database. Starts empty, so every role uses the
+ * built-in defaults until a super_admin changes it.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { UserRole } from '@/core/entities/User';
+import { IPermissionRepository, PermissionOverride, RolePermissionSet } from '../interfaces';
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryPermissionRepository implements IPermissionRepository {
+    private readonly roles = new Map<UserRole, RolePermissionSet>();
+    private readonly overrides = new Map<string, PermissionOverride[]>();
+
+    constructor(seed: RolePermissionSet[] = []) {
+        for (const set of seed) {
+            this.roles.set(set.role, structuredClone(set));
+        }
+    }
+
+    async findRolePermissions(): Promise<RolePermissionSet[]> {
+        return [...this.roles.values()].map(set => structuredClone(set));
+    }
+
+    async saveRolePermissions(role: UserRole, permissions: string[], updatedBy: string): Promise<void> {
+        this.roles.set(role, {
+            role,
+            permissions: [...permissions],
+            updatedBy,
+            updatedAt: new Date(),
+        });
+    }
+
+    async findUserOverrides(userId: string): Promise<PermissionOverride[]> {
+        return (this.overrides.get(userId) || []).map(override => structuredClone(override));
+    }
+
+    async replaceUserOverrides(
+        userId: string,
+        overrides: Pick<PermissionOverride, 'permission' | 'effect'>[],
+        createdBy: string
+    ): Promise<void> {
+        const existing = new Map((this.overrides.get(userId) || []).map(o => [o.permission, o]));
+
+        // Unchanged overrides keep their author and date
+        this.overrides.set(userId, overrides.map(({ permission, effect }) => {
+            const previous = existing.get(permission);
+            return previous?.effect === effect
+                ? previous
+                : { permission, effect, createdBy, createdAt: new Date() };
+        }));
+    }
+}
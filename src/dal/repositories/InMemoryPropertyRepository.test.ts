@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryPropertyRepository } from './InMemoryPropertyRepository';
+
+// The seed is the ten mock listings, newest first (mock-property-001 .. 010)
+
+describe('InMemoryPropertyRepository', () => {
+    let repository: InMemoryPropertyRepository;
+
+    beforeEach(() => {
+        repository = new InMemoryPropertyRepository();
+    });
+
+    describe('findAll', () => {
+        it('returns the newest listings first, paginated', async () => {
+            const first = await repository.findAll({ limit: 4 });
+            const last = await repository.findAll({ limit: 4, page: 3 });
+
+            expect(first.data.map(p => p.id)).toEqual([
+                'mock-property-001', 'mock-property-002', 'mock-property-003', 'mock-property-004',
+            ]);
+            expect(first.pagination).toEqual({
+                page: 1, limit: 4, total: 10, totalPages: 3, hasNext: true, hasPrevious: false,
+            });
+            expect(last.data.map(p => p.id)).toEqual(['mock-property-009', 'mock-property-010']);
+            expect(last.pagination).toMatchObject({ hasNext: false, hasPrevious: true });
+        });
+
+        it('filters by city and listing type', async () => {
+            const dubai = await repository.findAll({ city: 'Dubai' });
+            const rentals = await repository.findAll({ listingType: 'rent' });
+
+            expect(dubai.data.map(p => p.id)).toEqual(['mock-property-001', 'mock-property-010']);
+            expect(rentals.data.map(p => p.id)).toEqual(['mock-property-006', 'mock-property-008', 'mock-property-010']);
+        });
+
+        it('sorts prices in one currency across EGP, AED, EUR and USD listings', async () => {
+            const result = await repository.findAll({ sort: { field: 'price', direction: 'asc' }, currency: 'EUR' });
+            const ids = result.data.map(p => p.id);
+
+            expect(ids[0]).toBe('mock-property-008');
+            expect(ids[ids.length - 1]).toBe('mock-property-002');
+        });
+
+        it('returns copies the caller cannot change the store through', async () => {
+            const [property] = (await repository.findAll({ limit: 1 })).data;
+            property.title = 'Changed';
+
+            expect((await repository.findById(property.id))?.title).not.toBe('Changed');
+        });
+    });
+
+    describe('writes', () => {
+        it('creates a listing with a reference code and refuses a taken slug', async () => {
+            const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...existing } =
+                (await repository.findById('mock-property-003'))!;
+
+            const created = await repository.create({ ...existing, slug: 'ibiza-copy', referenceCode: '' });
+
+            expect(created.id).not.toBe('mock-property-003');
+            expect(created.referenceCode).toMatch(/^MOD-\d{4}-[A-Z0-9]{6}$/);
+            expect(await repository.findBySlug('ibiza-copy')).toMatchObject({ id: created.id });
+            await expect(repository.create({ ...existing, slug: 'ibiza-copy' })).rejects.toThrow('already exists');
+        });
+
+        it('keeps unpublished and sold listings out of the public queries', async () => {
+            await repository.unpublish('mock-property-001');
+            await repository.markAsSold('mock-property-002');
+
+            const recent = await repository.findRecent(3);
+            const featured = await repository.findFeatured();
+
+            expect(recent.map(p => p.id)).toEqual(['mock-property-003', 'mock-property-004', 'mock-property-005']);
+            expect(featured.map(p => p.id)).toEqual(['mock-property-005', 'mock-property-007']);
+            expect(await repository.countByStatus()).toEqual({ active: 8, draft: 1, sold: 1 });
+        });
+
+        it('throws for unknown IDs', async () => {
+            await expect(repository.update('missing', { title: 'x' })).rejects.toThrow('Property not found: missing');
+            await expect(repository.delete('missing')).rejects.toThrow('Property not found: missing');
+        });
+    });
+
+    describe('analytics', () => {
+        it('counts views and never lets favorites go negative', async () => {
+            await repository.incrementViewCount('mock-property-004');
+            await repository.incrementViewCount('mock-property-004');
+            await repository.decrementFavoriteCount('mock-property-004');
+
+            expect(await repository.getAnalytics('mock-property-004')).toMatchObject({ views: 2, favorites: 0 });
+            expect((await repository.findById('mock-property-004'))?.viewCount).toBe(2);
+        });
+    });
+
+    describe('findByLocation', () => {
+        it('returns the nearest listings within the radius', async () => {
+            const { latitude, longitude } = (await repository.findById('mock-property-004'))!.location.coordinates;
+
+            const nearby = await repository.findByLocation(latitude, longitude, 5);
+
+            expect(nearby.map(p => p.id)).toEqual(['mock-property-004']);
+        });
+    });
+});
@@ -0,0 +1,442 @@
+/**
+ * In-Memory Property Repository Implementation
+ * =============================================
+ * Implements IPropertyRepository over a plain array.
+ * Used for offline demos and tests when Supabase is not configured,
+ * so the same use cases run against both stores.
+ */
+
+import {
+    IPropertyRepository,
+    PropertySearchCriteria,
+    PaginatedResult,
+} from '../interfaces';
+import {
+    Property,
+    PropertyStatus,
+    PropertyType,
+    createProperty,
+} from '@/core/entities/Property';
+import { isExclusive, isFeatured, matchesCriteria, searchCurrency } from '@/core/entities/PropertySearch';
+import { MOCK_PROPERTIES } from '@/data/mock-properties';
+import { convertPrice } from '@/lib/currency';
+import type { PropertyListItem } from '@/types';
+
+// ============================================
+// SEED DATA
+// ============================================
+
+const CITY_COORDINATES: Record<string, { latitude: number; longitude: number }> = {
+    'Dubai': { latitude: 25.2048, longitude: 55.2708 },
+    'New York': { latitude: 40.7128, longitude: -74.0060 },
+    'Ibiza': { latitude: 38.9067, longitude: 1.4206 },
+    'Paris': { latitude: 48.8566, longitude: 2.3522 },
+    'Cairo': { latitude: 30.0444, longitude: 31.2357 },
+    'New Cairo': { latitude: 30.0300, longitude: 31.4700 },
+    'Maadi': { latitude: 29.9602, longitude: 31.2569 },
+    'Sheikh Zayed': { latitude: 30.0500, longitude: 30.9800 },
+    'North Coast': { latitude: 30.9600, longitude: 28.7600 },
+};
+
+/**
+ * Mock listings use the wider UI type list; fold it onto the core PropertyType
+ */
+const LISTING_TYPE_MAP: Record<string, PropertyType> = {
+    townhouse: 'house',
+    duplex: 'apartment',
+    office: 'commercial',
+};
+
+function mapListItemToProperty(item: PropertyListItem, index: number): Property {
+    const createdAt = new Date(Date.now() - index * 24 * 60 * 60 * 1000);
+    const featured = !!item.featured;
+
+    return createProperty({
+        id: item.id,
+        slug: item.slug,
+        title: item.title,
+        titleAr: item.titleAr,
+        headline: `Luxury ${item.type} in ${item.location.city}`,
+        description: 'Experience the epitome of luxury living in this stunning property. Featuring exquisite finishes, panoramic views, and world-class amenities, this residence offers the perfect blend of comfort and sophistication.',
+        type: LISTING_TYPE_MAP[item.type] || (item.type as PropertyType),
+        listingType: item.listingType === 'rent' ? 'rent' : 'sale',
+        status: 'active',
+        isFeatured: featured,
+        flags: {
+            featured,
+            exclusive: false,
+            newDevelopment: false,
+            offMarket: false,
+            acceptsCrypto: false,
+        },
+        location: {
+            address: `${item.location.city}, ${item.location.country}`,
+            city: item.location.city,
+            cityAr: item.location.cityAr,
+            country: item.location.country,
+            countryAr: item.location.countryAr,
+            coordinates: CITY_COORDINATES[item.location.city] || { latitude: 0, longitude: 0 },
+        },
+        specs: { ...item.specs },
+        price: { ...item.price },
+        images: item.images.map(img => ({ ...img, alt: img.alt || item.title })),
+        agentId: 'mock-agent-001',
+        agencyId: 'mock-agency-001',
+        createdAt,
+        updatedAt: createdAt,
+        listedAt: createdAt,
+        publishedAt: createdAt,
+    });
+}
+
+/**
+ * Build the default seed from the high-fidelity mock listings
+ */
+export function createSeedProperties(items: PropertyListItem[] = MOCK_PROPERTIES): Property[] {
+    return items.map(mapListItemToProperty);
+}
+
+// ============================================
+// SORTING
+// ============================================
+
+const SORT_VALUES: Record<string, (p: Property) => number> = {
+    createdAt: p => p.createdAt.getTime(),
+    created_at: p => p.createdAt.getTime(),
+    listedAt: p => (p.listedAt || p.createdAt).getTime(),
+    'specs.area': p => p.specs.livingAreaSqm ?? 0,
+    views: p => p.analytics?.views ?? 0,
+    favorites: p => p.analytics?.favorites ?? 0,
+};
+
+function sortProperties(properties: Property[], criteria?: PropertySearchCriteria): Property[] {
+    const field = criteria?.sort?.field || criteria?.sortBy || 'createdAt';
+    const direction = criteria?.sort?.direction || criteria?.sortOrder || 'desc';
+    const currency = searchCurrency(criteria);
+    const getValue = field === 'price' || field === 'price.amount'
+        ? (p: Property) => convertPrice(p.price, currency)
+        : SORT_VALUES[field] || SORT_VALUES.createdAt;
+    const modifier = direction === 'asc' ? 1 : -1;
+
+    return [...properties].sort((a, b) => (getValue(a) - getValue(b)) * modifier);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function paginate(properties: Property[], page: number, limit: number): PaginatedResult<Property> {
+    const total = properties.length;
+    const totalPages = Math.ceil(total / limit);
+    const offset = (page - 1) * limit;
+
+    return {
+        data: properties.slice(offset, offset + limit),
+        pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrevious: page > 1,
+        },
+    };
+}
+
+function distanceKm(
+    from: { latitude: number; longitude: number },
+    to: { latitude: number; longitude: number }
+): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(to.latitude - from.latitude);
+    const dLng = toRad(to.longitude - from.longitude);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function generateReferenceCode(): string {
+    const now = new Date();
+    return `MOD-${now.toISOString().slice(2, 4)}${String(now.getMonth() + 1).padStart(2, '0')}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemoryPropertyRepository implements IPropertyRepository {
+    private properties: Property[];
+
+    constructor(seed: Property[] = createSeedProperties()) {
+        this.properties = seed.map(p => structuredClone(p));
+    }
+
+    private get live(): Property[] {
+        return this.properties.filter(p => p.status === 'active');
+    }
+
+    private findIndexOrThrow(id: string): number {
+        const index = this.properties.findIndex(p => p.id === id);
+        if (index === -1) {
+            throw new Error(`Property not found: ${id}`);
+        }
+        return index;
+    }
+
+    private setStatus(id: string, status: PropertyStatus, changes: Partial<Property> = {}): Promise<Property> {
+        return this.update(id, { ...changes, status });
+    }
+
+    // ----------------------------------------
+    // Basic CRUD
+    // ----------------------------------------
+
+    async findById(id: string): Promise<Property | null> {
+        const property = this.properties.find(p => p.id === id);
+        return property ? structuredClone(property) : null;
+    }
+
+    async findBySlug(slug: string): Promise<Property | null> {
+        const property = this.properties.find(p => p.slug === slug);
+        return property ? structuredClone(property) : null;
+    }
+
+    async findByReferenceCode(referenceCode: string): Promise<Property | null> {
+        const property = this.properties.find(p => p.referenceCode === referenceCode);
+        return property ? structuredClone(property) : null;
+    }
+
+    async findAll(criteria?: PropertySearchCriteria): Promise<PaginatedResult<Property>> {
+        const page = criteria?.page || 1;
+        const limit = Math.min(criteria?.limit || 20, 100);
+
+        const matching = criteria
+            ? this.properties.filter(p => matchesCriteria(p, criteria))
+            : this.properties;
+
+        return paginate(sortProperties(matching, criteria).map(p => structuredClone(p)), page, limit);
+    }
+
+    async create(property: Omit<Property, 'id' | 'createdAt' | 'updatedAt'>): Promise<Property> {
+        const created = createProperty({
+            ...property,
+            referenceCode: property.referenceCode || generateReferenceCode(),
+            listedAt: property.listedAt || new Date(),
+        });
+
+        if (this.properties.some(p => p.slug === created.slug)) {
+            throw new Error(`Failed to create property: slug "${created.slug}" already exists`);
+        }
+
+        this.properties.unshift(created);
+        return structuredClone(created);
+    }
+
+    async update(id: string, data: Partial<Property>): Promise<Property> {
+        const index = this.findIndexOrThrow(id);
+        const updated: Property = {
+            ...this.properties[index],
+            ...data,
+            id,
+            updatedAt: new Date(),
+        };
+
+        this.properties[index] = updated;
+        return structuredClone(updated);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.properties.splice(this.findIndexOrThrow(id), 1);
+    }
+
+    // ----------------------------------------
+    // Specialized Queries
+    // ----------------------------------------
+
+    async findFeatured(limit: number = 10): Promise<Property[]> {
+        return sortProperties(this.live.filter(isFeatured)).slice(0, limit).map(p => structuredClone(p));
+    }
+
+    async findExclusive(limit: number = 10): Promise<Property[]> {
+        return sortProperties(this.live.filter(isExclusive)).slice(0, limit).map(p => structuredClone(p));
+    }
+
+    async findByAgent(agentId: string, criteria?: PropertySearchCriteria): Promise<PaginatedResult<Property>> {
+        return this.findAll({ ...criteria, agentId });
+    }
+
+    async findByAgency(agencyId: string, criteria?: PropertySearchCriteria): Promise<PaginatedResult<Property>> {
+        return this.findAll({ ...criteria, agencyId });
+    }
+
+    async findByCity(city: string, page: number = 1, limit: number = 20): Promise<PaginatedResult<Property>> {
+        return this.findAll({ city, page, limit });
+    }
+
+    async findSimilar(propertyId: string, limit: number = 6): Promise<Property[]> {
+        const property = this.properties.find(p => p.id === propertyId);
+        if (!property) return [];
+
+        const minPrice = property.price.amount * 0.7;
+        const maxPrice = property.price.amount * 1.3;
+
+        return sortProperties(this.live.filter(p =>
+            p.id !== propertyId &&
+            p.type === property.type &&
+            p.listingType === property.listingType &&
+            p.price.amount >= minPrice &&
+            p.price.amount <= maxPrice
+        )).slice(0, limit).map(p => structuredClone(p));
+    }
+
+    async findRecent(limit: number = 10): Promise<Property[]> {
+        return sortProperties(this.live).slice(0, limit).map(p => structuredClone(p));
+    }
+
+    async findByLocation(
+        latitude: number,
+        longitude: number,
+        radiusKm: number,
+        limit: number = 20
+    ): Promise<Property[]> {
+        const origin = { latitude, longitude };
+
+        return this.live
+            .map(p => ({ property: p, distance: distanceKm(origin, p.location.coordinates) }))
+            .filter(({ distance }) => distance <= radiusKm)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, limit)
+            .map(({ property }) => structuredClone(property));
+    }
+
+    // ----------------------------------------
+    // Status Management
+    // ----------------------------------------
+
+    async publish(id: string): Promise<Property> {
+        const now = new Date();
+        const existing = this.properties[this.findIndexOrThrow(id)];
+
+        return this.setStatus(id, 'active', {
+            publishedAt: now,
+            listedAt: existing.listedAt || now,
+        });
+    }
+
+    async unpublish(id: string): Promise<Property> {
+        return this.setStatus(id, 'draft');
+    }
+
+    async markAsSold(id: string, soldAt: Date = new Date()): Promise<Property> {
+        return this.setStatus(id, 'sold', { soldAt });
+    }
+
+    async archive(id: string): Promise<Property> {
+        return this.setStatus(id, 'archived');
+    }
+
+    // ----------------------------------------
+    // Analytics
+    // ----------------------------------------
+
+    private bumpAnalytics(id: string, key: keyof NonNullable<Property['analytics']>, delta: number): void {
+        const property = this.properties.find(p => p.id === id);
+        if (!property) return;
+
+        const analytics = property.analytics || { views: 0, inquiries: 0, favorites: 0, shares: 0 };
+        analytics[key] = Math.max(0, analytics[key] + delta);
+        property.analytics = analytics;
+        property.viewCount = analytics.views;
+        property.inquiryCount = analytics.inquiries;
+        property.favoriteCount = analytics.favorites;
+    }
+
+    async incrementViews(id: string): Promise<void> {
+        this.bumpAnalytics(id, 'views', 1);
+    }
+
+    async incrementShares(id: string): Promise<void> {
+        this.bumpAnalytics(id, 'shares', 1);
+    }
+
+    async incrementViewCount(id: string): Promise<void> {
+        this.bumpAnalytics(id, 'views', 1);
+    }
+
+    async incrementInquiryCount(id: string): Promise<void> {
+        this.bumpAnalytics(id, 'inquiries', 1);
+    }
+
+    async incrementFavoriteCount(id: string): Promise<void> {
+        this.bumpAnalytics(id, 'favorites', 1);
+    }
+
+    async decrementFavoriteCount(id: string): Promise<void> {
+        this.bumpAnalytics(id, 'favorites', -1);
+    }
+
+    async getAnalytics(propertyId: string): Promise<{
+        views: number;
+        inquiries: number;
+        favorites: number;
+        shares: number;
+        viewsHistory: { date: string; count: number }[];
+    }> {
+        const analytics = this.properties.find(p => p.id === propertyId)?.analytics;
+
+        return {
+            views: analytics?.views ?? 0,
+            inquiries: analytics?.inquiries ?? 0,
+            favorites: analytics?.favorites ?? 0,
+            shares: analytics?.shares ?? 0,
+            viewsHistory: [],
+        };
+    }
+
+    // ----------------------------------------
+    // Aggregations
+    // ----------------------------------------
+
+    async countByStatus(): Promise<Record<PropertyStatus, number>> {
+        const counts: Record<string, number> = {};
+        this.properties.forEach(p => {
+            counts[p.status] = (counts[p.status] || 0) + 1;
+        });
+
+        return counts as Record<PropertyStatus, number>;
+    }
+
+    async countByType(type: PropertyType): Promise<number> {
+        return this.live.filter(p => p.type === type).length;
+    }
+
+    async countByCity(): Promise<Record<string, number>> {
+        const counts: Record<string, number> = {};
+        this.live.forEach(p => {
+            counts[p.location.city] = (counts[p.location.city] || 0) + 1;
+        });
+
+        return counts;
+    }
+
+    async getAveragePrice(criteria?: PropertySearchCriteria): Promise<number> {
+        const prices = this.properties
+            .filter(p => matchesCriteria(p, criteria || {}))
+            .map(p => convertPrice(p.price, searchCurrency(criteria)));
+
+        return prices.length > 0
+            ? Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length)
+            : 0;
+    }
+
+    async getPriceRange(criteria?: PropertySearchCriteria): Promise<{ min: number; max: number }> {
+        const prices = this.properties
+            .filter(p => p.status === (criteria?.status || 'active'))
+            .map(p => convertPrice(p.price, searchCurrency(criteria)));
+
+        return prices.length > 0
+            ? { min: Math.round(Math.min(...prices)), max: Math.round(Math.max(...prices)) }
+            : { min: 0, max: 0 };
+    }
+}
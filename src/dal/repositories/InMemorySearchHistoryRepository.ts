@@ -0,0 +1,80 @@
+/**
+ * In-Memory Search History Repository
+ * ===================================
+ * Implements ISearchHistoryRepository without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ */
+
+import { ISearchHistoryRepository, SearchHistory } from '../interfaces';
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemorySearchHistoryRepository implements ISearchHistoryRepository {
+    private entries: SearchHistory[];
+
+    constructor(seed: SearchHistory[] = []) {
+        this.entries = seed.map(e => structuredClone(e));
+    }
+
+    private newestFirst(entries: SearchHistory[]): SearchHistory[] {
+        return [...entries]
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .map(e => structuredClone(e));
+    }
+
+    async findById(id: string): Promise<SearchHistory | null> {
+        const entry = this.entries.find(e => e.id === id);
+        return entry ? structuredClone(entry) : null;
+    }
+
+    async findByUser(userId: string, limit: number = 20): Promise<SearchHistory[]> {
+        return this.newestFirst(this.entries.filter(e => e.userId === userId)).slice(0, limit);
+    }
+
+    async findSavedByUser(userId: string): Promise<SearchHistory[]> {
+        return this.newestFirst(this.entries.filter(e => e.userId === userId && !!e.name));
+    }
+
+    async findAllSaved(): Promise<SearchHistory[]> {
+        return this.newestFirst(this.entries.filter(e => !!e.name));
+    }
+
+    async create(history: Omit<SearchHistory, 'id' | 'createdAt'>): Promise<SearchHistory> {
+        const entry: SearchHistory = {
+            ...history,
+            id: crypto.randomUUID(),
+            createdAt: new Date(),
+        };
+
+        this.entries.push(entry);
+        return structuredClone(entry);
+    }
+
+    async delete(id: string): Promise<void> {
+        const index = this.entries.findIndex(e => e.id === id);
+        if (index === -1) {
+            throw new Error(`Search not found: ${id}`);
+        }
+        this.entries.splice(index, 1);
+    }
+
+    async clearByUser(userId: string): Promise<void> {
+        // Saved searches survive a history wipe
+        this.entries = this.entries.filter(e => e.userId !== userId || !!e.name);
+    }
+
+    async getPopularSearches(limit: number = 10): Promise<Array<{ query: string; count: number }>> {
+        const counts = new Map<string, number>();
+
+        this.entries.forEach(e => {
+            const query = e.query.trim().toLowerCase();
+            if (query) counts.set(query, (counts.get(query) || 0) + 1);
+        });
+
+        return Array.from(counts, ([query, count]) => ({ query, count }))
+            .sort((a, b) => b.count - a.count || a.query.localeCompare(b.query))
+            .slice(0, limit);
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * In-Memory Security Event Repository
+ * ===================================
+ * Implements ISecurityEventRepository without a database.
+ * Used when Supabase credentials are not configured (local development, demos).
+ * Given a file path, events are also appended to it as JSON lines and read
+ * back on first use, so the log survives restarts.
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import {
+    ISecurityEventRepository,
+    PaginatedResult,
+    SecurityEventBucket,
+    SecurityEventInterval,
+    SecurityEventRecord,
+    SecurityEventSearchCriteria,
+} from '../interfaces';
+
+// Oldest events are dropped from memory beyond this (the file keeps them)
+const MAX_EVENTS = 10000;
+
+const INTERVAL_MS: Record<SecurityEventInterval, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+};
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class InMemorySecurityEventRepository implements ISecurityEventRepository {
+    private events: SecurityEventRecord[];
+    private loaded: Promise<void> | null = null;
+
+    constructor(seed: SecurityEventRecord[] = [], private readonly filePath?: string) {
+        this.events = seed.map(e => structuredClone(e));
+    }
+
+    private load(): Promise<void> {
+        if (!this.filePath) return Promise.resolve();
+
+        this.loaded ??= readFile(this.filePath, 'utf-8')
+            .then(content => {
+                const stored = content
+                    .split('\n')
+                    .filter(line => line.trim())
+                    .flatMap(line => {
+                        try {
+                            const event = JSON.parse(line);
+                            return [{ ...event, createdAt: new Date(event.createdAt) } as SecurityEventRecord];
+                        } catch {
+                            return []; // Skip a line cut short by a crash
+                        }
+                    });
+                this.events = [...stored, ...this.events].slice(-MAX_EVENTS);
+            })
+            .catch((error: NodeJS.ErrnoException) => {
+                if (error.code !== 'ENOENT') {
+                    console.error('⚠️ [DAL] Failed to load security events:', error);
+                }
+            });
+
+        return this.loaded;
+    }
+
+    private matches(event: SecurityEventRecord, criteria: SecurityEventSearchCriteria): boolean {
+        return (!criteria.types?.length || criteria.types.includes(event.type)) &&
+            (!criteria.severities?.length || criteria.severities.includes(event.severity)) &&
+            (!criteria.ip || event.ip === criteria.ip) &&
+            (!criteria.userId || event.userId === criteria.userId) &&
+            (!criteria.from || event.createdAt >= criteria.from) &&
+            (!criteria.to || event.createdAt <= criteria.to);
+    }
+
+    async insertMany(data: Omit<SecurityEventRecord, 'id'>[]): Promise<void> {
+        if (data.length === 0) return;
+        await this.load();
+
+        const events: SecurityEventRecord[] = data.map(event => ({
+            ...structuredClone(event),
+            id: crypto.randomUUID(),
+        }));
+
+        this.events.push(...events);
+        if (this.events.length > MAX_EVENTS) {
+            this.events.splice(0, this.events.length - MAX_EVENTS);
+        }
+
+        if (this.filePath) {
+            await mkdir(path.dirname(this.filePath), { recursive: true });
+            await appendFile(this.filePath, events.map(event => JSON.stringify(event) + '\n').join(''));
+        }
+    }
+
+    async findAll(criteria: SecurityEventSearchCriteria = {}): Promise<PaginatedResult<SecurityEventRecord>> {
+        await this.load();
+
+        const page = criteria.page || 1;
+        const limit = Math.min(criteria.limit || 50, 200);
+
+        const filtered = this.events
+            .filter(e => this.matches(e, criteria))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+        const total = filtered.length;
+        const totalPages = Math.ceil(total / limit);
+        const offset = (page - 1) * limit;
+
+        return {
+            data: filtered.slice(offset, offset + limit).map(e => structuredClone(e)),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrev: page > 1,
+            },
+        };
+    }
+
+    async countByInterval(criteria: SecurityEventSearchCriteria, interval: SecurityEventInterval): Promise<SecurityEventBucket[]> {
+        await this.load();
+
+        const size = INTERVAL_MS[interval];
+        const buckets = new Map<number, SecurityEventBucket>();
+
+        for (const event of this.events) {
+            if (!this.matches(event, criteria)) continue;
+
+            const start = Math.floor(event.createdAt.getTime() / size) * size;
+            let bucket = buckets.get(start);
+            if (!bucket) {
+                bucket = { start: new Date(start), counts: {}, total: 0 };
+                buckets.set(start, bucket);
+            }
+
+            bucket.counts[event.type] = (bucket.counts[event.type] || 0) + 1;
+            bucket.total++;
+        }
+
+        return [...buckets.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+}
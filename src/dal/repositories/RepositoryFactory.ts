@@ -0,0 +1,211 @@
+/**
+ * Repository Factory
+ * ==================
+ * Single place that decides which store backs the DAL interfaces.
+ * Supabase when credentials are configured, in-memory otherwise.
+ */
+
+import path from 'path';
+import {
+    IInquiryRepository,
+    ILeadActivityRepository,
+    ILeadRepository,
+    ILeadRulesRepository,
+    INotificationRepository,
+    IPermissionRepository,
+    IPropertyRepository,
+    ISearchHistoryRepository,
+    ISecurityEventRepository,
+} from '../interfaces';
+import { propertyRepository as supabasePropertyRepository } from './SupabasePropertyRepository';
+import { InMemoryPropertyRepository } from './InMemoryPropertyRepository';
+import { inquiryRepository as supabaseInquiryRepository } from './SupabaseInquiryRepository';
+import { InMemoryInquiryRepository } from './InMemoryInquiryRepository';
+import { searchHistoryRepository as supabaseSearchHistoryRepository } from './SupabaseSearchHistoryRepository';
+import { InMemorySearchHistoryRepository } from './InMemorySearchHistoryRepository';
+import { notificationRepository as supabaseNotificationRepository } from './SupabaseNotificationRepository';
+import { InMemoryNotificationRepository } from './InMemoryNotificationRepository';
+import { securityEventRepository as supabaseSecurityEventRepository } from './SupabaseSecurityEventRepository';
+import { InMemorySecurityEventRepository } from './InMemorySecurityEventRepository';
+import { permissionRepository as supabasePermissionRepository } from './SupabasePermissionRepository';
+import { InMemoryPermissionRepository } from './InMemoryPermissionRepository';
+import { leadRepository as supabaseLeadRepository } from './SupabaseLeadRepository';
+import { InMemoryLeadRepository } from './InMemoryLeadRepository';
+import { leadActivityRepository as supabaseLeadActivityRepository } from './SupabaseLeadActivityRepository';
+import { InMemoryLeadActivityRepository } from './InMemoryLeadActivityRepository';
+import { leadRulesRepository as supabaseLeadRulesRepository } from './SupabaseLeadRulesRepository';
+import { InMemoryLeadRulesRepository } from './InMemoryLeadRulesRepository';
+
+/**
+ * True when real Supabase credentials are present (placeholders don't count)
+ */
+export function isSupabaseConfigured(): boolean {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    return !!url && !!key && !url.includes('your-project-id');
+}
+
+// ============================================
+// PROPERTY REPOSITORY
+// ============================================
+
+let inMemoryPropertyRepository: InMemoryPropertyRepository | null = null;
+
+export function getPropertyRepository(): IPropertyRepository {
+    if (isSupabaseConfigured()) {
+        return supabasePropertyRepository;
+    }
+
+    if (!inMemoryPropertyRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory property repository.');
+        inMemoryPropertyRepository = new InMemoryPropertyRepository();
+    }
+    return inMemoryPropertyRepository;
+}
+
+// ============================================
+// INQUIRY REPOSITORY
+// ============================================
+
+let inMemoryInquiryRepository: InMemoryInquiryRepository | null = null;
+
+export function getInquiryRepository(): IInquiryRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseInquiryRepository;
+    }
+
+    if (!inMemoryInquiryRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory inquiry repository.');
+        inMemoryInquiryRepository = new InMemoryInquiryRepository();
+    }
+    return inMemoryInquiryRepository;
+}
+
+// ============================================
+// SEARCH HISTORY REPOSITORY
+// ============================================
+
+let inMemorySearchHistoryRepository: InMemorySearchHistoryRepository | null = null;
+
+export function getSearchHistoryRepository(): ISearchHistoryRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseSearchHistoryRepository;
+    }
+
+    if (!inMemorySearchHistoryRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory search history repository.');
+        inMemorySearchHistoryRepository = new InMemorySearchHistoryRepository();
+    }
+    return inMemorySearchHistoryRepository;
+}
+
+// ============================================
+// NOTIFICATION REPOSITORY
+// ============================================
+
+let inMemoryNotificationRepository: InMemoryNotificationRepository | null = null;
+
+export function getNotificationRepository(): INotificationRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseNotificationRepository;
+    }
+
+    if (!inMemoryNotificationRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory notification repository.');
+        inMemoryNotificationRepository = new InMemoryNotificationRepository();
+    }
+    return inMemoryNotificationRepository;
+}
+
+// ============================================
+// SECURITY EVENT REPOSITORY
+// ============================================
+
+let inMemorySecurityEventRepository: InMemorySecurityEventRepository | null = null;
+
+export function getSecurityEventRepository(): ISecurityEventRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseSecurityEventRepository;
+    }
+
+    if (!inMemorySecurityEventRepository) {
+        // SECURITY_EVENTS_FILE keeps the log across restarts without a database
+        const file = process.env.SECURITY_EVENTS_FILE;
+        console.warn(`⚠️ [DAL] Supabase credentials missing. Using in-memory security event repository${file ? ` (persisted to ${file})` : ''}.`);
+        inMemorySecurityEventRepository = new InMemorySecurityEventRepository([], file ? path.resolve(process.cwd(), file) : undefined);
+    }
+    return inMemorySecurityEventRepository;
+}
+
+// ============================================
+// PERMISSION REPOSITORY
+// ============================================
+
+let inMemoryPermissionRepository: InMemoryPermissionRepository | null = null;
+
+export function getPermissionRepository(): IPermissionRepository {
+    if (isSupabaseConfigured()) {
+        return supabasePermissionRepository;
+    }
+
+    if (!inMemoryPermissionRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory permission repository.');
+        inMemoryPermissionRepository = new InMemoryPermissionRepository();
+    }
+    return inMemoryPermissionRepository;
+}
+
+// ============================================
+// LEAD REPOSITORY
+// ============================================
+
+let inMemoryLeadRepository: InMemoryLeadRepository | null = null;
+
+export function getLeadRepository(): ILeadRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseLeadRepository;
+    }
+
+    if (!inMemoryLeadRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory lead repository.');
+        inMemoryLeadRepository = new InMemoryLeadRepository();
+    }
+    return inMemoryLeadRepository;
+}
+
+// ============================================
+// LEAD ACTIVITY REPOSITORY
+// ============================================
+
+let inMemoryLeadActivityRepository: InMemoryLeadActivityRepository | null = null;
+
+export function getLeadActivityRepository(): ILeadActivityRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseLeadActivityRepository;
+    }
+
+    if (!inMemoryLeadActivityRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory lead activity repository.');
+        inMemoryLeadActivityRepository = new InMemoryLeadActivityRepository();
+    }
+    return inMemoryLeadActivityRepository;
+}
+
+// ============================================
+// LEAD RULES REPOSITORY
+// ============================================
+
+let inMemoryLeadRulesRepository: InMemoryLeadRulesRepository | null = null;
+
+export function getLeadRulesRepository(): ILeadRulesRepository {
+    if (isSupabaseConfigured()) {
+        return supabaseLeadRulesRepository;
+    }
+
+    if (!inMemoryLeadRulesRepository) {
+        console.warn('⚠️ [DAL] Supabase credentials missing. Using in-memory lead rules repository.');
+        inMemoryLeadRulesRepository = new InMemoryLeadRulesRepository();
+    }
+    return inMemoryLeadRulesRepository;
+}
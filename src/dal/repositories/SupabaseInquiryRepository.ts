@@ -0,0 +1,325 @@
+/**
+ * Supabase Inquiry Repository Implementation
+ * ==========================================
+ * Implements IInquiryRepository using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { IInquiryRepository, Inquiry, InquirySearchCriteria, PaginatedResult } from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface InquiryRow {
+    id: string;
+    property_id: string;
+    user_id: string | null;
+    agent_id: string;
+
+    name: string;
+    email: string;
+    phone: string | null;
+    message: string;
+
+    preferred_contact: Inquiry['preferredContact'] | null;
+    request_viewing: boolean;
+    viewing_date: string | null;
+
+    status: Inquiry['status'];
+
+    created_at: string;
+    updated_at: string;
+    read_at: string | null;
+    replied_at: string | null;
+}
+
+const SORT_COLUMNS: Record<string, string> = {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    status: 'status',
+    readAt: 'read_at',
+    repliedAt: 'replied_at',
+};
+
+// ============================================
+// MAPPER
+// ============================================
+
+function mapRowToInquiry(row: InquiryRow): Inquiry {
+    return {
+        id: row.id,
+        propertyId: row.property_id,
+        userId: row.user_id || undefined,
+        agentId: row.agent_id,
+
+        name: row.name,
+        email: row.email,
+        phone: row.phone || undefined,
+        message: row.message,
+
+        preferredContact: row.preferred_contact || undefined,
+        requestViewing: row.request_viewing ?? false,
+        viewingDate: row.viewing_date ? new Date(row.viewing_date) : undefined,
+
+        status: row.status,
+
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+        readAt: row.read_at ? new Date(row.read_at) : undefined,
+        repliedAt: row.replied_at ? new Date(row.replied_at) : undefined,
+    };
+}
+
+function mapInquiryToRow(inquiry: Partial<Inquiry>): Partial<InquiryRow> {
+    const row: Partial<InquiryRow> = {};
+
+    if (inquiry.propertyId !== undefined) row.property_id = inquiry.propertyId;
+    if (inquiry.userId !== undefined) row.user_id = inquiry.userId || null;
+    if (inquiry.agentId !== undefined) row.agent_id = inquiry.agentId;
+
+    if (inquiry.name !== undefined) row.name = inquiry.name;
+    if (inquiry.email !== undefined) row.email = inquiry.email;
+    if (inquiry.phone !== undefined) row.phone = inquiry.phone || null;
+    if (inquiry.message !== undefined) row.message = inquiry.message;
+
+    if (inquiry.preferredContact !== undefined) row.preferred_contact = inquiry.preferredContact || null;
+    if (inquiry.requestViewing !== undefined) row.request_viewing = inquiry.requestViewing;
+    if (inquiry.viewingDate !== undefined) row.viewing_date = inquiry.viewingDate?.toISOString() || null;
+
+    if (inquiry.status !== undefined) row.status = inquiry.status;
+    if (inquiry.readAt !== undefined) row.read_at = inquiry.readAt?.toISOString() || null;
+    if (inquiry.repliedAt !== undefined) row.replied_at = inquiry.repliedAt?.toISOString() || null;
+
+    return row;
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseInquiryRepository implements IInquiryRepository {
+
+    // ----------------------------------------
+    // Basic CRUD
+    // ----------------------------------------
+
+    async findById(id: string): Promise<Inquiry | null> {
+        const { data, error } = await getSupabase()
+            .from('inquiries')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error || !data) return null;
+        return mapRowToInquiry(data);
+    }
+
+    async findAll(criteria: InquirySearchCriteria = {}): Promise<PaginatedResult<Inquiry>> {
+        const page = criteria.page || 1;
+        const limit = Math.min(criteria.limit || 20, 100);
+        const offset = (page - 1) * limit;
+
+        let query = getSupabase()
+            .from('inquiries')
+            .select('*', { count: 'exact' });
+
+        if (criteria.propertyId) query = query.eq('property_id', criteria.propertyId);
+        if (criteria.agentId) query = query.eq('agent_id', criteria.agentId);
+        if (criteria.userId) query = query.eq('user_id', criteria.userId);
+        if (criteria.status) query = query.eq('status', criteria.status);
+
+        const sortColumn = SORT_COLUMNS[criteria.sort?.field || 'createdAt'] || 'created_at';
+        query = query.order(sortColumn, { ascending: criteria.sort?.direction === 'asc' });
+        query = query.range(offset, offset + limit - 1);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            throw new Error(`Failed to fetch inquiries: ${error.message}`);
+        }
+
+        const total = count || 0;
+        const totalPages = Math.ceil(total / limit);
+
+        return {
+            data: (data || []).map(mapRowToInquiry),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrev: page > 1,
+            },
+        };
+    }
+
+    async create(inquiry: Omit<Inquiry, 'id' | 'createdAt' | 'updatedAt'>): Promise<Inquiry> {
+        const { data, error } = await getSupabase()
+            .from('inquiries')
+            .insert(mapInquiryToRow(inquiry))
+            .select()
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to create inquiry: ${error?.message}`);
+        }
+
+        return mapRowToInquiry(data);
+    }
+
+    async update(id: string, changes: Partial<Inquiry>): Promise<Inquiry> {
+        const { data, error } = await getSupabase()
+            .from('inquiries')
+            .update(mapInquiryToRow(changes))
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to update inquiry: ${error?.message}`);
+        }
+
+        return mapRowToInquiry(data);
+    }
+
+    async delete(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('inquiries')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to delete inquiry: ${error.message}`);
+        }
+    }
+
+    // ----------------------------------------
+    // Lookups
+    // ----------------------------------------
+
+    private async findWhere(column: string, value: string): Promise<Inquiry[]> {
+        const { data, error } = await getSupabase()
+            .from('inquiries')
+            .select('*')
+            .eq(column, value)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            throw new Error(`Failed to fetch inquiries: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToInquiry);
+    }
+
+    async findByProperty(propertyId: string): Promise<Inquiry[]> {
+        return this.findWhere('property_id', propertyId);
+    }
+
+    async findByAgent(agentId: string): Promise<Inquiry[]> {
+        return this.findWhere('agent_id', agentId);
+    }
+
+    async findByUser(userId: string): Promise<Inquiry[]> {
+        return this.findWhere('user_id', userId);
+    }
+
+    // ----------------------------------------
+    // Status Transitions
+    // ----------------------------------------
+
+    async markAsRead(id: string): Promise<Inquiry> {
+        const inquiry = await this.findById(id);
+        if (!inquiry) {
+            throw new Error(`Inquiry not found: ${id}`);
+        }
+
+        // Reading a replied or closed inquiry must not move it backwards
+        if (inquiry.status !== 'new') return inquiry;
+
+        return this.update(id, { status: 'read', readAt: new Date() });
+    }
+
+    async markAsReplied(id: string): Promise<Inquiry> {
+        const inquiry = await this.findById(id);
+        if (!inquiry) {
+            throw new Error(`Inquiry not found: ${id}`);
+        }
+
+        const now = new Date();
+        return this.update(id, {
+            status: 'replied',
+            readAt: inquiry.readAt ?? now,
+            repliedAt: now,
+        });
+    }
+
+    async close(id: string): Promise<Inquiry> {
+        return this.update(id, { status: 'closed' });
+    }
+
+    // ----------------------------------------
+    // Counts
+    // ----------------------------------------
+
+    async countByStatus(agentId: string): Promise<Record<Inquiry['status'], number>> {
+        const { data, error } = await getSupabase()
+            .from('inquiries')
+            .select('status')
+            .eq('agent_id', agentId);
+
+        if (error) {
+            throw new Error(`Failed to count inquiries: ${error.message}`);
+        }
+
+        const counts: Record<Inquiry['status'], number> = { new: 0, read: 0, replied: 0, closed: 0 };
+        (data || []).forEach((row: { status: Inquiry['status'] }) => {
+            counts[row.status] = (counts[row.status] || 0) + 1;
+        });
+
+        return counts;
+    }
+
+    async countUnread(agentId: string): Promise<number> {
+        const { count } = await getSupabase()
+            .from('inquiries')
+            .select('id', { count: 'exact', head: true })
+            .eq('agent_id', agentId)
+            .eq('status', 'new');
+
+        return count || 0;
+    }
+}
+
+// Export singleton
+export const inquiryRepository = new SupabaseInquiryRepository();
@@ -0,0 +1,124 @@
+/**
+ * Supabase Lead Activity Repository Implementation
+ * ================================================
+ * Implements ILeadActivityRepository using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { LeadActivity } from '@/core/entities/Lead';
+import { ILeadActivityRepository } from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface LeadActivityRow {
+    id: string;
+    lead_id: string;
+    type: LeadActivity['type'];
+    author_id: string | null;
+    body: string | null;
+    details: Record<string, unknown> | null;
+    created_at: string;
+}
+
+// ============================================
+// MAPPER
+// ============================================
+
+function mapRowToActivity(row: LeadActivityRow): LeadActivity {
+    return {
+        id: row.id,
+        leadId: row.lead_id,
+        type: row.type,
+        authorId: row.author_id || undefined,
+        body: row.body || undefined,
+        details: row.details || {},
+        createdAt: new Date(row.created_at),
+    };
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseLeadActivityRepository implements ILeadActivityRepository {
+
+    async findByLead(leadId: string, limit: number = 100): Promise<LeadActivity[]> {
+        const { data, error } = await getSupabase()
+            .from('lead_activities')
+            .select('*')
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to fetch lead activities: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToActivity);
+    }
+
+    async create(activity: Omit<LeadActivity, 'id' | 'createdAt'>): Promise<LeadActivity> {
+        const { data, error } = await getSupabase()
+            .from('lead_activities')
+            .insert({
+                lead_id: activity.leadId,
+                type: activity.type,
+                author_id: activity.authorId || null,
+                body: activity.body || null,
+                details: activity.details,
+            })
+            .select()
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to record lead activity: ${error?.message}`);
+        }
+
+        return mapRowToActivity(data);
+    }
+
+    async moveToLead(fromLeadId: string, toLeadId: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('lead_activities')
+            .update({ lead_id: toLeadId })
+            .eq('lead_id', fromLeadId);
+
+        if (error) {
+            throw new Error(`Failed to move lead activities: ${error.message}`);
+        }
+    }
+}
+
+// Export singleton
+export const leadActivityRepository = new SupabaseLeadActivityRepository();
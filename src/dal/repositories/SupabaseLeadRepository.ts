@@ -0,0 +1,389 @@
+/**
+ * Supabase Lead Repository Implementation
+ * =======================================
+ * Implements ILeadRepository using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Lead, LEAD_STATUSES, LeadStatus, isLeadStatus, isOpenLead } from '@/core/entities/Lead';
+import {
+    ILeadRepository,
+    LeadAssigneeWorkload,
+    LeadFilterCriteria,
+    LeadSearchCriteria,
+    PaginatedResult,
+} from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface LeadRow {
+    id: string;
+
+    name: string;
+    first_name: string;
+    last_name: string;
+    email: string;
+    phone: string | null;
+    preferred_contact: Lead['preferredContact'] | null;
+
+    subject: string | null;
+    message: string;
+    type: Lead['type'];
+    property_id: string | null;
+    property_title: string | null;
+    property_slug: string | null;
+
+    status: string;
+    priority: Lead['priority'] | null;
+    score: number | null;
+    assigned_to: string | null;
+    assigned_at: string | null;
+    notes: string | null;
+    lost_reason: string | null;
+
+    source: string | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    metadata: Record<string, unknown> | null;
+
+    contacted_at: string | null;
+    qualified_at: string | null;
+    proposal_at: string | null;
+    won_at: string | null;
+    lost_at: string | null;
+
+    created_at: string;
+    updated_at: string;
+
+    properties?: { title: string; slug: string } | null;
+}
+
+const SELECT = '*, properties(title, slug)';
+
+// ============================================
+// MAPPER
+// ============================================
+
+const toDate = (value: string | null) => (value ? new Date(value) : undefined);
+const toIso = (value: Date | undefined) => value?.toISOString() || null;
+
+function mapRowToLead(row: LeadRow): Lead {
+    return {
+        id: row.id,
+
+        name: row.name || `${row.first_name} ${row.last_name}`.trim(),
+        firstName: row.first_name,
+        lastName: row.last_name,
+        email: row.email,
+        phone: row.phone || undefined,
+        preferredContact: row.preferred_contact || 'email',
+
+        subject: row.subject || undefined,
+        message: row.message,
+        type: row.type,
+        propertyId: row.property_id || undefined,
+        propertyTitle: row.property_title || row.properties?.title || undefined,
+        propertySlug: row.property_slug || row.properties?.slug || undefined,
+
+        // Rows closed by the old admin screen count as lost
+        status: isLeadStatus(row.status) ? row.status : 'lost',
+        priority: row.priority || 'normal',
+        score: row.score ?? undefined,
+        assignedTo: row.assigned_to || undefined,
+        assignedAt: toDate(row.assigned_at),
+        notes: row.notes || undefined,
+        lostReason: row.lost_reason || undefined,
+
+        source: row.source || 'website',
+        ipAddress: row.ip_address || undefined,
+        userAgent: row.user_agent || undefined,
+        metadata: row.metadata || {},
+
+        contactedAt: toDate(row.contacted_at),
+        qualifiedAt: toDate(row.qualified_at),
+        proposalAt: toDate(row.proposal_at),
+        wonAt: toDate(row.won_at),
+        lostAt: toDate(row.lost_at),
+
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+/**
+ * Only the fields present on `lead` are written; present but undefined clears the column
+ */
+function mapLeadToRow(lead: Partial<Lead>): Partial<LeadRow> {
+    const row: Partial<LeadRow> = {};
+
+    if ('name' in lead) row.name = lead.name;
+    if ('firstName' in lead) row.first_name = lead.firstName;
+    if ('lastName' in lead) row.last_name = lead.lastName;
+    if ('email' in lead) row.email = lead.email;
+    if ('phone' in lead) row.phone = lead.phone || null;
+    if ('preferredContact' in lead) row.preferred_contact = lead.preferredContact || null;
+
+    if ('subject' in lead) row.subject = lead.subject || null;
+    if ('message' in lead) row.message = lead.message;
+    if ('type' in lead) row.type = lead.type;
+    if ('propertyId' in lead) row.property_id = lead.propertyId || null;
+    if ('propertyTitle' in lead) row.property_title = lead.propertyTitle || null;
+    if ('propertySlug' in lead) row.property_slug = lead.propertySlug || null;
+
+    if ('status' in lead) row.status = lead.status;
+    if ('priority' in lead) row.priority = lead.priority || null;
+    if ('score' in lead) row.score = lead.score ?? null;
+    if ('assignedTo' in lead) row.assigned_to = lead.assignedTo || null;
+    if ('assignedAt' in lead) row.assigned_at = toIso(lead.assignedAt);
+    if ('notes' in lead) row.notes = lead.notes || null;
+    if ('lostReason' in lead) row.lost_reason = lead.lostReason || null;
+
+    if ('source' in lead) row.source = lead.source || null;
+    if ('ipAddress' in lead) row.ip_address = lead.ipAddress || null;
+    if ('userAgent' in lead) row.user_agent = lead.userAgent || null;
+    if ('metadata' in lead) row.metadata = lead.metadata || {};
+
+    if ('contactedAt' in lead) row.contacted_at = toIso(lead.contactedAt);
+    if ('qualifiedAt' in lead) row.qualified_at = toIso(lead.qualifiedAt);
+    if ('proposalAt' in lead) row.proposal_at = toIso(lead.proposalAt);
+    if ('wonAt' in lead) row.won_at = toIso(lead.wonAt);
+    if ('lostAt' in lead) row.lost_at = toIso(lead.lostAt);
+
+    return row;
+}
+
+// ============================================
+// FILTERS
+// ============================================
+
+type LeadQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+function applyCriteria(query: LeadQuery, criteria: LeadFilterCriteria): LeadQuery {
+    if (criteria.status) query = query.eq('status', criteria.status);
+    if (criteria.type) query = query.eq('type', criteria.type);
+    if (criteria.assignedTo === null) query = query.is('assigned_to', null);
+    else if (criteria.assignedTo) query = query.eq('assigned_to', criteria.assignedTo);
+    if (criteria.source) query = query.eq('source', criteria.source);
+    if (criteria.propertyId) query = query.eq('property_id', criteria.propertyId);
+    if (criteria.createdFrom) query = query.gte('created_at', criteria.createdFrom.toISOString());
+    if (criteria.createdTo) query = query.lte('created_at', criteria.createdTo.toISOString());
+    if (criteria.query) {
+        // Commas and parentheses would break out of the or() filter
+        const term = criteria.query.replace(/[,()]/g, ' ');
+        query = query.or(`name.ilike.%${term}%,email.ilike.%${term}%,message.ilike.%${term}%`);
+    }
+    return query;
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseLeadRepository implements ILeadRepository {
+
+    async findById(id: string): Promise<Lead | null> {
+        const { data, error } = await getSupabase()
+            .from('leads')
+            .select(SELECT)
+            .eq('id', id)
+            .single();
+
+        if (error || !data) return null;
+        return mapRowToLead(data);
+    }
+
+    async findAll(criteria: LeadSearchCriteria = {}): Promise<PaginatedResult<Lead>> {
+        const page = criteria.page || 1;
+        const limit = Math.min(criteria.limit || 20, 100);
+        const offset = (page - 1) * limit;
+
+        let query = applyCriteria(
+            getSupabase().from('leads').select(SELECT, { count: 'exact' }),
+            criteria
+        );
+
+        query = query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            throw new Error(`Failed to fetch leads: ${error.message}`);
+        }
+
+        const total = count || 0;
+        const totalPages = Math.ceil(total / limit);
+
+        return {
+            data: ((data || []) as LeadRow[]).map(mapRowToLead),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrev: page > 1,
+            },
+        };
+    }
+
+    async create(lead: Omit<Lead, 'id' | 'createdAt' | 'updatedAt'>): Promise<Lead> {
+        const { data, error } = await getSupabase()
+            .from('leads')
+            .insert(mapLeadToRow(lead))
+            .select(SELECT)
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to create lead: ${error?.message}`);
+        }
+
+        return mapRowToLead(data);
+    }
+
+    async update(id: string, changes: Partial<Lead>): Promise<Lead> {
+        const { data, error } = await getSupabase()
+            .from('leads')
+            .update(mapLeadToRow(changes))
+            .eq('id', id)
+            .select(SELECT)
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to update lead: ${error?.message}`);
+        }
+
+        return mapRowToLead(data);
+    }
+
+    async delete(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('leads')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to delete lead: ${error.message}`);
+        }
+    }
+
+    async findByContact(
+        contact: { email: string; phoneKey?: string },
+        options: { updatedSince?: Date } = {}
+    ): Promise<Lead[]> {
+        // phone_digits is the phone with everything but digits stripped
+        const filters = [`email.eq."${contact.email.replace(/"/g, '')}"`];
+        if (contact.phoneKey) filters.push(`phone_digits.like.*${contact.phoneKey}`);
+
+        let query = getSupabase()
+            .from('leads')
+            .select(SELECT)
+            .or(filters.join(','));
+
+        if (options.updatedSince) query = query.gte('updated_at', options.updatedSince.toISOString());
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(50);
+
+        if (error) {
+            throw new Error(`Failed to find leads by contact: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToLead);
+    }
+
+    async countByStatus(criteria: LeadFilterCriteria = {}): Promise<Record<LeadStatus, number>> {
+        const { data, error } = await applyCriteria(
+            getSupabase().from('leads').select('status'),
+            { ...criteria, status: undefined }
+        );
+
+        if (error) {
+            throw new Error(`Failed to count leads: ${error.message}`);
+        }
+
+        const counts = Object.fromEntries(LEAD_STATUSES.map(status => [status, 0])) as Record<LeadStatus, number>;
+        ((data || []) as { status: string }[]).forEach(row => {
+            counts[isLeadStatus(row.status) ? row.status : 'lost']++;
+        });
+
+        return counts;
+    }
+
+    async countByType(): Promise<Record<string, number>> {
+        const { data, error } = await getSupabase()
+            .from('leads')
+            .select('type');
+
+        if (error) {
+            throw new Error(`Failed to count leads: ${error.message}`);
+        }
+
+        const counts: Record<string, number> = {};
+        (data || []).forEach((row: { type: string }) => {
+            counts[row.type] = (counts[row.type] || 0) + 1;
+        });
+
+        return counts;
+    }
+
+    async getAssigneeWorkload(): Promise<Record<string, LeadAssigneeWorkload>> {
+        const { data, error } = await getSupabase()
+            .from('leads')
+            .select('assigned_to, assigned_at, status')
+            .not('assigned_to', 'is', null);
+
+        if (error) {
+            throw new Error(`Failed to load lead workload: ${error.message}`);
+        }
+
+        const workload: Record<string, LeadAssigneeWorkload> = {};
+        (data || []).forEach((row: { assigned_to: string; assigned_at: string | null; status: string }) => {
+            const entry = workload[row.assigned_to] ??= { openLeads: 0 };
+            if (isLeadStatus(row.status) && isOpenLead({ status: row.status })) entry.openLeads++;
+
+            const assignedAt = toDate(row.assigned_at);
+            if (assignedAt && (!entry.lastAssignedAt || assignedAt > entry.lastAssignedAt)) {
+                entry.lastAssignedAt = assignedAt;
+            }
+        });
+
+        return workload;
+    }
+}
+
+// Export singleton
+export const leadRepository = new SupabaseLeadRepository();
@@ -0,0 +1,103 @@
+/**
+ * Supabase Lead Rules Repository Implementation
+ * =============================================
+ * Implements ILeadRulesRepository using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { LeadRules } from '@/core/entities/LeadRules';
+import { ILeadRulesRepository, StoredLeadRules } from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface LeadRulesRow {
+    id: string;
+    rules: LeadRules;
+    updated_by: string | null;
+    updated_at: string;
+}
+
+/** The platform has a single rule set */
+const RULES_ID = 'default';
+
+function mapRowToRules(row: LeadRulesRow): StoredLeadRules {
+    return {
+        rules: row.rules,
+        updatedBy: row.updated_by || undefined,
+        updatedAt: new Date(row.updated_at),
+    };
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseLeadRulesRepository implements ILeadRulesRepository {
+
+    async get(): Promise<StoredLeadRules | null> {
+        const { data, error } = await getSupabase()
+            .from('lead_rules')
+            .select('*')
+            .eq('id', RULES_ID)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to fetch lead rules: ${error.message}`);
+        }
+
+        return data ? mapRowToRules(data) : null;
+    }
+
+    async save(rules: LeadRules, updatedBy: string): Promise<StoredLeadRules> {
+        const { data, error } = await getSupabase()
+            .from('lead_rules')
+            .upsert({
+                id: RULES_ID,
+                rules,
+                updated_by: updatedBy,
+                updated_at: new Date().toISOString(),
+            })
+            .select()
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to save lead rules: ${error?.message}`);
+        }
+
+        return mapRowToRules(data);
+    }
+}
+
+// Export singleton
+export const leadRulesRepository = new SupabaseLeadRulesRepository();
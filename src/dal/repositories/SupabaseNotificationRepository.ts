@@ -0,0 +1,188 @@
+/**
+ * Supabase Notification Repository Implementation
+ * ===============================================
+ * Implements INotificationRepository (the notification outbox) using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { INotificationRepository, Notification } from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface NotificationRow {
+    id: string;
+    user_id: string | null;
+    channel: Notification['channel'];
+    type: string;
+    recipient: string;
+    locale: string;
+    payload: Record<string, unknown>;
+    dedupe_key: string | null;
+    status: Notification['status'];
+    attempts: number;
+    last_error: string | null;
+    next_attempt_at: string | null;
+    created_at: string;
+    sent_at: string | null;
+}
+
+// ============================================
+// MAPPER
+// ============================================
+
+function mapRowToNotification(row: NotificationRow): Notification {
+    return {
+        id: row.id,
+        userId: row.user_id || undefined,
+        channel: row.channel,
+        type: row.type,
+        recipient: row.recipient,
+        locale: row.locale || 'en',
+        payload: row.payload || {},
+        dedupeKey: row.dedupe_key || undefined,
+        status: row.status,
+        attempts: row.attempts ?? 0,
+        lastError: row.last_error || undefined,
+        nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+        createdAt: new Date(row.created_at),
+        sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+    };
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseNotificationRepository implements INotificationRepository {
+
+    async enqueue(notification: Omit<Notification, 'id' | 'status' | 'attempts' | 'createdAt' | 'nextAttemptAt'>): Promise<Notification> {
+        if (notification.dedupeKey) {
+            const { data: existing } = await getSupabase()
+                .from('notifications')
+                .select('*')
+                .eq('dedupe_key', notification.dedupeKey)
+                .maybeSingle();
+
+            if (existing) return mapRowToNotification(existing);
+        }
+
+        const { data, error } = await getSupabase()
+            .from('notifications')
+            .insert({
+                user_id: notification.userId || null,
+                channel: notification.channel,
+                type: notification.type,
+                recipient: notification.recipient,
+                locale: notification.locale,
+                payload: notification.payload,
+                dedupe_key: notification.dedupeKey || null,
+                status: 'pending',
+            })
+            .select()
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to enqueue notification: ${error?.message}`);
+        }
+
+        return mapRowToNotification(data);
+    }
+
+    async findByUser(userId: string, limit: number = 50): Promise<Notification[]> {
+        const { data, error } = await getSupabase()
+            .from('notifications')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to fetch notifications: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToNotification);
+    }
+
+    async findPending(limit: number = 50): Promise<Notification[]> {
+        const { data, error } = await getSupabase()
+            .from('notifications')
+            .select('*')
+            .eq('status', 'pending')
+            .order('created_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to fetch pending notifications: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToNotification);
+    }
+
+    async claimDue(limit: number, leaseMs: number): Promise<Notification[]> {
+        const { data, error } = await getSupabase()
+            .rpc('claim_due_notifications', { batch_size: limit, lease_seconds: Math.ceil(leaseMs / 1000) });
+
+        if (error) {
+            throw new Error(`Failed to claim due notifications: ${error.message}`);
+        }
+
+        return ((data as NotificationRow[]) || []).map(mapRowToNotification);
+    }
+
+    async markSent(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .rpc('mark_notification_attempt', { notification_id: id, succeeded: true, error_message: null });
+
+        if (error) {
+            throw new Error(`Failed to mark notification as sent: ${error.message}`);
+        }
+    }
+
+    async markFailed(id: string, errorMessage: string, retryAt?: Date): Promise<void> {
+        const { error } = await getSupabase()
+            .rpc('mark_notification_attempt', {
+                notification_id: id,
+                succeeded: false,
+                error_message: errorMessage,
+                retry_at: retryAt ? retryAt.toISOString() : null,
+            });
+
+        if (error) {
+            throw new Error(`Failed to mark notification as failed: ${error.message}`);
+        }
+    }
+}
+
+// Export singleton
+export const notificationRepository = new SupabaseNotificationRepository();
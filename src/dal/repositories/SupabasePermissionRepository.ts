@@ -0,0 +1,170 @@
+/**
+ * Supabase Permission Repository Implementation
+ * =============================================
+ * Implements IPermissionRepository (role permission sets and per-user
+ * overrides) using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { UserRole } from '@/core/entities/User';
+import { IPermissionRepository, PermissionEffect, PermissionOverride, RolePermissionSet } from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface RolePermissionRow {
+    role: UserRole;
+    permissions: string[] | null;
+    updated_by: string | null;
+    updated_at: string | null;
+}
+
+interface PermissionOverrideRow {
+    user_id: string;
+    permission: string;
+    effect: PermissionEffect;
+    created_by: string | null;
+    created_at: string;
+}
+
+// ============================================
+// MAPPERS
+// ============================================
+
+function mapRowToRolePermissionSet(row: RolePermissionRow): RolePermissionSet {
+    return {
+        role: row.role,
+        permissions: row.permissions || [],
+        updatedBy: row.updated_by || undefined,
+        updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    };
+}
+
+function mapRowToOverride(row: PermissionOverrideRow): PermissionOverride {
+    return {
+        permission: row.permission,
+        effect: row.effect,
+        createdBy: row.created_by || undefined,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabasePermissionRepository implements IPermissionRepository {
+    async findRolePermissions(): Promise<RolePermissionSet[]> {
+        const { data, error } = await getSupabase()
+            .from('role_permissions')
+            .select('*');
+
+        if (error) {
+            throw new Error(`Failed to load role permissions: ${error.message}`);
+        }
+        return (data || []).map(mapRowToRolePermissionSet);
+    }
+
+    async saveRolePermissions(role: UserRole, permissions: string[], updatedBy: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('role_permissions')
+            .upsert({
+                role,
+                permissions,
+                updated_by: updatedBy,
+                updated_at: new Date().toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to update role permissions: ${error.message}`);
+        }
+    }
+
+    async findUserOverrides(userId: string): Promise<PermissionOverride[]> {
+        const { data, error } = await getSupabase()
+            .from('user_permission_overrides')
+            .select('*')
+            .eq('user_id', userId)
+            .order('permission');
+
+        if (error) {
+            throw new Error(`Failed to load permission overrides: ${error.message}`);
+        }
+        return (data || []).map(mapRowToOverride);
+    }
+
+    async replaceUserOverrides(
+        userId: string,
+        overrides: Pick<PermissionOverride, 'permission' | 'effect'>[],
+        createdBy: string
+    ): Promise<void> {
+        const existing = await this.findUserOverrides(userId);
+        const wanted = new Map(overrides.map(o => [o.permission, o.effect]));
+
+        // Unchanged overrides keep their author and date
+        const removed = existing.filter(o => !wanted.has(o.permission)).map(o => o.permission);
+        const changed = overrides.filter(o => !existing.some(e => e.permission === o.permission && e.effect === o.effect));
+
+        if (removed.length > 0) {
+            const { error } = await getSupabase()
+                .from('user_permission_overrides')
+                .delete()
+                .eq('user_id', userId)
+                .in('permission', removed);
+
+            if (error) {
+                throw new Error(`Failed to remove permission overrides: ${error.message}`);
+            }
+        }
+
+        if (changed.length > 0) {
+            const now = new Date().toISOString();
+            const { error } = await getSupabase()
+                .from('user_permission_overrides')
+                .upsert(changed.map(o => ({
+                    user_id: userId,
+                    permission: o.permission,
+                    effect: o.effect,
+                    created_by: createdBy,
+                    created_at: now,
+                })));
+
+            if (error) {
+                throw new Error(`Failed to save permission overrides: ${error.message}`);
+            }
+        }
+    }
+}
+
+// Export singleton
+export const permissionRepository = new SupabasePermissionRepository();
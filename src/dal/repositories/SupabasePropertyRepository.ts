@@ -11,7 +11,15 @@ import {
     PaginatedResult,
 } from '../interfaces';
 import { Property, PropertyStatus, PropertyType, ListingType } from '@/core/entities/Property';
+import { matchesCriteria, searchCurrency } from '@/core/entities/PropertySearch';
 import { mockStore } from '@/lib/mock-store';
+import {
+    SupportedCurrency,
+    convertCurrency,
+    convertPrice,
+    currencies,
+    defaultCurrency,
+} from '@/lib/currency';
 
 // ============================================
 // SUPABASE CLIENT (Lazy Initialization)
@@ -71,6 +79,8 @@ interface PropertyRow {
     // Pricing
     price: number;
     price_currency: string;
+    /** Price in the platform default currency, for cross-currency sorting */
+    price_base: number | null;
     price_per_sqm: number | null;
     price_on_request: boolean;
     rental_period: string | null;
@@ -298,6 +308,31 @@ function mapRowToProperty(row: PropertyRow): Property {
     };
 }
 
+// ============================================
+// PRICE NORMALIZATION
+// ============================================
+
+/**
+ * PostgREST `or` filter for a price range given in the searched currency:
+ * the bounds are converted into each stored currency at current rates.
+ */
+function priceRangeFilter(criteria: PropertySearchCriteria): string {
+    const from = searchCurrency(criteria);
+
+    return (Object.keys(currencies) as SupportedCurrency[])
+        .map(code => {
+            const conditions = [`price_currency.eq.${code}`];
+            if (criteria.minPrice !== undefined) {
+                conditions.push(`price.gte.${convertCurrency(criteria.minPrice, from, code)}`);
+            }
+            if (criteria.maxPrice !== undefined) {
+                conditions.push(`price.lte.${convertCurrency(criteria.maxPrice, from, code)}`);
+            }
+            return `and(${conditions.join(',')})`;
+        })
+        .join(',');
+}
+
 // ============================================
 // REPOSITORY IMPLEMENTATION
 // ============================================
@@ -361,12 +396,6 @@ export class SupabasePropertyRepository implements IPropertyRepository {
     // ----------------------------------------
 
     async findById(id: string): Promise<Property | null> {
-        // MOCK FALLBACK
-        if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-            const mock = mockStore.properties.find(p => p.id === id);
-            return mock ? this.mapMockToProperty(mock) : null;
-        }
-
         try {
             const { data, error } = await getSupabase()
                 .from('properties')
@@ -392,12 +421,6 @@ export class SupabasePropertyRepository implements IPropertyRepository {
     }
 
     async findBySlug(slug: string): Promise<Property | null> {
-        // MOCK FALLBACK
-        if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-            const mock = mockStore.properties.find(p => p.slug === slug);
-            return mock ? this.mapMockToProperty(mock) : null;
-        }
-
         try {
             const { data, error } = await getSupabase()
                 .from('properties')
@@ -477,16 +500,16 @@ export class SupabasePropertyRepository implements IPropertyRepository {
                 query = query.ilike('city', `%${criteria.city}%`);
             }
 
-            if (criteria.country) {
-                query = query.eq('country', criteria.country);
+            if (criteria.region) {
+                query = query.ilike('state', `%${criteria.region}%`);
             }
 
-            if (criteria.minPrice !== undefined) {
-                query = query.gte('price', criteria.minPrice);
+            if (criteria.country) {
+                query = query.eq('country', criteria.country);
             }
 
-            if (criteria.maxPrice !== undefined) {
-                query = query.lte('price', criteria.maxPrice);
+            if (criteria.minPrice !== undefined || criteria.maxPrice !== undefined) {
+                query = query.or(priceRangeFilter(criteria));
             }
 
             if (criteria.minBedrooms !== undefined) {
@@ -501,6 +524,10 @@ export class SupabasePropertyRepository implements IPropertyRepository {
                 query = query.gte('bathrooms', criteria.minBathrooms);
             }
 
+            if (criteria.maxBathrooms !== undefined) {
+                query = query.lte('bathrooms', criteria.maxBathrooms);
+            }
+
             if (criteria.minArea !== undefined) {
                 query = query.gte('living_area_sqm', criteria.minArea);
             }
@@ -509,12 +536,22 @@ export class SupabasePropertyRepository implements IPropertyRepository {
                 query = query.lte('living_area_sqm', criteria.maxArea);
             }
 
-            if (criteria.featured !== undefined) {
-                query = query.eq('featured', criteria.featured);
+            const featured = criteria.isFeatured ?? criteria.featured;
+            if (featured !== undefined) {
+                query = query.eq('featured', featured);
+            }
+
+            const exclusive = criteria.isExclusive ?? criteria.exclusive;
+            if (exclusive !== undefined) {
+                query = query.eq('exclusive', exclusive);
+            }
+
+            if (criteria.isOffMarket !== undefined) {
+                query = query.eq('off_market', criteria.isOffMarket);
             }
 
-            if (criteria.exclusive !== undefined) {
-                query = query.eq('exclusive', criteria.exclusive);
+            if (criteria.features && criteria.features.length > 0) {
+                query = query.contains('features', criteria.features);
             }
 
             if (criteria.agentId) {
@@ -530,13 +567,16 @@ export class SupabasePropertyRepository implements IPropertyRepository {
             }
         }
 
-        // Sorting
-        const sortField = criteria?.sortBy || 'created_at';
-        const sortOrder = criteria?.sortOrder || 'desc';
+        // Sorting (SortOptions from use cases take precedence over sortBy/sortOrder)
+        const sortField = criteria?.sort?.field || criteria?.sortBy || 'created_at';
+        const sortOrder = criteria?.sort?.direction || criteria?.sortOrder || 'desc';
 
         const sortMapping: Record<string, string> = {
             createdAt: 'created_at',
-            price: 'price',
+            // Normalized column, so EUR and AED listings sort together
+            price: 'price_base',
+            'price.amount': 'price_base',
+            'specs.area': 'living_area_sqm',
             listedAt: 'listed_at',
             views: 'views_count',
             favorites: 'favorites_count',
@@ -552,21 +592,7 @@ export class SupabasePropertyRepository implements IPropertyRepository {
 
         if (error) {
             console.warn('⚠️ Supabase Error (findAll), falling back to Mock Store:', error);
-            // Fallback to mock properties
-            // Apply simple in-memory filtering if possible, or just return all for robustness
-            const mockProperties = mockStore.properties.map(p => this.mapMockToProperty(p));
-
-            return {
-                data: mockProperties,
-                pagination: {
-                    page: 1,
-                    limit: mockProperties.length,
-                    total: mockProperties.length,
-                    totalPages: 1,
-                    hasNext: false,
-                    hasPrevious: false,
-                },
-            };
+            return this.findAllMock(criteria ?? {}, page, limit);
         }
 
         const properties = (data || []).map(mapRowToProperty);
@@ -586,6 +612,28 @@ export class SupabasePropertyRepository implements IPropertyRepository {
         };
     }
 
+    private findAllMock(criteria: PropertySearchCriteria, page: number, limit: number): PaginatedResult<Property> {
+        // Same filters as the query: a database error must not widen the results
+        const matching = mockStore.properties
+            .map(p => this.mapMockToProperty(p))
+            .filter(p => matchesCriteria(p, criteria));
+        const total = matching.length;
+        const totalPages = Math.ceil(total / limit);
+        const offset = (page - 1) * limit;
+
+        return {
+            data: matching.slice(offset, offset + limit),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrevious: page > 1,
+            },
+        };
+    }
+
     async create(property: Omit<Property, 'id' | 'createdAt' | 'updatedAt'>): Promise<Property> {
         const row = {
             reference_code: property.referenceCode,
@@ -611,6 +659,7 @@ export class SupabasePropertyRepository implements IPropertyRepository {
 
             price: property.price.amount,
             price_currency: property.price.currency,
+            price_base: convertPrice(property.price, defaultCurrency),
             price_per_sqm: property.price.pricePerSqm,
             price_on_request: property.price.priceOnRequest,
             rental_period: property.price.rentalPeriod,
@@ -688,18 +737,6 @@ export class SupabasePropertyRepository implements IPropertyRepository {
     }
 
     async update(id: string, data: Partial<Property>): Promise<Property> {
-        // MOCK FALLBACK
-        if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-            const index = mockStore.properties.findIndex(p => p.id === id);
-            if (index === -1) throw new Error('Property not found (Mock)');
-
-            const existing = mockStore.properties[index];
-            const updated = { ...existing, ...data, updatedAt: new Date() };
-            // @ts-ignore
-            mockStore.properties[index] = updated;
-            return this.mapMockToProperty(updated);
-        }
-
         const updateRow: Record<string, unknown> = {};
 
         if (data.title) updateRow.title = data.title;
@@ -712,6 +749,7 @@ export class SupabasePropertyRepository implements IPropertyRepository {
         if (data.price) {
             updateRow.price = data.price.amount;
             updateRow.price_currency = data.price.currency;
+            updateRow.price_base = convertPrice(data.price, defaultCurrency);
             updateRow.price_per_sqm = data.price.pricePerSqm;
             updateRow.price_on_request = data.price.priceOnRequest;
         }
@@ -770,16 +808,6 @@ export class SupabasePropertyRepository implements IPropertyRepository {
     }
 
     async delete(id: string): Promise<void> {
-        // MOCK FALLBACK
-        if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-            const index = mockStore.properties.findIndex(p => p.id === id);
-            if (index !== -1) {
-                mockStore.properties.splice(index, 1);
-                return;
-            }
-            throw new Error('Property not found (Mock)');
-        }
-
         try {
             // Soft delete
             const { error } = await getSupabase()
@@ -919,6 +947,10 @@ export class SupabasePropertyRepository implements IPropertyRepository {
         await getSupabase().rpc('increment_property_shares', { property_id: propertyId });
     }
 
+    async incrementInquiryCount(propertyId: string): Promise<void> {
+        await getSupabase().rpc('increment_property_inquiries', { property_id: propertyId });
+    }
+
     async getAnalytics(propertyId: string): Promise<{
         views: number;
         inquiries: number;
@@ -1000,6 +1032,76 @@ export class SupabasePropertyRepository implements IPropertyRepository {
 
         return counts as Record<PropertyStatus, number>;
     }
+
+    async countByType(type: PropertyType): Promise<number> {
+        return this.count({ type });
+    }
+
+    async countByCity(): Promise<Record<string, number>> {
+        const { data } = await getSupabase()
+            .from('properties')
+            .select('city')
+            .eq('status', 'active')
+            .is('deleted_at', null);
+
+        const counts: Record<string, number> = {};
+        (data || []).forEach(p => {
+            if (p.city) counts[p.city] = (counts[p.city] || 0) + 1;
+        });
+
+        return counts;
+    }
+
+    /**
+     * Aggregated over price_base, so listings in different currencies are
+     * comparable; the result is in the searched currency
+     */
+    async getAveragePrice(criteria?: PropertySearchCriteria): Promise<number> {
+        const { data } = await getSupabase()
+            .from('properties')
+            .select('price_base')
+            .eq('status', criteria?.status || 'active')
+            .is('deleted_at', null)
+            .not('price_base', 'is', null);
+
+        const prices = (data || []).map(p => Number(p.price_base)).filter(price => price > 0);
+        if (prices.length === 0) return 0;
+
+        const average = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+        return Math.round(convertCurrency(average, defaultCurrency, searchCurrency(criteria)));
+    }
+
+    async getPriceRange(criteria?: PropertySearchCriteria): Promise<{ min: number; max: number }> {
+        const status = criteria?.status || 'active';
+        const currency = searchCurrency(criteria);
+
+        const [{ data: lowest }, { data: highest }] = await Promise.all([
+            getSupabase()
+                .from('properties')
+                .select('price_base')
+                .eq('status', status)
+                .is('deleted_at', null)
+                .not('price_base', 'is', null)
+                .order('price_base', { ascending: true })
+                .limit(1),
+            getSupabase()
+                .from('properties')
+                .select('price_base')
+                .eq('status', status)
+                .is('deleted_at', null)
+                .not('price_base', 'is', null)
+                .order('price_base', { ascending: false })
+                .limit(1),
+        ]);
+
+        const inCurrency = (base?: number | null) =>
+            base ? Math.round(convertCurrency(Number(base), defaultCurrency, currency)) : 0;
+
+        return {
+            min: inCurrency(lowest?.[0]?.price_base),
+            max: inCurrency(highest?.[0]?.price_base),
+        };
+    }
 }
 
 // Export singleton
@@ -0,0 +1,189 @@
+/**
+ * Supabase Search History Repository Implementation
+ * =================================================
+ * Implements ISearchHistoryRepository using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ISearchHistoryRepository, SearchHistory } from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface SearchHistoryRow {
+    id: string;
+    user_id: string;
+    name: string | null;
+    query: string;
+    filters: Record<string, unknown>;
+    result_count: number;
+    created_at: string;
+}
+
+// ============================================
+// MAPPER
+// ============================================
+
+function mapRowToSearchHistory(row: SearchHistoryRow): SearchHistory {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        name: row.name || undefined,
+        query: row.query,
+        filters: row.filters || {},
+        resultCount: row.result_count ?? 0,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseSearchHistoryRepository implements ISearchHistoryRepository {
+
+    async findById(id: string): Promise<SearchHistory | null> {
+        const { data, error } = await getSupabase()
+            .from('search_history')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error || !data) return null;
+        return mapRowToSearchHistory(data);
+    }
+
+    async findByUser(userId: string, limit: number = 20): Promise<SearchHistory[]> {
+        const { data, error } = await getSupabase()
+            .from('search_history')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            throw new Error(`Failed to fetch search history: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToSearchHistory);
+    }
+
+    async findSavedByUser(userId: string): Promise<SearchHistory[]> {
+        const { data, error } = await getSupabase()
+            .from('search_history')
+            .select('*')
+            .eq('user_id', userId)
+            .not('name', 'is', null)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            throw new Error(`Failed to fetch saved searches: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToSearchHistory);
+    }
+
+    async findAllSaved(): Promise<SearchHistory[]> {
+        const { data, error } = await getSupabase()
+            .from('search_history')
+            .select('*')
+            .not('name', 'is', null);
+
+        if (error) {
+            throw new Error(`Failed to fetch saved searches: ${error.message}`);
+        }
+
+        return (data || []).map(mapRowToSearchHistory);
+    }
+
+    async create(history: Omit<SearchHistory, 'id' | 'createdAt'>): Promise<SearchHistory> {
+        const { data, error } = await getSupabase()
+            .from('search_history')
+            .insert({
+                user_id: history.userId,
+                name: history.name || null,
+                query: history.query,
+                filters: history.filters,
+                result_count: history.resultCount,
+            })
+            .select()
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to save search: ${error?.message}`);
+        }
+
+        return mapRowToSearchHistory(data);
+    }
+
+    async delete(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('search_history')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to delete search: ${error.message}`);
+        }
+    }
+
+    async clearByUser(userId: string): Promise<void> {
+        // Saved searches survive a history wipe
+        const { error } = await getSupabase()
+            .from('search_history')
+            .delete()
+            .eq('user_id', userId)
+            .is('name', null);
+
+        if (error) {
+            throw new Error(`Failed to clear search history: ${error.message}`);
+        }
+    }
+
+    async getPopularSearches(limit: number = 10): Promise<Array<{ query: string; count: number }>> {
+        const { data, error } = await getSupabase()
+            .rpc('get_popular_searches', { result_limit: limit });
+
+        if (error) {
+            throw new Error(`Failed to fetch popular searches: ${error.message}`);
+        }
+
+        return ((data || []) as Array<{ query: string; count: number | string }>).map(row => ({
+            query: row.query,
+            count: Number(row.count),
+        }));
+    }
+}
+
+// Export singleton
+export const searchHistoryRepository = new SupabaseSearchHistoryRepository();
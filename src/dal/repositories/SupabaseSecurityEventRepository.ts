@@ -0,0 +1,203 @@
+/**
+ * Supabase Security Event Repository Implementation
+ * =================================================
+ * Implements ISecurityEventRepository (the persisted security log) using Supabase/PostgreSQL
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+    ISecurityEventRepository,
+    PaginatedResult,
+    SecurityEventBucket,
+    SecurityEventInterval,
+    SecurityEventRecord,
+    SecurityEventSearchCriteria,
+} from '../interfaces';
+
+// ============================================
+// SUPABASE CLIENT (Lazy Initialization)
+// ============================================
+
+let supabaseInstance: SupabaseClient | null = null;
+
+function getSupabase(): SupabaseClient {
+    if (!supabaseInstance) {
+        // SECURITY CHECK: Ensure this code only runs on the server
+        if (typeof window !== 'undefined') {
+            throw new Error('CRITICAL SECURITY ERROR: Attempting to access Supabase Service Role Key from client-side code! This operation is forbidden.');
+        }
+
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error(
+                'Supabase configuration missing. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.'
+            );
+        }
+
+        supabaseInstance = createClient(supabaseUrl, supabaseKey, {
+            auth: { persistSession: false },
+        });
+    }
+    return supabaseInstance;
+}
+
+// ============================================
+// TYPE MAPPINGS
+// ============================================
+
+interface SecurityEventRow {
+    id: string;
+    type: string;
+    severity: SecurityEventRecord['severity'];
+    user_id: string | null;
+    ip: string;
+    user_agent: string;
+    path: string;
+    method: string | null;
+    details: Record<string, unknown>;
+    request_id: string | null;
+    session_id: string | null;
+    created_at: string;
+}
+
+interface TimelineRow {
+    bucket_start: string;
+    type: string;
+    event_count: number | string;
+}
+
+// ============================================
+// MAPPERS
+// ============================================
+
+function mapRowToSecurityEvent(row: SecurityEventRow): SecurityEventRecord {
+    return {
+        id: row.id,
+        type: row.type,
+        severity: row.severity,
+        userId: row.user_id || undefined,
+        ip: row.ip,
+        userAgent: row.user_agent || '',
+        path: row.path,
+        method: row.method || undefined,
+        details: row.details || {},
+        requestId: row.request_id || undefined,
+        sessionId: row.session_id || undefined,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+function mapSecurityEventToRow(event: Omit<SecurityEventRecord, 'id'>): Omit<SecurityEventRow, 'id'> {
+    return {
+        type: event.type,
+        severity: event.severity,
+        user_id: event.userId || null,
+        ip: event.ip,
+        user_agent: event.userAgent,
+        path: event.path,
+        method: event.method || null,
+        details: event.details,
+        request_id: event.requestId || null,
+        session_id: event.sessionId || null,
+        created_at: event.createdAt.toISOString(),
+    };
+}
+
+// ============================================
+// REPOSITORY IMPLEMENTATION
+// ============================================
+
+export class SupabaseSecurityEventRepository implements ISecurityEventRepository {
+
+    async insertMany(events: Omit<SecurityEventRecord, 'id'>[]): Promise<void> {
+        if (events.length === 0) return;
+
+        const { error } = await getSupabase()
+            .from('security_events')
+            .insert(events.map(mapSecurityEventToRow));
+
+        if (error) {
+            throw new Error(`Failed to store security events: ${error.message}`);
+        }
+    }
+
+    async findAll(criteria: SecurityEventSearchCriteria = {}): Promise<PaginatedResult<SecurityEventRecord>> {
+        const page = criteria.page || 1;
+        const limit = Math.min(criteria.limit || 50, 200);
+        const offset = (page - 1) * limit;
+
+        let query = getSupabase()
+            .from('security_events')
+            .select('*', { count: 'exact' });
+
+        if (criteria.types?.length) query = query.in('type', criteria.types);
+        if (criteria.severities?.length) query = query.in('severity', criteria.severities);
+        if (criteria.ip) query = query.eq('ip', criteria.ip);
+        if (criteria.userId) query = query.eq('user_id', criteria.userId);
+        if (criteria.from) query = query.gte('created_at', criteria.from.toISOString());
+        if (criteria.to) query = query.lte('created_at', criteria.to.toISOString());
+
+        query = query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            throw new Error(`Failed to fetch security events: ${error.message}`);
+        }
+
+        const total = count || 0;
+        const totalPages = Math.ceil(total / limit);
+
+        return {
+            data: (data || []).map(mapRowToSecurityEvent),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages,
+                hasNext: page < totalPages,
+                hasPrev: page > 1,
+            },
+        };
+    }
+
+    async countByInterval(criteria: SecurityEventSearchCriteria, interval: SecurityEventInterval): Promise<SecurityEventBucket[]> {
+        const { data, error } = await getSupabase()
+            .rpc('security_event_timeline', {
+                bucket: interval,
+                from_time: (criteria.from ?? new Date(0)).toISOString(),
+                to_time: (criteria.to ?? new Date()).toISOString(),
+                event_types: criteria.types?.length ? criteria.types : null,
+                event_severities: criteria.severities?.length ? criteria.severities : null,
+                event_ip: criteria.ip || null,
+                event_user_id: criteria.userId || null,
+            });
+
+        if (error) {
+            throw new Error(`Failed to count security events: ${error.message}`);
+        }
+
+        const buckets = new Map<number, SecurityEventBucket>();
+        for (const row of (data as TimelineRow[]) || []) {
+            const start = new Date(row.bucket_start);
+            let bucket = buckets.get(start.getTime());
+            if (!bucket) {
+                bucket = { start, counts: {}, total: 0 };
+                buckets.set(start.getTime(), bucket);
+            }
+
+            const count = Number(row.event_count);
+            bucket.counts[row.type] = (bucket.counts[row.type] || 0) + count;
+            bucket.total += count;
+        }
+
+        return [...buckets.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+}
+
+// Export singleton
+export const securityEventRepository = new SupabaseSecurityEventRepository();
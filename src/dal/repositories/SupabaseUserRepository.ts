@@ -5,8 +5,8 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { IUserRepository, PaginatedResult } from '../interfaces';
-import { User, UserRole, UserStatus } from '@/core/entities/User';
+import { IUserRepository, PaginatedResult, TwoFactorState, UserSession } from '../interfaces';
+import { AccountLockedError, User, UserRole, UserStatus } from '@/core/entities/User';
 import * as bcrypt from 'bcryptjs';
 import { mockStore } from '@/lib/mock-store';
 
@@ -62,11 +62,20 @@ interface UserRow {
     newsletter?: boolean;
     theme?: string;
 
+    city?: string | null;
+    country?: string | null;
+    specializations?: string[] | null;
+
     email_verified: boolean;
     email_verified_at: string | null;
     phone_verified: boolean;
 
     two_factor_enabled: boolean;
+    two_factor_secret?: string | null;
+    two_factor_pending_secret?: string | null;
+    two_factor_recovery_codes?: string[] | null;
+    two_factor_last_used_step?: number | null;
+    two_factor_enabled_at?: string | null;
     failed_login_attempts: number;
     locked_until: string | null;
     last_login_at: string | null;
@@ -77,10 +86,45 @@ interface UserRow {
     deleted_at: string | null;
 }
 
+interface UserSessionRow {
+    id: string;
+    user_id: string;
+    family_id: string | null;
+    refresh_token_hash: string;
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: string;
+    expires_at: string;
+    revoked_at: string | null;
+    replaced_by: string | null;
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+
 // ============================================
 // MAPPER
 // ============================================
 
+function mapRowToSession(row: UserSessionRow): UserSession {
+    const expiresAt = new Date(row.expires_at);
+
+    return {
+        id: row.id,
+        userId: row.user_id,
+        familyId: row.family_id || row.id,
+        refreshTokenHash: row.refresh_token_hash,
+        ip: row.ip_address || undefined,
+        userAgent: row.user_agent || undefined,
+        createdAt: new Date(row.created_at),
+        expiresAt,
+        revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+        replacedBy: row.replaced_by || undefined,
+        isValid: !row.revoked_at && expiresAt > new Date(),
+    };
+}
+
 function mapRowToUser(row: UserRow): User {
     return {
         id: row.id,
@@ -97,6 +141,11 @@ function mapRowToUser(row: UserRow): User {
             avatar: row.avatar_url || undefined,
         },
 
+        address: row.city || row.country
+            ? { city: row.city || undefined, country: row.country || '' }
+            : undefined,
+        specializations: row.specializations || undefined,
+
         preferences: {
             language: row.preferred_language || 'en',
             currency: row.preferred_currency || 'EUR',
@@ -112,6 +161,7 @@ function mapRowToUser(row: UserRow): User {
         lastLoginAt: row.last_login_at ? new Date(row.last_login_at) : undefined,
 
         twoFactorEnabled: row.two_factor_enabled,
+        lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
     };
 }
 
@@ -200,6 +250,7 @@ export class SupabaseUserRepository implements IUserRepository {
     async findAll(criteria?: {
         role?: UserRole;
         status?: UserStatus;
+        locked?: boolean;
         page?: number;
         limit?: number;
     }): Promise<PaginatedResult<User>> {
@@ -220,6 +271,13 @@ export class SupabaseUserRepository implements IUserRepository {
             query = query.eq('status', criteria.status);
         }
 
+        if (criteria?.locked !== undefined) {
+            const now = new Date().toISOString();
+            query = criteria.locked
+                ? query.gt('locked_until', now)
+                : query.or(`locked_until.is.null,locked_until.lte.${now}`);
+        }
+
         query = query.order('created_at', { ascending: false });
         query = query.range(offset, offset + limit - 1);
 
@@ -359,23 +417,28 @@ export class SupabaseUserRepository implements IUserRepository {
 
         // Check if account is locked
         if (data.locked_until && new Date(data.locked_until) > new Date()) {
-            return null;
+            throw new AccountLockedError(data.id, new Date(data.locked_until));
         }
 
         const isValid = await bcrypt.compare(password, data.password_hash);
 
         if (!isValid) {
-            // Increment failed attempts
+            // Increment failed attempts; a lock that has run out starts the count over
+            const lockExpired = data.locked_until !== null && new Date(data.locked_until) <= new Date();
+            const attempts = (lockExpired ? 0 : data.failed_login_attempts) + 1;
+            const lockedUntil = attempts >= MAX_FAILED_LOGIN_ATTEMPTS
+                ? new Date(Date.now() + LOCKOUT_DURATION_MS)
+                : null;
+
             await getSupabase()
                 .from('users')
                 .update({
-                    failed_login_attempts: data.failed_login_attempts + 1,
-                    locked_until: data.failed_login_attempts >= 4
-                        ? new Date(Date.now() + 15 * 60 * 1000).toISOString() // Lock for 15 minutes
-                        : null,
+                    failed_login_attempts: attempts,
+                    locked_until: lockedUntil?.toISOString() ?? null,
                 })
                 .eq('id', data.id);
 
+            if (lockedUntil) throw new AccountLockedError(data.id, lockedUntil, true);
             return null;
         }
 
@@ -392,6 +455,17 @@ export class SupabaseUserRepository implements IUserRepository {
         return mapRowToUser(data);
     }
 
+    async unlockAccount(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('users')
+            .update({ failed_login_attempts: 0, locked_until: null })
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to unlock account: ${error.message}`);
+        }
+    }
+
     async updatePassword(id: string, newPassword: string): Promise<void> {
         const passwordHash = await bcrypt.hash(newPassword, 12);
 
@@ -443,45 +517,96 @@ export class SupabaseUserRepository implements IUserRepository {
         ip: string;
         userAgent: string;
     }): Promise<void> {
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+        await this.insertSession(userId, refreshTokenHash, deviceInfo);
+    }
 
-        const { error } = await getSupabase()
+    private async insertSession(userId: string, refreshTokenHash: string, deviceInfo: {
+        ip: string;
+        userAgent: string;
+    }, familyId?: string): Promise<string> {
+        const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+        const { data, error } = await getSupabase()
             .from('user_sessions')
             .insert({
                 user_id: userId,
+                // Omitted for a new login: the column defaults to a fresh family
+                ...(familyId ? { family_id: familyId } : {}),
                 refresh_token_hash: refreshTokenHash,
                 device_info: deviceInfo,
                 ip_address: deviceInfo.ip,
                 user_agent: deviceInfo.userAgent,
                 expires_at: expiresAt.toISOString(),
-            });
+            })
+            .select('id')
+            .single();
 
-        if (error) {
-            throw new Error(`Failed to create session: ${error.message}`);
+        if (error || !data) {
+            throw new Error(`Failed to create session: ${error?.message}`);
         }
+
+        return data.id;
     }
 
-    async findSession(refreshTokenHash: string): Promise<{
-        userId: string;
-        refreshTokenHash: string;
-        isValid: boolean;
-    } | null> {
+    async findSession(refreshTokenHash: string): Promise<UserSession | null> {
         const { data, error } = await getSupabase()
             .from('user_sessions')
             .select('*')
             .eq('refresh_token_hash', refreshTokenHash)
-            .is('revoked_at', null)
-            .single();
+            .maybeSingle();
 
         if (error || !data) return null;
 
-        const isValid = new Date(data.expires_at) > new Date();
+        return mapRowToSession(data as UserSessionRow);
+    }
 
-        return {
-            userId: data.user_id,
-            refreshTokenHash: data.refresh_token_hash,
-            isValid,
-        };
+    async rotateSession(sessionId: string, refreshTokenHash: string, deviceInfo: {
+        ip: string;
+        userAgent: string;
+    }): Promise<boolean> {
+        // Claim the old session first: only one concurrent rotation can revoke it
+        const { data: claimed, error } = await getSupabase()
+            .from('user_sessions')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', sessionId)
+            .is('revoked_at', null)
+            .select('user_id, family_id')
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to rotate session: ${error.message}`);
+        }
+        if (!claimed) return false;
+
+        const successorId = await this.insertSession(
+            claimed.user_id,
+            refreshTokenHash,
+            deviceInfo,
+            claimed.family_id || sessionId
+        );
+
+        await getSupabase()
+            .from('user_sessions')
+            .update({ replaced_by: successorId })
+            .eq('id', sessionId);
+
+        return true;
+    }
+
+    async listActiveSessions(userId: string): Promise<UserSession[]> {
+        const { data, error } = await getSupabase()
+            .from('user_sessions')
+            .select('*')
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            throw new Error(`Failed to list sessions: ${error.message}`);
+        }
+
+        return (data as UserSessionRow[] || []).map(mapRowToSession);
     }
 
     async revokeSession(sessionId: string): Promise<void> {
@@ -491,6 +616,14 @@ export class SupabaseUserRepository implements IUserRepository {
             .eq('id', sessionId);
     }
 
+    async revokeSessionFamily(familyId: string): Promise<void> {
+        await getSupabase()
+            .from('user_sessions')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('family_id', familyId)
+            .is('revoked_at', null);
+    }
+
     async revokeAllSessions(userId: string): Promise<void> {
         await getSupabase()
             .from('user_sessions')
@@ -499,20 +632,178 @@ export class SupabaseUserRepository implements IUserRepository {
             .is('revoked_at', null);
     }
 
+    async revokeOtherSessions(userId: string, keepFamilyId: string): Promise<void> {
+        await getSupabase()
+            .from('user_sessions')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('user_id', userId)
+            .neq('family_id', keepFamilyId)
+            .is('revoked_at', null);
+    }
+
     // ----------------------------------------
-    // Password Reset
+    // Two-Factor Authentication
     // ----------------------------------------
 
-    async createPasswordResetToken(userId: string, tokenHash: string): Promise<void> {
-        const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+    async getTwoFactorState(id: string): Promise<TwoFactorState | null> {
+        const { data, error } = await getSupabase()
+            .from('users')
+            .select('two_factor_enabled, two_factor_secret, two_factor_pending_secret, two_factor_recovery_codes, two_factor_last_used_step, two_factor_enabled_at')
+            .eq('id', id)
+            .maybeSingle();
 
-        await getSupabase()
+        if (error) {
+            throw new Error(`Failed to load two-factor state: ${error.message}`);
+        }
+        if (!data) return null;
+
+        const row = data as Partial<UserRow>;
+        return {
+            enabled: !!row.two_factor_enabled,
+            secret: row.two_factor_secret || undefined,
+            pendingSecret: row.two_factor_pending_secret || undefined,
+            recoveryCodeHashes: row.two_factor_recovery_codes || [],
+            lastUsedStep: row.two_factor_last_used_step ?? undefined,
+            enabledAt: row.two_factor_enabled_at ? new Date(row.two_factor_enabled_at) : undefined,
+        };
+    }
+
+    async setPendingTwoFactorSecret(id: string, encryptedSecret: string | null): Promise<void> {
+        const { error } = await getSupabase()
+            .from('users')
+            .update({ two_factor_pending_secret: encryptedSecret })
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to store two-factor secret: ${error.message}`);
+        }
+    }
+
+    async enable2FA(id: string, secret: string, recoveryCodeHashes: string[]): Promise<void> {
+        const { error } = await getSupabase()
+            .from('users')
+            .update({
+                two_factor_enabled: true,
+                two_factor_secret: secret,
+                two_factor_pending_secret: null,
+                two_factor_recovery_codes: recoveryCodeHashes,
+                two_factor_enabled_at: new Date().toISOString(),
+            })
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to enable two-factor authentication: ${error.message}`);
+        }
+    }
+
+    async disable2FA(id: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('users')
+            .update({
+                two_factor_enabled: false,
+                two_factor_secret: null,
+                two_factor_pending_secret: null,
+                two_factor_recovery_codes: [],
+                two_factor_last_used_step: null,
+                two_factor_enabled_at: null,
+            })
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to disable two-factor authentication: ${error.message}`);
+        }
+    }
+
+    async replaceRecoveryCodes(id: string, recoveryCodeHashes: string[]): Promise<void> {
+        const { error } = await getSupabase()
+            .from('users')
+            .update({ two_factor_recovery_codes: recoveryCodeHashes })
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to store recovery codes: ${error.message}`);
+        }
+    }
+
+    async consumeRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+        const state = await this.getTwoFactorState(id);
+        if (!state?.recoveryCodeHashes.includes(codeHash)) return false;
+
+        // The contains() filter makes a concurrent use of the same code update nothing
+        const { data, error } = await getSupabase()
+            .from('users')
+            .update({ two_factor_recovery_codes: state.recoveryCodeHashes.filter(hash => hash !== codeHash) })
+            .eq('id', id)
+            .contains('two_factor_recovery_codes', [codeHash])
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to use recovery code: ${error.message}`);
+        }
+        return (data?.length ?? 0) > 0;
+    }
+
+    async recordTwoFactorStep(id: string, step: number): Promise<boolean> {
+        const { data, error } = await getSupabase()
+            .from('users')
+            .update({ two_factor_last_used_step: step })
+            .eq('id', id)
+            .or(`two_factor_last_used_step.is.null,two_factor_last_used_step.lt.${step}`)
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to record two-factor code: ${error.message}`);
+        }
+        return (data?.length ?? 0) > 0;
+    }
+
+    async getTwoFactorRequiredRoles(): Promise<UserRole[]> {
+        const { data, error } = await getSupabase()
+            .from('two_factor_policies')
+            .select('role')
+            .eq('required', true);
+
+        if (error) {
+            throw new Error(`Failed to load two-factor policy: ${error.message}`);
+        }
+        return (data || []).map(row => row.role as UserRole);
+    }
+
+    async setTwoFactorRequired(role: UserRole, required: boolean, updatedBy: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('two_factor_policies')
+            .upsert({
+                role,
+                required,
+                updated_by: updatedBy,
+                updated_at: new Date().toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to update two-factor policy: ${error.message}`);
+        }
+    }
+
+    // ----------------------------------------
+    // Password Reset
+    // ----------------------------------------
+
+    async createPasswordResetToken(
+        userId: string,
+        tokenHash: string,
+        expiresAt: Date = new Date(Date.now() + 60 * 60 * 1000) // 1 hour
+    ): Promise<void> {
+        const { error } = await getSupabase()
             .from('password_reset_tokens')
             .insert({
                 user_id: userId,
                 token_hash: tokenHash,
                 expires_at: expiresAt.toISOString(),
             });
+
+        if (error) {
+            throw new Error(`Failed to create password reset token: ${error.message}`);
+        }
     }
 
     async findPasswordResetToken(tokenHash: string): Promise<{
@@ -535,11 +826,22 @@ export class SupabaseUserRepository implements IUserRepository {
         };
     }
 
-    async usePasswordResetToken(tokenHash: string): Promise<void> {
-        await getSupabase()
+    async usePasswordResetToken(tokenHash: string): Promise<string | null> {
+        // Conditional update: of two concurrent resets with the same token only one matches
+        const { data, error } = await getSupabase()
             .from('password_reset_tokens')
             .update({ used_at: new Date().toISOString() })
-            .eq('token_hash', tokenHash);
+            .eq('token_hash', tokenHash)
+            .is('used_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .select('user_id')
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to use password reset token: ${error.message}`);
+        }
+
+        return data?.user_id ?? null;
     }
 
     // ----------------------------------------
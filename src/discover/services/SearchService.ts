@@ -30,6 +30,21 @@ export interface SearchResponse {
     };
 }
 
+export interface SavedSearchItem {
+    id: string;
+    name?: string;
+    query: string;
+    filters: Record<string, unknown>;
+    resultCount: number;
+    createdAt: string;
+}
+
+export interface SaveSearchResult {
+    success: boolean;
+    requiresLogin?: boolean;
+    error?: string;
+}
+
 export interface FilterOptions {
     locations: string[];
     types: string[];
@@ -245,4 +260,96 @@ export class SearchService {
             return DEFAULT_OPTIONS;
         }
     }
+
+    // ============================================
+    // SAVED SEARCHES
+    // ============================================
+
+    /**
+     * Saves the given criteria under a name for the logged-in user
+     */
+    static async saveSearch(name: string, criteria: Record<string, unknown>): Promise<SaveSearchResult> {
+        try {
+            const response = await fetch('/api/searches', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'same-origin',
+                body: JSON.stringify({ name, criteria }),
+            });
+
+            if (response.status === 401) {
+                return { success: false, requiresLogin: true };
+            }
+
+            const result = await response.json();
+            return result?.success
+                ? { success: true }
+                : { success: false, error: result?.error || 'Failed to save search' };
+
+        } catch (error) {
+            console.error('[SearchService] Save search error:', error);
+            return { success: false, error: 'Failed to save search' };
+        }
+    }
+
+    /**
+     * Lists the user's saved searches
+     * Returns null when the user is not logged in
+     */
+    static async getSavedSearches(): Promise<SavedSearchItem[] | null> {
+        try {
+            const response = await fetch('/api/searches', { credentials: 'same-origin' });
+
+            if (response.status === 401) return null;
+
+            const result: ApiResponse<SavedSearchItem[]> = await response.json();
+
+            // CRITICAL: Verify data is an array
+            if (!result?.success || !Array.isArray(result.data)) {
+                console.warn('[SearchService] Failed to fetch saved searches');
+                return [];
+            }
+
+            return result.data;
+
+        } catch (error) {
+            console.error('[SearchService] Saved searches error:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Removes one of the user's saved searches
+     */
+    static async deleteSavedSearch(id: string): Promise<boolean> {
+        try {
+            const response = await fetch(`/api/searches/${encodeURIComponent(id)}`, {
+                method: 'DELETE',
+                credentials: 'same-origin',
+            });
+            return response.ok;
+        } catch (error) {
+            console.error('[SearchService] Delete saved search error:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Builds the Buy/Rent page URL that re-runs a saved search
+     * (uses the same query params the Buy page reads on load)
+     */
+    static buildSearchUrl(lang: string, filters: Record<string, unknown>): string {
+        const params = new URLSearchParams();
+
+        if (filters.query) params.set('q', String(filters.query));
+        if (filters.country) params.set('location', String(filters.country));
+        if (filters.type) params.set('type', String(filters.type));
+        if (filters.minPrice !== undefined) params.set('minPrice', String(filters.minPrice));
+        if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice));
+
+        const page = filters.listingType === 'rent' ? 'rent' : 'buy';
+        const queryString = params.toString();
+
+        return queryString ? `/${lang}/${page}?${queryString}` : `/${lang}/${page}`;
+    }
 }
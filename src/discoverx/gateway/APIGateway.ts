@@ -57,7 +57,7 @@ const routes: RouteConfig[] = [
         pathPrefix: '/api/v1/users',
         auth: true,
         rateLimit: 'api',
-        methods: ['GET', 'PUT', 'PATCH'],
+        methods: ['GET', 'PUT', 'PATCH', 'DELETE'], // DELETE: /users/:id/sessions (force logout), /users/:id/lock (unlock)
         permissions: ['users:read', 'users:manage'],
     },
 
@@ -74,9 +74,16 @@ const routes: RouteConfig[] = [
     {
         service: 'valuation-service',
         pathPrefix: '/api/v1/valuation',
-        auth: true,
+        auth: false, // Public indicative estimate (sell-private flow)
+        rateLimit: 'search',
+        methods: ['POST'],
+    },
+    {
+        service: 'valuation-service',
+        pathPrefix: '/api/v1/valuation',
+        auth: true, // Valuation of an existing listing
         rateLimit: 'api',
-        methods: ['GET', 'POST'],
+        methods: ['GET'],
     },
 
     // Inquiry Routes
@@ -176,7 +183,7 @@ export class APIGateway {
                     authResult.user?.permissions?.includes(p)
                 );
 
-                if (!hasPermission && authResult.user?.role !== 'super_admin') {
+                if (!hasPermission) {
                     return NextResponse.json(
                         { success: false, error: 'Forbidden' },
                         { status: 403 }
@@ -1,9 +1,26 @@
 /**
  * MODON Platform - Security Logging (DiscoverX Monitoring)
  * =========================================================
- * Structured security event logging
+ * Structured security event logging. Events are written in batches to the
+ * security event store (security_events table, or memory/file without
+ * Supabase) so incidents can be investigated after the fact; high and
+ * critical events are stored immediately.
+ *
+ * Configuration:
+ *   SECURITY_ALERT_WEBHOOK_URL - receives critical events (e.g. a Slack webhook)
+ *   SECURITY_EVENTS_FILE - file that keeps events without Supabase
  */
 
+import { after } from 'next/server';
+import type {
+    ISecurityEventRepository,
+    PaginatedResult,
+    SecurityEventBucket,
+    SecurityEventInterval,
+    SecurityEventRecord,
+    SecurityEventSearchCriteria,
+} from '@/dal/interfaces';
+
 // ============================================
 // TYPES
 // ============================================
@@ -23,7 +40,13 @@ export type SecurityEventType =
     | 'privilege_escalation'
     | 'data_breach'
     | 'malicious_upload'
-    | 'suspicious_activity';
+    | 'suspicious_activity'
+    // IP blocklist audit trail
+    | 'ip_blocked'
+    | 'ip_allowed'
+    | 'ip_unblocked'
+    // Admin actions on accounts
+    | 'sessions_revoked';
 
 export type SecuritySeverity = 'low' | 'medium' | 'high' | 'critical';
 
@@ -44,6 +67,10 @@ export const SecurityEventType = {
     DATA_BREACH: 'data_breach' as const,
     MALICIOUS_UPLOAD: 'malicious_upload' as const,
     SUSPICIOUS_ACTIVITY: 'suspicious_activity' as const,
+    IP_BLOCKED: 'ip_blocked' as const,
+    IP_ALLOWED: 'ip_allowed' as const,
+    IP_UNBLOCKED: 'ip_unblocked' as const,
+    SESSIONS_REVOKED: 'sessions_revoked' as const,
     API_REQUEST: 'suspicious_activity' as const,
     API_ERROR: 'suspicious_activity' as const,
     REGISTRATION_SUCCESS: 'auth_success' as const,
@@ -94,17 +121,25 @@ export interface LogEntry {
 // SECURITY LOGGER
 // ============================================
 
+const FLUSH_DELAY_MS = 2000;
+const RETRY_DELAY_MS = 30000;
+const MAX_BATCH_SIZE = 100;
+// Events waiting for the store; beyond this the oldest are dropped
+const MAX_PENDING_EVENTS = 5000;
+// Failed inserts before an event the store keeps rejecting is dropped
+const MAX_STORE_ATTEMPTS = 5;
+const RECENT_EVENTS_LIMIT = 500;
+
 class SecurityLogger {
     private static instance: SecurityLogger;
-    private eventQueue: SecurityEvent[] = [];
-    private flushInterval: NodeJS.Timeout | null = null;
-
-    private constructor() {
-        // Flush events every 10 seconds
-        this.flushInterval = setInterval(() => {
-            this.flush();
-        }, 10000);
-    }
+    private pendingEvents: SecurityEvent[] = [];
+    private recentEvents: SecurityEvent[] = [];
+    private flushTimer: NodeJS.Timeout | null = null;
+    private flushing: Promise<void> | null = null;
+    private repository: ISecurityEventRepository | null = null;
+    private storeAttempts = new WeakMap<SecurityEvent, number>();
+
+    private constructor() { }
 
     static getInstance(): SecurityLogger {
         if (!SecurityLogger.instance) {
@@ -113,6 +148,13 @@ class SecurityLogger {
         return SecurityLogger.instance;
     }
 
+    /**
+     * Store events somewhere other than the repository factory's choice
+     */
+    setRepository(repository: ISecurityEventRepository): void {
+        this.repository = repository;
+    }
+
     /**
      * Log a security event
      */
@@ -122,8 +164,11 @@ class SecurityLogger {
             timestamp: new Date(),
         };
 
-        // Add to queue
-        this.eventQueue.push(fullEvent);
+        this.recentEvents.push(fullEvent);
+        if (this.recentEvents.length > RECENT_EVENTS_LIMIT) {
+            this.recentEvents.shift();
+        }
+        this.enqueue([fullEvent]);
 
         // Log to console with severity-based formatting
         this.consoleLog(fullEvent);
@@ -136,9 +181,20 @@ class SecurityLogger {
         // Process high-severity events immediately
         if (event.severity === 'high' || event.severity === 'critical') {
             await this.processHighSeverityEvent(fullEvent);
+        } else {
+            this.scheduleFlush(FLUSH_DELAY_MS);
         }
     }
 
+    /**
+     * Log a security event and wait until it has been written to the store,
+     * for audit entries that must not be lost with the instance
+     */
+    async logEventNow(event: Omit<SecurityEvent, 'timestamp'>): Promise<void> {
+        await this.logEvent(event);
+        await this.flush();
+    }
+
     /**
      * Console log with formatting
      */
@@ -170,11 +226,11 @@ class SecurityLogger {
     private async processHighSeverityEvent(event: SecurityEvent): Promise<void> {
         // Auto-block repeated offenders
         if (this.shouldAutoBlock(event)) {
-            await this.autoBlockIp(event.ip);
+            await this.autoBlockIp(event);
         }
 
-        // Store in database for analysis
-        await this.persistEvent(event);
+        // Store in database for analysis without waiting for the batch
+        await this.flush();
     }
 
     /**
@@ -192,17 +248,27 @@ class SecurityLogger {
     }
 
     /**
-     * Auto-block an IP address
+     * Auto-block an IP address on the shared blocklist
      */
-    private async autoBlockIp(ip: string): Promise<void> {
-        console.warn(`[SECURITY] Auto-blocking IP: ${ip}`);
-
-        // In production, add to Redis blocklist
-        // await redis.set(`blocked:${ip}`, '1', { ex: 3600 });
+    private async autoBlockIp(event: SecurityEvent): Promise<void> {
+        try {
+            // Loaded on first use: the blocklist audits through this module
+            const { getIpBlocklistService } = await import('@/server/security/blocklist');
+            const entry = await getIpBlocklistService().autoBlock(event.ip, `Automatic block after ${event.type}`, {
+                path: event.path,
+                userAgent: event.userAgent,
+            });
+
+            if (entry?.action === 'deny') {
+                console.warn(`[SECURITY] IP ${event.ip} blocked until ${entry.expiresAt ?? 'removed by an admin'}`);
+            }
+        } catch (error) {
+            console.error(`[SECURITY] Failed to auto-block IP ${event.ip}:`, error);
+        }
     }
 
     /**
-     * Send critical alert
+     * Send critical alert to SECURITY_ALERT_WEBHOOK_URL (Slack-compatible "text" payload)
      */
     private async sendCriticalAlert(event: SecurityEvent): Promise<void> {
         console.error(
@@ -210,57 +276,263 @@ class SecurityLogger {
             JSON.stringify(event, null, 2)
         );
 
-        // In production, send to:
-        // - Slack
-        // - PagerDuty
-        // - Email
-        // - SMS
+        const webhookUrl = process.env.SECURITY_ALERT_WEBHOOK_URL;
+        if (!webhookUrl) return;
+
+        try {
+            const response = await fetch(webhookUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    text: `[MODON] Critical security event: ${event.type} from ${event.ip} on ${event.method ? `${event.method} ` : ''}${event.path}`,
+                    event,
+                }),
+                signal: AbortSignal.timeout(5000),
+            });
+
+            if (!response.ok) {
+                console.error(`[SECURITY] Critical alert webhook returned HTTP ${response.status}`);
+            }
+        } catch (error) {
+            console.error('[SECURITY] Failed to send critical alert:', error);
+        }
+    }
+
+    private enqueue(events: SecurityEvent[], atFront: boolean = false): void {
+        if (atFront) {
+            this.pendingEvents.unshift(...events);
+        } else {
+            this.pendingEvents.push(...events);
+        }
+
+        const overflow = this.pendingEvents.length - MAX_PENDING_EVENTS;
+        if (overflow > 0) {
+            this.pendingEvents.splice(0, overflow);
+            console.warn(`[SECURITY] Event backlog full, dropped ${overflow} oldest events`);
+        }
+    }
+
+    private scheduleFlush(delayMs: number): void {
+        if (this.pendingEvents.length >= MAX_BATCH_SIZE) {
+            void this.flush();
+            return;
+        }
+
+        // Inside a request, store the events once the response is sent; a
+        // timer may never fire after a serverless function has returned
+        try {
+            after(() => this.flush());
+            return;
+        } catch {
+            // Outside a request scope: fall back to the timer
+        }
 
-        // Example Slack webhook
-        // await this.sendSlackAlert(event);
+        if (this.flushTimer) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            void this.flush();
+        }, delayMs);
+        this.flushTimer.unref?.();
+    }
+
+    private async getRepository(): Promise<ISecurityEventRepository> {
+        if (!this.repository) {
+            // Loaded on first use: the factory pulls in every repository
+            const { getSecurityEventRepository } = await import('@/dal/repositories/RepositoryFactory');
+            this.repository = getSecurityEventRepository();
+        }
+        return this.repository;
     }
 
     /**
-     * Persist event to database
+     * Write pending events to the security event store. Events that cannot be
+     * stored stay queued and are retried later.
      */
-    private async persistEvent(event: SecurityEvent): Promise<void> {
-        // In production, store in database
-        // await db.securityLogs.create({ data: event });
+    async flush(): Promise<void> {
+        // One flush at a time; callers arriving mid-flush then store what is left
+        while (this.flushing) {
+            await this.flushing;
+        }
+        if (this.pendingEvents.length === 0) return;
+
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        this.flushing = this.persistPending().finally(() => {
+            this.flushing = null;
+        });
+        await this.flushing;
+    }
+
+    private async persistPending(): Promise<void> {
+        const events = this.pendingEvents.splice(0);
+        const rejected: SecurityEvent[] = [];
+        let attempted = 0;
+
+        try {
+            const repository = await this.getRepository();
+
+            while (attempted < events.length) {
+                const batch = events.slice(attempted, attempted + MAX_BATCH_SIZE);
+                const failed = await this.insertBatch(repository, batch);
+                attempted += batch.length;
+                rejected.push(...failed);
+                // Nothing got through: keep the rest for the retry
+                if (failed.length === batch.length) break;
+            }
+        } catch (error) {
+            console.error('[SECURITY] Security event store unavailable:', error);
+        }
+
+        const untried = events.slice(attempted);
+        if (rejected.length === 0 && untried.length === 0) return;
+
+        const retry = rejected.filter((event) => {
+            const attempts = (this.storeAttempts.get(event) ?? 0) + 1;
+            if (attempts >= MAX_STORE_ATTEMPTS) {
+                console.error(
+                    `[SECURITY] Dropped security event after ${attempts} failed inserts:`,
+                    JSON.stringify(toRecord(event))
+                );
+                return false;
+            }
+            this.storeAttempts.set(event, attempts);
+            return true;
+        });
+
+        this.enqueue([...retry, ...untried], true);
+        if (this.pendingEvents.length > 0) {
+            this.scheduleRetry();
+        }
     }
 
     /**
-     * Flush event queue to persistent storage
+     * Insert a batch, returning the events the store rejected. A failed batch
+     * is retried row by row so one bad row cannot hold back the others.
      */
-    private async flush(): Promise<void> {
-        if (this.eventQueue.length === 0) return;
+    private async insertBatch(repository: ISecurityEventRepository, batch: SecurityEvent[]): Promise<SecurityEvent[]> {
+        try {
+            await repository.insertMany(batch.map(toRecord));
+            return [];
+        } catch (error) {
+            console.error(`[SECURITY] Failed to store ${batch.length} security events:`, error);
+            if (batch.length === 1) return batch;
+        }
 
-        const events = [...this.eventQueue];
-        this.eventQueue = [];
+        const failed: SecurityEvent[] = [];
+        for (const event of batch) {
+            try {
+                await repository.insertMany([toRecord(event)]);
+            } catch {
+                failed.push(event);
+            }
+        }
+        return failed;
+    }
+
+    private scheduleRetry(): void {
+        if (this.flushTimer) return;
 
-        // Batch insert to database
-        // await db.securityLogs.createMany({ data: events });
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            void this.flush();
+        }, RETRY_DELAY_MS);
+        this.flushTimer.unref?.();
+    }
 
-        console.log(`[SECURITY] Flushed ${events.length} events to storage`);
+    /**
+     * Search stored events, newest first
+     */
+    async searchEvents(criteria: SecurityEventSearchCriteria): Promise<PaginatedResult<SecurityEventRecord>> {
+        await this.flush();
+        return (await this.getRepository()).findAll(criteria);
     }
 
     /**
-     * Get recent events
+     * Stored events counted per type and hour or day
+     */
+    async countEvents(criteria: SecurityEventSearchCriteria, interval: SecurityEventInterval): Promise<SecurityEventBucket[]> {
+        await this.flush();
+        return (await this.getRepository()).countByInterval(criteria, interval);
+    }
+
+    /**
+     * Get recent events logged by this instance
      */
     getRecentEvents(limit: number = 100): SecurityEvent[] {
-        return this.eventQueue.slice(-limit);
+        return this.recentEvents.slice(-limit);
     }
 
     /**
      * Cleanup
      */
-    destroy(): void {
-        if (this.flushInterval) {
-            clearInterval(this.flushInterval);
+    async destroy(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
         }
-        this.flush();
+        await this.flush();
     }
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Strip NUL characters, which Postgres rejects in text and JSONB values
+ */
+function stripNul(value: string): string;
+function stripNul(value: string | undefined): string | undefined;
+function stripNul(value: string | undefined): string | undefined {
+    return value?.replace(/\u0000/g, '');
+}
+
+function truncate(value: string | undefined, maxLength: number): string | undefined {
+    return value === undefined ? undefined : stripNul(value).slice(0, maxLength);
+}
+
+function sanitizeDetails(value: unknown): unknown {
+    if (typeof value === 'string') return stripNul(value);
+    if (Array.isArray(value)) return value.map(sanitizeDetails);
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, entry]) => [stripNul(key), sanitizeDetails(entry)])
+        );
+    }
+    return value;
+}
+
+/**
+ * Map an event to a row the security_events table accepts: strings are cut
+ * to their column sizes and a user ID that is not a UUID moves to details.
+ */
+function toRecord(event: SecurityEvent): Omit<SecurityEventRecord, 'id'> {
+    const details: Record<string, unknown> = { ...event.details };
+    if (event.geoLocation) details.geoLocation = event.geoLocation;
+
+    let userId = event.userId;
+    if (userId !== undefined && !UUID_PATTERN.test(userId)) {
+        details.userRef = userId;
+        userId = undefined;
+    }
+
+    return {
+        type: stripNul(event.type).slice(0, 50),
+        severity: event.severity,
+        userId,
+        ip: stripNul(event.ip).slice(0, 64),
+        userAgent: stripNul(event.userAgent),
+        path: stripNul(event.path),
+        method: truncate(event.method, 10),
+        details: sanitizeDetails(details) as Record<string, unknown>,
+        requestId: truncate(event.requestId, 100),
+        sessionId: truncate(event.sessionId, 100),
+        createdAt: event.timestamp,
+    };
+}
+
 // ============================================
 // PUBLIC API
 // ============================================
@@ -276,6 +548,15 @@ export function logSecurityEvent(
     securityLogger.logEvent(event);
 }
 
+/**
+ * Log a security event and wait until it is stored
+ */
+export function logSecurityEventNow(
+    event: Omit<SecurityEvent, 'timestamp'>
+): Promise<void> {
+    return securityLogger.logEventNow(event);
+}
+
 /**
  * Log authentication success
  */
@@ -342,7 +623,8 @@ export function logRateLimit(
     ip: string,
     userAgent: string,
     path: string,
-    limit: number
+    limit: number,
+    policy?: string
 ): void {
     logSecurityEvent({
         type: 'rate_limit',
@@ -350,7 +632,7 @@ export function logRateLimit(
         ip,
         userAgent,
         path,
-        details: { limit },
+        details: policy ? { limit, policy } : { limit },
     });
 }
 
@@ -374,6 +656,25 @@ export function logAttackAttempt(
     });
 }
 
+/**
+ * Search stored security events, newest first
+ */
+export function searchSecurityEvents(
+    criteria: SecurityEventSearchCriteria
+): Promise<PaginatedResult<SecurityEventRecord>> {
+    return securityLogger.searchEvents(criteria);
+}
+
+/**
+ * Count stored security events per type and hour or day
+ */
+export function getSecurityEventTimeline(
+    criteria: SecurityEventSearchCriteria,
+    interval: SecurityEventInterval
+): Promise<SecurityEventBucket[]> {
+    return securityLogger.countEvents(criteria, interval);
+}
+
 // ============================================
 // GENERAL LOGGER
 // ============================================
@@ -0,0 +1,26 @@
+/**
+ * MODON Platform - Site Configuration
+ * ====================================
+ * The public origin of the site, used wherever a link leaves the request
+ * (emails, password reset links). It must come from configuration, never
+ * from the request's Host header.
+ */
+
+const DEVELOPMENT_SITE_URL = 'http://localhost:1000';
+
+/**
+ * NEXT_PUBLIC_SITE_URL without a trailing slash. Throws when it is unset
+ * outside development, so links are never built for the wrong origin.
+ */
+export function getSiteUrl(): string {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+    if (!siteUrl) {
+        if (process.env.NODE_ENV === 'development') return DEVELOPMENT_SITE_URL;
+        throw new Error(
+            'FATAL: NEXT_PUBLIC_SITE_URL environment variable is not set. ' +
+            'It is required to build links in emails. ' +
+            'Please set NEXT_PUBLIC_SITE_URL in your environment configuration.'
+        );
+    }
+    return siteUrl.replace(/\/$/, '');
+}
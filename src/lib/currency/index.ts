@@ -92,19 +92,85 @@ export const defaultCurrency: SupportedCurrency = 'EGP';
 
 // ============================================
 // EXCHANGE RATES
-// (In production, fetch from an API)
 // ============================================
 
-// Base: EGP (Egyptian Pound)
-const exchangeRates: Record<SupportedCurrency, number> = {
-    EGP: 1.0,
-    EUR: 0.019,  // 1 EGP ≈ 0.019 EUR
-    USD: 0.020,  // 1 EGP ≈ 0.02 USD
-    GBP: 0.016,
-    AED: 0.074,
-    SAR: 0.076,
+/**
+ * A rate table as published by a provider.
+ * `rates` are units of each currency per 1 unit of `base`.
+ */
+export interface ExchangeRates {
+    base: SupportedCurrency;
+    rates: Record<SupportedCurrency, number>;
+    /** Date the rates were published for */
+    asOf: Date;
+    /** When this process obtained them */
+    fetchedAt: Date;
+    source: string;
+    /** Served from the last known table because the provider failed */
+    stale?: boolean;
+}
+
+/**
+ * Source of exchange rates (fixture file, HTTP API, ...)
+ */
+export interface ExchangeRateProvider {
+    readonly name: string;
+    fetchRates(): Promise<ExchangeRates>;
+}
+
+/**
+ * Rate summary for API responses, so a displayed conversion can say which rates it used
+ */
+export interface ExchangeRatesInfo {
+    base: SupportedCurrency;
+    asOf: string;
+    fetchedAt: string;
+    source: string;
+    stale: boolean;
+}
+
+// Base: EGP (Egyptian Pound) - built-in fallback until a provider has answered
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+    base: 'EGP',
+    rates: {
+        EGP: 1.0,
+        EUR: 0.019,  // 1 EGP ≈ 0.019 EUR
+        USD: 0.020,  // 1 EGP ≈ 0.02 USD
+        GBP: 0.016,
+        AED: 0.074,
+        SAR: 0.076,
+    },
+    asOf: new Date('2025-01-01T00:00:00Z'),
+    fetchedAt: new Date('2025-01-01T00:00:00Z'),
+    source: 'built-in',
 };
 
+let exchangeRates: ExchangeRates = DEFAULT_EXCHANGE_RATES;
+
+/**
+ * Rates currently used by convertCurrency
+ */
+export function getExchangeRates(): ExchangeRates {
+    return exchangeRates;
+}
+
+/**
+ * Replace the rate table used by convertCurrency (called by the rate service)
+ */
+export function setExchangeRates(rates: ExchangeRates): void {
+    exchangeRates = rates;
+}
+
+export function describeExchangeRates(rates: ExchangeRates = exchangeRates): ExchangeRatesInfo {
+    return {
+        base: rates.base,
+        asOf: rates.asOf.toISOString(),
+        fetchedAt: rates.fetchedAt.toISOString(),
+        source: rates.source,
+        stale: rates.stale ?? false,
+    };
+}
+
 /**
  * Get exchange rate from one currency to another
  */
@@ -114,9 +180,9 @@ export function getExchangeRate(
 ): number {
     if (from === to) return 1;
 
-    // Convert to EUR first, then to target
-    const fromRate = exchangeRates[from];
-    const toRate = exchangeRates[to];
+    // Convert through the table's base currency
+    const fromRate = exchangeRates.rates[from];
+    const toRate = exchangeRates.rates[to];
 
     return toRate / fromRate;
 }
@@ -133,6 +199,22 @@ export function convertCurrency(
     return amount * rate;
 }
 
+export function isSupportedCurrency(code: string | undefined): code is SupportedCurrency {
+    return !!code && code in currencies;
+}
+
+/**
+ * Convert a listing price into the target currency.
+ * Prices in a currency without a rate are returned unconverted.
+ */
+export function convertPrice(
+    price: { amount: number; currency: string },
+    to: SupportedCurrency
+): number {
+    const from = price.currency?.toUpperCase();
+    return isSupportedCurrency(from) ? convertCurrency(price.amount, from, to) : price.amount;
+}
+
 // ============================================
 // FORMATTING
 // ============================================
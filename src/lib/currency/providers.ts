@@ -0,0 +1,219 @@
+/**
+ * MODON Platform - Exchange Rate Providers (server only)
+ * =======================================================
+ * Pluggable rate sources with a TTL cache and last-known-rates fallback.
+ *
+ * Configuration:
+ *   EXCHANGE_RATES_URL     - HTTP provider ({ base, date, rates } JSON)
+ *   EXCHANGE_RATES_FILE    - File provider (JSON fixture, same shape)
+ *   EXCHANGE_RATES_TTL_MS  - Cache lifetime (default 1 hour)
+ * Without either source the built-in table is used. Currencies a provider
+ * does not publish keep their built-in rate: ECB-based APIs such as
+ * Frankfurter have EUR, USD and GBP but no EGP, AED or SAR.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import {
+    DEFAULT_EXCHANGE_RATES,
+    ExchangeRateProvider,
+    ExchangeRates,
+    SupportedCurrency,
+    currencies,
+    getExchangeRates,
+    setExchangeRates,
+} from './index';
+
+// ============================================
+// PAYLOAD PARSING
+// ============================================
+
+const SUPPORTED = Object.keys(currencies) as SupportedCurrency[];
+
+const RatesPayloadSchema = z.object({
+    base: z.string().transform(code => code.toUpperCase()),
+    // Frankfurter / exchangerate.host use `date`; our fixtures may use `asOf`
+    date: z.string().optional(),
+    asOf: z.string().optional(),
+    timestamp: z.number().optional(),
+    rates: z.record(z.number().positive()),
+});
+
+/**
+ * Normalize a provider payload into a complete table for the supported currencies.
+ * Missing currencies are filled from the built-in table, crossed through the
+ * provider's base, and named in `source`.
+ */
+export function parseRatesPayload(payload: unknown, source: string): ExchangeRates {
+    const data = RatesPayloadSchema.parse(payload);
+
+    if (!SUPPORTED.includes(data.base as SupportedCurrency)) {
+        throw new Error(`Unsupported base currency from ${source}: ${data.base}`);
+    }
+
+    const base = data.base as SupportedCurrency;
+    // Providers usually omit the base currency from its own table
+    const table: Record<string, number> = { ...data.rates, [base]: 1 };
+
+    const missing = SUPPORTED.filter(code => !(code in table));
+    if (missing.length === SUPPORTED.length - 1) {
+        throw new Error(`No supported rates from ${source}`);
+    }
+
+    const builtIn = DEFAULT_EXCHANGE_RATES.rates;
+    missing.forEach(code => {
+        table[code] = builtIn[code] / builtIn[base];
+    });
+
+    const asOf = data.timestamp
+        ? new Date(data.timestamp * 1000)
+        : new Date(data.asOf || data.date || Date.now());
+    if (isNaN(asOf.getTime())) {
+        throw new Error(`Invalid rate date from ${source}`);
+    }
+
+    return {
+        base,
+        rates: Object.fromEntries(SUPPORTED.map(code => [code, table[code]])) as Record<SupportedCurrency, number>,
+        asOf,
+        fetchedAt: new Date(),
+        source: missing.length > 0 ? `${source} (built-in ${missing.join(', ')})` : source,
+    };
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Reads rates from a JSON file (local development and tests use a fixture)
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+    readonly name: string;
+    private readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(process.cwd(), filePath);
+        this.name = `file:${path.basename(filePath)}`;
+    }
+
+    async fetchRates(): Promise<ExchangeRates> {
+        const content = await readFile(this.filePath, 'utf-8');
+        return parseRatesPayload(JSON.parse(content), this.name);
+    }
+}
+
+/**
+ * Fetches rates from an HTTP API returning { base, date, rates }
+ */
+export class HttpExchangeRateProvider implements ExchangeRateProvider {
+    readonly name: string;
+
+    constructor(
+        private readonly url: string,
+        private readonly options: { headers?: Record<string, string>; timeoutMs?: number } = {}
+    ) {
+        this.name = `http:${new URL(url).host}`;
+    }
+
+    async fetchRates(): Promise<ExchangeRates> {
+        const response = await fetch(this.url, {
+            headers: { Accept: 'application/json', ...this.options.headers },
+            signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000),
+            cache: 'no-store',
+        });
+
+        if (!response.ok) {
+            throw new Error(`Exchange rate API responded ${response.status}`);
+        }
+
+        return parseRatesPayload(await response.json(), this.name);
+    }
+}
+
+/**
+ * The built-in table, for when no provider is configured
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+    readonly name = DEFAULT_EXCHANGE_RATES.source;
+
+    async fetchRates(): Promise<ExchangeRates> {
+        return { ...DEFAULT_EXCHANGE_RATES, fetchedAt: new Date() };
+    }
+}
+
+// ============================================
+// CACHED RATE SERVICE
+// ============================================
+
+/** A failing provider is retried at most this often */
+const RETRY_AFTER_FAILURE_MS = 60_000;
+
+export class ExchangeRateService {
+    private lastKnown: ExchangeRates | null = null;
+    private lastAttemptAt = 0;
+    private inFlight: Promise<ExchangeRates> | null = null;
+
+    constructor(
+        private readonly provider: ExchangeRateProvider,
+        private readonly ttlMs: number = 60 * 60 * 1000
+    ) { }
+
+    /**
+     * Current rates: cached within the TTL, otherwise refreshed from the provider.
+     * On provider failure the last known rates are returned, marked stale.
+     * Also updates the table used by the synchronous convertCurrency().
+     */
+    async getRates(): Promise<ExchangeRates> {
+        const now = Date.now();
+
+        if (this.lastKnown && !this.lastKnown.stale && now - this.lastKnown.fetchedAt.getTime() < this.ttlMs) {
+            return this.lastKnown;
+        }
+        if (this.lastKnown?.stale && now - this.lastAttemptAt < RETRY_AFTER_FAILURE_MS) {
+            return this.lastKnown;
+        }
+
+        this.inFlight ??= this.refresh().finally(() => {
+            this.inFlight = null;
+        });
+        return this.inFlight;
+    }
+
+    private async refresh(): Promise<ExchangeRates> {
+        this.lastAttemptAt = Date.now();
+
+        try {
+            const rates = await this.provider.fetchRates();
+            this.lastKnown = { ...rates, stale: false };
+        } catch (error) {
+            console.warn(`[CURRENCY] ${this.provider.name} failed, using last known rates:`, (error as Error).message);
+            this.lastKnown = { ...(this.lastKnown ?? getExchangeRates()), stale: true };
+        }
+
+        setExchangeRates(this.lastKnown);
+        return this.lastKnown;
+    }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+let exchangeRateService: ExchangeRateService | null = null;
+
+export function getExchangeRateService(): ExchangeRateService {
+    if (!exchangeRateService) {
+        const ttlMs = Number(process.env.EXCHANGE_RATES_TTL_MS) || undefined;
+
+        const provider: ExchangeRateProvider = process.env.EXCHANGE_RATES_URL
+            ? new HttpExchangeRateProvider(process.env.EXCHANGE_RATES_URL)
+            : process.env.EXCHANGE_RATES_FILE
+                ? new FileExchangeRateProvider(process.env.EXCHANGE_RATES_FILE)
+                : new StaticExchangeRateProvider();
+
+        exchangeRateService = new ExchangeRateService(provider, ttlMs);
+    }
+    return exchangeRateService;
+}
@@ -0,0 +1,72 @@
+/**
+ * MODON Platform - Email Delivery (server only)
+ * ==============================================
+ * Transactional mail goes through an EmailTransport so delivery can be
+ * swapped per environment. Routes should not call a transport directly;
+ * they queue mail in the notification outbox (see EmailOutbox).
+ *
+ * Configuration:
+ *   EMAIL_TRANSPORT   - 'smtp', 'file', 'service' or 'console'
+ *                       (default: 'smtp' when SMTP_HOST is set, otherwise 'console')
+ *   EMAIL_OUTPUT_DIR  - Directory for the file transport (default .emails)
+ *   EMAIL_FROM        - Sender address
+ *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS
+ *   SMTP_SECURE       - 'true' for implicit TLS (port 465)
+ */
+
+import { SmtpEmailTransport } from './smtp';
+import { ConsoleEmailTransport, FileEmailTransport, NotificationServiceEmailTransport } from './transports';
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface EmailTransport {
+    readonly name: string;
+    send(message: EmailMessage): Promise<void>;
+}
+
+export const DEFAULT_EMAIL_FROM = 'MODON <no-reply@modon.com>';
+
+export function getEmailFrom(): string {
+    return process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM;
+}
+
+let emailTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+    if (!emailTransport) {
+        emailTransport = createEmailTransport();
+    }
+    return emailTransport;
+}
+
+function createEmailTransport(): EmailTransport {
+    const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+    switch (transport) {
+        case 'smtp': {
+            if (!process.env.SMTP_HOST) {
+                throw new Error('EMAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+            }
+            const secure = process.env.SMTP_SECURE === 'true';
+            return new SmtpEmailTransport({
+                host: process.env.SMTP_HOST,
+                port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+                secure,
+                user: process.env.SMTP_USER || undefined,
+                pass: process.env.SMTP_PASS || undefined,
+                from: getEmailFrom(),
+            });
+        }
+        case 'file':
+            return new FileEmailTransport(process.env.EMAIL_OUTPUT_DIR || '.emails');
+        case 'service':
+            return new NotificationServiceEmailTransport(getEmailFrom());
+        default:
+            return new ConsoleEmailTransport();
+    }
+}
@@ -0,0 +1,200 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SmtpEmailTransport, SmtpError, SmtpOptions } from './smtp';
+
+// ============================================
+// FAKE SERVER
+// ============================================
+
+interface FakeServer {
+    port: number;
+    commands: string[];
+    /** The DATA payload as received, before un-stuffing */
+    data: string[];
+    close(): Promise<void>;
+}
+
+/**
+ * Plain-text SMTP server answering 250 to everything except the replies
+ * given per command verb (e.g. { RCPT: '550 No such user' })
+ */
+async function startServer(replies: Record<string, string> = {}, features: string[] = []): Promise<FakeServer> {
+    const commands: string[] = [];
+    const data: string[] = [];
+
+    const server = net.createServer(socket => {
+        let buffer = '';
+        let inData = false;
+
+        socket.write('220 fake.test ESMTP\r\n');
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf8');
+
+            while (true) {
+                if (inData) {
+                    const end = buffer.indexOf('\r\n.\r\n');
+                    if (end === -1) return;
+                    data.push(buffer.slice(0, end));
+                    buffer = buffer.slice(end + 5);
+                    inData = false;
+                    socket.write('250 Queued\r\n');
+                    continue;
+                }
+
+                const index = buffer.indexOf('\r\n');
+                if (index === -1) return;
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                commands.push(line);
+
+                const verb = line.split(/[ :]/)[0].toUpperCase();
+                if (replies[verb]) {
+                    socket.write(`${replies[verb]}\r\n`);
+                } else if (verb === 'EHLO') {
+                    socket.write(['fake.test', ...features].map((f, i, all) => `250${i < all.length - 1 ? '-' : ' '}${f}`).join('\r\n') + '\r\n');
+                } else if (verb === 'DATA') {
+                    inData = true;
+                    socket.write('354 Go ahead\r\n');
+                } else if (verb === 'QUIT') {
+                    socket.end('221 Bye\r\n');
+                } else {
+                    socket.write('250 OK\r\n');
+                }
+            }
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    return {
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        data,
+        close: () => new Promise(resolve => server.close(() => resolve())),
+    };
+}
+
+function parseMessage(raw: string) {
+    const unstuffed = raw.replace(/^\.\./gm, '.');
+    const [head, ...rest] = unstuffed.split('\r\n\r\n');
+    const headers = Object.fromEntries(head.split('\r\n').map(line => {
+        const colon = line.indexOf(':');
+        return [line.slice(0, colon), line.slice(colon + 2)];
+    }));
+    return { headers, body: rest.join('\r\n\r\n') };
+}
+
+const decodePart = (lines: string) => Buffer.from(lines.replace(/\r\n/g, ''), 'base64').toString('utf8');
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('SmtpEmailTransport', () => {
+    let server: FakeServer;
+
+    afterEach(async () => {
+        await server?.close();
+    });
+
+    const options = (changes: Partial<SmtpOptions> = {}): SmtpOptions => ({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        from: 'MODON <no-reply@modon.com>',
+        timeoutMs: 2000,
+        ...changes,
+    });
+
+    it('sends the envelope and a plain text message', async () => {
+        server = await startServer();
+
+        await new SmtpEmailTransport(options()).send({
+            to: 'Mona <mona@example.com>',
+            subject: 'Your viewing',
+            text: 'See you on Monday.',
+        });
+
+        expect(server.commands.map(c => c.split(' ')[0])).toEqual(['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+        expect(server.commands[1]).toBe('MAIL FROM:<no-reply@modon.com>');
+        expect(server.commands[2]).toBe('RCPT TO:<mona@example.com>');
+
+        const { headers, body } = parseMessage(server.data[0]);
+        expect(headers).toMatchObject({
+            From: 'MODON <no-reply@modon.com>',
+            To: 'mona@example.com',
+            Subject: 'Your viewing',
+            'MIME-Version': '1.0',
+            'Content-Type': 'text/plain; charset=utf-8',
+            'Content-Transfer-Encoding': 'base64',
+        });
+        expect(headers['Message-ID']).toMatch(/^<[0-9a-f-]+@modon\.com>$/);
+        expect(decodePart(body)).toBe('See you on Monday.');
+    });
+
+    it('encodes non-ASCII subjects and strips header line breaks', async () => {
+        server = await startServer();
+
+        await new SmtpEmailTransport(options()).send({ to: 'a@example.com', subject: 'موعد المعاينة', text: 'x' });
+        await new SmtpEmailTransport(options()).send({ to: 'a@example.com', subject: 'Hi\r\nBcc: evil@example.com', text: 'x' });
+
+        const arabic = parseMessage(server.data[0]).headers.Subject;
+        expect(arabic).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+        expect(Buffer.from(arabic.slice(10, -2), 'base64').toString('utf8')).toBe('موعد المعاينة');
+
+        const injected = parseMessage(server.data[1]).headers;
+        expect(injected.Subject).toBe('Hi Bcc: evil@example.com');
+        expect(injected).not.toHaveProperty('Bcc');
+    });
+
+    it('sends text and HTML as multipart/alternative with wrapped base64', async () => {
+        server = await startServer();
+        const html = `<p>${'مرحبا '.repeat(40)}</p>`;
+
+        await new SmtpEmailTransport(options()).send({ to: 'a@example.com', subject: 'Hi', text: 'Hello', html });
+
+        const { headers, body } = parseMessage(server.data[0]);
+        const boundary = headers['Content-Type'].match(/boundary="([^"]+)"/)![1];
+        const parts = body.split(`--${boundary}`).slice(1, -1).map(part => parseMessage(part.replace(/^\r\n/, '')));
+
+        expect(body.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+        expect(parts.map(p => p.headers['Content-Type'])).toEqual(['text/plain; charset=utf-8', 'text/html; charset=utf-8']);
+        expect(decodePart(parts[0].body)).toBe('Hello');
+        expect(decodePart(parts[1].body.trimEnd())).toBe(html);
+        parts[1].body.trimEnd().split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+    });
+
+    it('does not end the message at a body line holding a single dot', async () => {
+        server = await startServer();
+        const text = 'First line\r\n.\r\n.hidden\r\nLast line';
+
+        await new SmtpEmailTransport(options()).send({ to: 'a@example.com', subject: 'Hi', text });
+
+        expect(server.data).toHaveLength(1);
+        server.data[0].split('\r\n').forEach(line => expect(line.startsWith('.')).toBe(false));
+        expect(decodePart(parseMessage(server.data[0]).body)).toBe(text);
+        expect(server.commands.at(-1)).toBe('QUIT');
+    });
+
+    it('refuses to send credentials over an unencrypted connection', async () => {
+        server = await startServer({}, ['AUTH PLAIN LOGIN']);
+
+        await expect(new SmtpEmailTransport(options({ user: 'mailer', pass: 'secret' })).send({
+            to: 'a@example.com',
+            subject: 'Hi',
+            text: 'x',
+        })).rejects.toThrow('Refusing to send SMTP credentials over an unencrypted connection');
+
+        expect(server.commands.some(c => c.startsWith('AUTH'))).toBe(false);
+    });
+
+    it('fails with the server reply code', async () => {
+        server = await startServer({ RCPT: '550 5.1.1 No such user' });
+
+        const sending = new SmtpEmailTransport(options()).send({ to: 'ghost@example.com', subject: 'Hi', text: 'x' });
+
+        await expect(sending).rejects.toBeInstanceOf(SmtpError);
+        await expect(sending).rejects.toMatchObject({ code: 550, message: 'SMTP 550: 5.1.1 No such user' });
+        expect(server.commands.some(c => c === 'DATA')).toBe(false);
+    });
+});
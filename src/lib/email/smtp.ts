@@ -0,0 +1,287 @@
+/**
+ * MODON Platform - SMTP Transport (server only)
+ * ==============================================
+ * Minimal SMTP client (RFC 5321) over node:net / node:tls: implicit TLS or
+ * STARTTLS, AUTH PLAIN, UTF-8 subjects and base64 text/html bodies.
+ * One connection per message; retries belong to the outbox.
+ */
+
+import * as crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { EmailMessage, EmailTransport } from './index';
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    /** Implicit TLS (usually port 465); otherwise STARTTLS is used when offered */
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+    timeoutMs?: number;
+}
+
+export class SmtpError extends Error {
+    constructor(message: string, public readonly code?: number) {
+        super(message);
+        this.name = 'SmtpError';
+    }
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+    readonly name = 'smtp';
+
+    constructor(private readonly options: SmtpOptions) { }
+
+    async send(message: EmailMessage): Promise<void> {
+        const session = await SmtpSession.open(this.options);
+
+        try {
+            await session.expect(220);
+            let features = await session.command(`EHLO ${ehloName()}`, 250);
+
+            if (!session.encrypted && features.lines.some(line => /^STARTTLS\b/i.test(line))) {
+                await session.command('STARTTLS', 220);
+                await session.upgrade();
+                features = await session.command(`EHLO ${ehloName()}`, 250);
+            }
+
+            if (this.options.user) {
+                if (!session.encrypted) {
+                    throw new SmtpError('Refusing to send SMTP credentials over an unencrypted connection');
+                }
+                if (!features.lines.some(line => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+                    throw new SmtpError('SMTP server does not offer AUTH PLAIN');
+                }
+                const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass ?? ''}`).toString('base64');
+                await session.command(`AUTH PLAIN ${credentials}`, 235);
+            }
+
+            await session.command(`MAIL FROM:<${address(this.options.from)}>`, 250);
+            await session.command(`RCPT TO:<${address(message.to)}>`, [250, 251]);
+            await session.command('DATA', 354);
+            await session.command(`${dotStuff(buildMime(message, this.options.from))}\r\n.`, 250);
+            await session.command('QUIT', 221).catch(() => undefined);
+        } finally {
+            session.close();
+        }
+    }
+}
+
+// ============================================
+// CONNECTION
+// ============================================
+
+class SmtpSession {
+    private buffer = '';
+    private partial: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    private readonly onData = (chunk: Buffer) => {
+        this.buffer += chunk.toString('utf8');
+        this.parse();
+    };
+    private readonly onError = (error: Error) => this.fail(error);
+    private readonly onClose = () => this.fail(new SmtpError('SMTP connection closed'));
+    private readonly onTimeout = () => this.socket.destroy(new SmtpError('SMTP server did not respond in time'));
+
+    private constructor(private socket: net.Socket, private readonly options: SmtpOptions) {
+        this.attach(socket);
+    }
+
+    static async open(options: SmtpOptions): Promise<SmtpSession> {
+        const socket = await new Promise<net.Socket>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                connected.destroy();
+                reject(new SmtpError(`SMTP connection to ${options.host}:${options.port} timed out`));
+            }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+            const onConnect = () => {
+                clearTimeout(timer);
+                resolve(connected);
+            };
+            const connected: net.Socket = options.secure
+                ? tls.connect({ host: options.host, port: options.port, servername: options.host }, onConnect)
+                : net.connect({ host: options.host, port: options.port }, onConnect);
+            connected.once('error', error => {
+                clearTimeout(timer);
+                reject(error);
+            });
+        });
+
+        return new SmtpSession(socket, options);
+    }
+
+    get encrypted(): boolean {
+        return this.socket instanceof tls.TLSSocket;
+    }
+
+    async expect(codes: number | number[]): Promise<SmtpReply> {
+        const reply = await this.read();
+        const accepted = Array.isArray(codes) ? codes : [codes];
+        if (!accepted.includes(reply.code)) {
+            throw new SmtpError(`SMTP ${reply.code}: ${reply.lines.join(' ')}`, reply.code);
+        }
+        return reply;
+    }
+
+    async command(line: string, codes: number | number[]): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return this.expect(codes);
+    }
+
+    async upgrade(): Promise<void> {
+        this.detach(this.socket);
+
+        this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+            const secured = tls.connect({ socket: this.socket, servername: this.options.host }, () => resolve(secured));
+            secured.once('error', reject);
+        });
+
+        this.attach(this.socket);
+    }
+
+    close(): void {
+        this.detach(this.socket);
+        this.socket.destroy();
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.on('data', this.onData);
+        socket.on('error', this.onError);
+        socket.on('close', this.onClose);
+        socket.on('timeout', this.onTimeout);
+        socket.setTimeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    }
+
+    private detach(socket: net.Socket): void {
+        socket.off('data', this.onData);
+        socket.off('error', this.onError);
+        socket.off('close', this.onClose);
+        socket.off('timeout', this.onTimeout);
+        socket.setTimeout(0);
+    }
+
+    private read(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+        if (reply) return Promise.resolve(reply);
+        if (this.failure) return Promise.reject(this.failure);
+
+        return new Promise((resolve, reject) => {
+            this.waiter = { resolve, reject };
+        });
+    }
+
+    /**
+     * Split buffered input into replies; "250-..." lines continue, "250 ..." ends a reply
+     */
+    private parse(): void {
+        let index: number;
+
+        while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+            const line = this.buffer.slice(0, index);
+            this.buffer = this.buffer.slice(index + 2);
+            this.partial.push(line.slice(4));
+
+            if (line.charAt(3) !== '-') {
+                this.deliver({ code: Number(line.slice(0, 3)), lines: this.partial.splice(0) });
+            }
+        }
+    }
+
+    private deliver(reply: SmtpReply): void {
+        if (this.waiter) {
+            const { resolve } = this.waiter;
+            this.waiter = null;
+            resolve(reply);
+        } else {
+            this.replies.push(reply);
+        }
+    }
+
+    private fail(error: Error): void {
+        this.failure ??= error;
+        if (this.waiter) {
+            const { reject } = this.waiter;
+            this.waiter = null;
+            reject(this.failure);
+        }
+    }
+}
+
+// ============================================
+// MESSAGE FORMAT
+// ============================================
+
+function buildMime(message: EmailMessage, from: string): string {
+    const domain = address(from).split('@')[1] || 'localhost';
+    const headers = [
+        `From: ${from}`,
+        `To: ${address(message.to)}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+    ];
+
+    if (!message.html) {
+        return [...headers, ...bodyPart('text/plain', message.text)].join('\r\n');
+    }
+
+    const boundary = `modon-${crypto.randomUUID()}`;
+    return [
+        ...headers,
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        ...bodyPart('text/plain', message.text),
+        `--${boundary}`,
+        ...bodyPart('text/html', message.html),
+        `--${boundary}--`,
+    ].join('\r\n');
+}
+
+function bodyPart(contentType: string, content: string): string[] {
+    const encoded = Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) ?? [];
+    return [
+        `Content-Type: ${contentType}; charset=utf-8`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        ...encoded,
+    ];
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values (e.g. Arabic subjects)
+ */
+function encodeHeader(value: string): string {
+    const clean = value.replace(/[\r\n]+/g, ' ');
+    if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+    return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * "MODON <no-reply@modon.com>" -> "no-reply@modon.com"
+ */
+function address(mailbox: string): string {
+    const match = mailbox.match(/<([^>]+)>/);
+    return (match ? match[1] : mailbox).trim().replace(/[\r\n<>]/g, '');
+}
+
+function dotStuff(data: string): string {
+    return data.replace(/^\./gm, '..');
+}
+
+function ehloName(): string {
+    return os.hostname().replace(/[^a-zA-Z0-9.-]/g, '') || 'localhost';
+}
@@ -0,0 +1,243 @@
+/**
+ * MODON Platform - Email Templates (server only)
+ * ===============================================
+ * Registry of transactional emails keyed by notification type. Copy lives in
+ * the "emails" section of src/dictionaries/{en,ar}.json; templates only pick
+ * the strings, fill {placeholders} from the notification payload and lay
+ * out the text and HTML bodies.
+ */
+
+import en from '@/dictionaries/en.json';
+import ar from '@/dictionaries/ar.json';
+import { escapeHtml } from '@/lib/sanitize';
+import { formatPropertyPrice, parseCurrency } from '@/lib/currency';
+import type { EmailMessage } from './index';
+
+export type EmailLocale = 'en' | 'ar';
+
+type EmailStrings = typeof en.emails;
+
+// Typed against the English copy, so a key missing from ar.json fails the build
+const dictionaries: Record<EmailLocale, EmailStrings> = {
+    en: en.emails,
+    ar: ar.emails,
+};
+
+type Payload = Record<string, unknown>;
+
+export interface EmailTemplateContext {
+    locale: EmailLocale;
+    /** Site origin for links, e.g. https://modonevolutio.com */
+    siteUrl: string;
+}
+
+interface EmailContent {
+    subject: string;
+    /** Recipient's first name; omitted for a neutral greeting */
+    name?: string;
+    paragraphs: string[];
+    /** Quoted user text, e.g. an inquiry message */
+    quote?: string;
+    action?: { label: string; url: string };
+    closing?: string[];
+}
+
+type EmailTemplate = (strings: EmailStrings, payload: Payload, context: EmailTemplateContext) => EmailContent;
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+const templates: Record<string, EmailTemplate> = {
+    new_listing_alert: (t, payload, { locale, siteUrl }) => {
+        const title = text(locale === 'ar' && payload.titleAr ? payload.titleAr : payload.title);
+        const searches = Array.isArray(payload.searches)
+            ? payload.searches.map(search => text((search as Payload).name)).filter(Boolean).join(', ')
+            : '';
+        const price = typeof payload.price === 'number'
+            ? formatPropertyPrice(payload.price, parseCurrency(text(payload.currency)))
+            : '';
+        const location = [payload.city, payload.country].map(text).filter(Boolean).join(', ');
+
+        return {
+            subject: fill(t.new_listing_alert.subject, { title }),
+            name: text(payload.name),
+            paragraphs: [
+                fill(t.new_listing_alert.intro, { searches }),
+                fill(t.new_listing_alert.details, { title, location, price }),
+            ],
+            action: {
+                label: t.new_listing_alert.action,
+                url: `${siteUrl}/${locale}/property/${encodeURIComponent(text(payload.slug))}`,
+            },
+            closing: [t.new_listing_alert.outro],
+        };
+    },
+
+    password_reset: (t, payload) => ({
+        subject: t.password_reset.subject,
+        name: text(payload.name),
+        paragraphs: [t.password_reset.intro],
+        action: { label: t.password_reset.action, url: text(payload.link) },
+        closing: [
+            fill(t.password_reset.expiry, { minutes: text(payload.minutes) }),
+            t.password_reset.outro,
+        ],
+    }),
+
+    account_locked: (t, payload, { locale, siteUrl }) => ({
+        subject: t.account_locked.subject,
+        name: text(payload.name),
+        paragraphs: [
+            fill(t.account_locked.intro, { minutes: text(payload.minutes) }),
+            ...(payload.ip ? [fill(t.account_locked.details, { ip: text(payload.ip) })] : []),
+        ],
+        action: { label: t.account_locked.action, url: `${siteUrl}/${locale}/reset-password` },
+        closing: [t.account_locked.outro],
+    }),
+
+    email_verification: (t, payload) => ({
+        subject: t.email_verification.subject,
+        name: text(payload.name),
+        paragraphs: [t.email_verification.intro],
+        action: { label: t.email_verification.action, url: text(payload.link) },
+        closing: [t.email_verification.outro],
+    }),
+
+    lead_acknowledgement: (t, payload, { locale, siteUrl }) => ({
+        subject: t.lead_acknowledgement.subject,
+        name: text(payload.name),
+        paragraphs: [t.lead_acknowledgement.intro, t.lead_acknowledgement.outro],
+        action: { label: t.lead_acknowledgement.action, url: `${siteUrl}/${locale}/buy` },
+    }),
+
+    inquiry_received: (t, payload, { locale, siteUrl }) => {
+        const values = {
+            name: text(payload.name),
+            email: text(payload.email),
+            property: text(payload.property),
+        };
+
+        return {
+            subject: fill(t.inquiry_received.subject, values),
+            name: text(payload.agentName),
+            paragraphs: [fill(t.inquiry_received.intro, values)],
+            quote: text(payload.message),
+            action: { label: t.inquiry_received.action, url: `${siteUrl}/${locale}/admin/leads` },
+            closing: [t.inquiry_received.outro],
+        };
+    },
+
+    inquiry_acknowledgement: (t, payload, { locale, siteUrl }) => {
+        const property = text(payload.property);
+
+        return {
+            subject: fill(t.inquiry_acknowledgement.subject, { property }),
+            name: text(payload.name),
+            paragraphs: [
+                fill(t.inquiry_acknowledgement.intro, { property }),
+                t.inquiry_acknowledgement.outro,
+            ],
+            quote: text(payload.message),
+            action: payload.slug
+                ? {
+                    label: t.inquiry_acknowledgement.action,
+                    url: `${siteUrl}/${locale}/property/${encodeURIComponent(text(payload.slug))}`,
+                }
+                : undefined,
+        };
+    },
+};
+
+export function hasEmailTemplate(type: string): boolean {
+    return Object.prototype.hasOwnProperty.call(templates, type);
+}
+
+/**
+ * Render a queued notification; unknown locales fall back to English
+ */
+export function renderEmail(
+    type: string,
+    locale: string,
+    payload: Payload,
+    siteUrl: string
+): Omit<EmailMessage, 'to'> {
+    if (!hasEmailTemplate(type)) {
+        throw new Error(`No email template for notification type "${type}"`);
+    }
+
+    const language: EmailLocale = locale === 'ar' ? 'ar' : 'en';
+    const strings = dictionaries[language];
+    const content = templates[type](strings, payload, { locale: language, siteUrl: siteUrl.replace(/\/$/, '') });
+
+    return {
+        subject: content.subject,
+        text: renderText(strings, content),
+        html: renderHtml(strings, content, language),
+    };
+}
+
+// ============================================
+// LAYOUT
+// ============================================
+
+function renderText(t: EmailStrings, content: EmailContent): string {
+    const lines = [greeting(t, content), ''];
+
+    for (const paragraph of content.paragraphs) {
+        lines.push(paragraph, '');
+    }
+    if (content.quote) {
+        lines.push(...content.quote.split(/\r?\n/).map(line => `> ${line}`), '');
+    }
+    if (content.action?.url) {
+        lines.push(`${content.action.label}: ${content.action.url}`, '');
+    }
+    for (const paragraph of content.closing ?? []) {
+        lines.push(paragraph, '');
+    }
+
+    lines.push(t.sign_off, '', '--', t.footer);
+    return lines.join('\n');
+}
+
+function renderHtml(t: EmailStrings, content: EmailContent, locale: EmailLocale): string {
+    const direction = locale === 'ar' ? 'rtl' : 'ltr';
+    const paragraph = (value: string) => `<p style="margin:0 0 16px;line-height:1.6">${escapeHtml(value)}</p>`;
+
+    const body = [
+        paragraph(greeting(t, content)),
+        ...content.paragraphs.map(paragraph),
+        content.quote
+            ? `<blockquote style="margin:0 0 16px;padding:12px 16px;background:#f7f5f0;border-${direction === 'rtl' ? 'right' : 'left'}:3px solid #b8975a;white-space:pre-line">${escapeHtml(content.quote)}</blockquote>`
+            : '',
+        content.action?.url
+            ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:12px 28px;background:#1a1a1a;color:#ffffff;text-decoration:none;letter-spacing:1px">${escapeHtml(content.action.label)}</a></p>`
+            : '',
+        ...(content.closing ?? []).map(paragraph),
+        paragraph(t.sign_off),
+    ].join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="${locale}" dir="${direction}">
+<body style="margin:0;padding:24px;background:#f4f4f4;font-family:Arial,Helvetica,sans-serif;color:#1a1a1a">
+<div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;text-align:${direction === 'rtl' ? 'right' : 'left'}">
+<p style="margin:0 0 24px;font-size:20px;letter-spacing:6px">MODON</p>
+${body}
+<p style="margin:24px 0 0;font-size:12px;color:#888888">${escapeHtml(t.footer)}</p>
+</div>
+</body>
+</html>`;
+}
+
+function greeting(t: EmailStrings, content: EmailContent): string {
+    return content.name ? fill(t.greeting, { name: content.name }) : t.greeting_anonymous;
+}
+
+function fill(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function text(value: unknown): string {
+    return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
@@ -0,0 +1,61 @@
+/**
+ * MODON Platform - Email Transports (server only)
+ * ================================================
+ * Local development transports (mail is logged or written to disk instead of
+ * sent) and the hand-off to the notification-service. SMTP lives in ./smtp.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { EmailMessage, EmailTransport } from './index';
+
+/**
+ * Logs each message. Bodies (which may hold reset links) are left out in production.
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+    readonly name = 'console';
+
+    async send(message: EmailMessage): Promise<void> {
+        if (process.env.NODE_ENV === 'production') {
+            console.warn(`[Email] No delivery transport configured; dropped "${message.subject}" to ${message.to}`);
+            return;
+        }
+
+        console.info(`[Email] To: ${message.to}\n[Email] Subject: ${message.subject}\n${message.text}`);
+    }
+}
+
+/**
+ * Writes each message as a JSON file, newest last when sorted by name
+ */
+export class FileEmailTransport implements EmailTransport {
+    readonly name = 'file';
+
+    constructor(private readonly directory: string) { }
+
+    async send(message: EmailMessage): Promise<void> {
+        const directory = path.resolve(process.cwd(), this.directory);
+        await mkdir(directory, { recursive: true });
+
+        const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+        const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.json`);
+
+        await writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+        console.info(`[Email] "${message.subject}" to ${message.to} written to ${file}`);
+    }
+}
+
+/**
+ * Hands each message to the notification-service registered with DiscoverX
+ */
+export class NotificationServiceEmailTransport implements EmailTransport {
+    readonly name = 'service';
+
+    constructor(private readonly from: string) { }
+
+    async send(message: EmailMessage): Promise<void> {
+        // Loaded on first use: importing the registry starts its health-check loop
+        const { notificationService } = await import('@/discoverx/registry/ServiceRegistry');
+        await notificationService.post('/emails', { ...message, from: this.from });
+    }
+}
@@ -12,19 +12,6 @@ import fs from 'fs';
 import path from 'path';
 
 // Types derived from usage
-export interface MockLead {
-    id: string;
-    name: string;
-    email: string;
-    phone?: string;
-    message: string;
-    type: string;
-    status: string;
-    created_at: string;
-    source?: string;
-    property_slug?: string;
-}
-
 export interface MockUser {
     id: string;
     email: string;
@@ -34,7 +21,6 @@ export interface MockUser {
 
 class MockStore {
     public properties = [...MOCK_PROPERTIES];
-    public leads: MockLead[] = [];
     public users: MockUser[] = [
         {
             id: 'mock-admin-id',
@@ -66,7 +52,6 @@ class MockStore {
                     const newMocks = MOCK_PROPERTIES.filter(p => !savedIds.has(p.id));
                     this.properties = [...state.properties, ...newMocks];
                 }
-                if (state.leads) this.leads = state.leads;
                 if (state.users) this.users = state.users;
                 if (state.favorites) this.favorites = state.favorites;
                 console.log('📦 Loaded mock state from disk');
@@ -81,7 +66,6 @@ class MockStore {
         try {
             const state = {
                 properties: this.properties,
-                leads: this.leads,
                 users: this.users,
                 favorites: this.favorites
             };
@@ -112,27 +96,6 @@ class MockStore {
         this.saveState();
     }
 
-    // Leads -------------------------------------
-    addLead(lead: Partial<MockLead>) {
-        const newLead: MockLead = {
-            id: `lead-${Date.now()}`,
-            name: lead.name || 'Anonymous',
-            email: lead.email || 'unknown@example.com',
-            message: lead.message || '',
-            type: lead.type || 'contact',
-            status: 'new',
-            created_at: new Date().toISOString(),
-            ...lead
-        };
-        this.leads.unshift(newLead);
-        this.saveState();
-        return newLead;
-    }
-
-    getLeads() {
-        return this.leads;
-    }
-
     // Auth --------------------------------------
     isAdmin(token: string) {
         // For simulation, we accept any token that looks valid or the specific admin mock token
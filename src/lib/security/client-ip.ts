@@ -0,0 +1,40 @@
+/**
+ * Client IP
+ * =========
+ * Caller address behind the platform's proxies. Kept free of other imports so
+ * middleware can use it.
+ */
+
+/**
+ * Extract IP address from Next.js request
+ * Handles various proxy scenarios (Vercel, Cloudflare, etc.)
+ */
+export function getClientIp(request: Request): string {
+    const headers = request.headers;
+
+    // Try common proxy headers
+    const forwardedFor = headers.get('x-forwarded-for');
+    if (forwardedFor) {
+        // x-forwarded-for can be comma-separated list
+        return forwardedFor.split(',')[0].trim();
+    }
+
+    const realIp = headers.get('x-real-ip');
+    if (realIp) {
+        return realIp;
+    }
+
+    // Cloudflare
+    const cfConnectingIp = headers.get('cf-connecting-ip');
+    if (cfConnectingIp) {
+        return cfConnectingIp;
+    }
+
+    const clientIp = headers.get('x-client-ip');
+    if (clientIp) {
+        return clientIp;
+    }
+
+    // Fallback to generic identifier
+    return 'unknown-ip';
+}
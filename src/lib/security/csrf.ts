@@ -5,6 +5,8 @@
  */
 
 import { NextRequest } from 'next/server';
+import { logSecurityEvent } from '@/discoverx/monitoring/logging';
+import { getClientIp } from '@/lib/security/rate-limit';
 
 /**
  * Allowed origins for CSRF protection
@@ -109,6 +111,19 @@ export function validateOrigin(request: NextRequest): boolean {
  */
 export function checkCSRF(request: NextRequest): Response | null {
     if (!validateOrigin(request)) {
+        logSecurityEvent({
+            type: 'csrf_attempt',
+            severity: 'medium',
+            ip: getClientIp(request),
+            userAgent: request.headers.get('user-agent') || 'unknown',
+            path: request.nextUrl.pathname,
+            method: request.method,
+            details: {
+                origin: request.headers.get('origin'),
+                referer: request.headers.get('referer'),
+            },
+        });
+
         return new Response(
             JSON.stringify({
                 success: false,
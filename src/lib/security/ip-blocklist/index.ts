@@ -0,0 +1,146 @@
+/**
+ * IP Blocklist
+ * ============
+ * Deny and allow entries per client IP, consulted by middleware (every page
+ * and API route) and the DiscoverX gateway. Deny entries usually expire;
+ * allow entries exempt an address from automatic blocking and burst limits.
+ *
+ * Entries live in an IpBlocklistStore: Redis (Upstash REST, the same instance
+ * as rate limiting) when configured, otherwise in process memory. Writes go
+ * through IpBlocklistService, which records them in the audit trail; this
+ * module only reads and stores, so middleware can import it.
+ *
+ * Configuration:
+ *   UPSTASH_REDIS_REST_URL, UPSTASH_REDIS_REST_TOKEN - Redis store
+ */
+
+import { NextResponse } from 'next/server';
+import { UpstashRedisClient } from '../rate-limit/stores';
+import { MemoryIpBlocklistStore, RedisIpBlocklistStore } from './stores';
+
+export type IpAccessAction = 'deny' | 'allow';
+
+export interface IpBlockEntry {
+    ip: string;
+    action: IpAccessAction;
+    reason: string;
+    /** 'auto' for blocks raised by the SecurityLogger */
+    source: 'auto' | 'manual';
+    /** Admin who added a manual entry */
+    createdBy?: string;
+    createdAt: string;
+    /** ISO time the entry lapses; permanent when absent */
+    expiresAt?: string;
+}
+
+/**
+ * Entry storage shared by middleware, the gateway and the admin API
+ */
+export interface IpBlocklistStore {
+    readonly name: string;
+
+    /** Active entry for an IP; expired entries are never returned */
+    get(ip: string): Promise<IpBlockEntry | null>;
+    set(entry: IpBlockEntry): Promise<void>;
+    delete(ip: string): Promise<void>;
+    /** All active entries */
+    list(): Promise<IpBlockEntry[]>;
+}
+
+// ============================================
+// STORE
+// ============================================
+
+// Middleware and route handlers are bundled separately; keeping the memory
+// store on globalThis lets both see the same entries within one server process
+const globalForBlocklist = globalThis as typeof globalThis & {
+    __modonIpBlocklistStore?: MemoryIpBlocklistStore;
+};
+
+let ipBlocklistStore: IpBlocklistStore | null = null;
+
+export function getIpBlocklistStore(): IpBlocklistStore {
+    if (!ipBlocklistStore) {
+        const url = process.env.UPSTASH_REDIS_REST_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+        ipBlocklistStore = url && token
+            ? new RedisIpBlocklistStore(new UpstashRedisClient(url, token))
+            : (globalForBlocklist.__modonIpBlocklistStore ??= new MemoryIpBlocklistStore());
+    }
+    return ipBlocklistStore;
+}
+
+/**
+ * Replace the store, e.g. with a MemoryIpBlocklistStore in scripts
+ */
+export function setIpBlocklistStore(store: IpBlocklistStore): void {
+    ipBlocklistStore = store;
+    lookupCache.clear();
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+// Remote lookups are cached briefly so a request costs at most one round trip
+// per IP every few seconds; changes made on another instance show up after that
+const CACHE_TTL_MS = 5000;
+const CACHE_MAX_ENTRIES = 10000;
+
+const lookupCache = new Map<string, { entry: IpBlockEntry | null; cachedAt: number }>();
+
+/**
+ * The active entry for a client IP, or null when it has none.
+ * Fails open: a store outage must not lock every visitor out.
+ */
+export async function checkIpAccess(ip: string): Promise<IpBlockEntry | null> {
+    const store = getIpBlocklistStore();
+    const now = Date.now();
+
+    const cached = lookupCache.get(ip);
+    if (cached && now - cached.cachedAt < CACHE_TTL_MS) {
+        return cached.entry && isActive(cached.entry, now) ? cached.entry : null;
+    }
+
+    try {
+        const entry = await store.get(ip);
+
+        if (store.name !== 'memory') {
+            if (lookupCache.size >= CACHE_MAX_ENTRIES) lookupCache.clear();
+            lookupCache.set(ip, { entry, cachedAt: now });
+        }
+        return entry;
+    } catch (error) {
+        console.error(`[IP BLOCKLIST] ${store.name} store unavailable:`, error);
+        return null;
+    }
+}
+
+/**
+ * Drop a cached lookup after this instance changed the IP's entry
+ */
+export function invalidateIpAccess(ip: string): void {
+    lookupCache.delete(ip);
+}
+
+export function isActive(entry: IpBlockEntry, now: number = Date.now()): boolean {
+    return !entry.expiresAt || new Date(entry.expiresAt).getTime() > now;
+}
+
+/**
+ * 403 for a denied IP, shared by middleware and the gateway
+ */
+export function blockedResponse(entry: IpBlockEntry): NextResponse {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (entry.expiresAt) {
+        const retryAfter = Math.max(1, Math.ceil((new Date(entry.expiresAt).getTime() - Date.now()) / 1000));
+        headers['Retry-After'] = retryAfter.toString();
+    }
+
+    return new NextResponse(
+        JSON.stringify({ success: false, error: 'Access denied' }),
+        { status: 403, headers }
+    );
+}
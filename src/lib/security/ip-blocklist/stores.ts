@@ -0,0 +1,137 @@
+/**
+ * IP Blocklist Stores
+ * ===================
+ * In-memory entries (single process, reset on deploy) and Redis entries shared
+ * by every instance. In Redis each entry is a JSON string that expires with
+ * the block, plus a set indexing the IPs for listing.
+ */
+
+import type { RedisClient } from '../rate-limit/stores';
+import type { IpBlockEntry, IpBlocklistStore } from './index';
+
+function isLive(entry: IpBlockEntry, now: number): boolean {
+    return !entry.expiresAt || new Date(entry.expiresAt).getTime() > now;
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+export class MemoryIpBlocklistStore implements IpBlocklistStore {
+    readonly name = 'memory';
+
+    private readonly entries = new Map<string, IpBlockEntry>();
+
+    async get(ip: string): Promise<IpBlockEntry | null> {
+        const entry = this.entries.get(ip);
+        if (!entry) return null;
+
+        if (!isLive(entry, Date.now())) {
+            this.entries.delete(ip);
+            return null;
+        }
+        return { ...entry };
+    }
+
+    async set(entry: IpBlockEntry): Promise<void> {
+        this.entries.set(entry.ip, { ...entry });
+    }
+
+    async delete(ip: string): Promise<void> {
+        this.entries.delete(ip);
+    }
+
+    async list(): Promise<IpBlockEntry[]> {
+        const now = Date.now();
+
+        for (const [ip, entry] of this.entries) {
+            if (!isLive(entry, now)) this.entries.delete(ip);
+        }
+        return [...this.entries.values()].map(entry => ({ ...entry }));
+    }
+}
+
+// ============================================
+// REDIS STORE
+// ============================================
+
+export class RedisIpBlocklistStore implements IpBlocklistStore {
+    readonly name = 'redis';
+
+    constructor(
+        private readonly client: RedisClient,
+        private readonly prefix: string = 'ipblock:'
+    ) { }
+
+    private get indexKey(): string {
+        return `${this.prefix}index`;
+    }
+
+    private entryKey(ip: string): string {
+        return `${this.prefix}ip:${ip}`;
+    }
+
+    async get(ip: string): Promise<IpBlockEntry | null> {
+        const [value] = await this.client.pipeline([['GET', this.entryKey(ip)]]);
+        const entry = parse(value);
+
+        return entry && isLive(entry, Date.now()) ? entry : null;
+    }
+
+    async set(entry: IpBlockEntry): Promise<void> {
+        const ttlMs = entry.expiresAt ? new Date(entry.expiresAt).getTime() - Date.now() : null;
+        if (ttlMs !== null && ttlMs <= 0) return;
+
+        await this.client.pipeline([
+            // Plain SET also clears the TTL of a previous, expiring entry
+            ttlMs === null
+                ? ['SET', this.entryKey(entry.ip), JSON.stringify(entry)]
+                : ['SET', this.entryKey(entry.ip), JSON.stringify(entry), 'PX', ttlMs],
+            ['SADD', this.indexKey, entry.ip],
+        ]);
+    }
+
+    async delete(ip: string): Promise<void> {
+        await this.client.pipeline([
+            ['DEL', this.entryKey(ip)],
+            ['SREM', this.indexKey, ip],
+        ]);
+    }
+
+    async list(): Promise<IpBlockEntry[]> {
+        const [members] = await this.client.pipeline([['SMEMBERS', this.indexKey]]);
+        const ips = Array.isArray(members) ? members.map(String) : [];
+        if (ips.length === 0) return [];
+
+        const [values] = await this.client.pipeline([['MGET', ...ips.map(ip => this.entryKey(ip))]]);
+        const now = Date.now();
+        const entries: IpBlockEntry[] = [];
+        const lapsed: string[] = [];
+
+        ips.forEach((ip, index) => {
+            const entry = parse(Array.isArray(values) ? values[index] : null);
+            if (entry && isLive(entry, now)) {
+                entries.push(entry);
+            } else {
+                lapsed.push(ip);
+            }
+        });
+
+        // Entries expire on their own; tidy the index as we notice
+        if (lapsed.length > 0) {
+            await this.client.pipeline([['SREM', this.indexKey, ...lapsed]]);
+        }
+
+        return entries;
+    }
+}
+
+function parse(value: unknown): IpBlockEntry | null {
+    if (typeof value !== 'string') return null;
+
+    try {
+        return JSON.parse(value) as IpBlockEntry;
+    } catch {
+        return null;
+    }
+}
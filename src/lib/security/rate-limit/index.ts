@@ -0,0 +1,259 @@
+/**
+ * Rate Limiter
+ * ============
+ * Shared rate limiting for API routes and the DiscoverX gateway
+ *
+ * CRITICAL SECURITY: Protects against:
+ * - Form spam attacks
+ * - Brute force attempts
+ * - API abuse
+ *
+ * Limits are named policies, so a route calling rateLimit() and the gateway's
+ * rateLimitMiddleware count against the same budget. Counters live in a
+ * RateLimitStore: Redis (Upstash REST) when configured, so limits hold across
+ * instances and deploys, otherwise in memory.
+ *
+ * Algorithm: sliding window counter. The previous window's count is weighted
+ * by how much of it still overlaps the sliding window. Rejected requests are
+ * counted too, so a client that keeps hammering stays blocked.
+ *
+ * Configuration:
+ *   UPSTASH_REDIS_REST_URL, UPSTASH_REDIS_REST_TOKEN - Redis store
+ */
+
+import { logRateLimit } from '@/discoverx/monitoring/logging';
+import { getClientIp } from '../client-ip';
+import { MemoryRateLimitStore, RedisRateLimitStore, UpstashRedisClient } from './stores';
+
+export { getClientIp };
+
+export interface RateLimitConfig {
+    /**
+     * Maximum number of requests allowed in the time window
+     */
+    maxRequests: number;
+
+    /**
+     * Time window in milliseconds
+     */
+    windowMs: number;
+
+    /**
+     * Custom message to return when rate limit is exceeded
+     */
+    message?: string;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number;
+    message?: string;
+}
+
+/**
+ * Counter storage shared by every limiter
+ */
+export interface RateLimitStore {
+    readonly name: string;
+
+    /**
+     * Count one hit under currentKey (kept for ttlMs) and read previousKey's count
+     */
+    hit(currentKey: string, previousKey: string, ttlMs: number): Promise<{ current: number; previous: number }>;
+
+    delete(keys: string[]): Promise<void>;
+}
+
+// ============================================
+// POLICIES
+// ============================================
+
+export const RATE_LIMIT_POLICIES = {
+    // DiscoverX gateway tiers
+    api: { maxRequests: 100, windowMs: 60000 },
+    search: { maxRequests: 30, windowMs: 60000 },
+    auth: {
+        maxRequests: 5,
+        windowMs: 60000,
+        message: 'Too many attempts. Please try again later.',
+    },
+
+    // Website forms and account flows
+    register: {
+        maxRequests: 5,
+        windowMs: 3600000, // 1 hour
+        message: 'Too many registration attempts. Please try again later.',
+    },
+    passwordResetRequest: {
+        maxRequests: 3,
+        windowMs: 900000, // 15 minutes
+        message: 'Too many password reset requests. Please try again later.',
+    },
+    passwordReset: {
+        maxRequests: 5,
+        windowMs: 900000, // 15 minutes
+        message: 'Too many password reset attempts. Please try again later.',
+    },
+    twoFactor: {
+        maxRequests: 10,
+        windowMs: 900000, // 15 minutes
+        message: 'Too many attempts. Please try again later.',
+    },
+    leads: {
+        maxRequests: 5,
+        windowMs: 3600000, // 1 hour
+        message: 'Too many form submissions. Please try again later.',
+    },
+    inquiries: {
+        maxRequests: 5,
+        windowMs: 3600000, // 1 hour
+        message: 'Too many inquiries. Please try again later.',
+    },
+} satisfies Record<string, RateLimitConfig>;
+
+export type RateLimitPolicy = keyof typeof RATE_LIMIT_POLICIES;
+
+// ============================================
+// STORE
+// ============================================
+
+const memoryStore = new MemoryRateLimitStore();
+let rateLimitStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+    if (!rateLimitStore) {
+        const url = process.env.UPSTASH_REDIS_REST_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+        rateLimitStore = url && token
+            ? new RedisRateLimitStore(new UpstashRedisClient(url, token))
+            : memoryStore;
+    }
+    return rateLimitStore;
+}
+
+/**
+ * Replace the store, e.g. with a shared MemoryRateLimitStore in scripts
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+    rateLimitStore = store;
+}
+
+function windowKeys(policy: RateLimitPolicy, identifier: string, window: number): [string, string] {
+    const key = `${policy}:${identifier}`;
+    return [`${key}:${window}`, `${key}:${window - 1}`];
+}
+
+// ============================================
+// LIMITER
+// ============================================
+
+/**
+ * Check if a request is within a policy's limit and count it
+ *
+ * @param identifier - Unique identifier (IP address, user id, ...)
+ * @param policy - Named limit from RATE_LIMIT_POLICIES
+ * @returns Rate limit result with allowed status
+ *
+ * @example
+ * ```typescript
+ * const result = await checkRateLimit(userId, 'twoFactor');
+ * if (!result.allowed) {
+ *   return NextResponse.json({ error: result.message }, { status: 429 });
+ * }
+ * ```
+ */
+export async function checkRateLimit(
+    identifier: string,
+    policy: RateLimitPolicy
+): Promise<RateLimitResult> {
+    const config: RateLimitConfig = RATE_LIMIT_POLICIES[policy];
+    const now = Date.now();
+    const window = Math.floor(now / config.windowMs);
+    const [currentKey, previousKey] = windowKeys(policy, identifier, window);
+
+    let counts: { current: number; previous: number };
+    try {
+        counts = await getRateLimitStore().hit(currentKey, previousKey, config.windowMs * 2);
+    } catch (error) {
+        // Keep limiting (per instance) rather than failing open while the store is down
+        console.error(`[RATE LIMIT] ${getRateLimitStore().name} store unavailable, using memory:`, error);
+        counts = await memoryStore.hit(currentKey, previousKey, config.windowMs * 2);
+    }
+
+    const elapsed = (now - window * config.windowMs) / config.windowMs;
+    const used = counts.previous * (1 - elapsed) + counts.current;
+    const windowEnd = (window + 1) * config.windowMs;
+
+    if (used > config.maxRequests) {
+        // Room opens up once enough of this window's hits have aged out of the sliding window
+        const resetAt = windowEnd + Math.ceil(config.windowMs * Math.max(0, 1 - (config.maxRequests - 1) / counts.current));
+        const timeUntilReset = Math.ceil((resetAt - now) / 60000); // minutes
+
+        return {
+            allowed: false,
+            limit: config.maxRequests,
+            remaining: 0,
+            resetAt,
+            message: config.message ||
+                `Rate limit exceeded. Please try again in ${timeUntilReset} minute${timeUntilReset !== 1 ? 's' : ''}.`,
+        };
+    }
+
+    return {
+        allowed: true,
+        limit: config.maxRequests,
+        remaining: Math.max(0, Math.floor(config.maxRequests - used)),
+        resetAt: windowEnd,
+    };
+}
+
+/**
+ * Helper function to apply rate limiting to API routes, per client IP.
+ * Rejections are recorded as 'rate_limit' security events.
+ *
+ * @example
+ * ```typescript
+ * export async function POST(request: NextRequest) {
+ *   const rateLimitResult = await rateLimit(request, 'leads');
+ *
+ *   if (!rateLimitResult.allowed) {
+ *     return NextResponse.json(
+ *       { error: rateLimitResult.message },
+ *       { status: 429 }
+ *     );
+ *   }
+ *
+ *   // Continue with request handling...
+ * }
+ * ```
+ */
+export async function rateLimit(
+    request: Request,
+    policy: RateLimitPolicy
+): Promise<RateLimitResult> {
+    const ip = getClientIp(request);
+    const result = await checkRateLimit(ip, policy);
+
+    if (!result.allowed) {
+        logRateLimit(
+            ip,
+            request.headers.get('user-agent') || 'unknown',
+            new URL(request.url).pathname,
+            result.limit,
+            policy
+        );
+    }
+
+    return result;
+}
+
+/**
+ * Clear rate limit for an identifier (admin use only)
+ */
+export async function clearRateLimit(identifier: string, policy: RateLimitPolicy): Promise<void> {
+    const window = Math.floor(Date.now() / RATE_LIMIT_POLICIES[policy].windowMs);
+    await getRateLimitStore().delete(windowKeys(policy, identifier, window));
+}
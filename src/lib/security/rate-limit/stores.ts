@@ -0,0 +1,134 @@
+/**
+ * Rate Limit Stores
+ * =================
+ * In-memory counters (single instance, reset on deploy) and Redis counters
+ * shared by every instance. The Redis store speaks plain Redis commands;
+ * UpstashRedisClient sends them over Upstash's REST API, which works from
+ * serverless functions without a persistent connection.
+ */
+
+import type { RateLimitStore } from './index';
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+interface MemoryEntry {
+    count: number;
+    expiresAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+    readonly name = 'memory';
+
+    private readonly entries = new Map<string, MemoryEntry>();
+
+    constructor() {
+        // Cleanup expired entries every 5 minutes
+        const cleanup = setInterval(() => {
+            const now = Date.now();
+
+            for (const [key, entry] of this.entries) {
+                if (now > entry.expiresAt) {
+                    this.entries.delete(key);
+                }
+            }
+        }, 5 * 60 * 1000);
+        cleanup.unref?.();
+    }
+
+    async hit(currentKey: string, previousKey: string, ttlMs: number): Promise<{ current: number; previous: number }> {
+        const now = Date.now();
+
+        let entry = this.entries.get(currentKey);
+        if (!entry || now > entry.expiresAt) {
+            entry = { count: 0, expiresAt: now + ttlMs };
+            this.entries.set(currentKey, entry);
+        }
+        entry.count++;
+
+        const previous = this.entries.get(previousKey);
+        return {
+            current: entry.count,
+            previous: previous && now <= previous.expiresAt ? previous.count : 0,
+        };
+    }
+
+    async delete(keys: string[]): Promise<void> {
+        keys.forEach(key => this.entries.delete(key));
+    }
+}
+
+// ============================================
+// REDIS STORE
+// ============================================
+
+export type RedisCommand = Array<string | number>;
+
+export interface RedisClient {
+    /** Run the commands in order in one round trip; returns one reply per command */
+    pipeline(commands: RedisCommand[]): Promise<unknown[]>;
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+    readonly name = 'redis';
+
+    constructor(
+        private readonly client: RedisClient,
+        private readonly prefix: string = 'ratelimit:'
+    ) { }
+
+    async hit(currentKey: string, previousKey: string, ttlMs: number): Promise<{ current: number; previous: number }> {
+        const [current, , previous] = await this.client.pipeline([
+            ['INCR', this.prefix + currentKey],
+            ['PEXPIRE', this.prefix + currentKey, ttlMs],
+            ['GET', this.prefix + previousKey],
+        ]);
+
+        return {
+            current: Number(current) || 0,
+            previous: Number(previous) || 0,
+        };
+    }
+
+    async delete(keys: string[]): Promise<void> {
+        if (keys.length === 0) return;
+        await this.client.pipeline([['DEL', ...keys.map(key => this.prefix + key)]]);
+    }
+}
+
+/**
+ * Redis over the Upstash REST API (https://upstash.com/docs/redis/features/restapi)
+ */
+export class UpstashRedisClient implements RedisClient {
+    constructor(
+        private readonly url: string,
+        private readonly token: string,
+        private readonly timeoutMs: number = 2000
+    ) { }
+
+    async pipeline(commands: RedisCommand[]): Promise<unknown[]> {
+        const response = await fetch(`${this.url.replace(/\/$/, '')}/pipeline`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${this.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(commands),
+            signal: AbortSignal.timeout(this.timeoutMs),
+            cache: 'no-store',
+        });
+
+        if (!response.ok) {
+            throw new Error(`Redis REST request failed: HTTP ${response.status}`);
+        }
+
+        const replies = await response.json() as Array<{ result?: unknown; error?: string }>;
+        return replies.map(reply => {
+            if (reply.error) {
+                throw new Error(`Redis error: ${reply.error}`);
+            }
+            return reply.result;
+        });
+    }
+}
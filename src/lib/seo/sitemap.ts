@@ -0,0 +1,239 @@
+/**
+ * MODON Platform - Sitemap Builder (server only)
+ * ===============================================
+ * Collects every public URL (localized static pages, live listings, blog posts)
+ * and renders sitemaps.org XML with hreflang alternates.
+ * Above MAX_URLS_PER_SITEMAP the URLs are split and /sitemap.xml becomes an index.
+ */
+
+import { IPropertyRepository } from '@/dal/interfaces';
+import { PropertyStatus } from '@/core/entities/Property';
+import { MOCK_BLOG_POSTS } from '@/data/mock-universe';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const SITEMAP_LOCALES = ['en', 'ar'] as const;
+const DEFAULT_LOCALE = 'en';
+
+/** Protocol limit per sitemap file */
+export const MAX_URLS_PER_SITEMAP = 50_000;
+
+/**
+ * Public pages under /[lang]. Admin, login and favorites are account pages
+ * and stay out of the index.
+ */
+const STATIC_PAGES: Array<{ path: string; priority: number; changeFrequency: SitemapChangeFrequency }> = [
+    { path: '', priority: 1.0, changeFrequency: 'daily' },
+    { path: '/buy', priority: 0.9, changeFrequency: 'daily' },
+    { path: '/rent', priority: 0.9, changeFrequency: 'daily' },
+    { path: '/new-developments', priority: 0.8, changeFrequency: 'weekly' },
+    { path: '/off-market-buy', priority: 0.7, changeFrequency: 'weekly' },
+    { path: '/off-market-sell', priority: 0.6, changeFrequency: 'monthly' },
+    { path: '/sell-private', priority: 0.7, changeFrequency: 'monthly' },
+    { path: '/sell-professional', priority: 0.6, changeFrequency: 'monthly' },
+    { path: '/sell-developer', priority: 0.6, changeFrequency: 'monthly' },
+    { path: '/auctions', priority: 0.7, changeFrequency: 'weekly' },
+    { path: '/auctions/buy', priority: 0.6, changeFrequency: 'weekly' },
+    { path: '/auctions/sell', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/auctions/how-it-works', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/auctions/professionals', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/blog', priority: 0.7, changeFrequency: 'weekly' },
+    { path: '/international', priority: 0.6, changeFrequency: 'monthly' },
+    { path: '/netherlands', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/investors', priority: 0.6, changeFrequency: 'monthly' },
+    { path: '/interiors', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/property-finders', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/real-estate-agents', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/our-company', priority: 0.5, changeFrequency: 'monthly' },
+    { path: '/management-team', priority: 0.4, changeFrequency: 'monthly' },
+    { path: '/contact', priority: 0.6, changeFrequency: 'yearly' },
+    { path: '/privacy', priority: 0.2, changeFrequency: 'yearly' },
+    { path: '/terms', priority: 0.2, changeFrequency: 'yearly' },
+];
+
+/** Statuses a visitor can open; drafts, pending, sold/rented and archived listings are left out */
+const INDEXABLE_STATUSES: PropertyStatus[] = ['active', 'published'];
+const PROPERTY_BATCH_SIZE = 500;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SitemapChangeFrequency = 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+
+/**
+ * A page available in every locale; expanded to one <url> per locale
+ */
+export interface SitemapPage {
+    /** Path after /[lang], '' for the home page */
+    path: string;
+    lastModified?: Date;
+    changeFrequency?: SitemapChangeFrequency;
+    priority?: number;
+}
+
+export interface SitemapUrl {
+    loc: string;
+    lastModified?: Date;
+    changeFrequency?: SitemapChangeFrequency;
+    priority?: number;
+    /** hreflang -> URL, including x-default */
+    alternates: Record<string, string>;
+}
+
+// ============================================
+// COLLECTION
+// ============================================
+
+export function getSiteUrl(): string {
+    return (process.env.NEXT_PUBLIC_SITE_URL || 'https://modonevolutio.com').replace(/\/$/, '');
+}
+
+/**
+ * Live, publicly listed properties (off-market listings are shared privately)
+ */
+async function getPropertyPages(propertyRepository: IPropertyRepository): Promise<SitemapPage[]> {
+    const pages = new Map<string, SitemapPage>();
+
+    for (const status of INDEXABLE_STATUSES) {
+        let page = 1;
+        let hasNext = true;
+
+        while (hasNext) {
+            const result = await propertyRepository.findAll({
+                status,
+                isOffMarket: false,
+                page,
+                limit: PROPERTY_BATCH_SIZE,
+            });
+
+            for (const property of result.data) {
+                if (!property.slug || pages.has(property.slug)) continue;
+                pages.set(property.slug, {
+                    path: `/property/${property.slug}`,
+                    lastModified: property.updatedAt,
+                    changeFrequency: 'weekly',
+                    priority: 0.8,
+                });
+            }
+
+            hasNext = result.pagination.hasNext;
+            page++;
+        }
+    }
+
+    return [...pages.values()];
+}
+
+/**
+ * Blog posts, from the same source /api/blog serves
+ */
+function getBlogPages(): SitemapPage[] {
+    return MOCK_BLOG_POSTS.map(post => ({
+        path: `/blog/${post.slug}`,
+        lastModified: new Date(post.publishedAt),
+        changeFrequency: 'monthly',
+        priority: 0.6,
+    }));
+}
+
+/**
+ * Every public URL of the site, one per page and locale
+ */
+export async function collectSitemapUrls(propertyRepository: IPropertyRepository): Promise<SitemapUrl[]> {
+    const siteUrl = getSiteUrl();
+    const pages: SitemapPage[] = [
+        ...STATIC_PAGES,
+        ...await getPropertyPages(propertyRepository),
+        ...getBlogPages(),
+    ];
+
+    return pages.flatMap(page => {
+        const alternates: Record<string, string> = Object.fromEntries(
+            SITEMAP_LOCALES.map(locale => [locale, `${siteUrl}/${locale}${page.path}`])
+        );
+        alternates['x-default'] = alternates[DEFAULT_LOCALE];
+
+        return SITEMAP_LOCALES.map(locale => ({
+            loc: alternates[locale],
+            lastModified: page.lastModified,
+            changeFrequency: page.changeFrequency,
+            priority: page.priority,
+            alternates,
+        }));
+    });
+}
+
+export function chunkSitemapUrls(urls: SitemapUrl[]): SitemapUrl[][] {
+    const chunks: SitemapUrl[][] = [];
+    for (let i = 0; i < urls.length; i += MAX_URLS_PER_SITEMAP) {
+        chunks.push(urls.slice(i, i + MAX_URLS_PER_SITEMAP));
+    }
+    return chunks;
+}
+
+/**
+ * URL of the n-th (1-based) split sitemap
+ */
+export function sitemapPartUrl(part: number): string {
+    return `${getSiteUrl()}/sitemap/${part}.xml`;
+}
+
+// ============================================
+// XML RENDERING
+// ============================================
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function isValidDate(date?: Date): date is Date {
+    return !!date && !isNaN(date.getTime());
+}
+
+export function renderUrlSet(urls: SitemapUrl[]): string {
+    const entries = urls.map(url => {
+        const lines = [`    <loc>${escapeXml(url.loc)}</loc>`];
+        if (isValidDate(url.lastModified)) lines.push(`    <lastmod>${url.lastModified.toISOString()}</lastmod>`);
+        if (url.changeFrequency) lines.push(`    <changefreq>${url.changeFrequency}</changefreq>`);
+        if (url.priority !== undefined) lines.push(`    <priority>${url.priority.toFixed(1)}</priority>`);
+        for (const [hreflang, href] of Object.entries(url.alternates)) {
+            lines.push(`    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(href)}" />`);
+        }
+        return `  <url>\n${lines.join('\n')}\n  </url>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+        ...entries,
+        '</urlset>',
+    ].join('\n');
+}
+
+export function renderSitemapIndex(chunks: SitemapUrl[][]): string {
+    const entries = chunks.map((chunk, index) => {
+        const lastModified = chunk
+            .map(url => url.lastModified)
+            .filter(isValidDate)
+            .reduce<Date | undefined>((latest, date) => (!latest || date > latest ? date : latest), undefined);
+
+        const lines = [`    <loc>${escapeXml(sitemapPartUrl(index + 1))}</loc>`];
+        if (lastModified) lines.push(`    <lastmod>${lastModified.toISOString()}</lastmod>`);
+        return `  <sitemap>\n${lines.join('\n')}\n  </sitemap>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        ...entries,
+        '</sitemapindex>',
+    ].join('\n');
+}
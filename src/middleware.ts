@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { verifyToken } from '@/server/auth/jwt';
+import { hasPermission, verifyToken } from '@/server/auth/jwt';
+import { getClientIp } from '@/lib/security/client-ip';
+import { blockedResponse, checkIpAccess } from '@/lib/security/ip-blocklist';
 
 const defaultLocale = 'en';
 const locales = ['en', 'ar'];
@@ -36,6 +38,19 @@ function getLocale(request: NextRequest): string {
 export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
 
+    // ============================================
+    // SECURITY: IP BLOCKLIST
+    // ============================================
+    const blockEntry = await checkIpAccess(getClientIp(request));
+    if (blockEntry?.action === 'deny') {
+        return blockedResponse(blockEntry);
+    }
+
+    // API routes only need the blocklist; auth and i18n below are for pages
+    if (pathname.startsWith('/api/')) {
+        return NextResponse.next();
+    }
+
     // ============================================
     // SECURITY: ADMIN ROUTE PROTECTION (CRITICAL FIX #4)
     // ============================================
@@ -58,9 +73,18 @@ export async function middleware(request: NextRequest) {
             return new URL(`/${detected}/login`, request.url);
         };
 
-        // No token = immediate redirect to login
+        // Expired access token but a refresh token: rotate it and come back here
+        // instead of bouncing the admin to the login page
+        const hasRefreshToken = !!request.cookies.get('modon_refresh_token')?.value;
+        const getRefreshUrl = () => {
+            const url = new URL('/api/auth/refresh', request.url);
+            url.searchParams.set('returnTo', `${pathname}${request.nextUrl.search}`);
+            return url;
+        };
+
+        // No token = refresh if possible, else redirect to login
         if (!accessToken) {
-            return NextResponse.redirect(getLoginUrl());
+            return NextResponse.redirect(hasRefreshToken ? getRefreshUrl() : getLoginUrl());
         }
 
         // CRITICAL: Verify JWT signature and expiration
@@ -69,15 +93,14 @@ export async function middleware(request: NextRequest) {
 
             // Token invalid or expired
             if (!payload) {
-                const response = NextResponse.redirect(getLoginUrl());
+                const response = NextResponse.redirect(hasRefreshToken ? getRefreshUrl() : getLoginUrl());
                 // Clear invalid token
                 response.cookies.delete('modon_auth_token');
                 return response;
             }
 
-            // Check role (super_admin or admin)
-            const userRole = payload.role;
-            if (userRole !== 'super_admin' && userRole !== 'admin') {
+            // The admin area needs admin:access (admins and super_admins by default)
+            if (!hasPermission(payload.permissions, 'admin:access')) {
                 return NextResponse.redirect(getLoginUrl());
             }
 
@@ -141,6 +164,8 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
-    // Match all pathnames except API routes, Next.js internals, and static files
-    matcher: ['/((?!api|_next|_vercel|.*\\..*).*)'],
+    // Match all pathnames except Next.js internals and static files
+    matcher: ['/((?!_next|_vercel|.*\\..*).*)'],
+    // Node.js so the in-memory blocklist (no Redis configured) is the one route handlers write to
+    runtime: 'nodejs',
 };
@@ -33,6 +33,8 @@ export interface TokenPair {
 
 const ACCESS_TOKEN_EXPIRY = 15 * 60; // 15 minutes in seconds
 const REFRESH_TOKEN_EXPIRY = 7 * 24 * 60 * 60; // 7 days in seconds
+export const TWO_FACTOR_CHALLENGE_EXPIRY = 5 * 60; // 5 minutes in seconds
+export const TWO_FACTOR_SETUP_EXPIRY = 15 * 60; // 15 minutes in seconds
 
 function getJwtSecret(): string {
     const secret = process.env.JWT_SECRET;
@@ -156,9 +158,13 @@ export async function generateAccessToken(payload: TokenPayload): Promise<string
 }
 
 /**
- * Generate Refresh Token (Long-lived)
+ * Generate Refresh Token (Long-lived). rememberMe is carried through every
+ * rotation so the refresh cookie keeps the lifetime chosen at sign-in.
  */
-export async function generateRefreshToken(userId: string): Promise<string> {
+export async function generateRefreshToken(
+    userId: string,
+    options: { rememberMe?: boolean } = {}
+): Promise<string> {
     const header = {
         alg: 'HS256',
         typ: 'JWT',
@@ -169,6 +175,7 @@ export async function generateRefreshToken(userId: string): Promise<string> {
     const claims = {
         userId,
         type: 'refresh',
+        rememberMe: !!options.rememberMe,
         iat: now,
         exp: now + REFRESH_TOKEN_EXPIRY,
         iss: 'modon-platform',
@@ -183,6 +190,52 @@ export async function generateRefreshToken(userId: string): Promise<string> {
     return `${data}.${signature}`;
 }
 
+/**
+ * Challenge: issued after the password check for 2FA users; only good for /api/auth/2fa/verify.
+ * Setup: issued instead of a session when the user's role requires 2FA and they
+ * have not enrolled; only good for /api/auth/2fa/setup.
+ */
+export type TwoFactorTokenPurpose = 'challenge' | 'setup';
+
+const TWO_FACTOR_TOKEN_TYPES: Record<TwoFactorTokenPurpose, string> = {
+    challenge: '2fa_challenge',
+    setup: '2fa_setup',
+};
+
+/**
+ * Generate Two-Factor Challenge (or Setup) Token
+ */
+export async function generateTwoFactorChallengeToken(
+    userId: string,
+    options: { rememberMe?: boolean; purpose?: TwoFactorTokenPurpose } = {}
+): Promise<string> {
+    const purpose = options.purpose ?? 'challenge';
+    const header = {
+        alg: 'HS256',
+        typ: 'JWT',
+    };
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const claims = {
+        userId,
+        type: TWO_FACTOR_TOKEN_TYPES[purpose],
+        rememberMe: !!options.rememberMe,
+        iat: now,
+        exp: now + (purpose === 'setup' ? TWO_FACTOR_SETUP_EXPIRY : TWO_FACTOR_CHALLENGE_EXPIRY),
+        iss: 'modon-platform',
+        aud: 'modon-2fa',
+        jti: crypto.randomUUID(),
+    };
+
+    const headerB64 = base64UrlEncode(JSON.stringify(header));
+    const payloadB64 = base64UrlEncode(JSON.stringify(claims));
+    const data = `${headerB64}.${payloadB64}`;
+    const signature = await createSignature(data, getJwtSecret());
+
+    return `${data}.${signature}`;
+}
+
 /**
  * Generate Token Pair
  */
@@ -248,7 +301,7 @@ export async function verifyToken(token: string): Promise<TokenPayload | null> {
  */
 export async function verifyRefreshToken(
     token: string
-): Promise<{ userId: string } | null> {
+): Promise<{ userId: string; rememberMe: boolean } | null> {
     try {
         const parts = token.split('.');
         if (parts.length !== 3) return null;
@@ -270,7 +323,43 @@ export async function verifyRefreshToken(
         // Verify type
         if (payload.type !== 'refresh') return null;
 
-        return { userId: payload.userId };
+        return { userId: payload.userId, rememberMe: !!payload.rememberMe };
+
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Verify Two-Factor Challenge (or Setup) Token
+ */
+export async function verifyTwoFactorChallengeToken(
+    token: string,
+    purpose: TwoFactorTokenPurpose = 'challenge'
+): Promise<{ userId: string; rememberMe: boolean } | null> {
+    try {
+        const parts = token.split('.');
+        if (parts.length !== 3) return null;
+
+        const [headerB64, payloadB64, signature] = parts;
+        const data = `${headerB64}.${payloadB64}`;
+
+        // Verify signature
+        const isValid = await verifySignature(data, signature, getJwtSecret());
+        if (!isValid) return null;
+
+        // Parse payload
+        const payload = JSON.parse(base64UrlDecode(payloadB64));
+
+        // Verify expiration
+        const now = Math.floor(Date.now() / 1000);
+        if (!payload.exp || payload.exp < now) return null;
+
+        // Verify type and audience (never accepted as an access token, and vice versa)
+        if (payload.type !== TWO_FACTOR_TOKEN_TYPES[purpose] || payload.aud !== 'modon-2fa') return null;
+        if (payload.iss !== 'modon-platform') return null;
+
+        return { userId: payload.userId, rememberMe: !!payload.rememberMe };
 
     } catch {
         return null;
@@ -332,7 +421,52 @@ export function getTokenExpiry(token: string): Date | null {
 // PERMISSION HELPERS
 // ============================================
 
-const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+export const USER_ROLES: readonly [UserRole, ...UserRole[]] = ['buyer', 'agent', 'admin', 'super_admin'];
+
+/**
+ * Every permission a role or user can be granted
+ */
+export const PERMISSIONS = [
+    'properties:read',
+    'properties:create',
+    'properties:update',
+    'properties:delete',
+    'properties:manage_all',
+    'favorites:manage',
+    'inquiries:create',
+    'inquiries:read',
+    'inquiries:read_all',
+    'inquiries:manage',
+    'leads:read',
+    'leads:read_all',
+    'leads:manage',
+    'leads:assign',
+    'leads:delete',
+    'profile:manage',
+    'users:read',
+    'users:create',
+    'users:manage',
+    'users:delete',
+    'agents:manage',
+    'analytics:own',
+    'analytics:view',
+    'analytics:export',
+    'security:read',
+    'security:manage',
+    'permissions:manage',
+    'admin:access',
+    'admin:settings',
+    'system:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * Built-in role permissions. The roles table starts from these and
+ * super_admins can change them; they apply to roles without a stored set.
+ * super_admin always holds every permission.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
     buyer: [
         'properties:read',
         'favorites:manage',
@@ -346,6 +480,8 @@ const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
         'favorites:manage',
         'inquiries:read',
         'inquiries:manage',
+        'leads:read',
+        'leads:manage',
         'profile:manage',
         'analytics:own',
     ],
@@ -354,39 +490,35 @@ const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
         'properties:create',
         'properties:update',
         'properties:delete',
+        'properties:manage_all',
         'users:read',
         'users:manage',
         'agents:manage',
         'inquiries:read',
+        'inquiries:read_all',
         'inquiries:manage',
+        'leads:read',
+        'leads:read_all',
+        'leads:manage',
+        'leads:assign',
+        'leads:delete',
         'analytics:view',
+        'security:read',
+        'security:manage',
         'admin:access',
     ],
-    super_admin: [
-        'properties:read',
-        'properties:create',
-        'properties:update',
-        'properties:delete',
-        'users:read',
-        'users:create',
-        'users:manage',
-        'users:delete',
-        'agents:manage',
-        'inquiries:read',
-        'inquiries:manage',
-        'analytics:view',
-        'analytics:export',
-        'admin:access',
-        'admin:settings',
-        'system:manage',
-    ],
+    super_admin: PERMISSIONS,
 };
 
+export function isPermission(value: string): value is Permission {
+    return (PERMISSIONS as readonly string[]).includes(value);
+}
+
 /**
- * Get permissions for a role
+ * Built-in permissions for a role (without stored changes or user overrides)
  */
 export function getPermissionsForRole(role: UserRole): string[] {
-    return ROLE_PERMISSIONS[role] || [];
+    return [...(DEFAULT_ROLE_PERMISSIONS[role] || [])];
 }
 
 /**
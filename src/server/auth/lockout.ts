@@ -0,0 +1,40 @@
+/**
+ * MODON Platform - Account Lockout Responses (Server Layer)
+ * ==========================================================
+ * The 423 answer for a login against a locked account, shared by the
+ * browser login route and the v1 token exchange.
+ */
+
+import { NextResponse } from 'next/server';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { AccountLockoutService } from '@/application/auth/AccountLockoutService';
+import { AccountLockedError } from '@/core/entities/User';
+import { getEmailOutbox, scheduleEmailDelivery } from '@/server/email/outbox';
+
+/**
+ * 423 with the time the lock lifts. The attempt that caused the lock also
+ * emails the account owner.
+ */
+export async function accountLockedResponse(lock: AccountLockedError, ip: string): Promise<NextResponse> {
+    if (lock.lockedNow) {
+        try {
+            await new AccountLockoutService(userRepository, getEmailOutbox()).notifyLocked(lock, { ip });
+            scheduleEmailDelivery();
+        } catch (error) {
+            console.error('Account lock notification failed:', error);
+        }
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((lock.lockedUntil.getTime() - Date.now()) / 1000));
+
+    return NextResponse.json(
+        {
+            success: false,
+            error: 'Account temporarily locked after too many failed login attempts.',
+            code: 'ACCOUNT_LOCKED',
+            lockedUntil: lock.lockedUntil.toISOString(),
+            retryAfter,
+        },
+        { status: 423, headers: { 'Retry-After': retryAfter.toString() } }
+    );
+}
@@ -0,0 +1,54 @@
+/**
+ * MODON Platform - Permissions (Server Layer)
+ * ============================================
+ * Wires the PermissionService to the configured permission store, and the
+ * requirePermission() guard that API routes use instead of comparing roles.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPermissionRepository } from '@/dal/repositories/RepositoryFactory';
+import { PermissionService } from '@/application/auth/PermissionService';
+import { applySecurityHeaders } from '@/server/security/headers';
+import { Permission, TokenPayload, extractToken, hasAnyPermission, verifyToken } from './jwt';
+
+let permissionService: PermissionService | null = null;
+
+export function getPermissionService(): PermissionService {
+    if (!permissionService) {
+        permissionService = new PermissionService(getPermissionRepository());
+    }
+    return permissionService;
+}
+
+/**
+ * Authenticate the request (auth cookie or Bearer token) and require one of
+ * the given permissions. Returns the token payload, or the 401/403 response
+ * to send back:
+ *
+ *     const auth = await requirePermission(request, 'leads:manage');
+ *     if (auth instanceof NextResponse) return auth;
+ */
+export async function requirePermission(
+    request: NextRequest,
+    permission: Permission | Permission[]
+): Promise<TokenPayload | NextResponse> {
+    const token = request.cookies.get('modon_auth_token')?.value
+        || extractToken(request.headers.get('authorization'));
+    const user = token ? await verifyToken(token) : null;
+
+    if (!user) {
+        return applySecurityHeaders(NextResponse.json(
+            { success: false, error: 'Authentication required' },
+            { status: 401 }
+        ));
+    }
+
+    if (!hasAnyPermission(user.permissions, Array.isArray(permission) ? permission : [permission])) {
+        return applySecurityHeaders(NextResponse.json(
+            { success: false, error: 'Insufficient permissions' },
+            { status: 403 }
+        ));
+    }
+
+    return user;
+}
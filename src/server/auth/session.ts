@@ -0,0 +1,93 @@
+/**
+ * MODON Platform - Login Sessions (Server Layer)
+ * ===============================================
+ * Issues the access/refresh token pair for a signed-in user, records the
+ * session row and sets the auth cookies. Shared by password login, the
+ * two-factor verification step and token refresh.
+ */
+
+import { NextResponse } from 'next/server';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { hashRefreshToken } from '@/application/auth/RefreshSessionUseCase';
+import { logAuthSuccess } from '@/discoverx/monitoring/logging';
+import { UserRole, generateAccessToken, generateRefreshToken } from './jwt';
+import { getPermissionService } from './permissions';
+
+const ACCESS_TOKEN_MAX_AGE = 15 * 60; // matches the JWT expiry
+const REFRESH_TOKEN_MAX_AGE = 7 * 24 * 60 * 60;
+const REMEMBER_ME_MAX_AGE = 30 * 24 * 60 * 60;
+
+/** Development-only admin from the login route; it has no database row */
+const MOCK_ADMIN_ID = 'mock-admin-id';
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: number;
+}
+
+const cookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+};
+
+/**
+ * Generate tokens and store the session (hash of the refresh token only).
+ * Session bookkeeping failures are logged, never fail the sign-in.
+ */
+export async function startUserSession(
+    user: { id: string; email: string; role: UserRole; permissions?: string[] },
+    device: { ip: string; userAgent: string },
+    rememberMe: boolean = false
+): Promise<SessionTokens> {
+    // Explicit permissions only come from the development mock admin
+    const permissions = user.permissions?.length ? user.permissions : await getPermissionService().resolve(user);
+
+    const accessToken = await generateAccessToken({
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        permissions,
+    });
+    const refreshToken = await generateRefreshToken(user.id, { rememberMe });
+
+    if (user.id !== MOCK_ADMIN_ID) {
+        try {
+            await userRepository.createSession(user.id, hashRefreshToken(refreshToken), device);
+            await userRepository.updateLastLogin(user.id, device.ip);
+
+            logAuthSuccess(user.id, device.ip, device.userAgent);
+        } catch (sessionError) {
+            console.error('Session creation failed (non-fatal):', sessionError);
+        }
+    } else {
+        console.log('⚡ [MOCK MODE] Skipping DB session creation for mock admin');
+    }
+
+    return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_MAX_AGE };
+}
+
+export function setSessionCookies(
+    response: NextResponse,
+    tokens: Pick<SessionTokens, 'accessToken' | 'refreshToken'>,
+    rememberMe: boolean = false
+): void {
+    // Access token cookie is read by middleware and the cookie-authenticated API routes
+    response.cookies.set('modon_auth_token', tokens.accessToken, {
+        ...cookieOptions,
+        maxAge: ACCESS_TOKEN_MAX_AGE,
+    });
+
+    response.cookies.set('modon_refresh_token', tokens.refreshToken, {
+        ...cookieOptions,
+        maxAge: rememberMe ? REMEMBER_ME_MAX_AGE : REFRESH_TOKEN_MAX_AGE,
+    });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+    for (const name of ['modon_auth_token', 'modon_refresh_token']) {
+        response.cookies.set(name, '', { ...cookieOptions, maxAge: 0, expires: new Date(0) });
+    }
+}
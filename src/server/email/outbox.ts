@@ -0,0 +1,50 @@
+/**
+ * MODON Platform - Email Outbox (Server Layer)
+ * =============================================
+ * Wires the EmailOutbox to the configured notification store and email
+ * transport. Routes queue mail here; delivery runs after the response has
+ * been sent, and the scheduled outbox route picks up anything left over.
+ */
+
+import { after } from 'next/server';
+import { getNotificationRepository } from '@/dal/repositories/RepositoryFactory';
+import { getEmailTransport } from '@/lib/email';
+import { getSiteUrl } from '@/lib/config/site';
+import { EmailOutbox, OutboxEmail } from '@/application/notifications/EmailOutbox';
+
+let emailOutbox: EmailOutbox | null = null;
+
+export function getEmailOutbox(): EmailOutbox {
+    if (!emailOutbox) {
+        emailOutbox = new EmailOutbox(getNotificationRepository(), getEmailTransport(), {
+            siteUrl: getSiteUrl(),
+        });
+    }
+    return emailOutbox;
+}
+
+/**
+ * Queue an email and send it once the response is out. Errors are logged,
+ * not thrown: a notification must never fail the request that caused it.
+ */
+export async function queueEmail(email: OutboxEmail): Promise<void> {
+    try {
+        await getEmailOutbox().enqueue(email);
+        scheduleEmailDelivery();
+    } catch (error) {
+        console.error(`[OUTBOX] Failed to queue ${email.type} email:`, error);
+    }
+}
+
+/**
+ * Deliver due emails after the current response, e.g. once alerts were queued
+ */
+export function scheduleEmailDelivery(): void {
+    after(async () => {
+        try {
+            await getEmailOutbox().deliverDue();
+        } catch (error) {
+            console.error('[OUTBOX] Delivery run failed:', error);
+        }
+    });
+}
@@ -0,0 +1,20 @@
+/**
+ * MODON Platform - Lead Deduplication (Server Layer)
+ * ===================================================
+ * Wires the LeadDeduplicationService to the configured lead and activity stores.
+ */
+
+import { getLeadActivityRepository, getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { LeadDeduplicationService } from '@/application/leads/LeadDeduplicationService';
+
+let leadDeduplicationService: LeadDeduplicationService | null = null;
+
+export function getLeadDeduplicationService(): LeadDeduplicationService {
+    if (!leadDeduplicationService) {
+        leadDeduplicationService = new LeadDeduplicationService(
+            getLeadRepository(),
+            getLeadActivityRepository()
+        );
+    }
+    return leadDeduplicationService;
+}
@@ -0,0 +1,52 @@
+/**
+ * MODON Platform - Lead Filters (Server Layer)
+ * =============================================
+ * Reads the lead list filters from the query string, for the list and the export.
+ *
+ *   status, type, q, source, property (ID), from / to (YYYY-MM-DD or ISO),
+ *   assignedTo ("me", "none" or a user ID; ignored without leads:read_all)
+ */
+
+import { LEAD_STATUSES, LEAD_TYPES } from '@/core/entities/Lead';
+import { LeadFilterCriteria } from '@/dal/interfaces';
+import { TokenPayload } from '@/server/auth/jwt';
+import { sanitizeInput } from '@/lib/sanitize';
+import { isScopedToOwnLeads } from './views';
+
+/**
+ * A date-only `to` covers that whole day
+ */
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+    if (!value) return undefined;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return undefined;
+
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+}
+
+export function leadFiltersFromQuery(searchParams: URLSearchParams, user: TokenPayload): LeadFilterCriteria {
+    const status = searchParams.get('status');
+    const type = searchParams.get('type');
+    const search = searchParams.get('q');
+    const source = searchParams.get('source');
+    const propertyId = searchParams.get('property');
+    const assignedTo = searchParams.get('assignedTo');
+
+    return {
+        status: LEAD_STATUSES.find(s => s === status),
+        type: LEAD_TYPES.find(t => t === type),
+        query: search ? sanitizeInput(search, { maxLength: 100 }) : undefined,
+        source: source ? sanitizeInput(source, { maxLength: 100 }) : undefined,
+        propertyId: propertyId ? sanitizeInput(propertyId, { maxLength: 100 }) : undefined,
+        createdFrom: parseDate(searchParams.get('from')),
+        createdTo: parseDate(searchParams.get('to'), true),
+        assignedTo: isScopedToOwnLeads(user)
+            ? user.userId
+            // "me" for the caller's own leads, "none" for leads nobody owns yet
+            : assignedTo === 'me' ? user.userId : assignedTo === 'none' ? null : assignedTo || undefined,
+    };
+}
@@ -0,0 +1,22 @@
+/**
+ * MODON Platform - Lead Pipeline (Server Layer)
+ * ==============================================
+ * Wires the LeadPipelineService to the configured lead, activity and user stores.
+ */
+
+import { getLeadActivityRepository, getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { LeadPipelineService } from '@/application/leads/LeadPipelineService';
+
+let leadPipelineService: LeadPipelineService | null = null;
+
+export function getLeadPipelineService(): LeadPipelineService {
+    if (!leadPipelineService) {
+        leadPipelineService = new LeadPipelineService(
+            getLeadRepository(),
+            userRepository,
+            getLeadActivityRepository()
+        );
+    }
+    return leadPipelineService;
+}
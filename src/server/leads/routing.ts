@@ -0,0 +1,29 @@
+/**
+ * MODON Platform - Lead Routing (Server Layer)
+ * =============================================
+ * Wires the LeadRoutingService to the configured rule, lead, property and user stores.
+ */
+
+import {
+    getLeadRepository,
+    getLeadRulesRepository,
+    getPropertyRepository,
+} from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { LeadRoutingService } from '@/application/leads/LeadRoutingService';
+import { getLeadPipelineService } from './pipeline';
+
+let leadRoutingService: LeadRoutingService | null = null;
+
+export function getLeadRoutingService(): LeadRoutingService {
+    if (!leadRoutingService) {
+        leadRoutingService = new LeadRoutingService(
+            getLeadRulesRepository(),
+            getLeadRepository(),
+            getPropertyRepository(),
+            userRepository,
+            getLeadPipelineService()
+        );
+    }
+    return leadRoutingService;
+}
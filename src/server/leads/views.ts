@@ -0,0 +1,97 @@
+/**
+ * MODON Platform - Lead API Views (Server Layer)
+ * ===============================================
+ * Response shapes shared by the lead routes, and which leads a user may see.
+ */
+
+import { NextResponse } from 'next/server';
+import { Lead, LEAD_TRANSITIONS, LeadActivity } from '@/core/entities/Lead';
+import { TokenPayload, hasPermission } from '@/server/auth/jwt';
+import { getLeadRepository } from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+
+export function toLeadView(lead: Lead) {
+    return {
+        id: lead.id,
+        name: lead.name,
+        firstName: lead.firstName,
+        lastName: lead.lastName,
+        email: lead.email,
+        phone: lead.phone ?? null,
+        subject: lead.subject ?? null,
+        message: lead.message,
+        type: lead.type,
+        status: lead.status,
+        priority: lead.priority,
+        score: lead.score ?? null,
+        preferredContact: lead.preferredContact,
+        property: lead.propertyTitle || lead.propertySlug ? {
+            id: lead.propertyId ?? null,
+            title: lead.propertyTitle ?? null,
+            slug: lead.propertySlug ?? null
+        } : null,
+        assignedTo: lead.assignedTo ?? null,
+        assignedAt: lead.assignedAt ?? null,
+        notes: lead.notes ?? null,
+        lostReason: lead.lostReason ?? null,
+        source: lead.source,
+        ipAddress: lead.ipAddress ?? null,
+        metadata: lead.metadata,
+        createdAt: lead.createdAt,
+        updatedAt: lead.updatedAt,
+        contactedAt: lead.contactedAt ?? null,
+        qualifiedAt: lead.qualifiedAt ?? null,
+        proposalAt: lead.proposalAt ?? null,
+        wonAt: lead.wonAt ?? null,
+        lostAt: lead.lostAt ?? null,
+        nextStatuses: LEAD_TRANSITIONS[lead.status]
+    };
+}
+
+/**
+ * Without leads:read_all a user only sees and works the leads assigned to them
+ */
+export function isScopedToOwnLeads(user: TokenPayload): boolean {
+    return !hasPermission(user.permissions, 'leads:read_all');
+}
+
+export function canSeeLead(user: TokenPayload, lead: Pick<Lead, 'assignedTo'>): boolean {
+    return !isScopedToOwnLeads(user) || lead.assignedTo === user.userId;
+}
+
+/**
+ * The lead, or null when it does not exist or the user may not see it
+ */
+export async function findVisibleLead(user: TokenPayload, id: string): Promise<Lead | null> {
+    const lead = await getLeadRepository().findById(id);
+    return lead && canSeeLead(user, lead) ? lead : null;
+}
+
+export const leadNotFound = () => NextResponse.json(
+    { success: false, error: 'Lead not found' },
+    { status: 404 }
+);
+
+export function toLeadActivityView(activity: LeadActivity, authors: Map<string, string>) {
+    return {
+        id: activity.id,
+        type: activity.type,
+        authorId: activity.authorId ?? null,
+        authorName: activity.authorId ? authors.get(activity.authorId) ?? null : null,
+        body: activity.body ?? null,
+        details: activity.details,
+        createdAt: activity.createdAt,
+    };
+}
+
+/**
+ * Display names for the given users; unknown IDs are left out
+ */
+export async function resolveUserNames(ids: (string | undefined)[]): Promise<Map<string, string>> {
+    const unique = [...new Set(ids.filter((id): id is string => !!id))];
+    const users = await Promise.all(unique.map(id => userRepository.findById(id).catch(() => null)));
+
+    return new Map(users
+        .filter(user => user !== null)
+        .map(user => [user.id, `${user.profile.firstName} ${user.profile.lastName}`.trim() || user.email]));
+}
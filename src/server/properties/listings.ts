@@ -0,0 +1,110 @@
+/**
+ * MODON Platform - Property Listings (Server Layer)
+ * ==================================================
+ * Turns the contract's property input into the core entity, and wires
+ * publishing to the configured stores. Shared by the admin route and the
+ * v1 API so both stores receive the same listing.
+ */
+
+import * as crypto from 'crypto';
+import type { CreateProperty } from '@/contracts/schemas';
+import { Property, PropertyStatus, createProperty } from '@/core/entities/Property';
+import {
+    getNotificationRepository,
+    getPropertyRepository,
+    getSearchHistoryRepository,
+} from '@/dal/repositories/RepositoryFactory';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { PublishPropertyUseCase } from '@/application/properties/PublishPropertyUseCase';
+import { NewListingAlertMatcher } from '@/application/alerts/NewListingAlertMatcher';
+import { sanitizeInput } from '@/lib/sanitize';
+
+export function toEntityLocation(location: CreateProperty['location']): Property['location'] {
+    return {
+        address: sanitizeInput(location.address),
+        city: sanitizeInput(location.city),
+        region: sanitizeInput(location.region),
+        country: sanitizeInput(location.country),
+        postalCode: location.postalCode,
+        coordinates: {
+            latitude: location.latitude,
+            longitude: location.longitude,
+        },
+    };
+}
+
+export function toEntitySpecs(specs: CreateProperty['specs']): Property['specs'] {
+    return {
+        bedrooms: specs.bedrooms,
+        bathrooms: specs.bathrooms,
+        livingAreaSqm: specs.area,
+        plotAreaSqm: specs.plot,
+        totalFloors: specs.floors,
+        garages: specs.garages,
+        pool: specs.pool,
+        garden: specs.garden,
+        terrace: specs.terrace,
+        seaview: specs.seaview,
+        yearBuilt: specs.yearBuilt,
+    };
+}
+
+export function toEntityPrice(price: CreateProperty['price']): Property['price'] {
+    return {
+        amount: price.amount,
+        currency: price.currency,
+        pricePerSqm: price.pricePerMeter,
+        previousPrice: price.previousPrice,
+    };
+}
+
+export function toEntityImages(images: CreateProperty['images']): Property['images'] {
+    return images.map(image => ({ ...image, alt: sanitizeInput(image.alt) }));
+}
+
+export function toEntityFeatures(features: CreateProperty['features']): Property['features'] {
+    return features.map(feature => ({ ...feature, id: feature.name }));
+}
+
+export function generateReferenceCode(): string {
+    const now = new Date();
+    return `MOD-${now.toISOString().slice(2, 4)}${String(now.getMonth() + 1).padStart(2, '0')}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+/**
+ * A new listing from validated contract input, ready for IPropertyRepository.create
+ */
+export function toNewProperty(data: CreateProperty, status: PropertyStatus = 'draft'): Property {
+    return createProperty({
+        referenceCode: generateReferenceCode(),
+        title: sanitizeInput(data.title),
+        titleAr: data.titleAr ? sanitizeInput(data.titleAr) : undefined,
+        description: sanitizeInput(data.description, { maxLength: 5000 }),
+        descriptionAr: data.descriptionAr ? sanitizeInput(data.descriptionAr, { maxLength: 5000 }) : undefined,
+        shortDescription: data.shortDescription ? sanitizeInput(data.shortDescription) : undefined,
+        type: data.type,
+        listingType: data.listingType,
+        status,
+        isFeatured: data.isFeatured,
+        isOffMarket: data.isOffMarket,
+        isExclusive: data.isExclusive,
+        location: toEntityLocation(data.location),
+        specs: toEntitySpecs(data.specs),
+        price: toEntityPrice(data.price),
+        images: toEntityImages(data.images),
+        videoUrl: data.videoUrl,
+        virtualTourUrl: data.virtualTourUrl,
+        floorPlanUrl: data.floorPlanUrl,
+        features: toEntityFeatures(data.features),
+        lifestyle: data.lifestyle,
+        agentId: data.agentId,
+        ownerId: data.ownerId,
+    });
+}
+
+export function getPublishPropertyUseCase(): PublishPropertyUseCase {
+    return new PublishPropertyUseCase(
+        getPropertyRepository(),
+        new NewListingAlertMatcher(getSearchHistoryRepository(), userRepository, getNotificationRepository())
+    );
+}
@@ -0,0 +1,19 @@
+/**
+ * MODON Platform - IP Blocklist (Server Layer)
+ * =============================================
+ * Wires the IpBlocklistService to the configured blocklist store and the
+ * security event log, which doubles as the blocklist's audit trail.
+ */
+
+import { getIpBlocklistStore } from '@/lib/security/ip-blocklist';
+import { logSecurityEventNow } from '@/discoverx/monitoring/logging';
+import { IpBlocklistService } from '@/application/security/IpBlocklistService';
+
+let ipBlocklistService: IpBlocklistService | null = null;
+
+export function getIpBlocklistService(): IpBlocklistService {
+    if (!ipBlocklistService) {
+        ipBlocklistService = new IpBlocklistService(getIpBlocklistStore(), logSecurityEventNow);
+    }
+    return ipBlocklistService;
+}
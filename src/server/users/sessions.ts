@@ -0,0 +1,39 @@
+/**
+ * MODON Platform - Force Logout (Server Layer)
+ * =============================================
+ * Ends every session of a user on an admin's behalf, for the admin user
+ * routes and the /api/v1 users service. Each force logout is recorded in the
+ * security event log (sessions_revoked).
+ */
+
+import type { NextRequest } from 'next/server';
+import type { TokenPayload } from '@/server/auth/jwt';
+import { userRepository } from '@/dal/repositories/SupabaseUserRepository';
+import { UserSessionService } from '@/application/auth/UserSessionService';
+import { logSecurityEventNow } from '@/discoverx/monitoring/logging';
+import { getClientIp } from '@/lib/security/rate-limit';
+
+/**
+ * Revoke all sessions of the user. Returns false when the user does not exist.
+ * Access tokens already issued stay valid until they expire.
+ */
+export async function forceLogout(request: NextRequest, actor: TokenPayload, userId: string): Promise<boolean> {
+    const target = await userRepository.findById(userId);
+    if (!target) return false;
+
+    await new UserSessionService(userRepository).revokeAll(target.id);
+
+    await logSecurityEventNow({
+        type: 'sessions_revoked',
+        severity: 'medium',
+        userId: target.id,
+        ip: getClientIp(request),
+        userAgent: request.headers.get('user-agent') || 'unknown',
+        path: request.nextUrl.pathname,
+        method: request.method,
+        details: { revokedBy: actor.userId, revokedByEmail: actor.email },
+    });
+
+    console.info(`[API] Sessions of user ${target.id} revoked by ${actor.email}`);
+    return true;
+}
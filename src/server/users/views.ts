@@ -0,0 +1,22 @@
+/**
+ * MODON Platform - User API Views (Server Layer)
+ * ===============================================
+ * Response shape shared by the admin user routes and the /api/v1 users service.
+ */
+
+import { isLocked, User } from '@/core/entities/User';
+
+export function toUserView(user: User) {
+    return {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        status: user.status,
+        profile: user.profile,
+        emailVerified: user.emailVerified,
+        createdAt: user.createdAt,
+        lastLoginAt: user.lastLoginAt,
+        locked: isLocked(user),
+        lockedUntil: isLocked(user) ? user.lockedUntil : undefined,
+    };
+}
@@ -0,0 +1,81 @@
+-- ==============================================
+-- INQUIRIES TABLE MIGRATION
+-- Per-property inquiries routed to the listing agent
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Create inquiries table
+CREATE TABLE IF NOT EXISTS inquiries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Routing
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    agent_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE
+    SET NULL,
+        -- Contact Information
+        name VARCHAR(200) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        phone VARCHAR(50),
+        message TEXT NOT NULL,
+        -- Preferences
+        preferred_contact VARCHAR(20),
+        -- Values: email, phone, whatsapp
+        request_viewing BOOLEAN DEFAULT FALSE,
+        viewing_date TIMESTAMPTZ,
+        -- Workflow
+        status VARCHAR(20) NOT NULL DEFAULT 'new',
+        -- Statuses: new, read, replied, closed
+        read_at TIMESTAMPTZ,
+        replied_at TIMESTAMPTZ,
+        -- Timestamps
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_inquiries_property_id ON inquiries(property_id);
+CREATE INDEX IF NOT EXISTS idx_inquiries_agent_status ON inquiries(agent_id, status);
+CREATE INDEX IF NOT EXISTS idx_inquiries_user_id ON inquiries(user_id);
+CREATE INDEX IF NOT EXISTS idx_inquiries_created_at ON inquiries(created_at DESC);
+-- Add updated_at trigger
+CREATE OR REPLACE FUNCTION update_inquiries_updated_at() RETURNS TRIGGER AS $$ BEGIN NEW.updated_at = NOW();
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS trigger_inquiries_updated_at ON inquiries;
+CREATE TRIGGER trigger_inquiries_updated_at BEFORE
+UPDATE ON inquiries FOR EACH ROW EXECUTE FUNCTION update_inquiries_updated_at();
+-- Inquiry counter on the property
+CREATE OR REPLACE FUNCTION increment_property_inquiries(property_id UUID) RETURNS VOID AS $$ BEGIN
+UPDATE properties
+SET inquiries_count = COALESCE(inquiries_count, 0) + 1
+WHERE id = increment_property_inquiries.property_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+-- Only the server (service role) may bump the counter
+REVOKE EXECUTE ON FUNCTION increment_property_inquiries(UUID)
+FROM PUBLIC,
+    anon,
+    authenticated;
+GRANT EXECUTE ON FUNCTION increment_property_inquiries(UUID) TO service_role;
+-- Row Level Security (RLS)
+ALTER TABLE inquiries ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON inquiries FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Policy: Agents can view and update inquiries on their listings
+CREATE POLICY "Agents can view own inquiries" ON inquiries FOR
+SELECT TO authenticated USING (agent_id = auth.uid());
+CREATE POLICY "Agents can update own inquiries" ON inquiries FOR
+UPDATE TO authenticated USING (agent_id = auth.uid());
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON inquiries TO service_role;
+GRANT SELECT,
+    UPDATE ON inquiries TO authenticated;
+-- ==============================================
+-- VERIFICATION QUERIES
+-- ==============================================
+-- Unread inquiries per agent
+-- SELECT agent_id, COUNT(*) FROM inquiries WHERE status = 'new' GROUP BY agent_id;
+-- Inquiries per property
+-- SELECT property_id, status, COUNT(*) FROM inquiries GROUP BY property_id, status;
@@ -0,0 +1,48 @@
+-- ==============================================
+-- SEARCH HISTORY MIGRATION
+-- Recent searches and named saved searches per user
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Create search_history table
+CREATE TABLE IF NOT EXISTS search_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Saved searches carry a name; NULL means plain history
+    name VARCHAR(100),
+    -- Free-text part of the search (used for popularity stats)
+    query TEXT NOT NULL DEFAULT '',
+    -- Full PropertySearchCriteria as JSON
+    filters JSONB NOT NULL DEFAULT '{}',
+    result_count INTEGER NOT NULL DEFAULT 0,
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_search_history_user_created ON search_history(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_history_saved ON search_history(user_id)
+WHERE name IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_search_history_query ON search_history(LOWER(query));
+-- Popular search terms (admin analytics)
+CREATE OR REPLACE FUNCTION get_popular_searches(result_limit INTEGER DEFAULT 10) RETURNS TABLE(query TEXT, count BIGINT) AS $$
+SELECT LOWER(TRIM(sh.query)) AS query,
+    COUNT(*) AS count
+FROM search_history sh
+WHERE TRIM(sh.query) <> ''
+GROUP BY LOWER(TRIM(sh.query))
+ORDER BY count DESC,
+    query ASC
+LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+-- Row Level Security (RLS)
+ALTER TABLE search_history ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON search_history FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Policy: Users manage their own searches
+CREATE POLICY "Users manage own searches" ON search_history FOR ALL TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    DELETE ON search_history TO service_role;
+GRANT SELECT,
+    INSERT,
+    DELETE ON search_history TO authenticated;
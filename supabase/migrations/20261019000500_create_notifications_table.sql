@@ -0,0 +1,67 @@
+-- ==============================================
+-- NOTIFICATIONS (OUTBOX) MIGRATION
+-- Queued user notifications, e.g. new-listing alerts
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Delivery
+    channel VARCHAR(20) NOT NULL DEFAULT 'email',
+    type VARCHAR(50) NOT NULL,
+    -- Types: new_listing_alert
+    recipient VARCHAR(255) NOT NULL,
+    locale VARCHAR(5) NOT NULL DEFAULT 'en',
+    payload JSONB NOT NULL DEFAULT '{}',
+    -- One notification per event and user
+    dedupe_key VARCHAR(255) UNIQUE,
+    -- Workflow
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    -- Statuses: pending, sent, failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    sent_at TIMESTAMPTZ
+);
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(created_at)
+WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+-- Record a delivery attempt atomically
+CREATE OR REPLACE FUNCTION mark_notification_attempt(
+        notification_id UUID,
+        succeeded BOOLEAN,
+        error_message TEXT
+    ) RETURNS VOID AS $$ BEGIN
+UPDATE notifications
+SET attempts = attempts + 1,
+    status = CASE
+        WHEN succeeded THEN 'sent'
+        ELSE 'failed'
+    END,
+    sent_at = CASE
+        WHEN succeeded THEN NOW()
+        ELSE sent_at
+    END,
+    last_error = CASE
+        WHEN succeeded THEN NULL
+        ELSE error_message
+    END
+WHERE id = notification_id;
+END;
+$$ LANGUAGE plpgsql;
+-- Row Level Security (RLS)
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON notifications FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Policy: Users can read their own notifications
+CREATE POLICY "Users can view own notifications" ON notifications FOR
+SELECT TO authenticated USING (user_id = auth.uid());
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON notifications TO service_role;
+GRANT SELECT ON notifications TO authenticated;
@@ -0,0 +1,23 @@
+-- ==============================================
+-- PROPERTY BASE PRICE MIGRATION
+-- Listing price in the platform default currency (EGP), so price sorting
+-- works across listings stored in EUR, AED, ...
+-- Written by the application on create/update; run this in Supabase SQL Editor
+-- ==============================================
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS price_base NUMERIC;
+-- Backfill with the built-in rates (units per 1 EGP); later writes use live rates
+UPDATE properties
+SET price_base = price / CASE
+        UPPER(price_currency)
+        WHEN 'EGP' THEN 1.0
+        WHEN 'EUR' THEN 0.019
+        WHEN 'USD' THEN 0.020
+        WHEN 'GBP' THEN 0.016
+        WHEN 'AED' THEN 0.074
+        WHEN 'SAR' THEN 0.076
+        ELSE 1.0
+    END
+WHERE price_base IS NULL;
+-- Index for price sorting of live listings
+CREATE INDEX IF NOT EXISTS idx_properties_status_price_base ON properties(status, price_base);
@@ -0,0 +1,21 @@
+-- ==============================================
+-- USER SESSION FAMILIES MIGRATION
+-- Refresh-token rotation: every refresh revokes the presented session row and
+-- inserts its successor in the same family. A revoked token presented again
+-- revokes the whole family (reuse detection).
+-- Run this in Supabase SQL Editor
+-- ==============================================
+ALTER TABLE user_sessions
+ADD COLUMN IF NOT EXISTS family_id UUID;
+ALTER TABLE user_sessions
+ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES user_sessions(id) ON DELETE SET NULL;
+-- Existing sessions each start their own family
+UPDATE user_sessions
+SET family_id = id
+WHERE family_id IS NULL;
+ALTER TABLE user_sessions
+ALTER COLUMN family_id SET DEFAULT gen_random_uuid();
+ALTER TABLE user_sessions
+ALTER COLUMN family_id SET NOT NULL;
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sessions_family_id ON user_sessions(family_id);
@@ -0,0 +1,35 @@
+-- ==============================================
+-- TWO-FACTOR AUTHENTICATION MIGRATION
+-- TOTP (RFC 6238) secrets, one-time recovery codes and per-role enforcement
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Secrets are AES-256-GCM encrypted by the application (TWO_FACTOR_ENCRYPTION_KEY)
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS two_factor_secret TEXT;
+-- Secret awaiting its first code during enrollment
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS two_factor_pending_secret TEXT;
+-- SHA-256 hashes of the unused recovery codes
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS two_factor_recovery_codes JSONB NOT NULL DEFAULT '[]';
+-- Last accepted TOTP time step, so a code cannot be replayed
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS two_factor_last_used_step BIGINT;
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMPTZ;
+-- Roles that must use two-factor authentication (set by admins)
+CREATE TABLE IF NOT EXISTS two_factor_policies (
+    role VARCHAR(50) PRIMARY KEY,
+    required BOOLEAN NOT NULL DEFAULT false,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+-- Row Level Security (RLS)
+ALTER TABLE two_factor_policies ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON two_factor_policies FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON two_factor_policies TO service_role;
@@ -0,0 +1,62 @@
+-- ==============================================
+-- NOTIFICATION OUTBOX RETRIES MIGRATION
+-- Scheduled retries and claiming for email delivery
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Lead and inquiry acknowledgements go to visitors without an account
+ALTER TABLE notifications
+ALTER COLUMN user_id DROP NOT NULL;
+-- When a pending notification may next be attempted (also used as a claim lease)
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+-- Types: new_listing_alert, password_reset, email_verification,
+--        lead_acknowledgement, inquiry_received, inquiry_acknowledgement
+DROP INDEX IF EXISTS idx_notifications_pending;
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON notifications(next_attempt_at)
+WHERE status = 'pending';
+-- Claim due notifications; concurrent workers never receive the same row
+CREATE OR REPLACE FUNCTION claim_due_notifications(
+        batch_size INTEGER,
+        lease_seconds INTEGER
+    ) RETURNS SETOF notifications AS $$ BEGIN RETURN QUERY
+UPDATE notifications
+SET next_attempt_at = NOW() + make_interval(secs => lease_seconds)
+WHERE id IN (
+        SELECT id
+        FROM notifications
+        WHERE status = 'pending'
+            AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT batch_size FOR
+        UPDATE SKIP LOCKED
+    )
+RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+-- Record a delivery attempt atomically; a failure with retry_at stays pending
+DROP FUNCTION IF EXISTS mark_notification_attempt(UUID, BOOLEAN, TEXT);
+CREATE OR REPLACE FUNCTION mark_notification_attempt(
+        notification_id UUID,
+        succeeded BOOLEAN,
+        error_message TEXT,
+        retry_at TIMESTAMPTZ DEFAULT NULL
+    ) RETURNS VOID AS $$ BEGIN
+UPDATE notifications
+SET attempts = attempts + 1,
+    status = CASE
+        WHEN succeeded THEN 'sent'
+        WHEN retry_at IS NOT NULL THEN 'pending'
+        ELSE 'failed'
+    END,
+    next_attempt_at = COALESCE(retry_at, next_attempt_at),
+    sent_at = CASE
+        WHEN succeeded THEN NOW()
+        ELSE sent_at
+    END,
+    last_error = CASE
+        WHEN succeeded THEN NULL
+        ELSE error_message
+    END
+WHERE id = notification_id;
+END;
+$$ LANGUAGE plpgsql;
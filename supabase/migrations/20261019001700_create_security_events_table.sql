@@ -0,0 +1,85 @@
+-- ==============================================
+-- SECURITY EVENTS MIGRATION
+-- Persisted security log: auth failures, rate-limit hits, attack attempts
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Create security_events table
+CREATE TABLE IF NOT EXISTS security_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type VARCHAR(50) NOT NULL,
+    -- Types: auth_success, auth_failure, access_denied, rate_limit, ddos_attempt,
+    --        injection_attempt, xss_attempt, csrf_attempt, ssrf_attempt, brute_force,
+    --        session_hijack, privilege_escalation, data_breach, malicious_upload,
+    --        suspicious_activity
+    severity VARCHAR(10) NOT NULL,
+    -- Severities: low, medium, high, critical
+    -- No foreign key: events outlive the accounts they mention
+    user_id UUID,
+    -- Text rather than INET: proxies may report unparseable values
+    ip VARCHAR(64) NOT NULL,
+    user_agent TEXT NOT NULL DEFAULT '',
+    path TEXT NOT NULL,
+    method VARCHAR(10),
+    details JSONB NOT NULL DEFAULT '{}',
+    request_id VARCHAR(100),
+    session_id VARCHAR(100),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_security_events_created ON security_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_type_created ON security_events(type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_ip_created ON security_events(ip, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_user_created ON security_events(user_id, created_at DESC)
+WHERE user_id IS NOT NULL;
+-- Event counts per type and hour/day, for the admin security dashboard
+CREATE OR REPLACE FUNCTION security_event_timeline(
+        bucket TEXT,
+        from_time TIMESTAMPTZ,
+        to_time TIMESTAMPTZ,
+        event_types TEXT [] DEFAULT NULL,
+        event_severities TEXT [] DEFAULT NULL,
+        event_ip TEXT DEFAULT NULL,
+        event_user_id UUID DEFAULT NULL
+    ) RETURNS TABLE (
+        bucket_start TIMESTAMPTZ,
+        type VARCHAR(50),
+        event_count BIGINT
+    ) AS $$ BEGIN IF bucket NOT IN ('hour', 'day') THEN RAISE EXCEPTION 'Invalid bucket: %',
+    bucket;
+END IF;
+RETURN QUERY
+SELECT date_trunc(bucket, e.created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS bucket_start,
+    e.type,
+    COUNT(*) AS event_count
+FROM security_events e
+WHERE e.created_at >= from_time
+    AND e.created_at <= to_time
+    AND (
+        event_types IS NULL
+        OR e.type = ANY(event_types)
+    )
+    AND (
+        event_severities IS NULL
+        OR e.severity = ANY(event_severities)
+    )
+    AND (
+        event_ip IS NULL
+        OR e.ip = event_ip
+    )
+    AND (
+        event_user_id IS NULL
+        OR e.user_id = event_user_id
+    )
+GROUP BY 1,
+    2
+ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+-- Row Level Security (RLS)
+ALTER TABLE security_events ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON security_events FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    DELETE ON security_events TO service_role;
@@ -0,0 +1,54 @@
+-- ==============================================
+-- ROLE PERMISSIONS MIGRATION
+-- Permission sets per role and per-user grants/revocations, edited by super_admins
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- One row per role; roles without a row use the built-in defaults (src/server/auth/jwt.ts)
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role VARCHAR(50) PRIMARY KEY,
+    permissions TEXT [] NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+-- Start from the built-in defaults (super_admin always holds every permission)
+INSERT INTO role_permissions (role, permissions)
+VALUES (
+        'buyer',
+        ARRAY ['properties:read', 'favorites:manage', 'inquiries:create', 'profile:manage']
+    ),
+    (
+        'agent',
+        ARRAY ['properties:read', 'properties:create', 'properties:update', 'favorites:manage',
+        'inquiries:read', 'inquiries:manage', 'profile:manage', 'analytics:own']
+    ),
+    (
+        'admin',
+        ARRAY ['properties:read', 'properties:create', 'properties:update', 'properties:delete',
+        'properties:manage_all', 'users:read', 'users:manage', 'agents:manage', 'inquiries:read',
+        'inquiries:read_all', 'inquiries:manage', 'leads:read', 'leads:manage', 'analytics:view',
+        'security:read', 'security:manage', 'admin:access']
+    ) ON CONFLICT (role) DO NOTHING;
+-- Per-user changes on top of the role set
+CREATE TABLE IF NOT EXISTS user_permission_overrides (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    permission VARCHAR(100) NOT NULL,
+    effect VARCHAR(10) NOT NULL CHECK (effect IN ('grant', 'revoke')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, permission)
+);
+-- Row Level Security (RLS)
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_permission_overrides ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON role_permissions FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY "Service role full access" ON user_permission_overrides FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON role_permissions TO service_role;
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON user_permission_overrides TO service_role;
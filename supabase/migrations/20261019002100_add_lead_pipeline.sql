@@ -0,0 +1,39 @@
+-- ==============================================
+-- LEAD PIPELINE MIGRATION
+-- Enforced stages (new -> contacted -> qualified -> proposal -> won/lost) with
+-- the time a lead last entered each stage, and assignment to agents.
+-- Run this in Supabase SQL Editor
+-- ==============================================
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS qualified_at TIMESTAMPTZ;
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS proposal_at TIMESTAMPTZ;
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS won_at TIMESTAMPTZ;
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS lost_at TIMESTAMPTZ;
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS lost_reason TEXT;
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ;
+-- The old admin screen closed leads instead of marking them lost
+UPDATE leads
+SET status = 'lost',
+    lost_at = COALESCE(lost_at, updated_at)
+WHERE status = 'closed';
+ALTER TABLE leads DROP CONSTRAINT IF EXISTS leads_status_check;
+ALTER TABLE leads
+ADD CONSTRAINT leads_status_check CHECK (
+        status IN ('new', 'contacted', 'qualified', 'proposal', 'won', 'lost')
+    );
+-- Agents work their assigned leads; admins see and assign all of them
+UPDATE role_permissions
+SET permissions = permissions || ARRAY ['leads:read', 'leads:manage']
+WHERE role = 'agent'
+    AND NOT permissions @> ARRAY ['leads:read'];
+UPDATE role_permissions
+SET permissions = permissions || ARRAY ['leads:read_all', 'leads:assign']
+WHERE role = 'admin'
+    AND NOT permissions @> ARRAY ['leads:read_all'];
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_status ON leads(assigned_to, status);
@@ -0,0 +1,50 @@
+-- ==============================================
+-- LEAD ACTIVITIES MIGRATION
+-- Timeline of each lead: status and assignment changes, notes, calls, emails
+-- and viewings, with who logged them and when
+-- Run this in Supabase SQL Editor
+-- ==============================================
+CREATE TABLE IF NOT EXISTS lead_activities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (
+        type IN (
+            'status_change',
+            'assignment',
+            'note',
+            'call',
+            'email',
+            'viewing'
+        )
+    ),
+    -- NULL for changes made by the system
+    author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    body TEXT,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead_created ON lead_activities(lead_id, created_at DESC);
+-- Existing notes become the first entry of each timeline
+INSERT INTO lead_activities (lead_id, type, body, created_at)
+SELECT id,
+    'note',
+    notes,
+    updated_at
+FROM leads
+WHERE notes IS NOT NULL
+    AND notes <> ''
+    AND NOT EXISTS (
+        SELECT 1
+        FROM lead_activities
+        WHERE lead_activities.lead_id = leads.id
+    );
+-- Row Level Security (RLS)
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON lead_activities FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON lead_activities TO service_role;
@@ -0,0 +1,32 @@
+-- ==============================================
+-- LEAD SCORING & ROUTING MIGRATION
+-- Score stored on each lead, the admin-editable scoring and routing rules,
+-- and the agent city and specializations routing matches on
+-- Run this in Supabase SQL Editor
+-- ==============================================
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS score INTEGER;
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS city VARCHAR(100);
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS country VARCHAR(100);
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS specializations TEXT [];
+-- A single row holds the platform's rules; the app uses its defaults until one is saved
+CREATE TABLE IF NOT EXISTS lead_rules (
+    id VARCHAR(50) PRIMARY KEY DEFAULT 'default',
+    rules JSONB NOT NULL,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_leads_score ON leads(score DESC);
+-- Row Level Security (RLS)
+ALTER TABLE lead_rules ENABLE ROW LEVEL SECURITY;
+-- Policy: Service role can do everything
+CREATE POLICY "Service role full access" ON lead_rules FOR ALL TO service_role USING (true) WITH CHECK (true);
+-- Grant permissions
+GRANT SELECT,
+    INSERT,
+    UPDATE,
+    DELETE ON lead_rules TO service_role;
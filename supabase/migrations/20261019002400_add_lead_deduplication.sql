@@ -0,0 +1,23 @@
+-- ==============================================
+-- LEAD DEDUPLICATION MIGRATION
+-- Repeat form submissions join the person's open lead, and duplicate leads
+-- can be merged; both are recorded on the lead's timeline
+-- Run this in Supabase SQL Editor
+-- ==============================================
+-- Phone numbers are compared on their digits only
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS phone_digits TEXT GENERATED ALWAYS AS (regexp_replace(phone, '\D', '', 'g')) STORED;
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_type_check;
+ALTER TABLE lead_activities
+ADD CONSTRAINT lead_activities_type_check CHECK (
+        type IN (
+            'status_change',
+            'assignment',
+            'note',
+            'call',
+            'email',
+            'viewing',
+            'submission',
+            'merge'
+        )
+    );
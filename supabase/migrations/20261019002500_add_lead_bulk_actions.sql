@@ -0,0 +1,13 @@
+-- ==============================================
+-- LEAD BULK ACTIONS MIGRATION
+-- Admins can delete leads in bulk, and the lead list
+-- filters by source and property
+-- Run this in Supabase SQL Editor
+-- ==============================================
+UPDATE role_permissions
+SET permissions = permissions || ARRAY ['leads:delete']
+WHERE role = 'admin'
+    AND NOT permissions @> ARRAY ['leads:delete'];
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_leads_source ON leads(source);
+CREATE INDEX IF NOT EXISTS idx_leads_property_id ON leads(property_id);